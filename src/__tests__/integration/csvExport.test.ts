@@ -1,17 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { simulationToCSV, downloadCSV, exportSimulationToCSV } from '@/lib/export/csvExport'
-import type { SimulationResult } from '@/lib/api/types'
+import { simulationToCSV, downloadCSV, exportSimulationToCSV, taxLotsToCSV } from '@/lib/export/csvExport'
+import { createEmptyTaxLotReport } from '@/lib/calculation/taxLots'
+import type { SimulationResult, TaxLotReport } from '@/lib/api/types'
 
 describe('CSV Export Integration', () => {
   // Sample simulation result for testing
   const mockSimulationResult: SimulationResult = {
     points: [
-      { date: '2023-01-03', principal: 100, marketValue: 100, totalValue: 100, shares: 0.794, dividends: 0 },
-      { date: '2023-02-01', principal: 200, marketValue: 208, totalValue: 208, shares: 1.548, dividends: 0 },
-      { date: '2023-02-10', principal: 200, marketValue: 210, totalValue: 210.23, shares: 1.550, dividends: 0.23 },
-      { date: '2023-03-01', principal: 300, marketValue: 324, totalValue: 324.23, shares: 2.289, dividends: 0.23 },
-      { date: '2023-04-03', principal: 400, marketValue: 448, totalValue: 448.46, shares: 3.012, dividends: 0.46 },
-      { date: '2023-05-01', principal: 500, marketValue: 580, totalValue: 580.69, shares: 3.720, dividends: 0.69 },
+      { date: '2023-01-03', principal: 100, marketValue: 100, totalValue: 100, shares: 0.794, dividends: 0, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-02-01', principal: 200, marketValue: 208, totalValue: 208, shares: 1.548, dividends: 0, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-02-10', principal: 200, marketValue: 210, totalValue: 210.23, shares: 1.550, dividends: 0.23, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-03-01', principal: 300, marketValue: 324, totalValue: 324.23, shares: 2.289, dividends: 0.23, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-04-03', principal: 400, marketValue: 448, totalValue: 448.46, shares: 3.012, dividends: 0.46, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-05-01', principal: 500, marketValue: 580, totalValue: 580.69, shares: 3.720, dividends: 0.69, fees: 0, cash: 0, withdrawn: 0 },
     ],
     finalShares: 3.720,
     totalInvested: 500,
@@ -19,6 +20,13 @@ describe('CSV Export Integration', () => {
     finalValue: 580.69,
     totalReturn: 16.14,
     cagr: 52.3,
+    totalFees: 0,
+    totalDividendTaxes: 0,
+    xirr: 0,
+    totalWithdrawn: 0,
+    depletionDate: null,
+    remainingBalance: 0,
+    taxLots: createEmptyTaxLotReport(),
   }
 
   const mockConfig = {
@@ -53,6 +61,13 @@ describe('CSV Export Integration', () => {
       expect(csv).toContain('# Start Date: 2023-01-01')
       expect(csv).toContain('# End Date: 2023-12-31')
       expect(csv).toContain('# DRIP Enabled: Yes')
+      expect(csv).toContain('# Execution Price: close')
+    })
+
+    it('records the execution price in the header', () => {
+      const csv = simulationToCSV(mockSimulationResult, { ...mockConfig, executionPrice: 'worst' })
+
+      expect(csv).toContain('# Execution Price: worst')
     })
 
     it('includes summary statistics', () => {
@@ -67,6 +82,21 @@ describe('CSV Export Integration', () => {
       expect(csv).toContain('# Final Shares: 3.7200')
     })
 
+    it('includes total fees and the fee model when provided', () => {
+      const csv = simulationToCSV(
+        { ...mockSimulationResult, totalFees: 12.5 },
+        {
+          ...mockConfig,
+          fees: { flatPerTrade: 1, percentPerTrade: 0.1, spreadBps: 5, expenseRatio: 0.03 },
+        }
+      )
+
+      expect(csv).toContain('# Fees: $1/trade + 0.1% commission, 5 bps spread, 0.03% expense ratio')
+      expect(csv).toContain('# Total Fees: $12.50')
+      expect(csv).toContain('Date,Principal,Market Value,Total Value,Shares,Dividends,Fees')
+      expect(csv).toContain('2023-01-03,100.00,100.00,100.00,0.7940,0.00,0.00')
+    })
+
     it('generates correct number of data rows', () => {
       const csv = simulationToCSV(mockSimulationResult, mockConfig)
       const lines = csv.split('\n')
@@ -142,6 +172,9 @@ describe('CSV Export Integration', () => {
             totalValue: 1525000,
             shares: 10000.5678,
             dividends: 25000,
+            fees: 0,
+            cash: 0,
+            withdrawn: 0,
           },
         ],
         finalShares: 10000.5678,
@@ -150,6 +183,13 @@ describe('CSV Export Integration', () => {
         finalValue: 1525000,
         totalReturn: 52.5,
         cagr: 15.5,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
 
       const csv = simulationToCSV(largeResult, mockConfig)
@@ -174,6 +214,40 @@ describe('CSV Export Integration', () => {
     })
   })
 
+  describe('taxLotsToCSV', () => {
+    const report: TaxLotReport = {
+      ...createEmptyTaxLotReport('hifo'),
+      lots: [
+        { acquired: '2023-01-03', source: 'contribution', shares: 0.794, costBasis: 100, marketValue: 124.9, term: 'short' },
+      ],
+      realized: [
+        { acquired: '2023-02-01', source: 'dividend', sold: '2023-05-01', shares: 0.5, proceeds: 78, costBasis: 67, gain: 11, term: 'short' },
+      ],
+      costBasis: 100,
+      unrealizedShortTerm: 24.9,
+      realizedShortTerm: 11,
+    }
+
+    it('includes the lot selection method and gain summary', () => {
+      const csv = taxLotsToCSV(report, 'AAPL')
+
+      expect(csv).toContain('# Lot Selection: HIFO')
+      expect(csv).toContain('# Cost Basis: $100.00')
+      expect(csv).toContain('# Unrealized Short-Term Gain: $24.90')
+      expect(csv).toContain('# Realized Short-Term Gain: $11.00')
+    })
+
+    it('writes one row per open lot and per sale', () => {
+      const csv = taxLotsToCSV(report, 'AAPL')
+      const rows = csv.split('\n').filter((line) => line && !line.startsWith('#'))
+
+      expect(rows[0]).toBe('Status,Ticker,Acquired,Sold,Source,Shares,Cost Basis,Value,Gain,Term')
+      expect(rows[1]).toBe('Open,AAPL,2023-01-03,,contribution,0.7940,100.00,124.90,24.90,short')
+      expect(rows[2]).toBe('Sold,AAPL,2023-02-01,2023-05-01,dividend,0.5000,67.00,78.00,11.00,short')
+      expect(rows).toHaveLength(3)
+    })
+  })
+
   describe('downloadCSV', () => {
     let createObjectURLMock: ReturnType<typeof vi.fn>
     let revokeObjectURLMock: ReturnType<typeof vi.fn>
@@ -334,11 +408,11 @@ describe('CSV Export Integration', () => {
       )
 
       // First non-comment line should be header
-      expect(dataLines[0]).toBe('Date,Principal,Market Value,Total Value,Shares,Dividends')
+      expect(dataLines[0]).toBe('Date,Principal,Market Value,Total Value,Shares,Dividends,Fees')
 
       // Parse first data row
       const firstDataRow = dataLines[1].split(',')
-      expect(firstDataRow).toHaveLength(6)
+      expect(firstDataRow).toHaveLength(7)
       expect(firstDataRow[0]).toBe('2023-01-03') // Date
       expect(parseFloat(firstDataRow[1])).toBe(100) // Principal
       expect(parseFloat(firstDataRow[2])).toBe(100) // Market Value
@@ -355,6 +429,9 @@ describe('CSV Export Integration', () => {
             totalValue: 110,
             shares: 1,
             dividends: 0,
+            fees: 0,
+            cash: 0,
+            withdrawn: 0,
           },
         ],
       }
@@ -374,8 +451,8 @@ describe('CSV Export Integration', () => {
 
       for (const line of dataLines) {
         const columns = line.split(',')
-        // Should have exactly 6 columns per data row
-        expect(columns).toHaveLength(6)
+        // Should have exactly 7 columns per data row
+        expect(columns).toHaveLength(7)
       }
     })
   })
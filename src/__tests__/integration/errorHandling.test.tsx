@@ -3,6 +3,7 @@ import { render, screen, fireEvent } from '@testing-library/react'
 import { useSimulationStore } from '@/store/simulationStore'
 import { useConfigStore } from '@/store/configStore'
 import { runDCASimulation } from '@/lib/calculation/dcaEngine'
+import { createEmptyTaxLotReport } from '@/lib/calculation/taxLots'
 import { ErrorBoundary, ChartErrorFallback, MetricsErrorFallback } from '@/components/ui/ErrorBoundary'
 import type { PricePoint, SimulationResult } from '@/lib/api/types'
 
@@ -370,13 +371,20 @@ describe('Error Handling Integration', () => {
       // Retry succeeds
       useSimulationStore.getState().setPrimaryLoading('AAPL')
       const mockResult: SimulationResult = {
-        points: [{ date: '2023-01-03', principal: 100, marketValue: 105, totalValue: 105, shares: 1, dividends: 0 }],
+        points: [{ date: '2023-01-03', principal: 100, marketValue: 105, totalValue: 105, shares: 1, dividends: 0, fees: 0, cash: 0, withdrawn: 0 }],
         finalShares: 1,
         totalInvested: 100,
         totalDividends: 0,
         finalValue: 105,
         totalReturn: 5,
         cagr: 5,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
       useSimulationStore.getState().setPrimaryResult('AAPL', mockResult)
 
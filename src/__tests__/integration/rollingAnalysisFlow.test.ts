@@ -24,9 +24,19 @@ function createMockRollingResult(
       endDate: `${startYear + 5}-01-01`,
       totalReturn: 30 + i * 10, // 30%, 40%, 50%, etc.
       cagr: 5 + i,
+      xirr: 9 + i,
+      totalWithdrawn: 0,
+      depletionDate: null,
       finalValue: 7000 + i * 500,
       totalInvested: 6000,
       monthlyValues: Array(61).fill(0).map((_, j) => 100 + j * 10),
+      monthlyInvested: Array(61).fill(0).map((_, j) => 100 + j * 100),
+      monthlyWithdrawn: Array(61).fill(0),
+      lumpSumFinalValue: 7200 + i * 500,
+      lumpSumReturn: 20 + i * 10,
+      lumpSumMonthlyValues: Array(61).fill(0).map((_, j) => 6000 + j * 20),
+      lumpSumMonthlyInvested: Array(61).fill(6000),
+      lumpSumMonthlyWithdrawn: Array(61).fill(0),
     })
   }
 
@@ -53,15 +63,37 @@ function createMockRollingResult(
         p75: Array(61).fill(50),
         p90: Array(61).fill(60),
       },
+      lumpSumValueBands: {
+        p10: Array(61).fill(6200),
+        p25: Array(61).fill(6700),
+        p50: Array(61).fill(7200),
+        p75: Array(61).fill(7700),
+        p90: Array(61).fill(8200),
+      },
+      lumpSumReturnBands: {
+        p10: Array(61).fill(10),
+        p25: Array(61).fill(15),
+        p50: Array(61).fill(20),
+        p75: Array(61).fill(25),
+        p90: Array(61).fill(30),
+      },
     },
     stats: {
       windowCount,
       medianReturn: 50,
       medianCAGR: 7,
+      medianXIRR: 11,
       successRate: 100,
+      withdrawalSuccessRate: null,
+      medianRealCAGR: null,
       bestWindow: windows[windowCount - 1],
       worstWindow: windows[0],
       returnDistribution: { negative: 0, low: 20, medium: 40, high: 40 },
+      lumpSum: {
+        winRate: 0,
+        averageMargin: -10,
+        marginDistribution: { p10: -10, p25: -10, p50: -10, p75: -10, p90: -10 },
+      },
     },
     windows,
     dataRange: {
@@ -101,7 +133,7 @@ describe('Rolling Analysis Store', () => {
 
     it('has default available horizons', () => {
       const state = useRollingAnalysisStore.getState()
-      expect(state.availableHorizons).toEqual([5, 10, 15, 20])
+      expect(state.availableHorizons).toEqual(Array.from({ length: 40 }, (_, i) => i + 1))
     })
   })
 
@@ -208,17 +240,52 @@ describe('Rolling Analysis Store', () => {
       expect(useRollingAnalysisStore.getState().chartData).toEqual([])
     })
 
+    it('resets lumpSumChartData to empty', () => {
+      useRollingAnalysisStore.getState().setLumpSumChartData([
+        { time: 0, p10: 100, p25: 110, p50: 120, p75: 130, p90: 140 },
+      ])
+      useRollingAnalysisStore.getState().clearResults()
+      expect(useRollingAnalysisStore.getState().lumpSumChartData).toEqual([])
+    })
+
     it('resets isComputing to false', () => {
       useRollingAnalysisStore.getState().setComputing(true)
       useRollingAnalysisStore.getState().clearResults()
       expect(useRollingAnalysisStore.getState().isComputing).toBe(false)
     })
 
+    it('resets progress to 0', () => {
+      useRollingAnalysisStore.getState().setProgress(40)
+      useRollingAnalysisStore.getState().clearResults()
+      expect(useRollingAnalysisStore.getState().progress).toBe(0)
+    })
+
     it('resets error to null', () => {
       useRollingAnalysisStore.getState().setError('Some error')
       useRollingAnalysisStore.getState().clearResults()
       expect(useRollingAnalysisStore.getState().error).toBeNull()
     })
+
+    it('resets comparisons', () => {
+      const result = createMockRollingResult()
+      useRollingAnalysisStore.getState().setComparisons([
+        {
+          ticker: 'SPY',
+          result,
+          matchup: { windowCount: 5, winRate: 60, medianCAGRDifference: 1 },
+        },
+      ])
+      useRollingAnalysisStore.getState().setComparisonChartData([
+        { ticker: 'SPY', data: [{ time: 0, p10: 100, p25: 110, p50: 120, p75: 130, p90: 140 }] },
+      ])
+      useRollingAnalysisStore.getState().setComparing(true)
+      useRollingAnalysisStore.getState().clearResults()
+
+      const state = useRollingAnalysisStore.getState()
+      expect(state.comparisons).toEqual([])
+      expect(state.comparisonChartData).toEqual([])
+      expect(state.isComparing).toBe(false)
+    })
   })
 
   describe('state transitions', () => {
@@ -3,6 +3,7 @@ import { useConfigStore } from '@/store/configStore'
 import { useSimulationStore } from '@/store/simulationStore'
 import { usePlaybackStore } from '@/store/playbackStore'
 import { runDCASimulation } from '@/lib/calculation/dcaEngine'
+import { createEmptyTaxLotReport } from '@/lib/calculation/taxLots'
 import type { SimulationResult, PricePoint, DividendHistory } from '@/lib/api/types'
 
 describe('Simulation Flow Integration', () => {
@@ -19,7 +20,7 @@ describe('Simulation Flow Integration', () => {
     it('simulation store updates when primary result is set', () => {
       const mockResult: SimulationResult = {
         points: [
-          { date: '2023-01-03', principal: 100, marketValue: 105, totalValue: 105, shares: 0.8, dividends: 0 },
+          { date: '2023-01-03', principal: 100, marketValue: 105, totalValue: 105, shares: 0.8, dividends: 0, fees: 0, cash: 0, withdrawn: 0 },
         ],
         finalShares: 0.8,
         totalInvested: 100,
@@ -27,6 +28,13 @@ describe('Simulation Flow Integration', () => {
         finalValue: 105,
         totalReturn: 5,
         cagr: 5,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
 
       useSimulationStore.getState().setPrimaryResult('AAPL', mockResult)
@@ -54,6 +62,13 @@ describe('Simulation Flow Integration', () => {
         finalValue: 0,
         totalReturn: 0,
         cagr: 0,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
 
       useSimulationStore.getState().setPrimaryResult('AAPL', mockResult)
@@ -76,13 +91,20 @@ describe('Simulation Flow Integration', () => {
   describe('comparison ticker flow', () => {
     it('adds comparison result correctly', () => {
       const mockResult: SimulationResult = {
-        points: [{ date: '2023-01-03', principal: 100, marketValue: 110, totalValue: 110, shares: 1, dividends: 0 }],
+        points: [{ date: '2023-01-03', principal: 100, marketValue: 110, totalValue: 110, shares: 1, dividends: 0, fees: 0, cash: 0, withdrawn: 0 }],
         finalShares: 1,
         totalInvested: 100,
         totalDividends: 0,
         finalValue: 110,
         totalReturn: 10,
         cagr: 10,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
 
       useSimulationStore.getState().addComparisonResult('MSFT', mockResult)
@@ -102,6 +124,13 @@ describe('Simulation Flow Integration', () => {
         finalValue: 110,
         totalReturn: 10,
         cagr: 10,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
 
       const result2: SimulationResult = {
@@ -112,6 +141,13 @@ describe('Simulation Flow Integration', () => {
         finalValue: 120,
         totalReturn: 20,
         cagr: 20,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
 
       useSimulationStore.getState().addComparisonResult('MSFT', result1)
@@ -132,6 +168,13 @@ describe('Simulation Flow Integration', () => {
         finalValue: 110,
         totalReturn: 10,
         cagr: 10,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
 
       const updatedResult: SimulationResult = {
@@ -142,6 +185,13 @@ describe('Simulation Flow Integration', () => {
         finalValue: 250,
         totalReturn: 25,
         cagr: 25,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
 
       useSimulationStore.getState().addComparisonResult('MSFT', initialResult)
@@ -161,6 +211,13 @@ describe('Simulation Flow Integration', () => {
         finalValue: 110,
         totalReturn: 10,
         cagr: 10,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
 
       useSimulationStore.getState().addComparisonResult('MSFT', result)
@@ -378,13 +435,20 @@ describe('Simulation Flow Integration', () => {
     it('clearAll resets simulation state', () => {
       // Add some data
       const mockResult: SimulationResult = {
-        points: [{ date: '2023-01-03', principal: 100, marketValue: 100, totalValue: 100, shares: 1, dividends: 0 }],
+        points: [{ date: '2023-01-03', principal: 100, marketValue: 100, totalValue: 100, shares: 1, dividends: 0, fees: 0, cash: 0, withdrawn: 0 }],
         finalShares: 1,
         totalInvested: 100,
         totalDividends: 0,
         finalValue: 100,
         totalReturn: 0,
         cagr: 0,
+        totalFees: 0,
+        totalDividendTaxes: 0,
+        xirr: 0,
+        totalWithdrawn: 0,
+        depletionDate: null,
+        remainingBalance: 0,
+        taxLots: createEmptyTaxLotReport(),
       }
 
       useSimulationStore.getState().setPrimaryResult('AAPL', mockResult)
@@ -420,4 +484,53 @@ describe('Simulation Flow Integration', () => {
       expect(state.comparisonTickers).toHaveLength(0)
     })
   })
+
+  describe('risk metrics', () => {
+    const prices: PricePoint[] = Array.from({ length: 300 }, (_, i) => {
+      const date = new Date('2022-01-03')
+      date.setDate(date.getDate() + i)
+      const close = 100 + 10 * Math.sin(i / 15) + i * 0.05
+      return { date: date.toISOString().split('T')[0], open: close, high: close, low: close, close, volume: 1000 }
+    })
+    const config = {
+      amount: 100,
+      frequency: 'monthly' as const,
+      startDate: '2022-01-03',
+      isDRIP: true,
+    }
+
+    it('attaches risk metrics to primary, comparison and benchmark results', () => {
+      const result = runDCASimulation(prices, [], config)
+
+      useSimulationStore.getState().setPrimaryResult('AAPL', result)
+      useSimulationStore.getState().addComparisonResult('MSFT', result)
+      useSimulationStore.getState().addBenchmarkResult('SPY', result)
+
+      const state = useSimulationStore.getState()
+      expect(state.primary?.risk?.maxDrawdown).toBeLessThan(0)
+      expect(state.primary?.risk?.volatility).toBeGreaterThan(0)
+      expect(state.comparisons[0].risk).toEqual(state.primary?.risk)
+      expect(state.benchmarks[0].risk).toEqual(state.primary?.risk)
+    })
+
+    it('recomputes ratios when the risk-free rate changes', () => {
+      const result = runDCASimulation(prices, [], config)
+      useSimulationStore.getState().setRiskFreeRate(0)
+      useSimulationStore.getState().setPrimaryResult('AAPL', result)
+      const sharpeAtZero = useSimulationStore.getState().primary?.risk?.sharpeRatio ?? 0
+
+      useSimulationStore.getState().setRiskFreeRate(5)
+      const risk = useSimulationStore.getState().primary?.risk
+
+      expect(risk?.sharpeRatio).toBeLessThan(sharpeAtZero)
+      expect(risk?.volatility).toBeGreaterThan(0)
+    })
+
+    it('clears risk metrics while loading', () => {
+      useSimulationStore.getState().setPrimaryResult('AAPL', runDCASimulation(prices, [], config))
+      useSimulationStore.getState().setPrimaryLoading('AAPL')
+
+      expect(useSimulationStore.getState().primary?.risk).toBeNull()
+    })
+  })
 })
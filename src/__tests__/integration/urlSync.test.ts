@@ -54,6 +54,36 @@ describe('URL Sync Integration', () => {
       expect(url).toContain('d=1')
     })
 
+    it('includes the real dollars flag only when enabled', () => {
+      const store = useConfigStore.getState()
+      expect(getShareableURL()).not.toMatch(/[?&]i=/)
+
+      store.setRealDollars(true)
+
+      expect(new URL(getShareableURL()).searchParams.get('i')).toBe('1')
+    })
+
+    it('includes the schedule anchor unless it is the start date', () => {
+      const store = useConfigStore.getState()
+      expect(getShareableURL()).not.toMatch(/[?&]n=/)
+
+      store.setFrequency('quarterly')
+      store.setScheduleAnchor({ kind: 'nthWeekday', nth: 3, weekday: 5 })
+
+      const params = new URL(getShareableURL()).searchParams
+      expect(params.get('f')).toBe('quarterly')
+      expect(params.get('n')).toBe('nth:3:5')
+    })
+
+    it('includes the execution price unless it is the close', () => {
+      const store = useConfigStore.getState()
+      expect(getShareableURL()).not.toMatch(/[?&]q=/)
+
+      store.setExecutionPrice('typical')
+
+      expect(new URL(getShareableURL()).searchParams.get('q')).toBe('typical')
+    })
+
     it('supports tickers with dots and dashes', () => {
       const store = useConfigStore.getState()
 
@@ -76,6 +106,82 @@ describe('URL Sync Integration', () => {
       store.setFrequency('monthly')
       expect(getShareableURL()).toContain('f=monthly')
     })
+
+    it('includes contribution schedule adjustments only when set', () => {
+      const store = useConfigStore.getState()
+      expect(getShareableURL()).not.toMatch(/[?&](g|o|p)=/)
+
+      store.setAnnualIncrease(3)
+      store.setAmountOverrides([{ date: '2022-01-01', amount: 250 }])
+      store.setPauses([{ start: '2021-01-01', end: '2021-06-30' }])
+
+      const params = new URL(getShareableURL()).searchParams
+      expect(params.get('g')).toBe('3')
+      expect(params.get('o')).toBe('2022-01-01:250')
+      expect(params.get('p')).toBe('2021-01-01~2021-06-30')
+    })
+
+    it('includes portfolio holdings and rebalancing in portfolio mode', () => {
+      const store = useConfigStore.getState()
+      store.setPortfolioHoldings([
+        { ticker: 'vti', weight: 70 },
+        { ticker: 'bnd', weight: 30 },
+      ])
+      store.setRebalance({ strategy: 'threshold', threshold: 10 })
+      expect(getShareableURL()).not.toMatch(/[?&](w|r)=/)
+
+      store.setViewMode('portfolio')
+
+      const params = new URL(getShareableURL()).searchParams
+      expect(params.get('v')).toBe('portfolio')
+      expect(params.get('w')).toBe('VTI:70,BND:30')
+      expect(params.get('r')).toBe('threshold:10')
+    })
+
+    it('includes the rolling band mode in rolling mode', () => {
+      const store = useConfigStore.getState()
+      store.setRollingBandMode('return')
+      expect(getShareableURL()).not.toMatch(/[?&]y=/)
+
+      store.setViewMode('rolling')
+
+      const params = new URL(getShareableURL()).searchParams
+      expect(params.get('x')).toBe('normalized')
+      expect(params.get('y')).toBe('return')
+    })
+
+    it('includes the rolling horizon and custom percentiles in rolling mode', () => {
+      const store = useConfigStore.getState()
+      store.setViewMode('rolling')
+      store.setRollingHorizon(3)
+
+      let params = new URL(getShareableURL()).searchParams
+      expect(params.get('h')).toBe('3')
+      expect(params.get('k')).toBeNull()
+
+      store.setRollingPercentiles([95, 5, 25])
+
+      params = new URL(getShareableURL()).searchParams
+      expect(params.get('k')).toBe('5,25,50,75,95')
+    })
+
+    it('includes the Monte Carlo settings in Monte Carlo mode', () => {
+      const store = useConfigStore.getState()
+      store.setMonteCarloHorizon(30)
+      store.setMonteCarloPaths(10000)
+      store.setMonteCarloSeed(1234)
+      expect(getShareableURL()).not.toMatch(/[?&]m=/)
+
+      store.setViewMode('montecarlo')
+
+      const params = new URL(getShareableURL()).searchParams
+      expect(params.get('v')).toBe('montecarlo')
+      expect(params.get('m')).toBe('30,10000,12,1234')
+      expect(params.get('k')).toBeNull()
+
+      store.setRollingPercentiles([5, 25])
+      expect(new URL(getShareableURL()).searchParams.get('k')).toBe('5,25,50,75,95')
+    })
   })
 
   describe('URL parameter parsing', () => {
@@ -6,14 +6,23 @@ import { RollingChart } from '@/components/chart/RollingChart'
 import { PlaybackControls } from '@/components/chart/PlaybackControls'
 import { RollingControls } from '@/components/chart/RollingControls'
 import { WindowExplorer } from '@/components/chart/WindowExplorer'
+import { RollingHeatmap } from '@/components/chart/RollingHeatmap'
+import { RollingDistributionPanel } from '@/components/chart/RollingDistributionPanel'
 import { ComparisonGrid } from '@/components/chart/ComparisonGrid'
+import { PortfolioChart } from '@/components/chart/PortfolioChart'
+import { MonteCarloChart } from '@/components/chart/MonteCarloChart'
+import { MonteCarloControls } from '@/components/chart/MonteCarloControls'
 import { ConfigPanel } from '@/components/config/ConfigPanel'
 import { MetricsSummary } from '@/components/summary/MetricsSummary'
 import { RollingMetricsSummary } from '@/components/summary/RollingMetricsSummary'
+import { PortfolioSummary } from '@/components/summary/PortfolioSummary'
+import { MonteCarloSummary } from '@/components/summary/MonteCarloSummary'
 import { Drawer } from '@/components/ui/Drawer'
 import { ViewModeToggle } from '@/components/ui/ViewModeToggle'
 import { useDCASimulation } from '@/hooks/useDCASimulation'
 import { useRollingWindowAnalysis } from '@/hooks/useRollingWindowAnalysis'
+import { usePortfolioSimulation } from '@/hooks/usePortfolioSimulation'
+import { useMonteCarloProjection } from '@/hooks/useMonteCarloProjection'
 import { useURLSync } from '@/hooks/useURLSync'
 import { useConfigStore } from '@/store/configStore'
 import {
@@ -61,10 +70,14 @@ export default function Home() {
   // Initialize simulation hooks based on view mode
   useDCASimulation()
   useRollingWindowAnalysis()
+  usePortfolioSimulation()
+  useMonteCarloProjection()
   // Sync config with URL for shareable links
   useURLSync()
 
   const isRollingMode = viewMode === 'rolling'
+  const isPortfolioMode = viewMode === 'portfolio'
+  const isMonteCarloMode = viewMode === 'montecarlo'
 
   return (
     <main className="min-h-screen p-4 md:p-8 lg:px-12">
@@ -82,7 +95,11 @@ export default function Home() {
               <p className="text-gray-400">
                 {isRollingMode
                   ? 'Analyze historical DCA outcomes across all time periods'
-                  : 'See how recurring investments would have grown over time'}
+                  : isPortfolioMode
+                    ? 'See how a weighted mix of holdings would have grown over time'
+                    : isMonteCarloMode
+                      ? 'Project recurring investments forward from resampled history'
+                      : 'See how recurring investments would have grown over time'}
               </p>
             </div>
           </div>
@@ -119,6 +136,40 @@ export default function Home() {
               <ErrorBoundary>
                 <WindowExplorer />
               </ErrorBoundary>
+
+              <ErrorBoundary>
+                <RollingDistributionPanel />
+              </ErrorBoundary>
+
+              <ErrorBoundary>
+                <RollingHeatmap />
+              </ErrorBoundary>
+            </>
+          ) : isPortfolioMode ? (
+            <>
+              {/* Portfolio Mode */}
+              <ErrorBoundary fallback={<MetricsErrorFallback />}>
+                <PortfolioSummary onSettingsClick={() => setIsDrawerOpen(true)} />
+              </ErrorBoundary>
+
+              <ErrorBoundary fallback={<ChartErrorFallback />}>
+                <PortfolioChart />
+              </ErrorBoundary>
+            </>
+          ) : isMonteCarloMode ? (
+            <>
+              {/* Monte Carlo Mode */}
+              <ErrorBoundary fallback={<MetricsErrorFallback />}>
+                <MonteCarloSummary onSettingsClick={() => setIsDrawerOpen(true)} />
+              </ErrorBoundary>
+
+              <ErrorBoundary fallback={<ChartErrorFallback />}>
+                <MonteCarloChart />
+              </ErrorBoundary>
+
+              <ErrorBoundary>
+                <MonteCarloControls />
+              </ErrorBoundary>
             </>
           ) : (
             <>
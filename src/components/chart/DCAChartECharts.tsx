@@ -7,7 +7,9 @@ import { useSimulationStore } from '@/store/simulationStore'
 import { usePlaybackStore } from '@/store/playbackStore'
 import { useConfigStore } from '@/store/configStore'
 import { formatCurrency } from '@/lib/calculation/dcaEngine'
+import { deflatePoints } from '@/lib/calculation/inflation'
 import { ChartSkeleton } from '@/components/ui/Skeleton'
+import type { SimulationPoint } from '@/lib/api/types'
 
 // Benchmark series colors (matching the other chart implementations)
 const BENCHMARK_COLORS = ['#9ca3af', '#6b7280', '#d1d5db', '#4b5563']
@@ -28,7 +30,7 @@ function formatAxisCurrency(value: number): string {
 export function DCAChartECharts() {
   const { primary, benchmarks } = useSimulationStore()
   const { currentIndex } = usePlaybackStore()
-  const { showLumpSum } = useConfigStore()
+  const { showLumpSum, realDollars } = useConfigStore()
 
   // Retry countdown state
   const [nowMs, setNowMs] = useState(() => Date.now())
@@ -43,14 +45,30 @@ export function DCAChartECharts() {
     ? Math.max(0, Math.ceil((primary.retryAt - nowMs) / 1000))
     : null
 
+  // Series points, deflated into the last simulated date's dollars in real mode.
+  // Kept apart from the option so playback doesn't redo the conversion every frame.
+  const displayPoints = useMemo(() => {
+    const points = primary?.result?.points ?? []
+    const referenceDate = points.length > 0 ? points[points.length - 1].date : null
+    const toDisplay = <T extends SimulationPoint>(series: T[] | undefined) =>
+      series && realDollars && referenceDate ? deflatePoints(series, referenceDate) : series
+
+    return {
+      primary: toDisplay(points) ?? [],
+      lumpSum: toDisplay(primary?.lumpSumResult?.points),
+      dca: toDisplay(primary?.dcaResult?.points),
+      benchmarks: benchmarks.map((bench) => toDisplay(bench.result?.points)),
+    }
+  }, [primary, benchmarks, realDollars])
+
   // Build ECharts option
   const option: EChartsOption = useMemo(() => {
-    if (!primary?.result?.points || primary.result.points.length === 0) {
+    if (!primary?.result || displayPoints.primary.length === 0) {
       return {}
     }
 
-    const visibleIndex = Math.min(currentIndex + 1, primary.result.points.length)
-    const visiblePoints = primary.result.points.slice(0, visibleIndex)
+    const visibleIndex = Math.min(currentIndex + 1, displayPoints.primary.length)
+    const visiblePoints = displayPoints.primary.slice(0, visibleIndex)
 
     // X-axis dates
     const xData = visiblePoints.map((p) => p.date)
@@ -117,9 +135,47 @@ export function DCAChartECharts() {
       },
     ]
 
+    // Uninvested Cash (teal) - only when whole-share purchases leave cash behind
+    if (displayPoints.primary.some((p) => p.cash > 0)) {
+      series.push({
+        name: 'Uninvested Cash',
+        type: 'line',
+        data: visiblePoints.map((p) => p.cash),
+        smooth: true,
+        symbol: 'none',
+        lineStyle: {
+          width: 1.5,
+          color: '#14b8a6',
+        },
+        emphasis: {
+          focus: 'series',
+        },
+        animationDuration: 300,
+      })
+    }
+
+    // Withdrawn (yellow) - cumulative withdrawals paid out
+    if (primary.result.totalWithdrawn > 0) {
+      series.push({
+        name: 'Withdrawn',
+        type: 'line',
+        data: visiblePoints.map((p) => p.withdrawn),
+        smooth: true,
+        symbol: 'none',
+        lineStyle: {
+          width: 1.5,
+          color: '#eab308',
+        },
+        emphasis: {
+          focus: 'series',
+        },
+        animationDuration: 300,
+      })
+    }
+
     // Lump Sum (orange dashed) - if enabled
-    if (showLumpSum && primary.lumpSumResult?.points) {
-      const lumpSumPoints = primary.lumpSumResult.points.slice(0, visibleIndex)
+    if (showLumpSum && displayPoints.lumpSum) {
+      const lumpSumPoints = displayPoints.lumpSum.slice(0, visibleIndex)
       series.push({
         name: 'Lump Sum',
         type: 'line',
@@ -138,10 +194,32 @@ export function DCAChartECharts() {
       })
     }
 
+    // Plain DCA (green dashed) - baseline when another contribution strategy is active
+    if (displayPoints.dca) {
+      const dcaPoints = displayPoints.dca.slice(0, visibleIndex)
+      series.push({
+        name: 'Plain DCA',
+        type: 'line',
+        data: dcaPoints.map((p) => p.totalValue),
+        smooth: true,
+        symbol: 'none',
+        lineStyle: {
+          width: 2,
+          color: '#86efac',
+          type: 'dashed',
+        },
+        emphasis: {
+          focus: 'series',
+        },
+        animationDuration: 300,
+      })
+    }
+
     // Benchmarks (gray dashed lines)
     benchmarks.forEach((bench, index) => {
-      if (bench.result?.points && bench.result.points.length > 0) {
-        const benchPoints = bench.result.points.slice(0, visibleIndex)
+      const points = displayPoints.benchmarks[index]
+      if (points && points.length > 0) {
+        const benchPoints = points.slice(0, visibleIndex)
         series.push({
           name: bench.ticker,
           type: 'line',
@@ -214,6 +292,8 @@ export function DCAChartECharts() {
           // Find principal and market value for gain/loss calculation
           let principal = 0
           let marketValue = 0
+          let cash = 0
+          let withdrawn = 0
 
           paramArray.forEach((item) => {
             const color = item.color as string
@@ -225,6 +305,12 @@ export function DCAChartECharts() {
             if (item.seriesName === 'Market Value') {
               marketValue = item.value
             }
+            if (item.seriesName === 'Uninvested Cash') {
+              cash = item.value
+            }
+            if (item.seriesName === 'Withdrawn') {
+              withdrawn = item.value
+            }
 
             html += `
               <div style="display: flex; justify-content: space-between; gap: 20px; margin: 4px 0;">
@@ -238,8 +324,8 @@ export function DCAChartECharts() {
           })
 
           // Add gain/loss if we have both values
-          if (principal > 0 && marketValue > 0) {
-            const gainLoss = marketValue - principal
+          if (principal > 0 && (marketValue > 0 || withdrawn > 0)) {
+            const gainLoss = marketValue + cash + withdrawn - principal
             const gainLossPercent = (gainLoss / principal) * 100
             const isProfit = gainLoss >= 0
             const color = isProfit ? '#4ade80' : '#f87171'
@@ -305,6 +391,13 @@ export function DCAChartECharts() {
       },
       yAxis: {
         type: 'value',
+        name: realDollars
+          ? `${displayPoints.primary[displayPoints.primary.length - 1].date.substring(0, 4)} dollars`
+          : undefined,
+        nameTextStyle: {
+          color: '#6b7280',
+          fontSize: 11,
+        },
         animation: true,
         animationDuration: 300,
         animationDurationUpdate: 300,
@@ -328,7 +421,7 @@ export function DCAChartECharts() {
       },
       series,
     }
-  }, [primary, currentIndex, showLumpSum, benchmarks])
+  }, [primary, displayPoints, currentIndex, showLumpSum, realDollars, benchmarks])
 
   // Determine display state
   const showLoading = primary?.isLoading
@@ -0,0 +1,17 @@
+'use client'
+
+import dynamic from 'next/dynamic'
+import { ChartSkeleton } from '@/components/ui/Skeleton'
+
+/**
+ * Dynamic import wrapper for MonteCarloChartCanvas
+ * - SSR disabled to prevent canvas issues during server rendering
+ * - Shows skeleton while the chart component loads
+ */
+export const MonteCarloChart = dynamic(
+  () => import('./MonteCarloChartCanvas').then((mod) => mod.MonteCarloChartCanvas),
+  {
+    ssr: false,
+    loading: () => <ChartSkeleton />,
+  }
+)
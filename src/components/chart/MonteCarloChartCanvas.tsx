@@ -0,0 +1,450 @@
+'use client'
+
+import { useEffect, useLayoutEffect, useRef, useState, useMemo, useCallback } from 'react'
+import {
+  createChart,
+  type IChartApi,
+  type ISeriesApi,
+  type MouseEventParams,
+  ColorType,
+  CrosshairMode,
+  LineSeries,
+  LineStyle,
+} from 'lightweight-charts'
+import { useMonteCarloStore } from '@/store/monteCarloStore'
+import {
+  renderPercentileBands,
+  createRendererConfig,
+  formatBandValue,
+  formatPercentileLabel,
+  getBandPairs,
+  getBandColor,
+  DEFAULT_COLORS,
+} from '@/lib/chart/PercentileBandPlugin'
+import { DEFAULT_PERCENTILES, percentileKey } from '@/lib/calculation/percentileUtils'
+import { ChartSkeleton } from '@/components/ui/Skeleton'
+import type { MonteCarloResult, RollingChartDataPoint } from '@/lib/api/types'
+
+const INVESTED_COLOR = '#9ca3af' // gray-400
+
+interface TooltipData {
+  visible: boolean
+  x: number
+  y: number
+  time: number
+  point: RollingChartDataPoint | null
+  invested: number | null
+}
+
+/**
+ * Unix timestamp (seconds) of the first of the month, monthOffset months
+ * after startDate (YYYY-MM-01)
+ */
+function monthOffsetToTimestamp(startDate: string, monthOffset: number): number {
+  const date = new Date(`${startDate}T00:00:00Z`)
+  date.setUTCMonth(date.getUTCMonth() + monthOffset)
+  return Math.floor(date.getTime() / 1000)
+}
+
+/**
+ * Chart-ready band points and the invested line, on a calendar time axis
+ */
+function transformToChartData(result: MonteCarloResult | null): {
+  bands: RollingChartDataPoint[]
+  invested: Array<{ time: number; value: number }>
+} {
+  if (!result) return { bands: [], invested: [] }
+
+  const keys = Object.keys(result.valueBands) as (keyof typeof result.valueBands)[]
+  const bands: RollingChartDataPoint[] = []
+  const invested: Array<{ time: number; value: number }> = []
+
+  for (const offset of result.monthOffsets) {
+    const time = monthOffsetToTimestamp(result.startDate, offset)
+    const point: RollingChartDataPoint = { time }
+    for (const key of keys) {
+      point[key] = result.valueBands[key][offset] ?? 0
+    }
+    bands.push(point)
+    invested.push({ time, value: result.invested[offset] })
+  }
+
+  return { bands, invested }
+}
+
+function formatMonth(time: number): string {
+  return new Date(time * 1000).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+export function MonteCarloChartCanvas() {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const bandCanvasRef = useRef<HTMLCanvasElement>(null)
+  const chartRef = useRef<IChartApi | null>(null)
+  const chartCreatedRef = useRef(false)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const medianSeriesRef = useRef<ISeriesApi<any> | null>(null)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const investedSeriesRef = useRef<ISeriesApi<any> | null>(null)
+  const dataLookupRef = useRef<Map<number, { point: RollingChartDataPoint; invested: number }>>(
+    new Map()
+  )
+
+  const [tooltip, setTooltip] = useState<TooltipData>({
+    visible: false,
+    x: 0,
+    y: 0,
+    time: 0,
+    point: null,
+    invested: null,
+  })
+
+  const { result, isComputing, error } = useMonteCarloStore()
+
+  const percentiles = result?.config.percentiles ?? DEFAULT_PERCENTILES
+  const bandPairs = getBandPairs(percentiles)
+
+  const chartData = useMemo(() => transformToChartData(result), [result])
+
+  // Store lookup in a ref for the crosshair callback
+  useEffect(() => {
+    const lookup = new Map<number, { point: RollingChartDataPoint; invested: number }>()
+    chartData.bands.forEach((point, i) => {
+      lookup.set(point.time, { point, invested: chartData.invested[i].value })
+    })
+    dataLookupRef.current = lookup
+  }, [chartData])
+
+  // Handle crosshair move for tooltip
+  const handleCrosshairMove = useCallback((param: MouseEventParams) => {
+    if (!param.point || !param.time) {
+      setTooltip((prev) => ({ ...prev, visible: false }))
+      return
+    }
+
+    const time = param.time as number
+    const entry = dataLookupRef.current.get(time)
+
+    if (entry) {
+      setTooltip({
+        visible: true,
+        x: param.point.x,
+        y: param.point.y,
+        time,
+        point: entry.point,
+        invested: entry.invested,
+      })
+    }
+  }, [])
+
+  // Draw percentile bands on canvas overlay
+  const drawBands = useCallback(() => {
+    const canvas = bandCanvasRef.current
+    const chart = chartRef.current
+    if (!canvas || !chart || chartData.bands.length === 0) return
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    const chartElement = containerRef.current
+    if (!chartElement) return
+
+    // Sync canvas size with chart
+    const rect = chartElement.getBoundingClientRect()
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = rect.width * dpr
+    canvas.height = rect.height * dpr
+    canvas.style.width = `${rect.width}px`
+    canvas.style.height = `${rect.height}px`
+    ctx.scale(dpr, dpr)
+
+    ctx.clearRect(0, 0, rect.width, rect.height)
+
+    const timeScale = chart.timeScale()
+    const medianSeries = medianSeriesRef.current
+
+    if (!medianSeries) return
+
+    const timeToX = (time: number): number => {
+      const coord = timeScale.timeToCoordinate(time as never)
+      return coord ?? 0
+    }
+
+    const priceToY = (price: number): number => {
+      const coord = medianSeries.priceToCoordinate(price)
+      return coord ?? 0
+    }
+
+    const config = createRendererConfig(chartData.bands, percentiles)
+    renderPercentileBands(ctx, config, timeToX, priceToY)
+  }, [chartData, percentiles])
+
+  // Initialize chart on mount
+  useLayoutEffect(() => {
+    if (!containerRef.current) return
+
+    // Strict Mode guard
+    if (chartCreatedRef.current && chartRef.current) {
+      return
+    }
+
+    const chart = createChart(containerRef.current, {
+      autoSize: true,
+      layout: {
+        background: { type: ColorType.Solid, color: '#1f2937' },
+        textColor: '#9ca3af',
+      },
+      grid: {
+        vertLines: { color: '#374151' },
+        horzLines: { color: '#374151' },
+      },
+      crosshair: {
+        mode: CrosshairMode.Normal,
+        vertLine: {
+          color: '#6b7280',
+          width: 1,
+          style: 2,
+        },
+        horzLine: {
+          color: '#6b7280',
+          width: 1,
+          style: 2,
+        },
+      },
+      rightPriceScale: {
+        borderColor: '#374151',
+        scaleMargins: {
+          top: 0.1,
+          bottom: 0.1,
+        },
+      },
+      timeScale: {
+        borderColor: '#374151',
+        secondsVisible: false,
+        tickMarkFormatter: (time: number) =>
+          new Date(time * 1000).toLocaleDateString('en-US', {
+            month: 'short',
+            year: '2-digit',
+            timeZone: 'UTC',
+          }),
+      },
+      handleScroll: true,
+      handleScale: true,
+    })
+
+    // Median line series (transparent - bands are drawn on the overlay), which
+    // also sets the price scale the overlay maps onto
+    const medianSeries = chart.addSeries(LineSeries, {
+      color: 'transparent',
+      lineWidth: 1,
+      priceLineVisible: false,
+      crosshairMarkerVisible: false,
+    })
+
+    const investedSeries = chart.addSeries(LineSeries, {
+      color: INVESTED_COLOR,
+      lineWidth: 1,
+      lineStyle: LineStyle.Dashed,
+      priceLineVisible: false,
+      lastValueVisible: false,
+      crosshairMarkerVisible: false,
+    })
+
+    chart.subscribeCrosshairMove(handleCrosshairMove)
+
+    chartRef.current = chart
+    medianSeriesRef.current = medianSeries
+    investedSeriesRef.current = investedSeries
+    chartCreatedRef.current = true
+
+    // Handle resize
+    const resizeObserver = new ResizeObserver((entries) => {
+      if (entries[0] && chartRef.current) {
+        const { width, height } = entries[0].contentRect
+        chartRef.current.applyOptions({ width, height })
+        requestAnimationFrame(drawBands)
+      }
+    })
+
+    resizeObserver.observe(containerRef.current)
+
+    return () => {
+      resizeObserver.disconnect()
+      chart.unsubscribeCrosshairMove(handleCrosshairMove)
+      chart.remove()
+      chartRef.current = null
+      medianSeriesRef.current = null
+      investedSeriesRef.current = null
+      chartCreatedRef.current = false
+    }
+  }, [handleCrosshairMove, drawBands])
+
+  // Update series data when the projection changes
+  useEffect(() => {
+    if (!medianSeriesRef.current || !investedSeriesRef.current) return
+    if (chartData.bands.length === 0) return
+
+    medianSeriesRef.current.setData(
+      chartData.bands.map((point) => ({ time: point.time, value: point.p50 })) as never
+    )
+    investedSeriesRef.current.setData(chartData.invested as never)
+
+    if (chartRef.current) {
+      chartRef.current.priceScale('right').applyOptions({
+        autoScale: true,
+      })
+      chartRef.current.timeScale().fitContent()
+    }
+
+    requestAnimationFrame(drawBands)
+  }, [chartData, drawBands])
+
+  // Redraw bands when chart moves/scales
+  useEffect(() => {
+    const chart = chartRef.current
+    if (!chart) return
+
+    const handleTimeRangeChange = () => {
+      requestAnimationFrame(drawBands)
+    }
+
+    chart.timeScale().subscribeVisibleTimeRangeChange(handleTimeRangeChange)
+
+    return () => {
+      chart.timeScale().unsubscribeVisibleTimeRangeChange(handleTimeRangeChange)
+    }
+  }, [drawBands])
+
+  // Determine display state
+  const showLoading = isComputing
+  const showError = !!error
+  const showEmpty = chartData.bands.length === 0 && !isComputing && !error
+  const showChart = !showLoading && !showError && !showEmpty
+
+  return (
+    <div className="h-[50vh] min-h-[400px] max-h-[700px] bg-gray-900/50 rounded-xl relative overflow-hidden">
+      {/* Chart container */}
+      <div
+        ref={containerRef}
+        className={`w-full h-full ${showChart ? '' : 'invisible'}`}
+      />
+
+      {/* Canvas overlay for band rendering */}
+      <canvas
+        ref={bandCanvasRef}
+        className={`absolute top-0 left-0 pointer-events-none ${
+          showChart ? '' : 'invisible'
+        }`}
+        style={{ zIndex: 1 }}
+      />
+
+      {/* State overlays */}
+      {showEmpty && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="text-gray-400">
+            Select a ticker to project from its history
+          </div>
+        </div>
+      )}
+
+      {showLoading && (
+        <div className="absolute inset-0">
+          <ChartSkeleton />
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-sm text-gray-300">Simulating paths...</div>
+          </div>
+        </div>
+      )}
+
+      {showError && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="text-center">
+            <div className="text-red-400">{error}</div>
+          </div>
+        </div>
+      )}
+
+      {/* Legend */}
+      {showChart && (
+        <div className="absolute top-6 left-6 flex flex-wrap gap-4 text-sm z-10">
+          {bandPairs.map(([lower, upper], i) => (
+            <div key={lower} className="flex items-center gap-2">
+              <div
+                className="w-3 h-3 rounded"
+                style={{
+                  backgroundColor: getBandColor(DEFAULT_COLORS, i, bandPairs.length),
+                }}
+              />
+              <span className="text-gray-400">
+                {formatPercentileLabel(lower)}-{formatPercentileLabel(upper)} Percentile
+              </span>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-0.5 bg-blue-500 rounded" />
+            <span className="text-gray-400">Median (50th)</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 border-t border-dashed" style={{ borderColor: INVESTED_COLOR }} />
+            <span className="text-gray-400">Invested</span>
+          </div>
+        </div>
+      )}
+
+      {/* Info badge */}
+      {showChart && result && (
+        <div className="absolute top-6 right-6 bg-gray-800/80 rounded-lg px-3 py-1.5 text-sm text-gray-300 z-10">
+          {result.config.pathCount.toLocaleString('en-US')} simulated paths
+          <span className="text-gray-500"> · seed {result.config.seed}</span>
+        </div>
+      )}
+
+      {/* Custom Tooltip */}
+      {showChart && tooltip.visible && (
+        <div
+          className="absolute pointer-events-none z-20 bg-gray-900 border border-gray-700 rounded-lg p-3 shadow-xl"
+          style={{
+            left: Math.min(
+              tooltip.x + 10,
+              (containerRef.current?.clientWidth ?? 400) - 220
+            ),
+            top: Math.max(tooltip.y - 140, 10),
+          }}
+        >
+          <p className="text-gray-400 text-sm mb-2 font-medium">{formatMonth(tooltip.time)}</p>
+          <div className="space-y-1 text-sm">
+            {[...percentiles].reverse().map((percentile) => {
+              const value = formatBandValue(tooltip.point?.[percentileKey(percentile)] ?? 0)
+
+              return percentile === 50 ? (
+                <div
+                  key={percentile}
+                  className="flex justify-between gap-4 bg-blue-500/20 -mx-2 px-2 py-0.5 rounded"
+                >
+                  <span className="text-blue-400 font-medium">Median (50th)</span>
+                  <span className="text-white font-bold">{value}</span>
+                </div>
+              ) : (
+                <div key={percentile} className="flex justify-between gap-4">
+                  <span className="text-blue-400">
+                    {formatPercentileLabel(percentile)} Percentile
+                  </span>
+                  <span className="text-white font-medium">{value}</span>
+                </div>
+              )
+            })}
+            {tooltip.invested !== null && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-400">Invested</span>
+                <span className="text-white font-medium">{formatBandValue(tooltip.invested)}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
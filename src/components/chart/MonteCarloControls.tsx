@@ -0,0 +1,190 @@
+'use client'
+
+import { useConfigStore } from '@/store/configStore'
+import { useMonteCarloStore } from '@/store/monteCarloStore'
+import { MAX_PROJECTION_YEARS, MAX_BLOCK_MONTHS } from '@/lib/calculation/monteCarloEngine'
+import { formatPercentileLabel } from '@/lib/chart/PercentileBandPlugin'
+import { PERCENTILE_PAIR_OPTIONS } from './RollingControls'
+
+// Quick picks; any whole year in range can be typed in
+const HORIZON_PRESETS = [5, 10, 20, 30]
+
+const PATH_OPTIONS = [1000, 5000, 10000]
+
+export function MonteCarloControls() {
+  const {
+    monteCarloHorizon,
+    monteCarloPaths,
+    monteCarloBlockMonths,
+    monteCarloSeed,
+    rollingPercentiles,
+    setMonteCarloHorizon,
+    setMonteCarloPaths,
+    setMonteCarloBlockMonths,
+    setMonteCarloSeed,
+    setRollingPercentiles,
+  } = useConfigStore()
+  const { isComputing } = useMonteCarloStore()
+
+  const togglePercentilePair = (lower: number) => {
+    const isSelected = rollingPercentiles.includes(lower)
+    setRollingPercentiles(
+      isSelected
+        ? rollingPercentiles.filter((p) => p !== lower && p !== 100 - lower)
+        : [...rollingPercentiles, lower]
+    )
+  }
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4">
+      <div className="flex flex-col sm:flex-row sm:flex-wrap items-start sm:items-center justify-between gap-4">
+        {/* Horizon Selector */}
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-400 font-medium">Project:</span>
+          <div className="flex items-center gap-1">
+            {HORIZON_PRESETS.map((years) => (
+              <button
+                key={years}
+                onClick={() => setMonteCarloHorizon(years)}
+                disabled={isComputing}
+                className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all duration-200
+                  ${
+                    monteCarloHorizon === years
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white'
+                  }
+                  disabled:opacity-50 disabled:cursor-not-allowed`}
+                title={`Project ${years} years forward`}
+              >
+                {years}Y
+              </button>
+            ))}
+            <input
+              type="number"
+              min={1}
+              max={MAX_PROJECTION_YEARS}
+              step={1}
+              value={monteCarloHorizon}
+              onChange={(e) => {
+                const parsed = parseInt(e.target.value, 10)
+                if (Number.isFinite(parsed)) {
+                  setMonteCarloHorizon(parsed)
+                }
+              }}
+              disabled={isComputing}
+              aria-label="Projection horizon (years)"
+              className="w-16 px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-md
+                text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+                disabled:opacity-50"
+            />
+          </div>
+        </div>
+
+        {/* Path Count */}
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-400 font-medium">Paths:</span>
+          <div className="inline-flex items-center bg-gray-700/50 rounded-lg p-0.5">
+            {PATH_OPTIONS.map((paths) => (
+              <button
+                key={paths}
+                onClick={() => setMonteCarloPaths(paths)}
+                disabled={isComputing}
+                className={`px-3 py-1.5 text-sm rounded-md transition-all duration-200
+                  ${
+                    monteCarloPaths === paths
+                      ? 'bg-gray-600 text-white'
+                      : 'text-gray-400 hover:text-gray-200'
+                  }
+                  disabled:opacity-50 disabled:cursor-not-allowed`}
+              >
+                {paths.toLocaleString('en-US')}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Block Length */}
+        <label className="flex items-center gap-3 text-sm text-gray-400 font-medium">
+          Block length:
+          <input
+            type="number"
+            min={1}
+            max={MAX_BLOCK_MONTHS}
+            step={1}
+            value={monteCarloBlockMonths}
+            onChange={(e) => {
+              const parsed = parseInt(e.target.value, 10)
+              if (Number.isFinite(parsed)) {
+                setMonteCarloBlockMonths(parsed)
+              }
+            }}
+            disabled={isComputing}
+            title="Consecutive historical months drawn together, keeping streaks and drawdowns intact"
+            className="w-16 px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-md
+              text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+              disabled:opacity-50"
+          />
+          <span className="font-normal">months</span>
+        </label>
+
+        {/* Percentile Band Selector (shared with rolling analysis) */}
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-400 font-medium">Percentiles:</span>
+          <div className="flex items-center gap-1">
+            {PERCENTILE_PAIR_OPTIONS.map((lower) => (
+              <button
+                key={lower}
+                onClick={() => togglePercentilePair(lower)}
+                disabled={isComputing}
+                aria-pressed={rollingPercentiles.includes(lower)}
+                className={`px-2.5 py-1.5 text-sm font-medium rounded-md transition-all duration-200
+                  ${
+                    rollingPercentiles.includes(lower)
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white'
+                  }
+                  disabled:opacity-50 disabled:cursor-not-allowed`}
+                title={`Band between the ${formatPercentileLabel(lower)} and ${formatPercentileLabel(100 - lower)} percentiles`}
+              >
+                {lower}/{100 - lower}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Seed */}
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-3 text-sm text-gray-400 font-medium">
+            Seed:
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={monteCarloSeed}
+              onChange={(e) => {
+                const parsed = parseInt(e.target.value, 10)
+                if (Number.isFinite(parsed)) {
+                  setMonteCarloSeed(parsed)
+                }
+              }}
+              disabled={isComputing}
+              title="The same seed and settings always give the same paths"
+              className="w-28 px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-md
+                text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+                disabled:opacity-50"
+            />
+          </label>
+          <button
+            onClick={() => setMonteCarloSeed(Math.floor(Math.random() * 0xffffffff))}
+            disabled={isComputing}
+            className="px-3 py-1.5 text-sm text-gray-300 bg-gray-700 rounded-md transition-all duration-200
+              hover:bg-gray-600 hover:text-white
+              disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            New seed
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+'use client'
+
+import dynamic from 'next/dynamic'
+import { ChartSkeleton } from '@/components/ui/Skeleton'
+
+/**
+ * Dynamic import wrapper for PortfolioChartECharts
+ * - SSR disabled; ECharts requires browser APIs for canvas rendering
+ * - Shows skeleton while the chart component loads
+ */
+export const PortfolioChart = dynamic(
+  () => import('./PortfolioChartECharts').then(mod => mod.PortfolioChartECharts),
+  {
+    ssr: false,
+    loading: () => <ChartSkeleton />
+  }
+)
@@ -0,0 +1,279 @@
+'use client'
+
+import { useMemo } from 'react'
+import ReactECharts from 'echarts-for-react'
+import type { EChartsOption } from 'echarts'
+import { usePortfolioStore } from '@/store/portfolioStore'
+import { formatCurrency } from '@/lib/calculation/dcaEngine'
+import { ChartSkeleton } from '@/components/ui/Skeleton'
+
+// One color per holding, in holding order
+const HOLDING_COLORS = [
+  '#3b82f6',
+  '#a855f7',
+  '#f97316',
+  '#14b8a6',
+  '#eab308',
+  '#ec4899',
+  '#84cc16',
+  '#6366f1',
+]
+
+/**
+ * Format currency for Y-axis (compact for axis labels)
+ */
+function formatAxisCurrency(value: number): string {
+  if (value >= 1000000) {
+    return '$' + (value / 1000000).toFixed(1) + 'M'
+  }
+  if (value >= 1000) {
+    return '$' + (value / 1000).toFixed(0) + 'K'
+  }
+  return '$' + value.toFixed(0)
+}
+
+/**
+ * Portfolio value stacked by holding, with the principal line on top
+ */
+export function PortfolioChartECharts() {
+  const { result, isLoading, error } = usePortfolioStore()
+
+  const option: EChartsOption = useMemo(() => {
+    if (!result || result.points.length === 0) {
+      return {}
+    }
+
+    const xData = result.points.map((p) => p.date)
+
+    const series: EChartsOption['series'] = result.holdings.map((holding, index) => {
+      const color = HOLDING_COLORS[index % HOLDING_COLORS.length]
+      return {
+        name: holding.ticker,
+        type: 'line',
+        stack: 'holdings',
+        data: result.points.map((p) => p.holdingValues[holding.ticker] ?? 0),
+        smooth: true,
+        symbol: 'none',
+        lineStyle: {
+          width: 1,
+          color,
+        },
+        itemStyle: {
+          color,
+        },
+        areaStyle: {
+          color,
+          opacity: 0.35,
+        },
+        emphasis: {
+          focus: 'series',
+        },
+        animationDuration: 300,
+      }
+    })
+
+    series.push({
+      name: 'Principal',
+      type: 'line',
+      data: result.points.map((p) => p.principal),
+      smooth: true,
+      symbol: 'none',
+      lineStyle: {
+        width: 2,
+        color: '#22c55e',
+        type: 'dashed',
+      },
+      itemStyle: {
+        color: '#22c55e',
+      },
+      emphasis: {
+        focus: 'series',
+      },
+      animationDuration: 300,
+    })
+
+    return {
+      backgroundColor: 'transparent',
+      animation: true,
+      animationDuration: 300,
+      grid: {
+        left: 70,
+        right: 20,
+        top: 60,
+        bottom: 40,
+        containLabel: false,
+      },
+      tooltip: {
+        trigger: 'axis',
+        backgroundColor: 'rgba(17, 24, 39, 0.95)',
+        borderColor: '#374151',
+        borderWidth: 1,
+        padding: [12, 16],
+        textStyle: {
+          color: '#fff',
+          fontSize: 13,
+        },
+        axisPointer: {
+          type: 'line',
+          lineStyle: {
+            color: '#4b5563',
+            type: 'dashed',
+          },
+        },
+        formatter: (params: unknown) => {
+          const paramArray = params as Array<{
+            name: string
+            seriesName: string
+            value: number
+            color: string
+          }>
+          if (!paramArray.length) return ''
+
+          const date = new Date(paramArray[0].name).toLocaleDateString('en-US', {
+            month: 'long',
+            year: 'numeric',
+          })
+
+          let html = `<div style="font-weight: 500; margin-bottom: 8px; color: #9ca3af;">${date}</div>`
+
+          // Holdings are stacked, so their sum is the portfolio value
+          let total = 0
+
+          paramArray.forEach((item) => {
+            if (item.seriesName !== 'Principal') total += item.value
+
+            html += `
+              <div style="display: flex; justify-content: space-between; gap: 20px; margin: 4px 0;">
+                <span style="display: flex; align-items: center; gap: 6px;">
+                  <span style="width: 10px; height: 10px; border-radius: 50%; background: ${item.color};"></span>
+                  ${item.seriesName}
+                </span>
+                <span style="font-weight: 600;">${formatCurrency(item.value)}</span>
+              </div>
+            `
+          })
+
+          html += `
+            <div style="border-top: 1px solid #374151; margin-top: 8px; padding-top: 8px; display: flex; justify-content: space-between; gap: 20px;">
+              <span style="color: #9ca3af;">Portfolio</span>
+              <span style="font-weight: 700;">${formatCurrency(total)}</span>
+            </div>
+          `
+
+          return html
+        },
+      },
+      legend: {
+        show: true,
+        top: 10,
+        left: 10,
+        orient: 'horizontal',
+        textStyle: {
+          color: '#9ca3af',
+          fontSize: 12,
+        },
+        itemWidth: 14,
+        itemHeight: 14,
+        itemGap: 16,
+        icon: 'roundRect',
+      },
+      xAxis: {
+        type: 'category',
+        data: xData,
+        boundaryGap: false,
+        axisLine: {
+          lineStyle: {
+            color: '#374151',
+          },
+        },
+        axisTick: {
+          lineStyle: {
+            color: '#374151',
+          },
+        },
+        axisLabel: {
+          color: '#9ca3af',
+          fontSize: 11,
+          hideOverlap: true,
+          interval: 'auto',
+          formatter: (value: string) => {
+            const date = new Date(value)
+            return date.toLocaleDateString('en-US', {
+              month: 'short',
+              year: '2-digit',
+            })
+          },
+        },
+        splitLine: {
+          show: false,
+        },
+      },
+      yAxis: {
+        type: 'value',
+        axisLine: {
+          show: false,
+        },
+        axisTick: {
+          show: false,
+        },
+        axisLabel: {
+          color: '#9ca3af',
+          fontSize: 11,
+          formatter: formatAxisCurrency,
+        },
+        splitLine: {
+          lineStyle: {
+            color: '#374151',
+            type: 'dashed',
+          },
+        },
+      },
+      series,
+    }
+  }, [result])
+
+  // Determine display state
+  const showLoading = isLoading
+  const showError = !isLoading && error
+  const showEmpty = !isLoading && !error && !result
+  const showNoData = !isLoading && !error && result && result.points.length === 0
+  const showChart = !showLoading && !showError && !showEmpty && !showNoData
+
+  return (
+    <div className="h-[50vh] min-h-[400px] max-h-[700px] bg-gray-900/50 rounded-xl relative overflow-hidden">
+      {showChart && (
+        <ReactECharts
+          option={option}
+          style={{ width: '100%', height: 'calc(100% - 32px)' }}
+          opts={{ renderer: 'canvas' }}
+          notMerge={true}
+          lazyUpdate={true}
+        />
+      )}
+
+      {showEmpty && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="text-gray-400">Add holdings to start</div>
+        </div>
+      )}
+
+      {showLoading && (
+        <div className="absolute inset-0">
+          <ChartSkeleton />
+        </div>
+      )}
+
+      {showError && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="text-red-400">{error}</div>
+        </div>
+      )}
+
+      {showNoData && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="text-gray-400">No overlapping data for these holdings in this period</div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -16,7 +16,16 @@ import {
   renderPercentileBands,
   createRendererConfig,
   formatBandValue,
+  formatBandReturn,
+  formatPercentileLabel,
+  getBandPairs,
+  getBandColor,
+  getComparisonColors,
+  DEFAULT_COLORS,
+  LUMP_SUM_COLORS,
+  type PercentileBandOverlay,
 } from '@/lib/chart/PercentileBandPlugin'
+import { DEFAULT_PERCENTILES, percentileKey } from '@/lib/calculation/percentileUtils'
 import { ChartSkeleton } from '@/components/ui/Skeleton'
 import type { RollingChartDataPoint } from '@/lib/api/types'
 
@@ -25,11 +34,9 @@ interface TooltipData {
   x: number
   y: number
   month: number
-  p10: number
-  p25: number
-  p50: number
-  p75: number
-  p90: number
+  point: RollingChartDataPoint | null
+  lumpSumP50: number | null   // Lump sum median, when the overlay is shown
+  comparisonP50s: { ticker: string; color: string; value: number }[]  // Comparison ticker medians
 }
 
 /**
@@ -44,6 +51,16 @@ function transformToLineData(
   }))
 }
 
+/**
+ * Tint for a percentile's tooltip label: lighter toward the tails
+ */
+function percentileLabelClass(percentile: number, percentiles: number[]): string {
+  const outermost = Math.min(...percentiles)
+  return percentile === outermost || percentile === 100 - outermost
+    ? 'text-blue-300'
+    : 'text-blue-400'
+}
+
 /**
  * Build a lookup map from time to data point
  */
@@ -65,34 +82,71 @@ export function RollingChartCanvas() {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const medianSeriesRef = useRef<ISeriesApi<any> | null>(null)
   const dataLookupRef = useRef<Map<number, RollingChartDataPoint>>(new Map())
+  const lumpSumLookupRef = useRef<Map<number, RollingChartDataPoint>>(new Map())
+  const comparisonLookupsRef = useRef<
+    { ticker: string; lookup: Map<number, RollingChartDataPoint> }[]
+  >([])
 
   const [tooltip, setTooltip] = useState<TooltipData>({
     visible: false,
     x: 0,
     y: 0,
     month: 0,
-    p10: 0,
-    p25: 0,
-    p50: 0,
-    p75: 0,
-    p90: 0,
+    point: null,
+    lumpSumP50: null,
+    comparisonP50s: [],
   })
 
-  const { chartData, isComputing, error, result } = useRollingAnalysisStore()
-  const { rollingHorizon, rollingXAxisMode } = useConfigStore()
+  const {
+    chartData,
+    lumpSumChartData,
+    comparisonChartData,
+    isComputing,
+    progress,
+    error,
+    result,
+  } = useRollingAnalysisStore()
+  const {
+    rollingHorizon,
+    rollingXAxisMode,
+    rollingBandMode,
+    rollingComparisonBands,
+    showLumpSum,
+  } = useConfigStore()
   const stats = useRollingAnalysisStore(selectStats)
 
+  const showLumpSumBands = showLumpSum && lumpSumChartData.length > 0
+  const percentiles = result?.config.percentiles ?? DEFAULT_PERCENTILES
+  const bandPairs = getBandPairs(percentiles)
+  const formatBand = rollingBandMode === 'return' ? formatBandReturn : formatBandValue
+
   // Transform data for the median line series
   const lineData = useMemo(() => transformToLineData(chartData), [chartData])
 
   // Build lookup map for tooltip
   const dataLookup = useMemo(() => buildDataLookup(chartData), [chartData])
 
-  // Store lookup in ref for crosshair callback
+  const lumpSumLookup = useMemo(
+    () => buildDataLookup(showLumpSumBands ? lumpSumChartData : []),
+    [lumpSumChartData, showLumpSumBands]
+  )
+
+  // Store lookups in refs for crosshair callback
   useEffect(() => {
     dataLookupRef.current = dataLookup
   }, [dataLookup])
 
+  useEffect(() => {
+    lumpSumLookupRef.current = lumpSumLookup
+  }, [lumpSumLookup])
+
+  useEffect(() => {
+    comparisonLookupsRef.current = comparisonChartData.map(({ ticker, data }) => ({
+      ticker,
+      lookup: buildDataLookup(data),
+    }))
+  }, [comparisonChartData])
+
   // Handle crosshair move for tooltip
   const handleCrosshairMove = useCallback((param: MouseEventParams) => {
     if (!param.point || !param.time) {
@@ -109,11 +163,14 @@ export function RollingChartCanvas() {
         x: param.point.x,
         y: param.point.y,
         month: point.time,
-        p10: point.p10,
-        p25: point.p25,
-        p50: point.p50,
-        p75: point.p75,
-        p90: point.p90,
+        point,
+        lumpSumP50: lumpSumLookupRef.current.get(time)?.p50 ?? null,
+        comparisonP50s: comparisonLookupsRef.current.flatMap(({ ticker, lookup }, i) => {
+          const value = lookup.get(time)?.p50
+          return value === undefined
+            ? []
+            : [{ ticker, color: getComparisonColors(i).medianLine, value }]
+        }),
       })
     }
   }, [])
@@ -161,10 +218,26 @@ export function RollingChartCanvas() {
       return coord ?? 0
     }
 
-    // Render the bands
-    const config = createRendererConfig(chartData)
+    // Render the bands, with lump sum bands over the DCA ones when enabled,
+    // then each comparison ticker's bands (or median)
+    const overlays: PercentileBandOverlay[] = comparisonChartData.map(({ data }, i) => ({
+      data,
+      colors: getComparisonColors(i),
+      medianOnly: rollingComparisonBands === 'median',
+    }))
+    if (showLumpSumBands) {
+      overlays.unshift({ data: lumpSumChartData, colors: LUMP_SUM_COLORS })
+    }
+    const config = createRendererConfig(chartData, percentiles, undefined, overlays)
     renderPercentileBands(ctx, config, timeToX, priceToY)
-  }, [chartData])
+  }, [
+    chartData,
+    lumpSumChartData,
+    comparisonChartData,
+    rollingComparisonBands,
+    showLumpSumBands,
+    percentiles,
+  ])
 
   // Initialize chart on mount
   useLayoutEffect(() => {
@@ -284,6 +357,16 @@ export function RollingChartCanvas() {
     }
   }, [rollingXAxisMode])
 
+  // Label the price axis in percent when the bands show returns
+  useEffect(() => {
+    medianSeriesRef.current?.applyOptions({
+      priceFormat:
+        rollingBandMode === 'return'
+          ? { type: 'custom', formatter: formatBandReturn, minMove: 0.1 }
+          : { type: 'price', precision: 2, minMove: 0.01 },
+    })
+  }, [rollingBandMode, rollingXAxisMode])
+
   // Update series data when chart data changes
   useEffect(() => {
     if (!medianSeriesRef.current || lineData.length === 0) return
@@ -361,6 +444,27 @@ export function RollingChartCanvas() {
       {showLoading && (
         <div className="absolute inset-0">
           <ChartSkeleton />
+          {progress > 0 && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="w-48 space-y-2 text-center">
+                <div className="text-sm text-gray-300">
+                  Analyzing windows... {progress}%
+                </div>
+                <div
+                  role="progressbar"
+                  aria-valuenow={progress}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  className="h-1.5 bg-gray-700 rounded-full overflow-hidden"
+                >
+                  <div
+                    className="h-full bg-blue-500 transition-[width]"
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -375,24 +479,44 @@ export function RollingChartCanvas() {
       {/* Legend */}
       {showChart && (
         <div className="absolute top-6 left-6 flex flex-wrap gap-4 text-sm z-10">
-          <div className="flex items-center gap-2">
-            <div
-              className="w-3 h-3 rounded"
-              style={{ backgroundColor: 'rgba(59, 130, 246, 0.15)' }}
-            />
-            <span className="text-gray-400">10th-90th Percentile</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div
-              className="w-3 h-3 rounded"
-              style={{ backgroundColor: 'rgba(59, 130, 246, 0.3)' }}
-            />
-            <span className="text-gray-400">25th-75th Percentile</span>
-          </div>
+          {bandPairs.map(([lower, upper], i) => (
+            <div key={lower} className="flex items-center gap-2">
+              <div
+                className="w-3 h-3 rounded"
+                style={{
+                  backgroundColor: getBandColor(DEFAULT_COLORS, i, bandPairs.length),
+                }}
+              />
+              <span className="text-gray-400">
+                {formatPercentileLabel(lower)}-{formatPercentileLabel(upper)} Percentile
+              </span>
+            </div>
+          ))}
           <div className="flex items-center gap-2">
             <div className="w-3 h-0.5 bg-blue-500 rounded" />
             <span className="text-gray-400">Median (50th)</span>
           </div>
+          {showLumpSumBands && (
+            <div className="flex items-center gap-2">
+              <div
+                className="w-3 h-3 rounded"
+                style={{ backgroundColor: 'rgba(249, 115, 22, 0.2)' }}
+              />
+              <span className="text-gray-400">Lump Sum</span>
+            </div>
+          )}
+          {comparisonChartData.map(({ ticker }, i) => (
+            <div key={ticker} className="flex items-center gap-2">
+              <div
+                className="w-3 h-0.5 rounded"
+                style={{ backgroundColor: getComparisonColors(i).medianLine }}
+              />
+              <span className="text-gray-400">
+                {ticker}
+                {rollingComparisonBands === 'median' ? ' Median' : ''}
+              </span>
+            </div>
+          ))}
         </div>
       )}
 
@@ -400,6 +524,9 @@ export function RollingChartCanvas() {
       {showChart && stats.windowCount > 0 && (
         <div className="absolute top-6 right-6 bg-gray-800/80 rounded-lg px-3 py-1.5 text-sm text-gray-300 z-10">
           {stats.windowCount} rolling windows analyzed
+          {result?.config.realDollars && (
+            <span className="text-gray-500"> · start-date dollars</span>
+          )}
         </div>
       )}
 
@@ -431,36 +558,42 @@ export function RollingChartCanvas() {
               )}
           </p>
           <div className="space-y-1 text-sm">
-            <div className="flex justify-between gap-4">
-              <span className="text-blue-300">90th Percentile</span>
-              <span className="text-white font-medium">
-                {formatBandValue(tooltip.p90)}
-              </span>
-            </div>
-            <div className="flex justify-between gap-4">
-              <span className="text-blue-400">75th Percentile</span>
-              <span className="text-white font-medium">
-                {formatBandValue(tooltip.p75)}
-              </span>
-            </div>
-            <div className="flex justify-between gap-4 bg-blue-500/20 -mx-2 px-2 py-0.5 rounded">
-              <span className="text-blue-400 font-medium">Median (50th)</span>
-              <span className="text-white font-bold">
-                {formatBandValue(tooltip.p50)}
-              </span>
-            </div>
-            <div className="flex justify-between gap-4">
-              <span className="text-blue-400">25th Percentile</span>
-              <span className="text-white font-medium">
-                {formatBandValue(tooltip.p25)}
-              </span>
-            </div>
-            <div className="flex justify-between gap-4">
-              <span className="text-blue-300">10th Percentile</span>
-              <span className="text-white font-medium">
-                {formatBandValue(tooltip.p10)}
-              </span>
-            </div>
+            {[...percentiles].reverse().map((percentile) => {
+              const value = formatBand(tooltip.point?.[percentileKey(percentile)] ?? 0)
+
+              return percentile === 50 ? (
+                <div
+                  key={percentile}
+                  className="flex justify-between gap-4 bg-blue-500/20 -mx-2 px-2 py-0.5 rounded"
+                >
+                  <span className="text-blue-400 font-medium">Median (50th)</span>
+                  <span className="text-white font-bold">{value}</span>
+                </div>
+              ) : (
+                <div key={percentile} className="flex justify-between gap-4">
+                  <span className={percentileLabelClass(percentile, percentiles)}>
+                    {formatPercentileLabel(percentile)} Percentile
+                  </span>
+                  <span className="text-white font-medium">{value}</span>
+                </div>
+              )
+            })}
+            {tooltip.lumpSumP50 !== null && (
+              <div className="flex justify-between gap-4">
+                <span className="text-orange-400">Lump Sum Median</span>
+                <span className="text-white font-medium">
+                  {formatBand(tooltip.lumpSumP50)}
+                </span>
+              </div>
+            )}
+            {tooltip.comparisonP50s.map(({ ticker, color, value }) => (
+              <div key={ticker} className="flex justify-between gap-4">
+                <span style={{ color }}>
+                  {ticker} Median
+                </span>
+                <span className="text-white font-medium">{formatBand(value)}</span>
+              </div>
+            ))}
           </div>
           <div className="border-t border-gray-700 mt-2 pt-2 text-xs text-gray-500">
             Based on {stats.windowCount} historical windows
@@ -1,47 +1,89 @@
 'use client'
 
+import { useState } from 'react'
 import { useConfigStore } from '@/store/configStore'
 import { useRollingAnalysisStore } from '@/store/rollingAnalysisStore'
-import type { HorizonYears, RollingXAxisMode } from '@/lib/api/types'
+import {
+  MIN_HORIZON_YEARS,
+  MAX_HORIZON_YEARS,
+} from '@/lib/calculation/rollingWindowEngine'
+import { formatPercentileLabel } from '@/lib/chart/PercentileBandPlugin'
+import { clearCachedResults } from '@/lib/cache/rollingResultCache'
+import type {
+  HorizonYears,
+  RollingBandMode,
+  RollingComparisonBands,
+  RollingXAxisMode,
+} from '@/lib/api/types'
 
-const HORIZON_OPTIONS: { value: HorizonYears; label: string }[] = [
-  { value: 5, label: '5Y' },
-  { value: 10, label: '10Y' },
-  { value: 15, label: '15Y' },
-  { value: 20, label: '20Y' },
-]
+// Quick picks; any whole year in range can be typed in
+const HORIZON_PRESETS: HorizonYears[] = [1, 3, 5, 10, 15, 20, 30]
+
+// Lower percentile of each band pair that can be toggled; the upper is its mirror
+export const PERCENTILE_PAIR_OPTIONS = [1, 5, 10, 20, 25]
 
 const X_AXIS_OPTIONS: { value: RollingXAxisMode; label: string }[] = [
   { value: 'normalized', label: 'Months from Start' },
   { value: 'calendar', label: 'Calendar End Date' },
 ]
 
+const BAND_MODE_OPTIONS: { value: RollingBandMode; label: string }[] = [
+  { value: 'value', label: 'Value ($)' },
+  { value: 'return', label: 'Return (%)' },
+]
+
+const COMPARISON_BAND_OPTIONS: { value: RollingComparisonBands; label: string }[] = [
+  { value: 'median', label: 'Median' },
+  { value: 'full', label: 'Full Bands' },
+]
+
 export function RollingControls() {
   const {
     rollingHorizon,
     rollingXAxisMode,
+    rollingBandMode,
+    rollingPercentiles,
+    rollingComparisonBands,
     setRollingHorizon,
     setRollingXAxisMode,
+    setRollingBandMode,
+    setRollingPercentiles,
+    setRollingComparisonBands,
   } = useConfigStore()
-  const { availableHorizons, isComputing } = useRollingAnalysisStore()
+  const { availableHorizons, isComputing, comparisons } = useRollingAnalysisStore()
+  const [cacheCleared, setCacheCleared] = useState(false)
+
+  const clearCache = async () => {
+    await clearCachedResults()
+    setCacheCleared(true)
+  }
+
+  const togglePercentilePair = (lower: number) => {
+    const isSelected = rollingPercentiles.includes(lower)
+    setRollingPercentiles(
+      isSelected
+        ? rollingPercentiles.filter((p) => p !== lower && p !== 100 - lower)
+        : [...rollingPercentiles, lower]
+    )
+  }
 
   return (
     <div className="bg-gray-800/50 rounded-xl p-4">
-      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+      <div className="flex flex-col sm:flex-row sm:flex-wrap items-start sm:items-center justify-between gap-4">
         {/* Horizon Selector */}
         <div className="flex items-center gap-3">
           <span className="text-sm text-gray-400 font-medium">
             Investment Horizon:
           </span>
           <div className="flex items-center gap-1">
-            {HORIZON_OPTIONS.map((option) => {
-              const isAvailable = availableHorizons.includes(option.value)
-              const isSelected = rollingHorizon === option.value
+            {HORIZON_PRESETS.map((years) => {
+              const isAvailable = availableHorizons.includes(years)
+              const isSelected = rollingHorizon === years
 
               return (
                 <button
-                  key={option.value}
-                  onClick={() => setRollingHorizon(option.value)}
+                  key={years}
+                  onClick={() => setRollingHorizon(years)}
                   disabled={!isAvailable || isComputing}
                   className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all duration-200
                     ${
@@ -54,14 +96,34 @@ export function RollingControls() {
                     disabled:opacity-50 disabled:cursor-not-allowed`}
                   title={
                     !isAvailable
-                      ? `Insufficient data for ${option.value}-year horizon`
-                      : `Analyze ${option.value}-year rolling windows`
+                      ? `Insufficient data for ${years}-year horizon`
+                      : `Analyze ${years}-year rolling windows`
                   }
                 >
-                  {option.label}
+                  {years}Y
                 </button>
               )
             })}
+            <input
+              type="number"
+              min={MIN_HORIZON_YEARS}
+              max={MAX_HORIZON_YEARS}
+              step={1}
+              value={rollingHorizon}
+              onChange={(e) => {
+                const parsed = parseInt(e.target.value, 10)
+                if (Number.isFinite(parsed)) {
+                  setRollingHorizon(
+                    Math.min(MAX_HORIZON_YEARS, Math.max(MIN_HORIZON_YEARS, parsed))
+                  )
+                }
+              }}
+              disabled={isComputing}
+              aria-label="Horizon (years)"
+              className="w-16 px-2 py-1.5 text-sm bg-gray-700 border border-gray-600 rounded-md
+                text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+                disabled:opacity-50"
+            />
           </div>
         </div>
 
@@ -87,6 +149,89 @@ export function RollingControls() {
             ))}
           </div>
         </div>
+
+        {/* Band Mode Toggle */}
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-400 font-medium">Bands:</span>
+          <div className="inline-flex items-center bg-gray-700/50 rounded-lg p-0.5">
+            {BAND_MODE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setRollingBandMode(option.value)}
+                disabled={isComputing}
+                className={`px-3 py-1.5 text-sm rounded-md transition-all duration-200
+                  ${
+                    rollingBandMode === option.value
+                      ? 'bg-gray-600 text-white'
+                      : 'text-gray-400 hover:text-gray-200'
+                  }
+                  disabled:opacity-50 disabled:cursor-not-allowed`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Percentile Band Selector */}
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-400 font-medium">Percentiles:</span>
+          <div className="flex items-center gap-1">
+            {PERCENTILE_PAIR_OPTIONS.map((lower) => (
+              <button
+                key={lower}
+                onClick={() => togglePercentilePair(lower)}
+                disabled={isComputing}
+                aria-pressed={rollingPercentiles.includes(lower)}
+                className={`px-2.5 py-1.5 text-sm font-medium rounded-md transition-all duration-200
+                  ${
+                    rollingPercentiles.includes(lower)
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white'
+                  }
+                  disabled:opacity-50 disabled:cursor-not-allowed`}
+                title={`Band between the ${formatPercentileLabel(lower)} and ${formatPercentileLabel(100 - lower)} percentiles`}
+              >
+                {lower}/{100 - lower}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Comparison Overlay Toggle */}
+        {comparisons.length > 0 && (
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-400 font-medium">Compared:</span>
+            <div className="inline-flex items-center bg-gray-700/50 rounded-lg p-0.5">
+              {COMPARISON_BAND_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setRollingComparisonBands(option.value)}
+                  className={`px-3 py-1.5 text-sm rounded-md transition-all duration-200
+                    ${
+                      rollingComparisonBands === option.value
+                        ? 'bg-gray-600 text-white'
+                        : 'text-gray-400 hover:text-gray-200'
+                    }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Result Cache */}
+        <button
+          onClick={clearCache}
+          disabled={cacheCleared}
+          className="px-3 py-1.5 text-sm text-gray-400 rounded-md transition-all duration-200
+            hover:text-gray-200 hover:bg-gray-700/50
+            disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Remove saved rolling analyses so they are recomputed"
+        >
+          {cacheCleared ? 'Cache cleared' : 'Clear cached analyses'}
+        </button>
       </div>
 
       {/* Horizon Warning */}
@@ -102,7 +247,7 @@ export function RollingControls() {
       {availableHorizons.length === 0 && !isComputing && (
         <div className="mt-3 text-sm text-yellow-400">
           Insufficient historical data for rolling window analysis. Need at
-          least 6 years of data.
+          least {MIN_HORIZON_YEARS + 1} years of data.
         </div>
       )}
     </div>
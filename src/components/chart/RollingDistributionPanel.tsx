@@ -0,0 +1,326 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRollingAnalysisStore, selectWindows } from '@/store/rollingAnalysisStore'
+import { useConfigStore } from '@/store/configStore'
+import { getWindowMetric } from '@/lib/calculation/rollingWindowEngine'
+import {
+  buildHistogram,
+  calculateEmpiricalCDF,
+  calculateMedian,
+  type HistogramBin,
+} from '@/lib/calculation/percentileUtils'
+import type { WindowMetric } from '@/lib/api/types'
+
+// SVG layout, in viewBox units
+const WIDTH = 360
+const HEIGHT = 180
+const PAD = { left: 34, right: 8, top: 8, bottom: 22 }
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom
+
+const METRIC_OPTIONS: { value: WindowMetric; label: string }[] = [
+  { value: 'totalReturn', label: 'Total Return' },
+  { value: 'cagr', label: 'CAGR' },
+]
+
+// Starting bin widths in percentage points; total returns spread much wider
+const DEFAULT_BIN_WIDTHS: Record<WindowMetric, number> = {
+  totalReturn: 10,
+  cagr: 1,
+}
+
+const MEDIAN_COLOR = '#e5e7eb'   // gray-200
+const OWN_COLOR = '#f59e0b'      // amber-500
+
+interface Marker {
+  value: number
+  color: string
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`
+}
+
+function formatAxisPercent(value: number): string {
+  return `${Math.round(value)}%`
+}
+
+function formatMonth(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+/**
+ * Map [min, max] onto the plot's x range (a zero-width range is centered)
+ */
+function createXScale(min: number, max: number): (value: number) => number {
+  const span = max - min
+  return (value) =>
+    PAD.left + (span > 0 ? ((value - min) / span) * PLOT_WIDTH : PLOT_WIDTH / 2)
+}
+
+/**
+ * Dashed vertical line per marker, clipped to the plot
+ */
+function MarkerLines({ markers, x }: { markers: Marker[]; x: (value: number) => number }) {
+  return (
+    <>
+      {markers.map((marker) => {
+        const position = Math.min(PAD.left + PLOT_WIDTH, Math.max(PAD.left, x(marker.value)))
+        return (
+          <line
+            key={marker.color}
+            x1={position}
+            x2={position}
+            y1={PAD.top}
+            y2={PAD.top + PLOT_HEIGHT}
+            stroke={marker.color}
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+          />
+        )
+      })}
+    </>
+  )
+}
+
+function XAxisLabels({ min, max, x }: { min: number; max: number; x: (value: number) => number }) {
+  const y = HEIGHT - 6
+  return (
+    <g fill="#9ca3af" fontSize={10}>
+      <text x={x(min)} y={y} textAnchor="start">{formatAxisPercent(min)}</text>
+      {min < 0 && max > 0 && (
+        <text x={x(0)} y={y} textAnchor="middle">0%</text>
+      )}
+      <text x={x(max)} y={y} textAnchor="end">{formatAxisPercent(max)}</text>
+    </g>
+  )
+}
+
+/**
+ * Bar per bin, heights scaled to the fullest bin
+ */
+function Histogram({ bins, markers }: { bins: HistogramBin[]; markers: Marker[] }) {
+  const min = bins[0].start
+  const max = bins[bins.length - 1].end
+  const x = createXScale(min, max)
+  const maxCount = Math.max(...bins.map((bin) => bin.count))
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Histogram of window outcomes"
+    >
+      {bins.map((bin) => {
+        const height = (bin.count / maxCount) * PLOT_HEIGHT
+        return (
+          <rect
+            key={bin.start}
+            x={x(bin.start) + 0.5}
+            y={PAD.top + PLOT_HEIGHT - height}
+            width={Math.max(0, x(bin.end) - x(bin.start) - 1)}
+            height={height}
+            fill={bin.end <= 0 ? 'rgba(239, 68, 68, 0.6)' : 'rgba(59, 130, 246, 0.6)'}
+          >
+            <title>
+              {`${formatAxisPercent(bin.start)} to ${formatAxisPercent(bin.end)}: ${bin.count} windows`}
+            </title>
+          </rect>
+        )
+      })}
+      <line
+        x1={PAD.left}
+        x2={PAD.left + PLOT_WIDTH}
+        y1={PAD.top + PLOT_HEIGHT}
+        y2={PAD.top + PLOT_HEIGHT}
+        stroke="#4b5563"
+      />
+      <text x={PAD.left - 4} y={PAD.top + 8} fill="#9ca3af" fontSize={10} textAnchor="end">
+        {maxCount}
+      </text>
+      <MarkerLines markers={markers} x={x} />
+      <XAxisLabels min={min} max={max} x={x} />
+    </svg>
+  )
+}
+
+/**
+ * Step line of the share of windows at or below each outcome
+ */
+function CumulativeChart({
+  points,
+  markers,
+}: {
+  points: { value: number; fraction: number }[]
+  markers: Marker[]
+}) {
+  const min = points[0].value
+  const max = points[points.length - 1].value
+  const x = createXScale(min, max)
+  const y = (fraction: number) => PAD.top + (1 - fraction) * PLOT_HEIGHT
+
+  let path = `M ${x(min)} ${y(0)}`
+  for (const point of points) {
+    path += ` H ${x(point.value)} V ${y(point.fraction)}`
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Cumulative distribution of window outcomes"
+    >
+      {[0, 0.5, 1].map((fraction) => (
+        <g key={fraction}>
+          <line
+            x1={PAD.left}
+            x2={PAD.left + PLOT_WIDTH}
+            y1={y(fraction)}
+            y2={y(fraction)}
+            stroke="#374151"
+          />
+          <text
+            x={PAD.left - 4}
+            y={y(fraction) + 3}
+            fill="#9ca3af"
+            fontSize={10}
+            textAnchor="end"
+          >
+            {fraction * 100}%
+          </text>
+        </g>
+      ))}
+      <path d={path} fill="none" stroke="rgba(59, 130, 246, 1)" strokeWidth={2} />
+      <MarkerLines markers={markers} x={x} />
+      <XAxisLabels min={min} max={max} x={x} />
+    </svg>
+  )
+}
+
+/**
+ * Histogram and empirical CDF of total return or CAGR across every rolling
+ * window, marking the median and the window that starts in the month of the
+ * single-scenario start date.
+ */
+export function RollingDistributionPanel() {
+  const windows = useRollingAnalysisStore(selectWindows)
+  const horizonYears = useRollingAnalysisStore((state) => state.result?.config.horizonYears)
+  const startDate = useConfigStore((state) => state.startDate)
+  const [metric, setMetric] = useState<WindowMetric>('totalReturn')
+  const [binWidths, setBinWidths] = useState(DEFAULT_BIN_WIDTHS)
+
+  const values = useMemo(
+    () => windows.map((window) => getWindowMetric(window, metric)),
+    [windows, metric]
+  )
+  const bins = useMemo(
+    () => buildHistogram(values, binWidths[metric]),
+    [values, binWidths, metric]
+  )
+  const cdf = useMemo(() => calculateEmpiricalCDF(values), [values])
+
+  if (values.length === 0) {
+    return null
+  }
+
+  const median = calculateMedian(values)
+
+  // Windows start on the first of the month
+  const ownStart = `${startDate.substring(0, 7)}-01`
+  const ownWindow = windows.find((window) => window.startDate === ownStart)
+  const ownValue = ownWindow ? getWindowMetric(ownWindow, metric) : null
+  const ownRank =
+    ownValue === null
+      ? null
+      : (values.filter((value) => value < ownValue).length / values.length) * 100
+
+  const markers: Marker[] = [{ value: median, color: MEDIAN_COLOR }]
+  if (ownValue !== null) markers.push({ value: ownValue, color: OWN_COLOR })
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 mt-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-sm font-medium text-gray-400">
+          Distribution of Window Outcomes
+        </h3>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-500">
+            Bin width
+            <input
+              type="number"
+              min={0.1}
+              step={metric === 'cagr' ? 0.5 : 5}
+              value={binWidths[metric]}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value)
+                if (Number.isFinite(parsed) && parsed > 0) {
+                  setBinWidths((prev) => ({ ...prev, [metric]: parsed }))
+                }
+              }}
+              aria-label="Histogram bin width (percentage points)"
+              className="w-16 px-2 py-1 text-sm bg-gray-700 border border-gray-600 rounded-md
+                text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            pp
+          </label>
+          <div className="inline-flex items-center bg-gray-700/50 rounded-lg p-0.5">
+            {METRIC_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setMetric(option.value)}
+                className={`px-3 py-1.5 text-sm rounded-md transition-all duration-200
+                  ${
+                    metric === option.value
+                      ? 'bg-gray-600 text-white'
+                      : 'text-gray-400 hover:text-gray-200'
+                  }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 mb-1">Histogram</h4>
+          <Histogram bins={bins} markers={markers} />
+        </div>
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 mb-1">
+            Share of Windows at or Below
+          </h4>
+          <CumulativeChart points={cdf} markers={markers} />
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-x-6 gap-y-1 mt-3 text-xs text-gray-400">
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 border-t-2 border-dashed" style={{ borderColor: MEDIAN_COLOR }} />
+          Median {formatPercent(median)}
+        </span>
+        {ownWindow && ownValue !== null && ownRank !== null ? (
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 border-t-2 border-dashed" style={{ borderColor: OWN_COLOR }} />
+            Your start ({formatMonth(ownWindow.startDate)}) {formatPercent(ownValue)}, ahead
+            of {ownRank.toFixed(0)}% of windows
+          </span>
+        ) : (
+          <span className="text-gray-500">
+            Your start date ({formatMonth(ownStart)}) has no full
+            {horizonYears ? ` ${horizonYears}-year` : ''} window in this history.
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRollingAnalysisStore } from '@/store/rollingAnalysisStore'
+import { WindowDetailModal } from './WindowDetailModal'
+import { getHeatmapDomain, getHeatmapColor } from './heatmapScale'
+import { getWindowMetric } from '@/lib/calculation/rollingWindowEngine'
+import type {
+  HorizonHeatmap,
+  HorizonYears,
+  RollingWindowStats,
+  WindowMetric,
+  WindowResult,
+} from '@/lib/api/types'
+
+// Canvas layout, in CSS pixels
+const ROW_HEIGHT = 10
+const LABEL_WIDTH = 36     // Horizon labels on the left
+const AXIS_HEIGHT = 18     // Start year labels underneath
+
+const METRIC_OPTIONS: { value: WindowMetric; label: string }[] = [
+  { value: 'cagr', label: 'CAGR' },
+  { value: 'totalReturn', label: 'Total Return' },
+]
+
+interface Cell {
+  horizon: HorizonYears
+  window: WindowResult
+  stats: RollingWindowStats  // Across the windows of this horizon
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`
+}
+
+function formatMonth(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+/**
+ * Draw every cell, longest horizon on top, with horizon and year labels
+ */
+function drawHeatmap(
+  ctx: CanvasRenderingContext2D,
+  heatmap: HorizonHeatmap,
+  metric: WindowMetric,
+  width: number
+) {
+  const { horizons, startDates, windows } = heatmap
+  const cellWidth = (width - LABEL_WIDTH) / startDates.length
+  const gridHeight = horizons.length * ROW_HEIGHT
+  const domain = getHeatmapDomain(heatmap, metric)
+
+  ctx.clearRect(0, 0, width, gridHeight + AXIS_HEIGHT)
+
+  windows.forEach((row, rowIndex) => {
+    const y = gridHeight - (rowIndex + 1) * ROW_HEIGHT
+    row.forEach((window, column) => {
+      if (!window) return
+      ctx.fillStyle = getHeatmapColor(getWindowMetric(window, metric), domain)
+      // Overlap by a pixel so fractional widths leave no seams
+      ctx.fillRect(LABEL_WIDTH + column * cellWidth, y, cellWidth + 1, ROW_HEIGHT)
+    })
+  })
+
+  ctx.fillStyle = '#9ca3af'
+  ctx.font = '10px sans-serif'
+  ctx.textBaseline = 'middle'
+
+  // Label every fifth horizon (and the first)
+  ctx.textAlign = 'right'
+  horizons.forEach((horizon, rowIndex) => {
+    if (rowIndex === 0 || horizon % 5 === 0) {
+      const y = gridHeight - (rowIndex + 0.5) * ROW_HEIGHT
+      ctx.fillText(`${horizon}Y`, LABEL_WIDTH - 6, y)
+    }
+  })
+
+  // Label January starts, thinned to keep roughly 60px between labels
+  ctx.textAlign = 'center'
+  const yearStep = Math.max(1, Math.ceil(60 / (cellWidth * 12)))
+  startDates.forEach((startDate, column) => {
+    const year = Number(startDate.substring(0, 4))
+    if (startDate.substring(5, 7) === '01' && year % yearStep === 0) {
+      ctx.fillText(
+        String(year),
+        LABEL_WIDTH + (column + 0.5) * cellWidth,
+        gridHeight + AXIS_HEIGHT / 2
+      )
+    }
+  })
+}
+
+/**
+ * Heatmap of rolling DCA outcomes by window start month (x) and horizon (y).
+ * Shows when good and bad windows started, which the percentile bands hide.
+ * Click a cell to see that window's details.
+ */
+export function RollingHeatmap() {
+  const { heatmap, isSweeping } = useRollingAnalysisStore()
+  const [metric, setMetric] = useState<WindowMetric>('cagr')
+  const [hovered, setHovered] = useState<Cell | null>(null)
+  const [selected, setSelected] = useState<Cell | null>(null)
+  const [width, setWidth] = useState(0)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  const hasCells = !!heatmap && heatmap.startDates.length > 0
+  const height = hasCells ? heatmap.horizons.length * ROW_HEIGHT + AXIS_HEIGHT : 0
+
+  // Track the container width
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const measure = () => setWidth(container.clientWidth)
+    measure()
+
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', measure)
+      return () => window.removeEventListener('resize', measure)
+    }
+
+    const observer = new ResizeObserver(measure)
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [hasCells])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !hasCells || width <= LABEL_WIDTH) return
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = width * dpr
+    canvas.height = height * dpr
+    canvas.style.width = `${width}px`
+    canvas.style.height = `${height}px`
+    ctx.scale(dpr, dpr)
+
+    drawHeatmap(ctx, heatmap, metric, width)
+  }, [heatmap, hasCells, metric, width, height])
+
+  // Cell under a pointer position, if it holds a window
+  const cellAt = useCallback(
+    (clientX: number, clientY: number): Cell | null => {
+      const canvas = canvasRef.current
+      if (!canvas || !hasCells) return null
+
+      const rect = canvas.getBoundingClientRect()
+      const x = clientX - rect.left - LABEL_WIDTH
+      const y = clientY - rect.top
+      const rows = heatmap.horizons.length
+      const cellWidth = (rect.width - LABEL_WIDTH) / heatmap.startDates.length
+
+      const column = Math.floor(x / cellWidth)
+      const row = rows - 1 - Math.floor(y / ROW_HEIGHT)
+      if (column < 0 || column >= heatmap.startDates.length || row < 0 || row >= rows) {
+        return null
+      }
+
+      const window = heatmap.windows[row][column]
+      return window ? { horizon: heatmap.horizons[row], window, stats: heatmap.stats[row] } : null
+    },
+    [heatmap, hasCells]
+  )
+
+  if (!heatmap && !isSweeping) {
+    return null
+  }
+
+  return (
+    <>
+      <div className="bg-gray-800/50 rounded-xl p-4 mt-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <h3 className="text-sm font-medium text-gray-400">
+            Outcomes by Start Date and Horizon
+          </h3>
+          <div className="inline-flex items-center bg-gray-700/50 rounded-lg p-0.5">
+            {METRIC_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setMetric(option.value)}
+                className={`px-3 py-1.5 text-sm rounded-md transition-all duration-200
+                  ${
+                    metric === option.value
+                      ? 'bg-gray-600 text-white'
+                      : 'text-gray-400 hover:text-gray-200'
+                  }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {!hasCells ? (
+          <div className="py-8 text-center text-sm text-gray-500">
+            {isSweeping
+              ? 'Sweeping every horizon...'
+              : 'Not enough history for any rolling horizon.'}
+          </div>
+        ) : (
+          <div
+            ref={containerRef}
+            className={`relative transition-opacity ${isSweeping ? 'opacity-50' : ''}`}
+          >
+            <canvas
+              ref={canvasRef}
+              role="img"
+              aria-label={`Heatmap of ${metric === 'cagr' ? 'CAGR' : 'total return'} by window start date and horizon`}
+              className={hovered ? 'cursor-pointer' : ''}
+              onMouseMove={(e) => setHovered(cellAt(e.clientX, e.clientY))}
+              onMouseLeave={() => setHovered(null)}
+              onClick={(e) => setSelected(cellAt(e.clientX, e.clientY))}
+            />
+          </div>
+        )}
+
+        {hasCells && (
+          <p className="text-xs text-gray-500 mt-2 h-4">
+            {hovered
+              ? `${formatMonth(hovered.window.startDate)} start, ${hovered.horizon}Y: ` +
+                `CAGR ${formatPercent(hovered.window.cagr)}, ` +
+                `total return ${formatPercent(hovered.window.totalReturn)}`
+              : isSweeping
+              ? 'Updating...'
+              : 'Hover a cell for its window; click for details.'}
+          </p>
+        )}
+      </div>
+
+      {/* Window Detail Modal */}
+      {selected && (
+        <WindowDetailModal
+          window={selected.window}
+          stats={selected.stats}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </>
+  )
+}
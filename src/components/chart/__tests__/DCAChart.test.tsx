@@ -9,6 +9,7 @@ vi.mock('echarts-for-react', () => ({
 // Import DCAChartECharts directly to bypass Next.js dynamic import
 // (DCAChart uses dynamic import with SSR disabled which shows skeleton in tests)
 import { DCAChartECharts as DCAChart } from '../DCAChartECharts'
+import { createEmptyTaxLotReport } from '@/lib/calculation/taxLots'
 
 // Mock the stores
 const mockPrimary = {
@@ -19,9 +20,9 @@ const mockPrimary = {
   lumpSumResult: null,
   result: {
     points: [
-      { date: '2023-01-01', principal: 100, marketValue: 110, dividends: 0, shares: 10 },
-      { date: '2023-02-01', principal: 200, marketValue: 230, dividends: 5, shares: 20 },
-      { date: '2023-03-01', principal: 300, marketValue: 280, dividends: 10, shares: 30 }, // Loss scenario
+      { date: '2023-01-01', principal: 100, marketValue: 110, dividends: 0, shares: 10, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-02-01', principal: 200, marketValue: 230, dividends: 5, shares: 20, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-03-01', principal: 300, marketValue: 280, dividends: 10, shares: 30, fees: 0, cash: 0, withdrawn: 0 }, // Loss scenario
     ],
     totalInvested: 300,
     finalShares: 30,
@@ -29,6 +30,13 @@ const mockPrimary = {
     totalDividends: 10,
     totalReturn: -6.67,
     cagr: -2.5,
+    totalFees: 0,
+    totalDividendTaxes: 0,
+    xirr: 0,
+    totalWithdrawn: 0,
+    depletionDate: null,
+    remainingBalance: 0,
+    taxLots: createEmptyTaxLotReport(),
   },
 }
 
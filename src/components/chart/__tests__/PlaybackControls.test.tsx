@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, fireEvent } from '@testing-library/react'
 import { PlaybackControls } from '../PlaybackControls'
+import { createEmptyTaxLotReport } from '@/lib/calculation/taxLots'
 
 // Mock data for simulation store
 const mockPrimaryWithData = {
@@ -9,11 +10,11 @@ const mockPrimaryWithData = {
   error: null,
   result: {
     points: [
-      { date: '2023-01-01', principal: 100, marketValue: 100, totalValue: 100, shares: 1, dividends: 0 },
-      { date: '2023-02-01', principal: 200, marketValue: 210, totalValue: 210, shares: 2, dividends: 0 },
-      { date: '2023-03-01', principal: 300, marketValue: 330, totalValue: 330, shares: 3, dividends: 0 },
-      { date: '2023-04-01', principal: 400, marketValue: 440, totalValue: 440, shares: 4, dividends: 0 },
-      { date: '2023-05-01', principal: 500, marketValue: 560, totalValue: 560, shares: 5, dividends: 0 },
+      { date: '2023-01-01', principal: 100, marketValue: 100, totalValue: 100, shares: 1, dividends: 0, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-02-01', principal: 200, marketValue: 210, totalValue: 210, shares: 2, dividends: 0, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-03-01', principal: 300, marketValue: 330, totalValue: 330, shares: 3, dividends: 0, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-04-01', principal: 400, marketValue: 440, totalValue: 440, shares: 4, dividends: 0, fees: 0, cash: 0, withdrawn: 0 },
+      { date: '2023-05-01', principal: 500, marketValue: 560, totalValue: 560, shares: 5, dividends: 0, fees: 0, cash: 0, withdrawn: 0 },
     ],
     totalInvested: 500,
     finalShares: 5,
@@ -21,6 +22,13 @@ const mockPrimaryWithData = {
     totalDividends: 0,
     totalReturn: 12,
     cagr: 12,
+    totalFees: 0,
+    totalDividendTaxes: 0,
+    xirr: 0,
+    totalWithdrawn: 0,
+    depletionDate: null,
+    remainingBalance: 0,
+    taxLots: createEmptyTaxLotReport(),
   },
 }
 
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { RollingDistributionPanel } from '../RollingDistributionPanel'
+import { useRollingAnalysisStore } from '@/store/rollingAnalysisStore'
+import { useConfigStore } from '@/store/configStore'
+import { summarizeRollingWindows } from '@/lib/calculation/rollingWindowEngine'
+import type { WindowResult } from '@/lib/api/types'
+
+function window(startDate: string, totalReturn: number): WindowResult {
+  return {
+    startDate,
+    endDate: startDate.replace(/^\d{4}/, (year) => String(Number(year) + 5)),
+    totalReturn,
+    cagr: totalReturn / 5,
+    xirr: totalReturn / 5,
+    totalWithdrawn: 0,
+    depletionDate: null,
+    finalValue: 0,
+    totalInvested: 0,
+    monthlyValues: [],
+    monthlyInvested: [],
+    monthlyWithdrawn: [],
+    lumpSumFinalValue: 0,
+    lumpSumReturn: 0,
+    lumpSumMonthlyValues: [],
+    lumpSumMonthlyInvested: [],
+    lumpSumMonthlyWithdrawn: [],
+  }
+}
+
+const windows = [
+  window('2010-01-01', -5),
+  window('2010-02-01', 12),
+  window('2010-03-01', 25),
+  window('2010-04-01', 38),
+  window('2010-05-01', 60),
+]
+
+describe('RollingDistributionPanel', () => {
+  beforeEach(() => {
+    useRollingAnalysisStore.getState().clearResults()
+    useRollingAnalysisStore.getState().setResult(
+      summarizeRollingWindows(
+        [],
+        { ticker: 'TEST', amount: 100, frequency: 'monthly', horizonYears: 5, isDRIP: true },
+        windows
+      )
+    )
+    useConfigStore.getState().setStartDate('2010-04-15')
+  })
+
+  it('renders nothing without windows', () => {
+    useRollingAnalysisStore.getState().clearResults()
+    const { container } = render(<RollingDistributionPanel />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('marks the median and the window starting in the scenario start month', () => {
+    render(<RollingDistributionPanel />)
+
+    expect(screen.getByText(/Median \+25\.0%/)).toBeInTheDocument()
+    expect(screen.getByText(/Your start \(Apr 2010\) \+38\.0%, ahead\s+of 60% of windows/)).toBeInTheDocument()
+  })
+
+  it('notes when the scenario start has no window', () => {
+    useConfigStore.getState().setStartDate('2020-06-01')
+    render(<RollingDistributionPanel />)
+
+    expect(screen.getByText(/Your start date \(Jun 2020\) has no full\s+5-year window/)).toBeInTheDocument()
+  })
+
+  it('rebins the histogram when the bin width changes', () => {
+    render(<RollingDistributionPanel />)
+    const bars = () =>
+      screen.getByRole('img', { name: 'Histogram of window outcomes' }).querySelectorAll('rect')
+    expect(bars()).toHaveLength(8) // -10 to 70 in 10s
+
+    fireEvent.change(screen.getByLabelText(/bin width/i), { target: { value: '35' } })
+
+    expect(bars()).toHaveLength(3) // -35 to 70
+  })
+
+  it('switches to CAGR', () => {
+    render(<RollingDistributionPanel />)
+    fireEvent.click(screen.getByRole('button', { name: 'CAGR' }))
+
+    expect(screen.getByText(/Median \+5\.0%/)).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { getHeatmapDomain, getHeatmapColor } from '../heatmapScale'
+import type { HorizonHeatmap, WindowResult } from '@/lib/api/types'
+
+function window(cagr: number, totalReturn: number): WindowResult {
+  return {
+    startDate: '2020-01-01',
+    endDate: '2021-01-01',
+    totalReturn,
+    cagr,
+    xirr: cagr,
+    totalWithdrawn: 0,
+    depletionDate: null,
+    finalValue: 0,
+    totalInvested: 0,
+    monthlyValues: [],
+    monthlyInvested: [],
+    monthlyWithdrawn: [],
+    lumpSumFinalValue: 0,
+    lumpSumReturn: 0,
+    lumpSumMonthlyValues: [],
+    lumpSumMonthlyInvested: [],
+    lumpSumMonthlyWithdrawn: [],
+  }
+}
+
+describe('getHeatmapDomain', () => {
+  const heatmap = (windows: (WindowResult | null)[][]): HorizonHeatmap => ({
+    startDates: [],
+    horizons: [],
+    windows,
+    stats: [],
+  })
+
+  it('uses the 95th percentile of absolute values, ignoring empty cells', () => {
+    const cells = Array.from({ length: 21 }, (_, i) => window(i % 2 === 0 ? 20 - i : -i, 0))
+    expect(getHeatmapDomain(heatmap([cells, [null]]), 'cagr')).toBe(19)
+  })
+
+  it('falls back to 1 when every value is zero or there are none', () => {
+    expect(getHeatmapDomain(heatmap([]), 'cagr')).toBe(1)
+    expect(getHeatmapDomain(heatmap([[window(0, 0)]]), 'totalReturn')).toBe(1)
+  })
+})
+
+describe('getHeatmapColor', () => {
+  it('is neutral at zero', () => {
+    expect(getHeatmapColor(0, 10)).toBe('rgb(55, 65, 81)')
+  })
+
+  it('saturates to red or green at the domain', () => {
+    expect(getHeatmapColor(-10, 10)).toBe('rgb(239, 68, 68)')
+    expect(getHeatmapColor(25, 10)).toBe('rgb(34, 197, 94)')
+  })
+
+  it('blends toward the target halfway in', () => {
+    expect(getHeatmapColor(5, 10)).toBe('rgb(45, 131, 88)')
+  })
+})
@@ -0,0 +1,43 @@
+/**
+ * Heatmap Color Scale Utilities
+ *
+ * Diverging scale for the start date × horizon heatmap: losses shade toward
+ * red, gains toward green, and values near zero stay neutral gray.
+ */
+
+import { calculatePercentile } from '@/lib/calculation/percentileUtils'
+import { getWindowMetric } from '@/lib/calculation/rollingWindowEngine'
+import type { WindowMetric, HorizonHeatmap } from '@/lib/api/types'
+
+type RGB = [number, number, number]
+
+const NEUTRAL: RGB = [55, 65, 81]     // gray-700
+const NEGATIVE: RGB = [239, 68, 68]   // red-500
+const POSITIVE: RGB = [34, 197, 94]   // green-500
+
+/**
+ * Magnitude at which the scale saturates: the 95th percentile of absolute
+ * values, so a few extreme windows don't wash out the rest
+ */
+export function getHeatmapDomain(heatmap: HorizonHeatmap, metric: WindowMetric): number {
+  const magnitudes: number[] = []
+
+  for (const row of heatmap.windows) {
+    for (const window of row) {
+      if (window) magnitudes.push(Math.abs(getWindowMetric(window, metric)))
+    }
+  }
+
+  magnitudes.sort((a, b) => a - b)
+  return calculatePercentile(magnitudes, 95) || 1
+}
+
+/**
+ * Cell color for a value, blending from neutral toward red or green
+ */
+export function getHeatmapColor(value: number, domain: number): string {
+  const t = Math.min(1, Math.abs(value) / domain)
+  const target = value < 0 ? NEGATIVE : POSITIVE
+  const [r, g, b] = NEUTRAL.map((channel, i) => Math.round(channel + (target[i] - channel) * t))
+  return `rgb(${r}, ${g}, ${b})`
+}
@@ -4,12 +4,37 @@ import { useConfigStore } from '@/store/configStore'
 import { TickerInput } from './TickerInput'
 import { DRIPToggle } from './DRIPToggle'
 import { BenchmarkToggles } from './BenchmarkToggles'
-import type { InvestmentFrequency } from '@/lib/api/types'
+import { FeeSettings } from './FeeSettings'
+import { DividendTaxSettings } from './DividendTaxSettings'
+import { ContributionSchedule } from './ContributionSchedule'
+import { WithdrawalSettings } from './WithdrawalSettings'
+import { PortfolioSettings } from './PortfolioSettings'
+import { StrategySettings } from './StrategySettings'
+import { ScheduleAnchorSettings } from './ScheduleAnchorSettings'
+import type { ExecutionPrice, InvestmentFrequency, LotSelectionMethod } from '@/lib/api/types'
 
 const FREQUENCY_OPTIONS: { value: InvestmentFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
   { value: 'weekly', label: 'Weekly' },
   { value: 'biweekly', label: 'Bi-weekly' },
+  { value: 'semimonthly', label: 'Semi-monthly' },
   { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annually', label: 'Annually' },
+]
+
+const LOT_SELECTION_OPTIONS: { value: LotSelectionMethod; label: string; description: string }[] = [
+  { value: 'fifo', label: 'FIFO', description: 'the oldest lots first' },
+  { value: 'lifo', label: 'LIFO', description: 'the newest lots first' },
+  { value: 'hifo', label: 'HIFO', description: 'the highest-cost lots first, minimizing realized gains' },
+]
+
+const EXECUTION_PRICE_OPTIONS: { value: ExecutionPrice; label: string; description: string }[] = [
+  { value: 'close', label: 'Close', description: 'Trades fill at the closing price' },
+  { value: 'open', label: 'Open', description: 'Trades fill at the opening price' },
+  { value: 'midpoint', label: 'Midpoint', description: 'Trades fill at (high + low) / 2' },
+  { value: 'typical', label: 'Typical Price', description: 'Trades fill at (high + low + close) / 3, a VWAP proxy' },
+  { value: 'worst', label: 'Worst of Day', description: 'Buys fill at the high and sales at the low (pessimistic bound)' },
 ]
 
 function XIcon() {
@@ -27,19 +52,37 @@ export function ConfigPanel() {
     frequency,
     startDate,
     endDate,
+    holdAfterEnd,
     showLumpSum,
+    wholeShares,
+    realDollars,
+    dividendTiming,
+    executionPrice,
+    lotSelection,
+    riskFreeRate,
     comparisonTickers,
     viewMode,
     rollingHorizon,
+    monteCarloHorizon,
+    portfolioHoldings,
     setAmount,
     setFrequency,
     setStartDate,
     setEndDate,
+    setHoldAfterEnd,
     setShowLumpSum,
+    setWholeShares,
+    setRealDollars,
+    setDividendTiming,
+    setExecutionPrice,
+    setLotSelection,
+    setRiskFreeRate,
     removeComparisonTicker,
   } = useConfigStore()
 
   const isRollingMode = viewMode === 'rolling'
+  const isPortfolioMode = viewMode === 'portfolio'
+  const isMonteCarloMode = viewMode === 'montecarlo'
 
   // Calculate min date (30 years ago)
   const minDate = new Date()
@@ -53,8 +96,8 @@ export function ConfigPanel() {
     <div className="bg-gray-900/50 rounded-xl p-6 space-y-6">
       <h2 className="text-lg font-semibold text-white">Configuration</h2>
 
-      {/* Ticker Input */}
-      <TickerInput />
+      {/* Ticker Input - Replaced by holdings in portfolio mode */}
+      {isPortfolioMode ? <PortfolioSettings /> : <TickerInput />}
 
       {/* Rolling Mode Info */}
       {isRollingMode && (
@@ -62,13 +105,26 @@ export function ConfigPanel() {
           <p className="text-blue-300 font-medium mb-1">Rolling Analysis Mode</p>
           <p className="text-gray-400">
             Analyzing all possible {rollingHorizon}-year investment windows. Uses
-            full historical data range.
+            the full historical data range, or the range shared with every
+            comparison and benchmark ticker.
+          </p>
+        </div>
+      )}
+
+      {/* Monte Carlo Mode Info */}
+      {isMonteCarloMode && (
+        <div className="bg-blue-900/20 border border-blue-800/50 rounded-lg p-3 text-sm">
+          <p className="text-blue-300 font-medium mb-1">Monte Carlo Mode</p>
+          <p className="text-gray-400">
+            Projecting {monteCarloHorizon} years forward from today by resampling
+            the ticker&apos;s historical monthly returns. Dated amount changes and
+            pauses don&apos;t apply to projections.
           </p>
         </div>
       )}
 
-      {/* Comparison Tickers - Hidden in rolling mode */}
-      {!isRollingMode && comparisonTickers.length > 0 && (
+      {/* Comparison Tickers - Single scenario and rolling analysis */}
+      {!isPortfolioMode && !isMonteCarloMode && comparisonTickers.length > 0 && (
         <div className="space-y-2">
           <label className="block text-sm font-medium text-gray-400">
             Comparing with
@@ -93,8 +149,8 @@ export function ConfigPanel() {
         </div>
       )}
 
-      {/* Benchmark Comparison - Hidden in rolling mode */}
-      {!isRollingMode && <BenchmarkToggles />}
+      {/* Benchmark Comparison - Single scenario and rolling analysis */}
+      {!isPortfolioMode && !isMonteCarloMode && <BenchmarkToggles />}
 
       {/* Investment Amount */}
       <div className="space-y-2">
@@ -138,12 +194,12 @@ export function ConfigPanel() {
         <label className="block text-sm font-medium text-gray-400">
           Investment Frequency
         </label>
-        <div className="grid grid-cols-3 gap-2">
+        <div className="grid grid-cols-4 gap-2">
           {FREQUENCY_OPTIONS.map((option) => (
             <button
               key={option.value}
               onClick={() => setFrequency(option.value)}
-              className={`px-4 py-2 rounded-lg transition-colors ${
+              className={`px-2 py-2 text-sm rounded-lg transition-colors ${
                 frequency === option.value
                   ? 'bg-blue-600 text-white'
                   : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
@@ -153,10 +209,21 @@ export function ConfigPanel() {
             </button>
           ))}
         </div>
+        {/* Calendar anchor - Hidden in rolling and Monte Carlo modes */}
+        {!isRollingMode && !isMonteCarloMode && <ScheduleAnchorSettings />}
       </div>
 
-      {/* Start Date - Hidden in rolling mode */}
-      {!isRollingMode && (
+      {/* Contribution Schedule */}
+      <ContributionSchedule />
+
+      {/* Contribution Strategy - Single scenario only */}
+      {!isRollingMode && !isPortfolioMode && !isMonteCarloMode && <StrategySettings />}
+
+      {/* Withdrawals - Only the starting balance in portfolio and Monte Carlo modes */}
+      <WithdrawalSettings />
+
+      {/* Start Date - Hidden in rolling and Monte Carlo modes */}
+      {!isRollingMode && !isMonteCarloMode && (
         <div className="space-y-2">
           <label className="block text-sm font-medium text-gray-400">
             Start Date
@@ -191,8 +258,8 @@ export function ConfigPanel() {
         </div>
       )}
 
-      {/* End Date - Hidden in rolling mode */}
-      {!isRollingMode && (
+      {/* End Date - Hidden in rolling and Monte Carlo modes */}
+      {!isRollingMode && !isMonteCarloMode && (
         <div className="space-y-2">
           <label className="block text-sm font-medium text-gray-400">
             End Date
@@ -219,11 +286,244 @@ export function ConfigPanel() {
         </div>
       )}
 
+      {/* Hold After End Date - Hidden in rolling and Monte Carlo modes */}
+      {!isRollingMode && !isMonteCarloMode && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-400">
+            After End Date
+          </label>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setHoldAfterEnd(false)}
+              className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+                !holdAfterEnd
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              Stop
+            </button>
+            <button
+              onClick={() => setHoldAfterEnd(true)}
+              className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+                holdAfterEnd
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              Hold
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {holdAfterEnd
+              ? 'Contributions stop at the end date; the position is held to the latest price'
+              : 'The simulation ends at the end date'}
+          </p>
+        </div>
+      )}
+
       {/* DRIP Toggle */}
       <DRIPToggle />
 
-      {/* Lump Sum Overlay - Hidden in rolling mode */}
-      {!isRollingMode && (
+      {/* Dividend Timing - Hidden in rolling and Monte Carlo modes */}
+      {!isRollingMode && !isMonteCarloMode && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-400">
+            Dividends Paid On
+          </label>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setDividendTiming('exDate')}
+              className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+                dividendTiming === 'exDate'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              Ex-Date
+            </button>
+            <button
+              onClick={() => setDividendTiming('paymentDate')}
+              className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+                dividendTiming === 'paymentDate'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              Payment Date
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {dividendTiming === 'paymentDate'
+              ? 'Shares held on the ex-date earn the dividend; cash arrives on the payment date at that day\'s price'
+              : 'Dividends are paid and reinvested on the ex-date'}
+          </p>
+        </div>
+      )}
+
+      {/* Real Dollars - Hidden in portfolio and Monte Carlo modes */}
+      {!isPortfolioMode && !isMonteCarloMode && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-400">
+            Dollars
+          </label>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setRealDollars(false)}
+              className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+                !realDollars
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              Nominal
+            </button>
+            <button
+              onClick={() => setRealDollars(true)}
+              className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+                realDollars
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              Real
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {!realDollars
+              ? 'Values as they were at the time'
+              : isRollingMode
+                ? 'Adjusted for CPI inflation (interpolated from annual averages), in each window\'s start-date dollars'
+                : 'Adjusted for CPI inflation (interpolated from annual averages), in dollars of the last simulated date'}
+          </p>
+        </div>
+      )}
+
+      {/* Share Purchases - Hidden in rolling and Monte Carlo modes */}
+      {!isRollingMode && !isMonteCarloMode && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-400">
+            Share Purchases
+          </label>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setWholeShares(false)}
+              className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+                !wholeShares
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              Fractional
+            </button>
+            <button
+              onClick={() => setWholeShares(true)}
+              className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+                wholeShares
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              Whole
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {wholeShares
+              ? 'Only whole shares are bought; leftover cash carries to the next purchase'
+              : 'Every dollar is invested, including fractional shares'}
+          </p>
+        </div>
+      )}
+
+      {/* Execution Price - Hidden in rolling and Monte Carlo modes */}
+      {!isRollingMode && !isMonteCarloMode && (
+        <div className="space-y-2">
+          <label htmlFor="execution-price" className="block text-sm font-medium text-gray-400">
+            Execution Price
+          </label>
+          <select
+            id="execution-price"
+            value={executionPrice}
+            onChange={(e) => setExecutionPrice(e.target.value as ExecutionPrice)}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg
+              text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+              focus:border-transparent"
+          >
+            {EXECUTION_PRICE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">
+            {EXECUTION_PRICE_OPTIONS.find((option) => option.value === executionPrice)?.description}
+          </p>
+        </div>
+      )}
+
+      {/* Trading Costs - Hidden in rolling and Monte Carlo modes */}
+      {!isRollingMode && !isMonteCarloMode && <FeeSettings />}
+
+      {/* Dividend Taxes - Hidden in rolling and Monte Carlo modes */}
+      {!isRollingMode && !isMonteCarloMode && <DividendTaxSettings />}
+
+      {/* Tax Lot Selection - Hidden in rolling and Monte Carlo modes */}
+      {!isRollingMode && !isMonteCarloMode && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-400">
+            Tax Lot Selection
+          </label>
+          <div className="flex items-center gap-2">
+            {LOT_SELECTION_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setLotSelection(option.value)}
+                className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+                  lotSelection === option.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {isPortfolioMode ? 'Rebalancing sells ' : 'Withdrawals sell '}
+            {LOT_SELECTION_OPTIONS.find((option) => option.value === lotSelection)?.description}
+          </p>
+        </div>
+      )}
+
+      {/* Risk-Free Rate - Hidden in rolling and Monte Carlo modes */}
+      {!isRollingMode && !isMonteCarloMode && (
+        <div className="space-y-2">
+          <label htmlFor="risk-free-rate" className="block text-sm font-medium text-gray-400">
+            Risk-Free Rate (% / year)
+          </label>
+          <input
+            id="risk-free-rate"
+            type="number"
+            min={0}
+            max={20}
+            step={0.25}
+            value={riskFreeRate}
+            onChange={(e) => {
+              const parsed = parseFloat(e.target.value)
+              setRiskFreeRate(Number.isFinite(parsed) ? parsed : 0)
+            }}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg
+              text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+              focus:border-transparent"
+          />
+          <p className="text-xs text-gray-500">
+            Used for Sharpe and Sortino ratios
+          </p>
+        </div>
+      )}
+
+      {/* Lump Sum Overlay - Hidden in portfolio and Monte Carlo modes */}
+      {!isPortfolioMode && !isMonteCarloMode && (
         <div className="space-y-2">
           <label className="block text-sm font-medium text-gray-400">
             Lump Sum Overlay
@@ -251,7 +551,9 @@ export function ConfigPanel() {
             </button>
           </div>
           <p className="text-xs text-gray-500">
-            Toggle the lump sum comparison line on the main chart.
+            {isRollingMode
+              ? 'Toggle the lump sum bands on the rolling chart.'
+              : 'Toggle the lump sum comparison line on the main chart.'}
           </p>
         </div>
       )}
@@ -266,6 +568,24 @@ export function ConfigPanel() {
             <span className="text-white">{frequency}</span> investments in{' '}
             <span className="text-white">{ticker}</span>
           </p>
+        ) : isMonteCarloMode ? (
+          <p>
+            Projecting <span className="text-white">${amount}</span>{' '}
+            <span className="text-white">{frequency}</span> investments in{' '}
+            <span className="text-white">{ticker}</span> over the next{' '}
+            <span className="text-white">{monteCarloHorizon} years</span>
+          </p>
+        ) : isPortfolioMode ? (
+          <p>
+            Investing <span className="text-white">${amount}</span>{' '}
+            <span className="text-white">{frequency}</span> across{' '}
+            <span className="text-white">
+              {portfolioHoldings
+                .filter((holding) => holding.ticker)
+                .map((holding) => `${holding.ticker} ${holding.weight}%`)
+                .join(' / ')}
+            </span>
+          </p>
         ) : (
           <p>
             Investing <span className="text-white">${amount}</span>{' '}
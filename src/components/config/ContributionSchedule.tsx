@@ -0,0 +1,161 @@
+'use client'
+
+import { useConfigStore } from '@/store/configStore'
+
+const inputClassName = `w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg
+  text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+  focus:border-transparent`
+
+const removeButtonClassName = `px-2 text-gray-500 hover:text-red-400 transition-colors`
+
+const addButtonClassName = `px-3 py-1 text-sm rounded-lg bg-gray-800 text-gray-400
+  hover:bg-gray-700 transition-colors`
+
+export function ContributionSchedule() {
+  const {
+    amount,
+    startDate,
+    endDate,
+    annualIncrease,
+    amountOverrides,
+    pauses,
+    setAnnualIncrease,
+    setAmountOverrides,
+    setPauses,
+  } = useConfigStore()
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-400">
+        Contribution Schedule
+      </label>
+
+      {/* Annual step-up */}
+      <div>
+        <span className="block text-xs text-gray-500 mb-1">
+          Annual Increase (% / year)
+        </span>
+        <input
+          type="number"
+          min={0}
+          max={50}
+          step={0.5}
+          value={annualIncrease}
+          onChange={(e) => {
+            const parsed = parseFloat(e.target.value)
+            setAnnualIncrease(Number.isFinite(parsed) ? parsed : 0)
+          }}
+          aria-label="Annual increase (% / year)"
+          className={inputClassName}
+        />
+      </div>
+
+      {/* Dated amount overrides */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500">Amount Changes</span>
+          <button
+            onClick={() =>
+              setAmountOverrides([...amountOverrides, { date: endDate, amount }])
+            }
+            className={addButtonClassName}
+          >
+            + Add
+          </button>
+        </div>
+        {amountOverrides.map((override, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="date"
+              value={override.date}
+              min={startDate}
+              onChange={(e) => {
+                const next = [...amountOverrides]
+                next[index] = { ...override, date: e.target.value }
+                setAmountOverrides(next)
+              }}
+              aria-label="Amount change date"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={0}
+              value={override.amount}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value)
+                const next = [...amountOverrides]
+                next[index] = {
+                  ...override,
+                  amount: Number.isFinite(parsed) ? Math.max(0, parsed) : 0,
+                }
+                setAmountOverrides(next)
+              }}
+              aria-label="New contribution amount"
+              className={inputClassName}
+            />
+            <button
+              onClick={() => setAmountOverrides(amountOverrides.filter((_, i) => i !== index))}
+              className={removeButtonClassName}
+              aria-label="Remove amount change"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Pause intervals */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500">Pauses</span>
+          <button
+            onClick={() => setPauses([...pauses, { start: startDate, end: startDate }])}
+            className={addButtonClassName}
+          >
+            + Add
+          </button>
+        </div>
+        {pauses.map((pause, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="date"
+              value={pause.start}
+              onChange={(e) => {
+                const next = [...pauses]
+                const start = e.target.value
+                next[index] = { start, end: pause.end < start ? start : pause.end }
+                setPauses(next)
+              }}
+              aria-label="Pause start"
+              className={inputClassName}
+            />
+            <input
+              type="date"
+              value={pause.end}
+              min={pause.start}
+              onChange={(e) => {
+                const next = [...pauses]
+                const end = e.target.value
+                next[index] = { start: end < pause.start ? end : pause.start, end }
+                setPauses(next)
+              }}
+              aria-label="Pause end"
+              className={inputClassName}
+            />
+            <button
+              onClick={() => setPauses(pauses.filter((_, i) => i !== index))}
+              className={removeButtonClassName}
+              aria-label="Remove pause"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Amount changes apply from their date onward; no contributions are made during pauses
+      </p>
+    </div>
+  )
+}
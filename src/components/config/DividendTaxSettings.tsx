@@ -0,0 +1,59 @@
+'use client'
+
+import { useConfigStore } from '@/store/configStore'
+import type { DividendTaxConfig } from '@/lib/api/types'
+
+const TAX_FIELDS: { key: keyof DividendTaxConfig; label: string }[] = [
+  { key: 'qualifiedRate', label: 'Qualified Rate' },
+  { key: 'ordinaryRate', label: 'Ordinary Rate' },
+  { key: 'qualifiedPercent', label: 'Qualified Share' },
+  { key: 'withholdingRate', label: 'Foreign Withholding' },
+]
+
+export function DividendTaxSettings() {
+  const { dividendTax, setDividendTax } = useConfigStore()
+
+  const isTaxed =
+    dividendTax.qualifiedRate > 0 ||
+    dividendTax.ordinaryRate > 0 ||
+    dividendTax.withholdingRate > 0
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-400">
+        Dividend Taxes
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {TAX_FIELDS.map(({ key, label }) => (
+          <div key={key}>
+            <span className="block text-xs text-gray-500 mb-1">
+              {label} (%)
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={dividendTax[key]}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value)
+                setDividendTax({
+                  [key]: Number.isFinite(parsed) ? Math.min(100, Math.max(0, parsed)) : 0,
+                })
+              }}
+              aria-label={`${label} (%)`}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg
+                text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+                focus:border-transparent"
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        {isTaxed
+          ? 'Taxes come out of each dividend; only the rest is paid or reinvested. Withholding is credited against the domestic tax'
+          : 'Tax-advantaged account: dividends arrive in full'}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { useConfigStore } from '@/store/configStore'
+import type { FeeModel } from '@/lib/api/types'
+
+const FEE_FIELDS: { key: keyof FeeModel; label: string; unit: string; step: number }[] = [
+  { key: 'flatPerTrade', label: 'Commission', unit: '$/trade', step: 0.5 },
+  { key: 'percentPerTrade', label: 'Commission', unit: '% of trade', step: 0.05 },
+  { key: 'spreadBps', label: 'Bid/Ask Spread', unit: 'bps', step: 1 },
+  { key: 'expenseRatio', label: 'Expense Ratio', unit: '% / year', step: 0.01 },
+]
+
+export function FeeSettings() {
+  const { fees, setFees } = useConfigStore()
+
+  const hasFees = FEE_FIELDS.some(({ key }) => fees[key] > 0)
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-400">
+        Trading Costs
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {FEE_FIELDS.map(({ key, label, unit, step }) => (
+          <div key={key}>
+            <span className="block text-xs text-gray-500 mb-1">
+              {label} ({unit})
+            </span>
+            <input
+              type="number"
+              min={0}
+              step={step}
+              value={fees[key]}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value)
+                setFees({ [key]: Number.isFinite(parsed) ? Math.max(0, parsed) : 0 })
+              }}
+              aria-label={`${label} (${unit})`}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg
+                text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+                focus:border-transparent"
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        {hasFees
+          ? 'Fees are deducted from every purchase and from holdings daily'
+          : 'Frictionless: every dollar buys shares'}
+      </p>
+    </div>
+  )
+}
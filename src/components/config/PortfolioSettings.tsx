@@ -0,0 +1,162 @@
+'use client'
+
+import { useConfigStore, MAX_PORTFOLIO_HOLDINGS } from '@/store/configStore'
+import type { RebalanceInterval, RebalanceStrategy } from '@/lib/api/types'
+
+const STRATEGY_OPTIONS: { value: RebalanceStrategy; label: string; description: string }[] = [
+  {
+    value: 'none',
+    label: 'Never',
+    description: 'Contributions follow the targets; holdings drift with the market',
+  },
+  {
+    value: 'periodic',
+    label: 'Periodic',
+    description: 'Reset to the target weights at the start of every interval',
+  },
+  {
+    value: 'threshold',
+    label: 'Threshold',
+    description: 'Reset to the target weights whenever a holding drifts past the band',
+  },
+]
+
+const INTERVAL_OPTIONS: { value: RebalanceInterval; label: string }[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annually', label: 'Annually' },
+]
+
+const inputClassName = `w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg
+  text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+  focus:border-transparent`
+
+const removeButtonClassName = `px-2 text-gray-500 hover:text-red-400 transition-colors`
+
+const addButtonClassName = `px-3 py-1 text-sm rounded-lg bg-gray-800 text-gray-400
+  hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed`
+
+export function PortfolioSettings() {
+  const { portfolioHoldings, rebalance, setPortfolioHoldings, setRebalance } = useConfigStore()
+
+  const totalWeight = portfolioHoldings.reduce((sum, holding) => sum + holding.weight, 0)
+  const strategy = STRATEGY_OPTIONS.find((option) => option.value === rebalance.strategy)
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-400">
+        Holdings
+      </label>
+
+      {/* Tickers with target weights */}
+      <div className="space-y-2">
+        {portfolioHoldings.map((holding, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={holding.ticker}
+              placeholder="Ticker"
+              onChange={(e) => {
+                const next = [...portfolioHoldings]
+                next[index] = { ...holding, ticker: e.target.value.trim() }
+                setPortfolioHoldings(next)
+              }}
+              aria-label="Holding ticker"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={holding.weight}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value)
+                const next = [...portfolioHoldings]
+                next[index] = { ...holding, weight: Number.isFinite(parsed) ? parsed : 0 }
+                setPortfolioHoldings(next)
+              }}
+              aria-label="Target weight (%)"
+              className={`${inputClassName} max-w-[6rem]`}
+            />
+            <button
+              onClick={() => setPortfolioHoldings(portfolioHoldings.filter((_, i) => i !== index))}
+              className={removeButtonClassName}
+              aria-label="Remove holding"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <span className={`text-xs ${totalWeight === 100 ? 'text-gray-500' : 'text-yellow-400'}`}>
+            Total weight: {totalWeight}%
+            {totalWeight !== 100 && totalWeight > 0 && ' (weights are scaled to 100%)'}
+          </span>
+          <button
+            onClick={() => setPortfolioHoldings([...portfolioHoldings, { ticker: '', weight: 0 }])}
+            disabled={portfolioHoldings.length >= MAX_PORTFOLIO_HOLDINGS}
+            className={addButtonClassName}
+          >
+            + Add
+          </button>
+        </div>
+      </div>
+
+      {/* Rebalancing */}
+      <div className="space-y-2">
+        <span className="block text-xs text-gray-500">Rebalancing</span>
+        <div className="grid grid-cols-3 gap-2">
+          {STRATEGY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setRebalance({ strategy: option.value })}
+              className={`px-2 py-2 text-sm rounded-lg transition-colors ${
+                rebalance.strategy === option.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {rebalance.strategy === 'periodic' && (
+          <select
+            value={rebalance.interval}
+            onChange={(e) => setRebalance({ interval: e.target.value as RebalanceInterval })}
+            aria-label="Rebalancing interval"
+            className={inputClassName}
+          >
+            {INTERVAL_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {rebalance.strategy === 'threshold' && (
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">Drift Band (± % points)</span>
+            <input
+              type="number"
+              min={1}
+              max={50}
+              step={1}
+              value={rebalance.threshold}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value)
+                setRebalance({ threshold: Number.isFinite(parsed) ? parsed : 5 })
+              }}
+              aria-label="Rebalancing drift band"
+              className={inputClassName}
+            />
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">{strategy?.description}</p>
+      </div>
+    </div>
+  )
+}
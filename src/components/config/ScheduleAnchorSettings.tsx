@@ -0,0 +1,126 @@
+'use client'
+
+import { useConfigStore } from '@/store/configStore'
+import type { ScheduleAnchor } from '@/lib/api/types'
+
+const inputClassName = `w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg
+  text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+  focus:border-transparent`
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const NTH_OPTIONS = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+]
+
+const WEEKLY_KINDS: { value: ScheduleAnchor['kind']; label: string }[] = [
+  { value: 'startDate', label: 'From start date' },
+  { value: 'weekday', label: 'Day of week' },
+]
+
+const MONTHLY_KINDS: { value: ScheduleAnchor['kind']; label: string }[] = [
+  { value: 'startDate', label: 'From start date' },
+  { value: 'dayOfMonth', label: 'Day of month' },
+  { value: 'nthWeekday', label: 'Nth weekday' },
+  { value: 'lastBusinessDay', label: 'Last business day' },
+]
+
+// Anchor used when switching to a kind, before its options are edited
+const DEFAULT_ANCHORS: Record<ScheduleAnchor['kind'], ScheduleAnchor> = {
+  startDate: { kind: 'startDate' },
+  weekday: { kind: 'weekday', weekday: 5 },
+  dayOfMonth: { kind: 'dayOfMonth', day: 1 },
+  nthWeekday: { kind: 'nthWeekday', nth: 3, weekday: 5 },
+  lastBusinessDay: { kind: 'lastBusinessDay' },
+}
+
+/**
+ * Pins contributions to a weekday or a position in the month. Daily and
+ * semi-monthly schedules have fixed dates and show nothing.
+ */
+export function ScheduleAnchorSettings() {
+  const { frequency, scheduleAnchor, setScheduleAnchor } = useConfigStore()
+
+  if (frequency === 'daily' || frequency === 'semimonthly') return null
+
+  const kinds = frequency === 'weekly' || frequency === 'biweekly' ? WEEKLY_KINDS : MONTHLY_KINDS
+  // Anchors that don't apply to this frequency fall back to the start date in the engine too
+  const anchor = kinds.some((option) => option.value === scheduleAnchor.kind)
+    ? scheduleAnchor
+    : DEFAULT_ANCHORS.startDate
+
+  return (
+    <div className="space-y-2">
+      <span className="block text-xs text-gray-500">Schedule</span>
+      <select
+        value={anchor.kind}
+        onChange={(e) => setScheduleAnchor(DEFAULT_ANCHORS[e.target.value as ScheduleAnchor['kind']])}
+        aria-label="Schedule anchor"
+        className={inputClassName}
+      >
+        {kinds.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {anchor.kind === 'dayOfMonth' && (
+        <input
+          type="number"
+          min={1}
+          max={31}
+          value={anchor.day}
+          onChange={(e) => {
+            const parsed = parseInt(e.target.value, 10)
+            setScheduleAnchor({
+              kind: 'dayOfMonth',
+              day: Number.isFinite(parsed) ? Math.min(31, Math.max(1, parsed)) : 1,
+            })
+          }}
+          aria-label="Day of month"
+          className={inputClassName}
+        />
+      )}
+
+      {(anchor.kind === 'weekday' || anchor.kind === 'nthWeekday') && (
+        <div className="flex items-center gap-2">
+          {anchor.kind === 'nthWeekday' && (
+            <select
+              value={anchor.nth}
+              onChange={(e) => setScheduleAnchor({ ...anchor, nth: parseInt(e.target.value, 10) })}
+              aria-label="Week of month"
+              className={inputClassName}
+            >
+              {NTH_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={anchor.weekday}
+            onChange={(e) => setScheduleAnchor({ ...anchor, weekday: parseInt(e.target.value, 10) })}
+            aria-label="Weekday"
+            className={inputClassName}
+          >
+            {WEEKDAYS.map((label, weekday) => (
+              <option key={label} value={weekday}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Dates that fall on a weekend or holiday move to the next trading day
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useConfigStore } from '@/store/configStore'
+import type { ContributionStrategyKind, MovingAverageAction } from '@/lib/api/types'
+
+const STRATEGY_OPTIONS: { value: ContributionStrategyKind; label: string; description: string }[] = [
+  {
+    value: 'dca',
+    label: 'Plain DCA',
+    description: 'Invest the scheduled amount every time',
+  },
+  {
+    value: 'valueAveraging',
+    label: 'Value Averaging',
+    description: 'Invest whatever keeps the portfolio on a target path; nothing when ahead of it',
+  },
+  {
+    value: 'dipBuying',
+    label: 'Buy the Dip',
+    description: 'Invest a multiple of the amount when price is well below its recent high',
+  },
+  {
+    value: 'movingAverage',
+    label: 'Moving Average',
+    description: 'Skip or double contributions depending on the moving average',
+  },
+]
+
+const MOVING_AVERAGE_OPTIONS: { value: MovingAverageAction; label: string }[] = [
+  { value: 'skipAbove', label: 'Skip above average' },
+  { value: 'doubleBelow', label: 'Double below average' },
+]
+
+const inputClassName = `w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg
+  text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+  focus:border-transparent`
+
+function parseNonNegative(value: string): number {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? Math.max(0, parsed) : 0
+}
+
+export function StrategySettings() {
+  const { contributionStrategy: strategy, setContributionStrategy } = useConfigStore()
+
+  const selected = STRATEGY_OPTIONS.find((option) => option.value === strategy.kind)
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-400">
+        Contribution Strategy
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        {STRATEGY_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setContributionStrategy({ kind: option.value })}
+            className={`px-2 py-2 text-sm rounded-lg transition-colors ${
+              strategy.kind === option.value
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {strategy.kind === 'valueAveraging' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">Target Return (% / year)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={strategy.targetReturn}
+              onChange={(e) => setContributionStrategy({ targetReturn: parseNonNegative(e.target.value) })}
+              aria-label="Target return"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">Max Contribution (×)</span>
+            <input
+              type="number"
+              min={1}
+              step={0.5}
+              value={strategy.maxMultiple}
+              onChange={(e) =>
+                setContributionStrategy({ maxMultiple: Math.max(1, parseNonNegative(e.target.value)) })
+              }
+              aria-label="Maximum contribution multiple"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+
+      {(strategy.kind === 'dipBuying' || strategy.kind === 'movingAverage') && (
+        <div>
+          <span className="block text-xs text-gray-500 mb-1">Lookback (trading days)</span>
+          <input
+            type="number"
+            min={1}
+            step={10}
+            value={strategy.lookbackDays}
+            onChange={(e) =>
+              setContributionStrategy({ lookbackDays: Math.max(1, Math.round(parseNonNegative(e.target.value))) })
+            }
+            aria-label="Lookback in trading days"
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      {strategy.kind === 'dipBuying' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">Dip (% below high)</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={strategy.dipThreshold}
+              onChange={(e) => setContributionStrategy({ dipThreshold: parseNonNegative(e.target.value) })}
+              aria-label="Dip threshold"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <span className="block text-xs text-gray-500 mb-1">Invest on Dips (×)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={strategy.dipMultiplier}
+              onChange={(e) => setContributionStrategy({ dipMultiplier: parseNonNegative(e.target.value) })}
+              aria-label="Dip contribution multiple"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+
+      {strategy.kind === 'movingAverage' && (
+        <div className="grid grid-cols-2 gap-2">
+          {MOVING_AVERAGE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setContributionStrategy({ movingAverageAction: option.value })}
+              className={`px-2 py-2 text-sm rounded-lg transition-colors ${
+                strategy.movingAverageAction === option.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {selected?.description}
+        {strategy.kind !== 'dca' && '. Results are shown next to plain DCA.'}
+      </p>
+    </div>
+  )
+}
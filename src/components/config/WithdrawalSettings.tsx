@@ -0,0 +1,195 @@
+'use client'
+
+import { useConfigStore } from '@/store/configStore'
+import type { WithdrawalStrategy } from '@/lib/api/types'
+
+const STRATEGY_OPTIONS: { value: WithdrawalStrategy; label: string; description: string }[] = [
+  {
+    value: 'fixedAmount',
+    label: 'Fixed $',
+    description: 'The same dollar amount every period',
+  },
+  {
+    value: 'fixedPercent',
+    label: 'Fixed %',
+    description: 'A yearly percentage of the current balance, so withdrawals shrink after losses',
+  },
+  {
+    value: 'inflationAdjusted',
+    label: '4% Rule',
+    description: 'A percentage of the first balance, raised by inflation every year',
+  },
+]
+
+const inputClassName = `w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg
+  text-white focus:outline-none focus:ring-2 focus:ring-blue-500
+  focus:border-transparent`
+
+function parseNonNegative(value: string): number {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? Math.max(0, parsed) : 0
+}
+
+export function WithdrawalSettings() {
+  const {
+    endDate,
+    viewMode,
+    initialInvestment,
+    withdrawal,
+    setInitialInvestment,
+    setWithdrawal,
+  } = useConfigStore()
+
+  const isRollingMode = viewMode === 'rolling'
+  // Portfolios and projections start from the starting balance but never withdraw
+  const isStartingBalanceOnly = viewMode === 'portfolio' || viewMode === 'montecarlo'
+  const strategy = STRATEGY_OPTIONS.find((option) => option.value === withdrawal?.strategy)
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-400">
+        {isStartingBalanceOnly ? 'Starting Balance' : 'Withdrawals'}
+      </label>
+
+      <div>
+        <span className="block text-xs text-gray-500 mb-1">Starting Balance ($)</span>
+        <input
+          type="number"
+          min={0}
+          step={1000}
+          value={initialInvestment}
+          onChange={(e) => setInitialInvestment(parseNonNegative(e.target.value))}
+          aria-label="Starting balance"
+          className={inputClassName}
+        />
+      </div>
+
+      {!isStartingBalanceOnly && (
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => setWithdrawal(null)}
+            className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+              !withdrawal
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            Off
+          </button>
+          <button
+            onClick={() => setWithdrawal({ startDate: isRollingMode ? undefined : endDate })}
+            className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+              withdrawal
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            On
+          </button>
+        </div>
+      )}
+
+      {withdrawal && !isStartingBalanceOnly && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {STRATEGY_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setWithdrawal({ strategy: option.value })}
+                className={`px-2 py-2 text-sm rounded-lg transition-colors ${
+                  withdrawal.strategy === option.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {withdrawal.strategy === 'fixedAmount' ? (
+              <div>
+                <span className="block text-xs text-gray-500 mb-1">Amount ($/period)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={withdrawal.amount}
+                  onChange={(e) => setWithdrawal({ amount: parseNonNegative(e.target.value) })}
+                  aria-label="Withdrawal amount"
+                  className={inputClassName}
+                />
+              </div>
+            ) : (
+              <div>
+                <span className="block text-xs text-gray-500 mb-1">Rate (% / year)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.25}
+                  value={withdrawal.rate}
+                  onChange={(e) => setWithdrawal({ rate: parseNonNegative(e.target.value) })}
+                  aria-label="Withdrawal rate"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            {withdrawal.strategy === 'inflationAdjusted' && (
+              <div>
+                <span className="block text-xs text-gray-500 mb-1">Inflation (% / year)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={withdrawal.inflationRate}
+                  onChange={(e) => setWithdrawal({ inflationRate: parseNonNegative(e.target.value) })}
+                  aria-label="Inflation rate"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <span className="block text-xs text-gray-500 mb-1">Frequency</span>
+              <select
+                value={withdrawal.frequency}
+                onChange={(e) =>
+                  setWithdrawal({ frequency: e.target.value as typeof withdrawal.frequency })
+                }
+                aria-label="Withdrawal frequency"
+                className={inputClassName}
+              >
+                <option value="monthly">Monthly</option>
+                <option value="biweekly">Bi-weekly</option>
+                <option value="weekly">Weekly</option>
+              </select>
+            </div>
+            {!isRollingMode && (
+              <div>
+                <span className="block text-xs text-gray-500 mb-1">Start</span>
+                <input
+                  type="date"
+                  value={withdrawal.startDate ?? ''}
+                  onChange={(e) => setWithdrawal({ startDate: e.target.value || undefined })}
+                  aria-label="Withdrawal start date"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {strategy?.description}
+            {isRollingMode
+              ? '. Withdrawals start at the beginning of each window.'
+              : '. The simulation runs to the latest price.'}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
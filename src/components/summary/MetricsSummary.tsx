@@ -1,13 +1,16 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { useSimulationStore } from '@/store/simulationStore'
 import { usePlaybackStore } from '@/store/playbackStore'
 import { useConfigStore } from '@/store/configStore'
 import { formatCurrency, formatPercent, formatShares } from '@/lib/calculation/dcaEngine'
+import { deflatePoints, calculateRealCAGR } from '@/lib/calculation/inflation'
 import { MetricsSkeleton } from '@/components/ui/Skeleton'
+import { TaxLotSummary } from './TaxLotSummary'
 import { exportSimulationToCSV } from '@/lib/export/csvExport'
 import { getShareableURL } from '@/hooks/useURLSync'
+import type { RiskMetrics } from '@/lib/api/types'
 
 interface MetricCardProps {
   label: string
@@ -69,18 +72,70 @@ function SettingsIcon() {
   )
 }
 
+function formatRiskDate(date: string | null): string {
+  if (!date) return '---'
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+}
+
+interface RiskRow {
+  ticker: string
+  risk: RiskMetrics
+}
+
+function RiskComparisonTable({ rows }: { rows: RiskRow[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-400">
+            <th className="py-1 pr-4 font-medium">Ticker</th>
+            <th className="py-1 pr-4 font-medium">Max Drawdown</th>
+            <th className="py-1 pr-4 font-medium">Volatility</th>
+            <th className="py-1 pr-4 font-medium">Sharpe</th>
+            <th className="py-1 font-medium">Sortino</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ ticker, risk }) => (
+            <tr key={ticker} className="border-t border-gray-800 text-gray-200">
+              <td className="py-1 pr-4">{ticker}</td>
+              <td className="py-1 pr-4 text-red-400">{formatPercent(risk.maxDrawdown)}</td>
+              <td className="py-1 pr-4">{risk.volatility.toFixed(2)}%</td>
+              <td className="py-1 pr-4">{risk.sharpeRatio.toFixed(2)}</td>
+              <td className="py-1">{risk.sortinoRatio.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 interface MetricsSummaryProps {
   onSettingsClick?: () => void
 }
 
 export function MetricsSummary({ onSettingsClick }: MetricsSummaryProps) {
-  const { primary, benchmarks } = useSimulationStore()
+  const { primary, comparisons, benchmarks, riskFreeRate } = useSimulationStore()
   const { currentIndex } = usePlaybackStore()
   const config = useConfigStore()
   const showLumpSum = config.showLumpSum
   const benchmarkTickers = config.benchmarkTickers
   const [copied, setCopied] = useState(false)
 
+  // Real mode shows every figure in the last simulated date's dollars
+  const realDollars = config.realDollars
+  const realPoints = useMemo(() => {
+    const points = primary?.result.points
+    if (!realDollars || !points || points.length === 0) return null
+    const referenceDate = points[points.length - 1].date
+    return {
+      points: deflatePoints(points, referenceDate),
+      lumpSum: primary.lumpSumResult && deflatePoints(primary.lumpSumResult.points, referenceDate),
+      dca: primary.dcaResult && deflatePoints(primary.dcaResult.points, referenceDate),
+    }
+  }, [primary, realDollars])
+
   const handleExportCSV = () => {
     if (!primary || primary.result.points.length === 0) return
     exportSimulationToCSV(primary.result, {
@@ -90,6 +145,8 @@ export function MetricsSummary({ onSettingsClick }: MetricsSummaryProps) {
       startDate: config.startDate,
       endDate: config.endDate,
       isDRIP: config.isDRIP,
+      fees: config.fees,
+      executionPrice: config.executionPrice,
     })
   }
 
@@ -129,15 +186,19 @@ export function MetricsSummary({ onSettingsClick }: MetricsSummaryProps) {
   }
 
   const { result } = primary
-  const currentPoint = result.points[currentIndex] || result.points[result.points.length - 1]
+  const points = realPoints?.points ?? result.points
+  const currentPoint = points[currentIndex] || points[points.length - 1]
   const lumpSumResult = primary.lumpSumResult
-  const lumpSumPoint = lumpSumResult?.points[currentIndex]
-    || lumpSumResult?.points[lumpSumResult.points.length - 1]
+  const lumpSumPoints = realPoints?.lumpSum ?? primary.lumpSumResult?.points
+  const lumpSumPoint = lumpSumPoints?.[currentIndex]
+    || lumpSumPoints?.[lumpSumPoints.length - 1]
 
   // Calculate metrics at current point in time
   const invested = currentPoint.principal
   const currentValue = currentPoint.totalValue
-  const returnValue = invested > 0 ? ((currentValue - invested) / invested) * 100 : 0
+  // Withdrawals already paid out still count toward the return
+  const currentWealth = currentValue + currentPoint.withdrawn
+  const returnValue = invested > 0 ? ((currentWealth - invested) / invested) * 100 : 0
   const shares = currentPoint.shares
   const lumpSumValue = lumpSumPoint?.totalValue ?? 0
   const dcaVsLumpSum = currentValue - lumpSumValue
@@ -145,12 +206,19 @@ export function MetricsSummary({ onSettingsClick }: MetricsSummaryProps) {
     ? (dcaVsLumpSum / lumpSumValue) * 100
     : 0
 
+  // Plain DCA baseline when a different contribution strategy is active
+  const dcaResult = primary.dcaResult
+  const dcaPoints = realPoints?.dca ?? primary.dcaResult?.points
+  const dcaPoint = dcaPoints?.[currentIndex]
+    || dcaPoints?.[dcaPoints.length - 1]
+  const strategyVsDCA = dcaPoint ? currentWealth - (dcaPoint.totalValue + dcaPoint.withdrawn) : 0
+
   // For CAGR, calculate based on time from start to current point
   const startDate = new Date(result.points[0].date)
   const currentDate = new Date(currentPoint.date)
   const years = (currentDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24 * 365.25)
   const cagr = years > 0 && invested > 0
-    ? (Math.pow(currentValue / invested, 1 / years) - 1) * 100
+    ? (Math.pow(currentWealth / invested, 1 / years) - 1) * 100
     : 0
 
   const returnColorClass = returnValue >= 0 ? 'text-green-400' : 'text-red-400'
@@ -217,6 +285,7 @@ export function MetricsSummary({ onSettingsClick }: MetricsSummaryProps) {
         <MetricCard
           label="Total Invested"
           value={formatCurrency(invested)}
+          subValue={currentPoint.fees > 0 ? `${formatCurrency(currentPoint.fees)} in fees` : undefined}
           colorClass="text-green-400"
         />
         <MetricCard
@@ -227,21 +296,49 @@ export function MetricsSummary({ onSettingsClick }: MetricsSummaryProps) {
         <MetricCard
           label="Total Return"
           value={formatPercent(returnValue)}
-          subValue={`CAGR: ${formatPercent(cagr)}`}
+          subValue={`${realDollars ? 'Real CAGR' : 'CAGR'}: ${formatPercent(cagr)}`}
           colorClass={returnColorClass}
         />
         <MetricCard
           label="Shares Owned"
           value={formatShares(shares)}
+          subValue={currentPoint.cash > 0 ? `+ ${formatCurrency(currentPoint.cash)} cash` : undefined}
         />
       </div>
 
+      {config.withdrawal && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <MetricCard
+            label="Total Withdrawn"
+            value={formatCurrency(currentPoint.withdrawn)}
+            colorClass="text-yellow-400"
+          />
+          <MetricCard
+            label="Remaining Balance"
+            value={formatCurrency(currentPoint.marketValue + currentPoint.cash)}
+          />
+          <MetricCard
+            label="Depletion"
+            value={
+              result.depletionDate
+                ? new Date(result.depletionDate).toLocaleDateString('en-US', {
+                    month: 'short',
+                    year: 'numeric',
+                  })
+                : 'Never'
+            }
+            subValue={result.depletionDate ? 'Ran out of money' : 'Withdrawals fully funded'}
+            colorClass={result.depletionDate ? 'text-red-400' : 'text-green-400'}
+          />
+        </div>
+      )}
+
       {showLumpSum && lumpSumPoint && lumpSumResult && lumpSumResult.totalInvested > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <MetricCard
             label="Lump Sum Value"
             value={formatCurrency(lumpSumValue)}
-            subValue={`Invested: ${formatCurrency(lumpSumResult.totalInvested)}`}
+            subValue={`Invested: ${formatCurrency(lumpSumPoint.principal)}`}
           />
           <MetricCard
             label="DCA vs Lump Sum"
@@ -252,6 +349,29 @@ export function MetricsSummary({ onSettingsClick }: MetricsSummaryProps) {
         </div>
       )}
 
+      {/* Strategy vs plain DCA on the same data */}
+      {dcaResult && dcaPoint && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <MetricCard
+            label="Plain DCA Value"
+            value={formatCurrency(dcaPoint.totalValue)}
+            subValue={`Invested: ${formatCurrency(dcaPoint.principal)}`}
+          />
+          <MetricCard
+            label="Strategy vs Plain DCA"
+            value={`${strategyVsDCA >= 0 ? '+' : ''}${formatCurrency(strategyVsDCA)}`}
+            subValue={`Invested ${invested - dcaPoint.principal >= 0 ? '+' : ''}${formatCurrency(invested - dcaPoint.principal)}`}
+            colorClass={strategyVsDCA >= 0 ? 'text-green-400' : 'text-red-400'}
+          />
+          <MetricCard
+            label="XIRR: Strategy vs DCA"
+            value={`${formatPercent(result.xirr)} / ${formatPercent(dcaResult.xirr)}`}
+            subValue="Money-weighted, over the full period"
+            colorClass={result.xirr >= dcaResult.xirr ? 'text-green-400' : 'text-red-400'}
+          />
+        </div>
+      )}
+
       {/* Benchmark Comparisons */}
       {benchmarkTickers.length > 0 && benchmarks.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -280,15 +400,69 @@ export function MetricsSummary({ onSettingsClick }: MetricsSummaryProps) {
         </div>
       )}
 
+      {/* Risk */}
+      {primary.risk && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-300">Risk</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <MetricCard
+              label="Max Drawdown"
+              value={formatPercent(primary.risk.maxDrawdown)}
+              subValue={
+                primary.risk.drawdownPeakDate
+                  ? `${formatRiskDate(primary.risk.drawdownPeakDate)} → ${formatRiskDate(primary.risk.drawdownTroughDate)}, ${
+                      primary.risk.drawdownRecoveryDate
+                        ? `recovered ${formatRiskDate(primary.risk.drawdownRecoveryDate)}`
+                        : 'not recovered'
+                    }`
+                  : undefined
+              }
+              colorClass="text-red-400"
+            />
+            <MetricCard
+              label="Volatility"
+              value={`${primary.risk.volatility.toFixed(2)}%`}
+              subValue="Annualized, net of contributions"
+            />
+            <MetricCard
+              label="Sharpe Ratio"
+              value={primary.risk.sharpeRatio.toFixed(2)}
+              subValue={`Risk-free rate: ${riskFreeRate}%`}
+            />
+            <MetricCard
+              label="Sortino Ratio"
+              value={primary.risk.sortinoRatio.toFixed(2)}
+              subValue="Downside deviation only"
+            />
+          </div>
+          {(comparisons.length > 0 || benchmarks.length > 0) && (
+            <RiskComparisonTable
+              rows={[primary, ...comparisons, ...benchmarks].flatMap((sim) =>
+                sim.risk ? [{ ticker: sim.ticker, risk: sim.risk }] : []
+              )}
+            />
+          )}
+        </div>
+      )}
+
       {/* Final metrics at end of simulation */}
       {currentIndex === result.points.length - 1 && (
         <div className="mt-4 pt-4 border-t border-gray-800">
-          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
-            <div>
-              <span className="text-gray-400">Final CAGR: </span>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            <div title="Annualized growth as if everything invested was deposited on day one">
+              <span className="text-gray-400">CAGR (on total invested): </span>
               <span className={result.cagr >= 0 ? 'text-green-400' : 'text-red-400'}>
                 {formatPercent(result.cagr)}
               </span>
+              {realPoints && (
+                <span className="text-gray-500"> (real {formatPercent(calculateRealCAGR(realPoints.points))})</span>
+              )}
+            </div>
+            <div title="Annualized return that weights each contribution by how long it was invested">
+              <span className="text-gray-400">XIRR (money-weighted): </span>
+              <span className={result.xirr >= 0 ? 'text-green-400' : 'text-red-400'}>
+                {formatPercent(result.xirr)}
+              </span>
             </div>
             <div>
               <span className="text-gray-400">Total Dividends: </span>
@@ -300,7 +474,24 @@ export function MetricsSummary({ onSettingsClick }: MetricsSummaryProps) {
               <span className="text-gray-400">Final Shares: </span>
               <span className="text-white">{formatShares(result.finalShares)}</span>
             </div>
+            <div>
+              <span className="text-gray-400">Total Fees: </span>
+              <span className={result.totalFees > 0 ? 'text-red-400' : 'text-white'}>
+                {formatCurrency(result.totalFees)}
+              </span>
+            </div>
+            {result.totalDividendTaxes > 0 && (
+              <div title="Withholding and income tax taken from dividends before they were paid or reinvested">
+                <span className="text-gray-400">Dividend Taxes: </span>
+                <span className="text-red-400">{formatCurrency(result.totalDividendTaxes)}</span>
+              </div>
+            )}
           </div>
+          {result.taxLots.lots.length + result.taxLots.realized.length > 0 && (
+            <div className="mt-4">
+              <TaxLotSummary report={result.taxLots} ticker={primary.ticker} />
+            </div>
+          )}
         </div>
       )}
     </div>
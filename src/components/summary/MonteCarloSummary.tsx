@@ -0,0 +1,112 @@
+'use client'
+
+import { useMonteCarloStore } from '@/store/monteCarloStore'
+import { formatCurrency, formatPercent } from '@/lib/calculation/dcaEngine'
+import { percentileKey } from '@/lib/calculation/percentileUtils'
+import { formatPercentileLabel } from '@/lib/chart/PercentileBandPlugin'
+import { MetricsSkeleton } from '@/components/ui/Skeleton'
+
+interface MetricCardProps {
+  label: string
+  value: string
+  subValue?: string
+  colorClass?: string
+}
+
+function MetricCard({ label, value, subValue, colorClass = 'text-white' }: MetricCardProps) {
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4">
+      <p className="text-sm text-gray-400 mb-1">{label}</p>
+      <p className={`text-2xl font-bold ${colorClass}`}>{value}</p>
+      {subValue && <p className="text-sm text-gray-500 mt-1">{subValue}</p>}
+    </div>
+  )
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+interface MonteCarloSummaryProps {
+  onSettingsClick?: () => void
+}
+
+export function MonteCarloSummary({ onSettingsClick }: MonteCarloSummaryProps) {
+  const { result, isComputing } = useMonteCarloStore()
+
+  if (isComputing) {
+    return <MetricsSkeleton />
+  }
+
+  if (!result) {
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {['Median Final Value', 'Total Invested', 'Chance of Loss', 'Median CAGR'].map((label) => (
+          <MetricCard key={label} label={label} value="---" />
+        ))}
+      </div>
+    )
+  }
+
+  const { config, stats, history, valueBands } = result
+  const last = result.monthOffsets.length - 1
+  const lower = Math.min(...(config.percentiles ?? [50]))
+  const upper = 100 - lower
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">
+            {config.ticker} · {config.horizonYears}-year projection
+          </h2>
+          <p className="text-xs text-gray-500">
+            Resampling {history.monthCount} months from {formatMonth(history.firstMonth)} - {formatMonth(history.lastMonth)} in {config.blockMonths}-month blocks
+          </p>
+        </div>
+        {onSettingsClick && (
+          <button
+            onClick={onSettingsClick}
+            className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+            title="Open settings"
+          >
+            Settings
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <MetricCard
+          label="Median Final Value"
+          value={formatCurrency(stats.medianFinalValue)}
+          subValue={
+            lower < 50
+              ? `${formatPercentileLabel(lower)}-${formatPercentileLabel(upper)}: ${formatCurrency(valueBands[percentileKey(lower)][last])} - ${formatCurrency(valueBands[percentileKey(upper)][last])}`
+              : undefined
+          }
+        />
+        <MetricCard
+          label="Total Invested"
+          value={formatCurrency(stats.totalInvested)}
+          colorClass="text-green-400"
+        />
+        <MetricCard
+          label="Chance of Loss"
+          value={`${stats.lossProbability.toFixed(1)}%`}
+          subValue="Paths ending below the total invested"
+          colorClass={stats.lossProbability > 0 ? 'text-red-400' : 'text-white'}
+        />
+        <MetricCard
+          label="Median CAGR"
+          value={formatPercent(stats.medianCAGR)}
+          subValue="Median final value over total invested"
+          colorClass={stats.medianCAGR >= 0 ? 'text-green-400' : 'text-red-400'}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+'use client'
+
+import { usePortfolioStore } from '@/store/portfolioStore'
+import { useConfigStore } from '@/store/configStore'
+import { formatCurrency, formatPercent, formatShares } from '@/lib/calculation/dcaEngine'
+import { MetricsSkeleton } from '@/components/ui/Skeleton'
+import { TaxLotSummary } from './TaxLotSummary'
+import type { HoldingResult, RebalanceInterval } from '@/lib/api/types'
+
+const INTERVAL_LABELS: Record<RebalanceInterval, string> = {
+  monthly: 'month',
+  quarterly: 'quarter',
+  annually: 'year',
+}
+
+interface MetricCardProps {
+  label: string
+  value: string
+  subValue?: string
+  colorClass?: string
+}
+
+function MetricCard({ label, value, subValue, colorClass = 'text-white' }: MetricCardProps) {
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4">
+      <p className="text-sm text-gray-400 mb-1">{label}</p>
+      <p className={`text-2xl font-bold ${colorClass}`}>{value}</p>
+      {subValue && <p className="text-sm text-gray-500 mt-1">{subValue}</p>}
+    </div>
+  )
+}
+
+function HoldingsTable({ holdings }: { holdings: HoldingResult[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-400">
+            <th className="py-1 pr-4 font-medium">Ticker</th>
+            <th className="py-1 pr-4 font-medium">Target</th>
+            <th className="py-1 pr-4 font-medium">Actual</th>
+            <th className="py-1 pr-4 font-medium">Contributed</th>
+            <th className="py-1 pr-4 font-medium">Cost Basis</th>
+            <th className="py-1 pr-4 font-medium">Value</th>
+            <th className="py-1 font-medium">Shares</th>
+          </tr>
+        </thead>
+        <tbody>
+          {holdings.map((holding) => (
+            <tr key={holding.ticker} className="border-t border-gray-800 text-gray-200">
+              <td className="py-1 pr-4">{holding.ticker}</td>
+              <td className="py-1 pr-4">{holding.targetWeight.toFixed(1)}%</td>
+              <td className="py-1 pr-4">{holding.finalWeight.toFixed(1)}%</td>
+              <td className="py-1 pr-4">{formatCurrency(holding.contributed)}</td>
+              <td className="py-1 pr-4">{formatCurrency(holding.costBasis)}</td>
+              <td className="py-1 pr-4">
+                {formatCurrency(holding.marketValue)}
+                {holding.dividends > 0 && (
+                  <span className="text-yellow-400"> + {formatCurrency(holding.dividends)}</span>
+                )}
+              </td>
+              <td className="py-1">{formatShares(holding.shares)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+interface PortfolioSummaryProps {
+  onSettingsClick?: () => void
+}
+
+export function PortfolioSummary({ onSettingsClick }: PortfolioSummaryProps) {
+  const { result, risk, dividendsUnavailable, isLoading } = usePortfolioStore()
+  const { rebalance, isDRIP } = useConfigStore()
+
+  if (isLoading) {
+    return <MetricsSkeleton />
+  }
+
+  if (!result || result.points.length === 0) {
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {['Total Invested', 'Current Value', 'Total Return', 'Rebalances'].map((label) => (
+          <MetricCard key={label} label={label} value="---" />
+        ))}
+      </div>
+    )
+  }
+
+  const returnColorClass = result.totalReturn >= 0 ? 'text-green-400' : 'text-red-400'
+  const firstDate = new Date(result.points[0].date)
+  const lastDate = new Date(result.points[result.points.length - 1].date)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">
+            {result.holdings.map((holding) => holding.ticker).join(' / ')}
+          </h2>
+          <p className="text-xs text-gray-500">
+            Data from {firstDate.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })} - {lastDate.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}, where every holding has prices
+          </p>
+        </div>
+        {onSettingsClick && (
+          <button
+            onClick={onSettingsClick}
+            className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+            title="Open settings"
+          >
+            Settings
+          </button>
+        )}
+      </div>
+
+      {dividendsUnavailable.length > 0 && (
+        <div className="rounded-lg border border-yellow-900/50 bg-yellow-900/20 px-3 py-2 text-sm text-yellow-200">
+          Dividend data unavailable for {dividendsUnavailable.join(', ')}. {isDRIP ? 'DRIP results may be understated.' : 'Returns exclude those dividends.'}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <MetricCard
+          label="Total Invested"
+          value={formatCurrency(result.totalInvested)}
+          subValue={result.totalFees > 0 ? `${formatCurrency(result.totalFees)} in fees` : undefined}
+          colorClass="text-green-400"
+        />
+        <MetricCard
+          label="Current Value"
+          value={formatCurrency(result.finalValue)}
+          subValue={result.totalDividends > 0 ? `+ ${formatCurrency(result.totalDividends)} dividends` : undefined}
+        />
+        <MetricCard
+          label="Total Return"
+          value={formatPercent(result.totalReturn)}
+          subValue={`CAGR: ${formatPercent(result.cagr)} · XIRR: ${formatPercent(result.xirr)}`}
+          colorClass={returnColorClass}
+        />
+        <MetricCard
+          label="Rebalances"
+          value={String(result.rebalanceCount)}
+          subValue={
+            rebalance.strategy === 'none'
+              ? 'Rebalancing off'
+              : rebalance.strategy === 'periodic'
+                ? `Every ${INTERVAL_LABELS[rebalance.interval]}`
+                : `±${rebalance.threshold} point band`
+          }
+        />
+      </div>
+
+      {risk && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <MetricCard
+            label="Max Drawdown"
+            value={formatPercent(risk.maxDrawdown)}
+            colorClass="text-red-400"
+          />
+          <MetricCard label="Volatility" value={`${risk.volatility.toFixed(2)}%`} />
+          <MetricCard label="Sharpe Ratio" value={risk.sharpeRatio.toFixed(2)} />
+          <MetricCard label="Sortino Ratio" value={risk.sortinoRatio.toFixed(2)} />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-300">Holdings</h3>
+        <HoldingsTable holdings={result.holdings} />
+      </div>
+
+      <TaxLotSummary report={result.taxLots} ticker="portfolio" />
+    </div>
+  )
+}
@@ -4,6 +4,13 @@ import { useRollingAnalysisStore, selectStats, selectDataRange } from '@/store/r
 import { useConfigStore } from '@/store/configStore'
 import { formatCurrency, formatPercent } from '@/lib/calculation/dcaEngine'
 import { MetricsSkeleton } from '@/components/ui/Skeleton'
+import {
+  getBandPairs,
+  formatPercentileLabel,
+  getComparisonColors,
+} from '@/lib/chart/PercentileBandPlugin'
+import { DEFAULT_PERCENTILES, percentileKey } from '@/lib/calculation/percentileUtils'
+import type { LumpSumComparison, RollingComparison, RollingWindowStats } from '@/lib/api/types'
 
 interface MetricCardProps {
   label: string
@@ -72,6 +79,149 @@ function DistributionBar({
   )
 }
 
+// Lump sum minus DCA total return, in percentage points
+function formatMargin(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)} pts`
+}
+
+function LumpSumComparisonPanel({
+  comparison,
+  percentiles,
+}: {
+  comparison: LumpSumComparison
+  percentiles: number[]
+}) {
+  const { winRate, averageMargin, marginDistribution } = comparison
+  // Narrowest range first
+  const pairs = getBandPairs(percentiles).reverse()
+
+  return (
+    <div className="bg-gray-800/30 rounded-lg p-4 space-y-3">
+      <h3 className="text-sm font-medium text-gray-300">Lump Sum vs DCA</h3>
+      <div className="space-y-2">
+        <div className="flex h-3 rounded-full overflow-hidden bg-gray-700">
+          <div
+            className="bg-orange-500"
+            style={{ width: `${winRate}%` }}
+            title={`Lump sum ahead: ${winRate.toFixed(1)}%`}
+          />
+          <div
+            className="bg-blue-500"
+            style={{ width: `${100 - winRate}%` }}
+            title={`DCA ahead: ${(100 - winRate).toFixed(1)}%`}
+          />
+        </div>
+        <div className="flex justify-between text-xs">
+          <span className="text-orange-400">Lump sum ahead: {winRate.toFixed(0)}%</span>
+          <span className="text-blue-400">DCA ahead: {(100 - winRate).toFixed(0)}%</span>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <span className="text-gray-400">Average margin: </span>
+          <span className={averageMargin >= 0 ? 'text-orange-400' : 'text-blue-400'}>
+            {formatMargin(averageMargin)}
+          </span>
+        </div>
+        <div>
+          <span className="text-gray-400">Median: </span>
+          <span className="text-white">{formatMargin(marginDistribution.p50)}</span>
+        </div>
+        {pairs.map(([lower, upper]) => (
+          <div key={lower}>
+            <span className="text-gray-400">
+              {formatPercentileLabel(lower)}-{formatPercentileLabel(upper)}:{' '}
+            </span>
+            <span className="text-white">
+              {formatMargin(marginDistribution[percentileKey(lower)])} to{' '}
+              {formatMargin(marginDistribution[percentileKey(upper)])}
+            </span>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        Lump sum invests each window&apos;s DCA total on the first day. Margins are
+        lump sum minus DCA total return.
+      </p>
+    </div>
+  )
+}
+
+function TickerComparisonPanel({
+  ticker,
+  horizonYears,
+  stats,
+  comparisons,
+  pendingTickers,
+  missingTickers,
+}: {
+  ticker: string
+  horizonYears: number
+  stats: RollingWindowStats
+  comparisons: RollingComparison[]
+  pendingTickers: string[]   // Still being analyzed
+  missingTickers: string[]   // Requested but without an analysis
+}) {
+  return (
+    <div className="bg-gray-800/30 rounded-lg p-4 space-y-4">
+      <h3 className="text-sm font-medium text-gray-300">Ticker Comparison</h3>
+      {comparisons.map((comparison, i) => {
+        const { winRate, windowCount, medianCAGRDifference } = comparison.matchup
+        const color = getComparisonColors(i).medianLine
+
+        return (
+          <div key={comparison.ticker} className="space-y-2">
+            <div className="flex h-3 rounded-full overflow-hidden bg-gray-700">
+              <div
+                className="bg-blue-500"
+                style={{ width: `${winRate}%` }}
+                title={`${ticker} ahead: ${winRate.toFixed(1)}%`}
+              />
+              <div
+                style={{ width: `${100 - winRate}%`, backgroundColor: color }}
+                title={`${comparison.ticker} ahead: ${(100 - winRate).toFixed(1)}%`}
+              />
+            </div>
+            <div className="flex justify-between text-xs">
+              <span className="text-blue-400">
+                {ticker} ahead: {winRate.toFixed(0)}%
+              </span>
+              <span style={{ color }}>
+                {comparison.ticker} ahead: {(100 - winRate).toFixed(0)}%
+              </span>
+            </div>
+            <p className="text-sm">
+              <span className="text-gray-400">Median CAGR: </span>
+              <span className="text-white">
+                {ticker} {formatPercent(stats.medianCAGR)} vs {comparison.ticker}{' '}
+                {formatPercent(comparison.result.stats.medianCAGR)}
+              </span>
+              <span className="text-gray-400"> · Median gap: </span>
+              <span className={medianCAGRDifference >= 0 ? 'text-blue-400' : 'text-gray-300'}>
+                {formatMargin(medianCAGRDifference)}
+              </span>
+              <span className="text-gray-500"> over {windowCount} matched windows</span>
+            </p>
+          </div>
+        )
+      })}
+      {pendingTickers.length > 0 && (
+        <p className="text-sm text-gray-400">Analyzing {pendingTickers.join(', ')}...</p>
+      )}
+      {missingTickers.length > 0 && (
+        <p className="text-sm text-yellow-400">
+          No history shared with {ticker} for {missingTickers.join(', ')}.
+        </p>
+      )}
+      <p className="text-xs text-gray-500">
+        Every ticker is analyzed over the dates they all have data for, and each{' '}
+        {horizonYears}-year window is matched with the other ticker&apos;s window
+        starting the same month. A ticker is ahead when its total return is higher.
+      </p>
+    </div>
+  )
+}
+
 interface RollingMetricsSummaryProps {
   onSettingsClick?: () => void
 }
@@ -79,10 +229,19 @@ interface RollingMetricsSummaryProps {
 export function RollingMetricsSummary({
   onSettingsClick,
 }: RollingMetricsSummaryProps) {
-  const { isComputing, error, result } = useRollingAnalysisStore()
+  const { isComputing, error, result, comparisons, isComparing } = useRollingAnalysisStore()
   const stats = useRollingAnalysisStore(selectStats)
   const dataRange = useRollingAnalysisStore(selectDataRange)
-  const { ticker, rollingHorizon, amount, frequency } = useConfigStore()
+  const { ticker, rollingHorizon, amount, frequency, comparisonTickers, benchmarkTickers } =
+    useConfigStore()
+
+  // Comparison and benchmark tickers, and those not analyzed (yet)
+  const comparedTickers = Array.from(new Set([...comparisonTickers, ...benchmarkTickers])).filter(
+    (symbol) => symbol !== ticker
+  )
+  const unanalyzedTickers = comparedTickers.filter(
+    (symbol) => !comparisons.some((comparison) => comparison.ticker === symbol)
+  )
 
   // Loading state
   if (isComputing) {
@@ -158,7 +317,9 @@ export function RollingMetricsSummary({
         <MetricCard
           label="Median Total Return"
           value={formatPercent(stats.medianReturn)}
-          subValue={`CAGR: ${formatPercent(stats.medianCAGR)}`}
+          subValue={`CAGR: ${formatPercent(stats.medianCAGR)}${
+            stats.medianRealCAGR !== null ? ` (real ${formatPercent(stats.medianRealCAGR)})` : ''
+          } · XIRR: ${formatPercent(stats.medianXIRR)}`}
           colorClass={medianColorClass}
         />
         <MetricCard
@@ -195,6 +356,29 @@ export function RollingMetricsSummary({
         />
       </div>
 
+      {stats.withdrawalSuccessRate !== null && (
+        <div className="bg-gray-800/30 rounded-lg p-4 text-sm">
+          <span className="text-gray-400">Withdrawal success rate: </span>
+          <span
+            className={`font-semibold ${
+              stats.withdrawalSuccessRate >= 95
+                ? 'text-green-400'
+                : stats.withdrawalSuccessRate >= 75
+                  ? 'text-yellow-400'
+                  : 'text-red-400'
+            }`}
+          >
+            {stats.withdrawalSuccessRate.toFixed(1)}%
+          </span>
+          <span className="text-gray-500"> of windows never ran out of money</span>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        CAGR treats every contribution as invested on day one. XIRR is the
+        money-weighted return, crediting each contribution only for the time it was invested.
+      </p>
+
       {/* Return Distribution */}
       <div className="bg-gray-800/30 rounded-lg p-4">
         <h3 className="text-sm font-medium text-gray-300 mb-3">
@@ -208,6 +392,24 @@ export function RollingMetricsSummary({
         />
       </div>
 
+      {stats.lumpSum && (
+        <LumpSumComparisonPanel
+          comparison={stats.lumpSum}
+          percentiles={result.config.percentiles ?? DEFAULT_PERCENTILES}
+        />
+      )}
+
+      {comparedTickers.length > 0 && (
+        <TickerComparisonPanel
+          ticker={ticker}
+          horizonYears={result.config.horizonYears}
+          stats={stats}
+          comparisons={comparisons}
+          pendingTickers={isComparing ? unanalyzedTickers : []}
+          missingTickers={isComparing ? [] : unanalyzedTickers}
+        />
+      )}
+
       {/* Best/Worst Window Details */}
       {(bestWindow || worstWindow) && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
@@ -229,6 +431,9 @@ export function RollingMetricsSummary({
               <p className="text-gray-300">
                 Total Invested: {formatCurrency(bestWindow.totalInvested)}
               </p>
+              <p className="text-gray-300">
+                CAGR: {formatPercent(bestWindow.cagr)} · XIRR: {formatPercent(bestWindow.xirr)}
+              </p>
             </div>
           )}
           {worstWindow && (
@@ -249,6 +454,9 @@ export function RollingMetricsSummary({
               <p className="text-gray-300">
                 Total Invested: {formatCurrency(worstWindow.totalInvested)}
               </p>
+              <p className="text-gray-300">
+                CAGR: {formatPercent(worstWindow.cagr)} · XIRR: {formatPercent(worstWindow.xirr)}
+              </p>
             </div>
           )}
         </div>
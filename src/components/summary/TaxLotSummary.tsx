@@ -0,0 +1,61 @@
+'use client'
+
+import { formatCurrency } from '@/lib/calculation/dcaEngine'
+import { exportTaxLotsToCSV } from '@/lib/export/csvExport'
+import type { TaxLotReport } from '@/lib/api/types'
+
+interface GainProps {
+  label: string
+  value: number
+}
+
+function Gain({ label, value }: GainProps) {
+  return (
+    <div>
+      <span className="text-gray-400">{label}: </span>
+      <span className={value >= 0 ? 'text-green-400' : 'text-red-400'}>
+        {value >= 0 ? '+' : ''}{formatCurrency(value)}
+      </span>
+    </div>
+  )
+}
+
+interface TaxLotSummaryProps {
+  report: TaxLotReport
+  ticker: string              // Used for the export filename
+}
+
+/**
+ * Cost basis and gains from the engine's lot tracking, with a lot-level CSV export
+ */
+export function TaxLotSummary({ report, ticker }: TaxLotSummaryProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-300">
+          Tax Lots ({report.method.toUpperCase()})
+          <span className="text-gray-500 font-normal">
+            {' '}· {report.lots.length} open, {report.realized.length} sold
+          </span>
+        </h3>
+        <button
+          onClick={() => exportTaxLotsToCSV(report, ticker)}
+          className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg transition-colors"
+          title="Download lot-level CSV"
+        >
+          Export Lots
+        </button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+        <div>
+          <span className="text-gray-400">Cost Basis: </span>
+          <span className="text-white">{formatCurrency(report.costBasis)}</span>
+        </div>
+        <Gain label="Unrealized Short-Term" value={report.unrealizedShortTerm} />
+        <Gain label="Unrealized Long-Term" value={report.unrealizedLongTerm} />
+        <Gain label="Realized Short-Term" value={report.realizedShortTerm} />
+        <Gain label="Realized Long-Term" value={report.realizedLongTerm} />
+      </div>
+    </div>
+  )
+}
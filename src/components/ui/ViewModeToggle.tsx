@@ -20,6 +20,16 @@ const VIEW_MODE_OPTIONS: ViewModeOption[] = [
     label: 'Rolling Analysis',
     description: 'All historical windows',
   },
+  {
+    value: 'portfolio',
+    label: 'Portfolio',
+    description: 'Several tickers with target weights',
+  },
+  {
+    value: 'montecarlo',
+    label: 'Monte Carlo',
+    description: 'Project forward from resampled history',
+  },
 ]
 
 export function ViewModeToggle() {
@@ -1,7 +1,7 @@
 'use client'
 
 import { useEffect, useCallback, useRef, type MutableRefObject } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { useConfigStore } from '@/store/configStore'
 import { useSimulationStore } from '@/store/simulationStore'
 import { usePlaybackStore } from '@/store/playbackStore'
@@ -9,7 +9,7 @@ import { runDCASimulation, runLumpSumSimulation } from '@/lib/calculation/dcaEng
 import { HTTPError } from '@/lib/api/httpError'
 import type { PricePoint, DividendHistory } from '@/lib/api/types'
 
-interface StockData {
+export interface StockData {
   prices: PricePoint[]
   dividends: DividendHistory[]
   dividendsUnavailable: boolean
@@ -42,14 +42,12 @@ async function readAPIError(response: Response): Promise<{
   }
 }
 
-async function fetchStockData(
-  symbol: string,
-  from?: string,
-  to?: string
-): Promise<StockData> {
+/**
+ * Fetch the full price and dividend history for a ticker.
+ * The engine trims to the configured date range, so one cached fetch serves every range.
+ */
+export async function fetchStockData(symbol: string): Promise<StockData> {
   const params = new URLSearchParams({ symbol })
-  if (from) params.set('from', from)
-  if (to) params.set('to', to)
 
   // Start both requests in parallel, but treat dividends as best-effort.
   const pricesPromise = fetch(`/api/stock/history?${params}`)
@@ -76,14 +74,32 @@ async function fetchStockData(
   return { prices: pricesData.prices, dividends, dividendsUnavailable }
 }
 
+export const STOCK_DATA_STALE_TIME = 1000 * 60 * 60 // 1 hour
+
 export function useDCASimulation() {
+  const queryClient = useQueryClient()
   const {
     ticker,
     amount,
     frequency,
+    scheduleAnchor,
     startDate,
     endDate,
+    holdAfterEnd,
     isDRIP,
+    fees,
+    wholeShares,
+    annualIncrease,
+    amountOverrides,
+    pauses,
+    initialInvestment,
+    withdrawal,
+    contributionStrategy,
+    lotSelection,
+    dividendTax,
+    dividendTiming,
+    executionPrice,
+    riskFreeRate,
     comparisonTickers,
     benchmarkTickers,
   } = useConfigStore()
@@ -100,10 +116,16 @@ export function useDCASimulation() {
     setBenchmarkLoading,
     setBenchmarkError,
     removeBenchmark,
+    setRiskFreeRate,
   } = useSimulationStore()
 
   const { reset: resetPlayback } = usePlaybackStore()
 
+  // Risk ratios are recomputed in the store; no need to re-run simulations
+  useEffect(() => {
+    setRiskFreeRate(riskFreeRate)
+  }, [riskFreeRate, setRiskFreeRate])
+
   const primaryRetryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const comparisonRetryTimeoutsRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({})
   const benchmarkRetryTimeoutsRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({})
@@ -152,12 +174,31 @@ export function useDCASimulation() {
       if (!stableStartDate || !stableEndDate) return
       options.setLoading(targetTicker)
       try {
-        const data = await fetchStockData(targetTicker, stableStartDate, stableEndDate)
+        const data = await queryClient.fetchQuery({
+          queryKey: ['stock-data', targetTicker],
+          queryFn: () => fetchStockData(targetTicker),
+          staleTime: STOCK_DATA_STALE_TIME,
+        })
         const result = runDCASimulation(data.prices, data.dividends, {
           amount,
           frequency,
+          scheduleAnchor,
           startDate: stableStartDate,
+          endDate: stableEndDate,
+          holdAfterEnd,
           isDRIP,
+          fees,
+          wholeShares,
+          annualIncrease,
+          amountOverrides,
+          pauses,
+          initialInvestment,
+          withdrawal: withdrawal ?? undefined,
+          strategy: contributionStrategy,
+          lotSelection,
+          dividendTax,
+          dividendTiming,
+          executionPrice,
         })
         options.addResult(targetTicker, result, data.dividendsUnavailable)
       } catch (error) {
@@ -183,14 +224,14 @@ export function useDCASimulation() {
         )
       }
     },
-    [amount, frequency, stableStartDate, stableEndDate, isDRIP]
+    [queryClient, amount, frequency, scheduleAnchor, stableStartDate, stableEndDate, holdAfterEnd, isDRIP, fees, wholeShares, annualIncrease, amountOverrides, pauses, initialInvestment, withdrawal, contributionStrategy, lotSelection, dividendTax, dividendTiming, executionPrice]
   )
 
-  // Primary ticker query
+  // Primary ticker query (full history, shared across date range changes)
   const primaryQuery = useQuery({
-    queryKey: ['stock-data', ticker, stableStartDate, stableEndDate],
-    queryFn: () => fetchStockData(ticker, stableStartDate || undefined, stableEndDate || undefined),
-    staleTime: 1000 * 60 * 60, // 1 hour
+    queryKey: ['stock-data', ticker],
+    queryFn: () => fetchStockData(ticker),
+    staleTime: STOCK_DATA_STALE_TIME,
     enabled: !!ticker && !!stableStartDate && !!stableEndDate,
     retry: false,
   })
@@ -208,7 +249,7 @@ export function useDCASimulation() {
       clearTimeout(primaryRetryTimeoutRef.current)
       primaryRetryTimeoutRef.current = null
     }
-  }, [ticker, stableStartDate, stableEndDate])
+  }, [ticker])
 
   // Process primary simulation when data changes
   useEffect(() => {
@@ -248,24 +289,52 @@ export function useDCASimulation() {
       return
     }
 
-    if (primaryData && stableStartDate) {
+    if (primaryData && stableStartDate && stableEndDate) {
       if (primaryRetryTimeoutRef.current) {
         clearTimeout(primaryRetryTimeoutRef.current)
         primaryRetryTimeoutRef.current = null
       }
 
+      const simulationConfig = {
+        amount,
+        frequency,
+        scheduleAnchor,
+        startDate: stableStartDate,
+        endDate: stableEndDate,
+        holdAfterEnd,
+        isDRIP,
+        fees,
+        wholeShares,
+        annualIncrease,
+        amountOverrides,
+        pauses,
+        initialInvestment,
+        withdrawal: withdrawal ?? undefined,
+        strategy: contributionStrategy,
+        lotSelection,
+        dividendTax,
+        dividendTiming,
+        executionPrice,
+      }
       const result = runDCASimulation(
         primaryData.prices,
         primaryData.dividends,
-        { amount, frequency, startDate: stableStartDate, isDRIP }
+        simulationConfig
       )
+      // Plain DCA on the same data, for a side-by-side comparison
+      const dcaResult = contributionStrategy.kind !== 'dca'
+        ? runDCASimulation(primaryData.prices, primaryData.dividends, {
+            ...simulationConfig,
+            strategy: undefined,
+          })
+        : null
       const lumpSumResult = runLumpSumSimulation(
         primaryData.prices,
         primaryData.dividends,
-        { amount, frequency, startDate: stableStartDate, isDRIP },
+        simulationConfig,
         result.totalInvested
       )
-      setPrimaryResult(ticker, result, primaryData.dividendsUnavailable, lumpSumResult)
+      setPrimaryResult(ticker, result, primaryData.dividendsUnavailable, lumpSumResult, dcaResult)
       resetPlayback()
     }
   }, [
@@ -276,8 +345,23 @@ export function useDCASimulation() {
     ticker,
     amount,
     frequency,
+    scheduleAnchor,
     stableStartDate,
+    stableEndDate,
+    holdAfterEnd,
     isDRIP,
+    fees,
+    wholeShares,
+    annualIncrease,
+    amountOverrides,
+    pauses,
+    initialInvestment,
+    withdrawal,
+    contributionStrategy,
+    lotSelection,
+    dividendTax,
+    dividendTiming,
+    executionPrice,
     setPrimaryResult,
     setPrimaryLoading,
     setPrimaryError,
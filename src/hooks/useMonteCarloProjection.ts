@@ -0,0 +1,126 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useConfigStore } from '@/store/configStore'
+import { useMonteCarloStore } from '@/store/monteCarloStore'
+import { runMonteCarloProjection } from '@/lib/calculation/monteCarloEngine'
+import { fetchStockData, STOCK_DATA_STALE_TIME } from './useDCASimulation'
+
+/**
+ * First of the current month (YYYY-MM-01), where projections start
+ */
+function getProjectionStartDate(): string {
+  return `${new Date().toISOString().substring(0, 7)}-01`
+}
+
+/**
+ * Hook for the Monte Carlo projection.
+ *
+ * Only activates when viewMode is 'montecarlo'. Fetches the ticker's full
+ * history through the same cached query as the single-ticker view, resamples
+ * its monthly returns into forward DCA paths, and updates the Monte Carlo store.
+ */
+export function useMonteCarloProjection() {
+  const {
+    ticker,
+    amount,
+    frequency,
+    isDRIP,
+    annualIncrease,
+    initialInvestment,
+    rollingPercentiles,
+    monteCarloHorizon,
+    monteCarloPaths,
+    monteCarloBlockMonths,
+    monteCarloSeed,
+    viewMode,
+  } = useConfigStore()
+
+  const { setResult, setComputing, setError, clearResult } = useMonteCarloStore()
+
+  const isMonteCarloMode = viewMode === 'montecarlo'
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['stock-data', ticker],
+    queryFn: () => fetchStockData(ticker),
+    staleTime: STOCK_DATA_STALE_TIME,
+    enabled: isMonteCarloMode && !!ticker,
+    retry: false,
+  })
+
+  useEffect(() => {
+    if (!isMonteCarloMode) {
+      clearResult()
+      return
+    }
+
+    if (!ticker) {
+      setError('Select a ticker')
+      return
+    }
+
+    if (isLoading) {
+      setComputing()
+      return
+    }
+
+    if (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error')
+      return
+    }
+
+    if (!data?.prices || data.prices.length === 0) return
+
+    // Defer so the loading state paints before the paths run
+    setComputing()
+    const timeout = setTimeout(() => {
+      try {
+        setResult(
+          runMonteCarloProjection(
+            data.prices,
+            data.dividends,
+            {
+              ticker,
+              amount,
+              frequency,
+              horizonYears: monteCarloHorizon,
+              isDRIP,
+              annualIncrease,
+              initialInvestment,
+              pathCount: monteCarloPaths,
+              blockMonths: monteCarloBlockMonths,
+              seed: monteCarloSeed,
+              percentiles: rollingPercentiles,
+            },
+            getProjectionStartDate()
+          )
+        )
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Projection failed')
+      }
+    }, 0)
+
+    return () => clearTimeout(timeout)
+  }, [
+    isMonteCarloMode,
+    ticker,
+    data,
+    isLoading,
+    error,
+    amount,
+    frequency,
+    isDRIP,
+    annualIncrease,
+    initialInvestment,
+    rollingPercentiles,
+    monteCarloHorizon,
+    monteCarloPaths,
+    monteCarloBlockMonths,
+    monteCarloSeed,
+    setResult,
+    setComputing,
+    setError,
+    clearResult,
+  ])
+}
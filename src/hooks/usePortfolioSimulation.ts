@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useMemo } from 'react'
+import { useQueries, type UseQueryResult } from '@tanstack/react-query'
+import { useConfigStore } from '@/store/configStore'
+import { usePortfolioStore } from '@/store/portfolioStore'
+import { runPortfolioSimulation } from '@/lib/calculation/dcaEngine'
+import { calculateRiskMetrics } from '@/lib/calculation/riskMetrics'
+import { fetchStockData, STOCK_DATA_STALE_TIME, type StockData } from './useDCASimulation'
+import type { HoldingHistory, PortfolioHolding } from '@/lib/api/types'
+
+function combineHoldingQueries(results: UseQueryResult<StockData>[]) {
+  return {
+    data: results.map((result) => result.data),
+    isLoading: results.some((result) => result.isLoading),
+    error: results.find((result) => result.error)?.error ?? null,
+  }
+}
+
+/**
+ * Hook for the multi-asset portfolio simulation.
+ *
+ * Only activates when viewMode is 'portfolio'. Fetches every holding through the
+ * same cached query as the single-ticker view, runs the portfolio engine once all
+ * histories are available, and updates the portfolio store.
+ */
+export function usePortfolioSimulation() {
+  const {
+    portfolioHoldings,
+    rebalance,
+    amount,
+    frequency,
+    scheduleAnchor,
+    startDate,
+    endDate,
+    holdAfterEnd,
+    isDRIP,
+    fees,
+    lotSelection,
+    dividendTax,
+    dividendTiming,
+    executionPrice,
+    wholeShares,
+    annualIncrease,
+    amountOverrides,
+    pauses,
+    initialInvestment,
+    riskFreeRate,
+    viewMode,
+  } = useConfigStore()
+
+  const { setResult, setLoading, setError, clearResult } = usePortfolioStore()
+
+  const isPortfolioMode = viewMode === 'portfolio'
+
+  // Merge repeated tickers so each holding is simulated once
+  const holdings = useMemo(() => {
+    const merged = new Map<string, number>()
+    for (const holding of portfolioHoldings) {
+      if (!holding.ticker) continue
+      merged.set(holding.ticker, (merged.get(holding.ticker) ?? 0) + holding.weight)
+    }
+    return Array.from(merged, ([ticker, weight]): PortfolioHolding => ({ ticker, weight }))
+  }, [portfolioHoldings])
+
+  const { data, isLoading, error } = useQueries({
+    queries: holdings.map((holding) => ({
+      queryKey: ['stock-data', holding.ticker],
+      queryFn: () => fetchStockData(holding.ticker),
+      staleTime: STOCK_DATA_STALE_TIME,
+      enabled: isPortfolioMode,
+      retry: false,
+    })),
+    combine: combineHoldingQueries,
+  })
+
+  useEffect(() => {
+    if (!isPortfolioMode) {
+      clearResult()
+      return
+    }
+
+    if (holdings.length === 0) {
+      setError('Add at least one holding')
+      return
+    }
+
+    if (isLoading) {
+      setLoading()
+      return
+    }
+
+    if (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error')
+      return
+    }
+
+    if (!startDate || !endDate || data.some((history) => !history)) return
+
+    const histories: Record<string, HoldingHistory> = {}
+    holdings.forEach((holding, i) => {
+      histories[holding.ticker] = data[i]!
+    })
+
+    const result = runPortfolioSimulation(histories, {
+      holdings,
+      rebalance,
+      amount,
+      frequency,
+      scheduleAnchor,
+      startDate,
+      endDate,
+      holdAfterEnd,
+      isDRIP,
+      fees,
+      annualIncrease,
+      amountOverrides,
+      pauses,
+      initialInvestment,
+      lotSelection,
+      dividendTax,
+      dividendTiming,
+      executionPrice,
+      wholeShares,
+    })
+
+    setResult(
+      result,
+      calculateRiskMetrics(result.points, riskFreeRate),
+      holdings
+        .filter((_, i) => data[i]!.dividendsUnavailable)
+        .map((holding) => holding.ticker)
+    )
+  }, [
+    isPortfolioMode,
+    holdings,
+    data,
+    isLoading,
+    error,
+    rebalance,
+    amount,
+    frequency,
+    scheduleAnchor,
+    startDate,
+    endDate,
+    holdAfterEnd,
+    isDRIP,
+    fees,
+    lotSelection,
+    dividendTax,
+    dividendTiming,
+    executionPrice,
+    wholeShares,
+    annualIncrease,
+    amountOverrides,
+    pauses,
+    initialInvestment,
+    riskFreeRate,
+    setResult,
+    setLoading,
+    setError,
+    clearResult,
+  ])
+}
@@ -1,15 +1,31 @@
 'use client'
 
-import { useEffect, useRef } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useEffect, useMemo, useRef } from 'react'
+import { useQuery, useQueries, type UseQueryResult } from '@tanstack/react-query'
 import { useConfigStore } from '@/store/configStore'
 import { useRollingAnalysisStore } from '@/store/rollingAnalysisStore'
 import { useRollingWorker } from './useRollingWorker'
 import { HTTPError } from '@/lib/api/httpError'
+import {
+  getCommonPriceRange,
+  clipPriceHistory,
+  compareRollingWindows,
+} from '@/lib/calculation/rollingWindowEngine'
+import {
+  getRollingCacheKey,
+  readCachedResult,
+  writeCachedResult,
+} from '@/lib/cache/rollingResultCache'
 import type {
   PricePoint,
   DividendHistory,
+  PercentileBands,
+  PercentileKey,
+  RollingBandMode,
   RollingChartDataPoint,
+  RollingComparison,
+  RollingComparisonChartSeries,
+  RollingWindowConfig,
   RollingWindowResult,
 } from '@/lib/api/types'
 
@@ -84,6 +100,16 @@ async function fetchFullStockData(symbol: string): Promise<StockData> {
   return { prices: pricesData.prices, dividends, dividendsUnavailable }
 }
 
+/**
+ * Comparison histories by ticker (undefined until loaded or if unavailable)
+ */
+function combineComparisonQueries(results: UseQueryResult<StockData>[]) {
+  return {
+    data: results.map((result) => result.data),
+    isLoading: results.some((result) => result.isLoading),
+  }
+}
+
 /**
  * Get reference start date for calendar mode.
  * Uses the median window's start date as the representative timeline.
@@ -122,10 +148,10 @@ function monthOffsetToTimestamp(referenceDate: Date, monthOffset: number): numbe
  */
 function transformToChartData(
   result: RollingWindowResult,
-  xAxisMode: 'normalized' | 'calendar'
+  xAxisMode: 'normalized' | 'calendar',
+  bands: PercentileBands
 ): RollingChartDataPoint[] {
-  const { normalizedBands } = result
-  const { monthOffsets, valueBands } = normalizedBands
+  const { monthOffsets } = result.normalizedBands
 
   if (monthOffsets.length === 0) return []
 
@@ -133,6 +159,7 @@ function transformToChartData(
   const referenceDate =
     xAxisMode === 'calendar' ? getCalendarReferenceDate(result) : null
 
+  const keys = Object.keys(bands) as PercentileKey[]
   const chartData: RollingChartDataPoint[] = []
 
   for (let i = 0; i < monthOffsets.length; i++) {
@@ -143,26 +170,45 @@ function transformToChartData(
         ? monthOffsets[i]
         : monthOffsetToTimestamp(referenceDate!, monthOffsets[i])
 
-    chartData.push({
-      time,
-      p10: valueBands.p10[i] ?? 0,
-      p25: valueBands.p25[i] ?? 0,
-      p50: valueBands.p50[i] ?? 0,
-      p75: valueBands.p75[i] ?? 0,
-      p90: valueBands.p90[i] ?? 0,
-    })
+    const point: RollingChartDataPoint = { time }
+    for (const key of keys) {
+      point[key] = bands[key][i] ?? 0
+    }
+    chartData.push(point)
   }
 
   return chartData
 }
 
+/**
+ * Pick the DCA and lump sum bands to plot: dollar values or % returns.
+ */
+function selectBands(
+  result: RollingWindowResult,
+  bandMode: RollingBandMode
+): { dca: PercentileBands; lumpSum: PercentileBands } {
+  const { normalizedBands } = result
+  return bandMode === 'return'
+    ? { dca: normalizedBands.returnBands, lumpSum: normalizedBands.lumpSumReturnBands }
+    : { dca: normalizedBands.valueBands, lumpSum: normalizedBands.lumpSumValueBands }
+}
+
 /**
  * Hook for managing rolling window DCA analysis.
  *
  * Only activates when viewMode is 'rolling'. Fetches full historical data,
- * computes rolling window analysis (via Web Worker), and updates the store.
+ * computes rolling window analysis (via a Web Worker pool), and updates the
+ * store, including percent complete while the workers run. Finished results
+ * are cached in IndexedDB and reused for identical inputs. Once a result is
+ * in, every horizon is swept for the heatmap; only inputs other than the
+ * horizon and percentiles trigger a new sweep.
  *
- * Uses a Web Worker to offload heavy computation, keeping the UI responsive
+ * Comparison and benchmark tickers are analyzed with the same settings after
+ * the primary result. All tickers are clipped to the date range they share,
+ * so every analysis has the same windows and they can be matched one to one.
+ * Tickers whose history fails to load are left out.
+ *
+ * Uses Web Workers to offload heavy computation, keeping the UI responsive
  * even when processing 20+ years of data with 180+ rolling windows.
  */
 export function useRollingWindowAnalysis() {
@@ -171,22 +217,43 @@ export function useRollingWindowAnalysis() {
     amount,
     frequency,
     isDRIP,
+    annualIncrease,
+    amountOverrides,
+    pauses,
+    initialInvestment,
+    withdrawal,
+    realDollars,
     viewMode,
     rollingHorizon,
     rollingXAxisMode,
+    rollingBandMode,
+    rollingPercentiles,
+    comparisonTickers,
+    benchmarkTickers,
   } = useConfigStore()
 
   const {
     setResult,
     setChartData,
+    setLumpSumChartData,
     setComputing,
+    setProgress,
     setError,
     setAvailableHorizons,
+    setHeatmap,
+    setSweeping,
+    setComparisons,
+    setComparisonChartData,
+    setComparing,
     clearResults,
   } = useRollingAnalysisStore()
 
   const retryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const lastComputeParamsRef = useRef<string | null>(null)
+  const restoredResultRef = useRef<RollingWindowResult | null>(null)
+  const lastSweepParamsRef = useRef<string | null>(null)
+  const pendingSweepRef = useRef<(() => void) | null>(null)
+  const pendingCompareRef = useRef<(() => void) | null>(null)
 
   // Web Worker for heavy computation
   const worker = useRollingWorker()
@@ -213,6 +280,25 @@ export function useRollingWindowAnalysis() {
 
   const { data, isLoading, error, refetch } = query
 
+  // Comparison and benchmark tickers other than the primary one
+  const compareTickers = useMemo(
+    () => Array.from(new Set([...comparisonTickers, ...benchmarkTickers])).filter(
+      (symbol) => symbol !== ticker
+    ),
+    [comparisonTickers, benchmarkTickers, ticker]
+  )
+
+  const comparisonData = useQueries({
+    queries: compareTickers.map((symbol) => ({
+      queryKey: ['rolling-stock-data', symbol],
+      queryFn: () => fetchFullStockData(symbol),
+      staleTime: 1000 * 60 * 60, // 1 hour
+      enabled: isRollingMode,
+      retry: false,
+    })),
+    combine: combineComparisonQueries,
+  })
+
   // Clear retry timeout when ticker changes
   useEffect(() => {
     if (retryTimeoutRef.current) {
@@ -231,10 +317,13 @@ export function useRollingWindowAnalysis() {
       clearResults()
       workerRef.current.cancel()
       lastComputeParamsRef.current = null
+      lastSweepParamsRef.current = null
+      pendingSweepRef.current = null
+      pendingCompareRef.current = null
       return
     }
 
-    if (isLoading) {
+    if (isLoading || comparisonData.isLoading) {
       setComputing(true)
       return
     }
@@ -269,8 +358,39 @@ export function useRollingWindowAnalysis() {
       return
     }
 
-    // Create a key for the current computation parameters
-    const computeKey = `${ticker}-${amount}-${frequency}-${rollingHorizon}-${isDRIP}`
+    // Clip every ticker to the range they all cover so their windows match
+    const loadedComparisons = compareTickers.flatMap((symbol, i) => {
+      const comparison = comparisonData.data[i]
+      return comparison?.prices?.length
+        ? [{ ticker: symbol, prices: comparison.prices, dividends: comparison.dividends }]
+        : []
+    })
+    const commonRange =
+      loadedComparisons.length > 0
+        ? getCommonPriceRange([data.prices, ...loadedComparisons.map((c) => c.prices)])
+        : null
+
+    // Create keys for the current sweep and computation parameters (the
+    // sweep covers every horizon, so the horizon and bands don't affect it)
+    const sweepKey = [
+      ticker,
+      commonRange ? `${commonRange.firstDate}..${commonRange.lastDate}` : 'full',
+      amount,
+      frequency,
+      isDRIP,
+      annualIncrease,
+      JSON.stringify(amountOverrides),
+      JSON.stringify(pauses),
+      initialInvestment,
+      JSON.stringify(withdrawal),
+      realDollars,
+    ].join('-')
+    const computeKey = [
+      sweepKey,
+      rollingHorizon,
+      rollingPercentiles.join(','),
+      commonRange ? loadedComparisons.map((c) => c.ticker).join(',') : '',
+    ].join('-')
 
     // Skip if we already computed with these exact parameters
     if (computeKey === lastComputeParamsRef.current) {
@@ -280,25 +400,71 @@ export function useRollingWindowAnalysis() {
     lastComputeParamsRef.current = computeKey
     setComputing(true)
 
-    // Offload computation to Web Worker (using ref for stable access)
-    workerRef.current.compute(data.prices, data.dividends, {
+    const prices = commonRange ? clipPriceHistory(data.prices, commonRange) : data.prices
+    const dividends = data.dividends
+    const config: RollingWindowConfig = {
       ticker,
       amount,
       frequency,
       horizonYears: rollingHorizon,
       isDRIP,
-    })
+      annualIncrease,
+      amountOverrides,
+      pauses,
+      initialInvestment,
+      withdrawal: withdrawal ?? undefined,
+      realDollars,
+      percentiles: rollingPercentiles,
+    }
+
+    // Sweep for the heatmap once this result is in
+    if (sweepKey !== lastSweepParamsRef.current) {
+      lastSweepParamsRef.current = sweepKey
+      pendingSweepRef.current = () => workerRef.current.sweep(prices, dividends, config)
+    }
+
+    // Comparisons follow the result too (they share its horizon and bands)
+    const comparisonInputs = commonRange
+      ? loadedComparisons.map((c) => ({ ...c, prices: clipPriceHistory(c.prices, commonRange) }))
+      : []
+    pendingCompareRef.current = () => workerRef.current.compare(comparisonInputs, config)
+
+    // Reuse a cached result for the same inputs, otherwise offload the
+    // computation to the Web Workers (using ref for stable access)
+    const priceRange = { firstDate: prices[0].date, lastDate: prices[prices.length - 1].date }
+    readCachedResult(getRollingCacheKey(ticker, priceRange, config)).then(
+      (cached) => {
+        // Ignore if the inputs changed while reading
+        if (computeKey !== lastComputeParamsRef.current) return
+
+        if (cached) {
+          restoredResultRef.current = cached
+          workerRef.current.restore(cached, prices)
+        } else {
+          workerRef.current.compute(prices, dividends, config)
+        }
+      }
+    )
   }, [
     isRollingMode,
     isLoading,
     error,
     data?.prices,
     data?.dividends,
+    compareTickers,
+    comparisonData,
     ticker,
     amount,
     frequency,
     rollingHorizon,
     isDRIP,
+    annualIncrease,
+    amountOverrides,
+    pauses,
+    initialInvestment,
+    withdrawal,
+    realDollars,
+    rollingPercentiles,
     refetch,
     setComputing,
     setError,
@@ -310,6 +476,35 @@ export function useRollingWindowAnalysis() {
   const workerError = worker.error
   const workerHorizons = worker.availableHorizons
   const workerIsComputing = worker.isComputing
+  const workerProgress = worker.progress
+  const workerHeatmap = worker.heatmap
+  const workerIsSweeping = worker.isSweeping
+  const workerComparisons = worker.comparisons
+  const workerIsComparing = worker.isComparing
+
+  useEffect(() => {
+    setProgress(workerProgress)
+  }, [workerProgress, setProgress])
+
+  useEffect(() => {
+    setHeatmap(workerHeatmap)
+  }, [workerHeatmap, setHeatmap])
+
+  useEffect(() => {
+    setSweeping(workerIsSweeping)
+  }, [workerIsSweeping, setSweeping])
+
+  useEffect(() => {
+    setComparing(workerIsComparing)
+  }, [workerIsComparing, setComparing])
+
+  // Cache freshly computed results (not ones just read from the cache)
+  useEffect(() => {
+    if (!workerResult || workerResult === restoredResultRef.current) return
+
+    const { config, dataRange } = workerResult
+    writeCachedResult(getRollingCacheKey(config.ticker, dataRange, config), workerResult)
+  }, [workerResult])
 
   useEffect(() => {
     if (workerError) {
@@ -323,8 +518,18 @@ export function useRollingWindowAnalysis() {
 
     if (workerResult && isRollingMode) {
       setResult(workerResult)
-      const chartData = transformToChartData(workerResult, rollingXAxisMode)
-      setChartData(chartData)
+      const { dca, lumpSum } = selectBands(workerResult, rollingBandMode)
+      setChartData(transformToChartData(workerResult, rollingXAxisMode, dca))
+      setLumpSumChartData(transformToChartData(workerResult, rollingXAxisMode, lumpSum))
+
+      // Start the comparisons and sweep queued by the computation that
+      // produced this result
+      const startCompare = pendingCompareRef.current
+      const startSweep = pendingSweepRef.current
+      pendingCompareRef.current = null
+      pendingSweepRef.current = null
+      startCompare?.()
+      startSweep?.()
     }
   }, [
     workerResult,
@@ -332,19 +537,63 @@ export function useRollingWindowAnalysis() {
     workerHorizons,
     isRollingMode,
     rollingXAxisMode,
+    rollingBandMode,
     setResult,
     setChartData,
+    setLumpSumChartData,
     setError,
     setAvailableHorizons,
   ])
 
-  // Update chart data when X-axis mode changes (without recomputing)
+  // Update chart data when X-axis or band mode changes (without recomputing)
   useEffect(() => {
     if (workerResult && isRollingMode) {
-      const chartData = transformToChartData(workerResult, rollingXAxisMode)
-      setChartData(chartData)
+      const { dca, lumpSum } = selectBands(workerResult, rollingBandMode)
+      setChartData(transformToChartData(workerResult, rollingXAxisMode, dca))
+      setLumpSumChartData(transformToChartData(workerResult, rollingXAxisMode, lumpSum))
     }
-  }, [rollingXAxisMode, workerResult, isRollingMode, setChartData])
+  }, [
+    rollingXAxisMode,
+    rollingBandMode,
+    workerResult,
+    isRollingMode,
+    setChartData,
+    setLumpSumChartData,
+  ])
+
+  // Match comparisons against the result, and chart them on the same axis
+  useEffect(() => {
+    if (!workerResult || !isRollingMode) return
+
+    const comparisons: RollingComparison[] = workerComparisons
+      .filter((comparison) => comparison.config.horizonYears === workerResult.config.horizonYears)
+      .map((comparison) => ({
+        ticker: comparison.config.ticker,
+        result: comparison,
+        matchup: compareRollingWindows(workerResult.windows, comparison.windows),
+      }))
+    const comparisonChartData: RollingComparisonChartSeries[] = comparisons.map(
+      ({ ticker, result }) => ({
+        ticker,
+        data: transformToChartData(
+          result,
+          rollingXAxisMode,
+          selectBands(result, rollingBandMode).dca
+        ),
+      })
+    )
+
+    setComparisons(comparisons)
+    setComparisonChartData(comparisonChartData)
+  }, [
+    workerComparisons,
+    workerResult,
+    isRollingMode,
+    rollingXAxisMode,
+    rollingBandMode,
+    setComparisons,
+    setComparisonChartData,
+  ])
 
   return {
     isLoading: isLoading || workerIsComputing,
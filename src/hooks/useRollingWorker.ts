@@ -4,18 +4,34 @@ import { useEffect, useRef, useCallback, useState } from 'react'
 import {
   runRollingWindowAnalysis,
   getAvailableHorizons,
+  getHorizonRange,
+  getWindowStartDates,
+  summarizeRollingWindows,
+  runHorizonSweep,
+  summarizeHorizonSweep,
+  MAX_HORIZON_YEARS,
 } from '@/lib/calculation/rollingWindowEngine'
+import {
+  createRollingWorkerPool,
+  type RollingWorkerPool,
+} from '@/lib/workers/rollingWorkerPool'
 import type {
   PricePoint,
   DividendHistory,
   RollingWindowConfig,
   RollingWindowResult,
   HorizonYears,
+  HorizonHeatmap,
 } from '@/lib/api/types'
-import type {
-  RollingWorkerRequest,
-  RollingWorkerResponse,
-} from '@/lib/workers/rollingAnalysisWorker'
+
+/**
+ * Another ticker's history to analyze alongside the primary one
+ */
+export interface RollingComparisonInput {
+  ticker: string
+  prices: PricePoint[]
+  dividends: DividendHistory[]
+}
 
 interface WorkerResult {
   result: RollingWindowResult | null
@@ -29,10 +45,22 @@ interface UseRollingWorkerReturn {
     dividends: DividendHistory[],
     config: RollingWindowConfig
   ) => void
+  restore: (result: RollingWindowResult, prices: PricePoint[]) => void
+  sweep: (
+    prices: PricePoint[],
+    dividends: DividendHistory[],
+    config: RollingWindowConfig
+  ) => void
+  compare: (inputs: RollingComparisonInput[], config: RollingWindowConfig) => void
   result: RollingWindowResult | null
   availableHorizons: HorizonYears[]
   isComputing: boolean
+  progress: number            // Percent of windows computed (0-100)
   error: string | null
+  heatmap: HorizonHeatmap | null
+  isSweeping: boolean
+  comparisons: RollingWindowResult[]  // One per compared ticker that could be analyzed
+  isComparing: boolean
   cancel: () => void
 }
 
@@ -40,21 +68,47 @@ interface UseRollingWorkerReturn {
  * Hook for managing rolling window analysis computation.
  *
  * Features:
- * - Attempts Web Worker for non-blocking computation
- * - Falls back to synchronous computation if worker fails
+ * - Splits the windows across a pool of Web Workers for non-blocking computation
+ * - Reports percent complete while the workers run
+ * - Falls back to synchronous computation if the workers fail
  * - Automatic cleanup on unmount
- * - Request cancellation support
+ * - Request cancellation support (stops the workers mid-run)
+ * - Restoring a previously computed result (e.g. from the result cache)
+ * - Sweeping every horizon for the heatmap on a second pool, so a sweep and
+ *   an analysis never cancel each other
+ * - Analyzing comparison tickers one after another on a third pool
  */
 export function useRollingWorker(): UseRollingWorkerReturn {
-  const workerRef = useRef<Worker | null>(null)
+  const poolRef = useRef<RollingWorkerPool | null>(null)
+  const sweepPoolRef = useRef<RollingWorkerPool | null>(null)
+  const comparePoolRef = useRef<RollingWorkerPool | null>(null)
   const workerFailedRef = useRef(false)
   const requestIdRef = useRef<string | null>(null)
+  const sweepIdRef = useRef<string | null>(null)
+  const compareIdRef = useRef<string | null>(null)
 
-  const [state, setState] = useState<WorkerResult & { isComputing: boolean }>({
+  const [state, setState] = useState<WorkerResult & { isComputing: boolean; progress: number }>({
     result: null,
-    availableHorizons: [5, 10, 15, 20],
+    availableHorizons: getHorizonRange(MAX_HORIZON_YEARS),
     error: null,
     isComputing: false,
+    progress: 0,
+  })
+
+  const [sweepState, setSweepState] = useState<{
+    heatmap: HorizonHeatmap | null
+    isSweeping: boolean
+  }>({
+    heatmap: null,
+    isSweeping: false,
+  })
+
+  const [compareState, setCompareState] = useState<{
+    comparisons: RollingWindowResult[]
+    isComparing: boolean
+  }>({
+    comparisons: [],
+    isComparing: false,
   })
 
   // Synchronous fallback computation
@@ -73,18 +127,6 @@ export function useRollingWorker(): UseRollingWorkerReturn {
         }
 
         try {
-          const availableHorizons = getAvailableHorizons(prices)
-
-          if (!availableHorizons.includes(config.horizonYears)) {
-            setState((prev) => ({
-              ...prev,
-              error: `Insufficient data for ${config.horizonYears}-year horizon`,
-              isComputing: false,
-              availableHorizons,
-            }))
-            return
-          }
-
           const result = runRollingWindowAnalysis(prices, dividends, config)
 
           // Check again if cancelled during computation
@@ -94,9 +136,10 @@ export function useRollingWorker(): UseRollingWorkerReturn {
 
           setState({
             result,
-            availableHorizons,
+            availableHorizons: getAvailableHorizons(prices),
             error: null,
             isComputing: false,
+            progress: 100,
           })
         } catch (error) {
           if (id === requestIdRef.current) {
@@ -112,74 +155,71 @@ export function useRollingWorker(): UseRollingWorkerReturn {
     []
   )
 
-  // Initialize worker lazily
-  const getWorker = useCallback(() => {
-    if (workerFailedRef.current) {
-      return null
-    }
-
-    if (!workerRef.current) {
-      try {
-        // Using dynamic import URL pattern for Next.js webpack bundling
-        workerRef.current = new Worker(
-          new URL('../lib/workers/rollingAnalysisWorker.ts', import.meta.url),
-          { type: 'module' }
-        )
-
-        workerRef.current.onmessage = (event: MessageEvent<RollingWorkerResponse>) => {
-          const { type, id, result, availableHorizons, error } = event.data
+  // Synchronous fallback for the heatmap sweep
+  const sweepSync = useCallback(
+    (
+      prices: PricePoint[],
+      dividends: DividendHistory[],
+      config: RollingWindowConfig,
+      id: string
+    ) => {
+      setTimeout(() => {
+        if (id !== sweepIdRef.current) return
 
-          // Ignore responses for cancelled/outdated requests
-          if (id !== requestIdRef.current) {
-            return
+        try {
+          const heatmap = runHorizonSweep(prices, dividends, config)
+          if (id === sweepIdRef.current) {
+            setSweepState({ heatmap, isSweeping: false })
           }
-
-          if (type === 'SUCCESS' && result) {
-            setState({
-              result,
-              availableHorizons: availableHorizons ?? [5, 10, 15, 20],
-              error: null,
-              isComputing: false,
-            })
-          } else if (type === 'ERROR') {
-            setState((prev) => ({
-              ...prev,
-              error: error ?? 'Unknown error',
-              isComputing: false,
-              availableHorizons: availableHorizons ?? prev.availableHorizons,
-            }))
+        } catch {
+          if (id === sweepIdRef.current) {
+            setSweepState({ heatmap: null, isSweeping: false })
           }
         }
+      }, 0)
+    },
+    []
+  )
 
-        workerRef.current.onerror = () => {
-          // Worker failed - mark as failed and terminate
-          workerFailedRef.current = true
-          if (workerRef.current) {
-            workerRef.current.terminate()
-            workerRef.current = null
-          }
-        }
-      } catch {
-        // Worker creation failed - fall back to sync
-        workerFailedRef.current = true
-        return null
-      }
+  // Initialize a pool lazily (its workers start on the first run, and a
+  // failure to create one rejects that run)
+  const getPool = useCallback((ref: typeof poolRef) => {
+    if (workerFailedRef.current) {
+      return null
+    }
+
+    if (!ref.current) {
+      ref.current = createRollingWorkerPool()
     }
 
-    return workerRef.current
+    return ref.current
+  }, [])
+
+  // Every pool is dropped once any of them fails to run. Runs still in flight
+  // on the other pools reject and finish synchronously.
+  const markWorkersFailed = useCallback(() => {
+    workerFailedRef.current = true
+    for (const ref of [poolRef, sweepPoolRef, comparePoolRef]) {
+      ref.current?.terminate()
+      ref.current = null
+    }
   }, [])
 
-  // Cleanup worker on unmount
+  // Shut the workers down on unmount, dropping their runs so none of them
+  // falls back to computing synchronously
   useEffect(() => {
     return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate()
-        workerRef.current = null
+      requestIdRef.current = null
+      sweepIdRef.current = null
+      compareIdRef.current = null
+      for (const ref of [poolRef, sweepPoolRef, comparePoolRef]) {
+        ref.current?.terminate()
+        ref.current = null
       }
     }
   }, [])
 
-  // Compute function - tries worker first, falls back to sync
+  // Compute function - tries the worker pool first, falls back to sync
   const compute = useCallback(
     (
       prices: PricePoint[],
@@ -189,45 +229,229 @@ export function useRollingWorker(): UseRollingWorkerReturn {
       const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
       requestIdRef.current = id
 
+      const availableHorizons = getAvailableHorizons(prices)
+
+      // Check if requested horizon is available
+      if (!availableHorizons.includes(config.horizonYears)) {
+        poolRef.current?.cancel()
+        setState((prev) => ({
+          ...prev,
+          error: `Insufficient data for ${config.horizonYears}-year horizon. Available: ${
+            availableHorizons.length > 0
+              ? `up to ${availableHorizons[availableHorizons.length - 1]} years`
+              : 'none'
+          }`,
+          isComputing: false,
+          availableHorizons,
+        }))
+        return
+      }
+
       setState((prev) => ({
         ...prev,
         isComputing: true,
+        progress: 0,
         error: null,
       }))
 
-      const worker = getWorker()
+      const pool = getPool(poolRef)
 
-      if (worker) {
-        // Use Web Worker for non-blocking computation
-        const request: RollingWorkerRequest = {
-          type: 'COMPUTE',
-          id,
-          payload: { prices, dividends, config },
-        }
-        worker.postMessage(request)
-      } else {
+      if (!pool) {
         // Fall back to synchronous computation (wrapped in setTimeout)
         computeSync(prices, dividends, config, id)
+        return
       }
+
+      const startDates = getWindowStartDates(prices, config.horizonYears)
+
+      pool
+        .run({ prices, dividends, config, startDates }, (completed) => {
+          if (id !== requestIdRef.current) return
+          setState((prev) => ({
+            ...prev,
+            progress: Math.round((completed / startDates.length) * 100),
+          }))
+        })
+        .then(
+          (windows) => {
+            // Ignore cancelled/outdated requests
+            if (!windows || id !== requestIdRef.current) return
+
+            try {
+              setState({
+                result: summarizeRollingWindows(prices, config, windows),
+                availableHorizons,
+                error: null,
+                isComputing: false,
+                progress: 100,
+              })
+            } catch (error) {
+              setState((prev) => ({
+                ...prev,
+                error: error instanceof Error ? error.message : 'Computation error',
+                isComputing: false,
+              }))
+            }
+          },
+          () => {
+            // Workers failed or were terminated - finish this request synchronously
+            markWorkersFailed()
+            computeSync(prices, dividends, config, id)
+          }
+        )
     },
-    [getWorker, computeSync]
+    [getPool, markWorkersFailed, computeSync]
   )
 
-  // Cancel current computation
+  // Sweep every available horizon for the heatmap (config.horizonYears is ignored)
+  const sweep = useCallback(
+    (
+      prices: PricePoint[],
+      dividends: DividendHistory[],
+      config: RollingWindowConfig
+    ) => {
+      const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      sweepIdRef.current = id
+      setSweepState((prev) => ({ ...prev, isSweeping: true }))
+
+      const pool = getPool(sweepPoolRef)
+
+      if (!pool) {
+        sweepSync(prices, dividends, config, id)
+        return
+      }
+
+      const horizons = getAvailableHorizons(prices)
+      // The shortest horizon has every start date
+      const startDates = horizons.length > 0 ? getWindowStartDates(prices, horizons[0]) : []
+
+      pool
+        .run({ prices, dividends, config, startDates, sweep: true }, () => {})
+        .then(
+          (windows) => {
+            if (!windows || id !== sweepIdRef.current) return
+            setSweepState({
+              heatmap: summarizeHorizonSweep(startDates, horizons, config, windows),
+              isSweeping: false,
+            })
+          },
+          () => {
+            markWorkersFailed()
+            sweepSync(prices, dividends, config, id)
+          }
+        )
+    },
+    [getPool, markWorkersFailed, sweepSync]
+  )
+
+  // Analyze each comparison ticker in turn, leaving out any that fail
+  const compare = useCallback(
+    (inputs: RollingComparisonInput[], config: RollingWindowConfig) => {
+      const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      compareIdRef.current = id
+
+      if (inputs.length === 0) {
+        comparePoolRef.current?.cancel()
+        setCompareState({ comparisons: [], isComparing: false })
+        return
+      }
+
+      setCompareState({ comparisons: [], isComparing: true })
+
+      // Resolves null if cancelled
+      const analyze = async (
+        input: RollingComparisonInput
+      ): Promise<RollingWindowResult | null> => {
+        const tickerConfig = { ...config, ticker: input.ticker }
+        const pool = getPool(comparePoolRef)
+
+        if (pool) {
+          const startDates = getWindowStartDates(input.prices, config.horizonYears)
+          try {
+            const windows = await pool.run(
+              { prices: input.prices, dividends: input.dividends, config: tickerConfig, startDates },
+              () => {}
+            )
+            return windows && summarizeRollingWindows(input.prices, tickerConfig, windows)
+          } catch {
+            markWorkersFailed()
+          }
+        }
+
+        // Yield to React before computing synchronously
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        if (id !== compareIdRef.current) return null
+        return runRollingWindowAnalysis(input.prices, input.dividends, tickerConfig)
+      }
+
+      const analyzeAll = async () => {
+        const comparisons: RollingWindowResult[] = []
+
+        for (const input of inputs) {
+          if (id !== compareIdRef.current) return
+          try {
+            const result = await analyze(input)
+            if (!result) return
+            comparisons.push(result)
+          } catch {
+            // Leave this ticker out
+          }
+        }
+
+        if (id === compareIdRef.current) {
+          setCompareState({ comparisons, isComparing: false })
+        }
+      }
+
+      analyzeAll()
+    },
+    [getPool, markWorkersFailed]
+  )
+
+  // Show a previously computed result without computing, cancelling any run
+  const restore = useCallback((result: RollingWindowResult, prices: PricePoint[]) => {
+    requestIdRef.current = null
+    poolRef.current?.cancel()
+    setState({
+      result,
+      availableHorizons: getAvailableHorizons(prices),
+      error: null,
+      isComputing: false,
+      progress: 100,
+    })
+  }, [])
+
+  // Cancel current computation, sweep and comparisons
   const cancel = useCallback(() => {
     requestIdRef.current = null
+    sweepIdRef.current = null
+    compareIdRef.current = null
+    poolRef.current?.cancel()
+    sweepPoolRef.current?.cancel()
+    comparePoolRef.current?.cancel()
     setState((prev) => ({
       ...prev,
       isComputing: false,
+      progress: 0,
     }))
+    setSweepState((prev) => ({ ...prev, isSweeping: false }))
+    setCompareState((prev) => ({ ...prev, isComparing: false }))
   }, [])
 
   return {
     compute,
+    restore,
+    sweep,
+    compare,
     result: state.result,
     availableHorizons: state.availableHorizons,
     isComputing: state.isComputing,
+    progress: state.progress,
     error: state.error,
+    heatmap: sweepState.heatmap,
+    isSweeping: sweepState.isSweeping,
+    comparisons: compareState.comparisons,
+    isComparing: compareState.isComparing,
     cancel,
   }
 }
@@ -1,14 +1,205 @@
 'use client'
 
 import { useEffect, useRef } from 'react'
-import { useConfigStore } from '@/store/configStore'
-import type { InvestmentFrequency, ViewMode, HorizonYears, RollingXAxisMode } from '@/lib/api/types'
-
-const VALID_FREQUENCIES: InvestmentFrequency[] = ['weekly', 'biweekly', 'monthly']
-const VALID_VIEW_MODES: ViewMode[] = ['single', 'rolling']
-const VALID_HORIZONS: HorizonYears[] = [5, 10, 15, 20]
+import { useConfigStore, MAX_PORTFOLIO_HOLDINGS } from '@/store/configStore'
+import { MIN_HORIZON_YEARS, MAX_HORIZON_YEARS } from '@/lib/calculation/rollingWindowEngine'
+import { DEFAULT_PERCENTILES, normalizePercentiles } from '@/lib/calculation/percentileUtils'
+import {
+  MIN_PATH_COUNT,
+  MAX_PATH_COUNT,
+  MAX_PROJECTION_YEARS,
+  MAX_BLOCK_MONTHS,
+} from '@/lib/calculation/monteCarloEngine'
+import type {
+  InvestmentFrequency,
+  ViewMode,
+  RollingXAxisMode,
+  RollingBandMode,
+  ContributionOverride,
+  ContributionPause,
+  PortfolioHolding,
+  RebalanceConfig,
+  RebalanceInterval,
+  ExecutionPrice,
+  ScheduleAnchor,
+} from '@/lib/api/types'
+
+const VALID_FREQUENCIES: InvestmentFrequency[] = [
+  'daily',
+  'weekly',
+  'biweekly',
+  'semimonthly',
+  'monthly',
+  'quarterly',
+  'annually',
+]
+const VALID_VIEW_MODES: ViewMode[] = ['single', 'rolling', 'portfolio', 'montecarlo']
+const VALID_REBALANCE_INTERVALS: RebalanceInterval[] = ['monthly', 'quarterly', 'annually']
 const VALID_X_AXIS_MODES: RollingXAxisMode[] = ['normalized', 'calendar']
+const VALID_BAND_MODES: RollingBandMode[] = ['value', 'return']
+const VALID_EXECUTION_PRICES: ExecutionPrice[] = ['open', 'close', 'midpoint', 'typical', 'worst']
 const TICKER_PATTERN = /^[A-Z0-9]{1,10}(?:[.-][A-Z0-9]{1,6})?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Parse a comma-separated percentile list (e.g. 5,25,50,75,95) into a
+ * symmetric band set, or null when it holds no usable percentile.
+ */
+function parsePercentiles(value: string): number[] | null {
+  const requested = value.split(',').map((part) => parseInt(part, 10))
+  const percentiles = normalizePercentiles(requested)
+  return percentiles.length > 1 ? percentiles : null
+}
+
+function isDefaultPercentiles(percentiles: number[]): boolean {
+  return percentiles.join(',') === DEFAULT_PERCENTILES.join(',')
+}
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime())
+}
+
+// Overrides as "YYYY-MM-DD:amount" pairs, comma-separated
+function serializeAmountOverrides(overrides: ContributionOverride[]): string {
+  return overrides.map((o) => `${o.date}:${o.amount}`).join(',')
+}
+
+function parseAmountOverrides(value: string): ContributionOverride[] {
+  return value.split(',').flatMap((entry) => {
+    const [date, rawAmount] = entry.split(':')
+    const amount = parseFloat(rawAmount)
+    if (!date || !isValidDate(date) || !Number.isFinite(amount) || amount < 0) return []
+    return [{ date, amount }]
+  })
+}
+
+// Pauses as "YYYY-MM-DD~YYYY-MM-DD" ranges, comma-separated
+function serializePauses(pauses: ContributionPause[]): string {
+  return pauses.map((p) => `${p.start}~${p.end}`).join(',')
+}
+
+function parsePauses(value: string): ContributionPause[] {
+  return value.split(',').flatMap((entry) => {
+    const [start, end] = entry.split('~')
+    if (!start || !end || !isValidDate(start) || !isValidDate(end) || end < start) return []
+    return [{ start, end }]
+  })
+}
+
+// Holdings as "TICKER:weight" pairs, comma-separated
+function serializeHoldings(holdings: PortfolioHolding[]): string {
+  return holdings
+    .filter((h) => h.ticker)
+    .map((h) => `${h.ticker}:${h.weight}`)
+    .join(',')
+}
+
+function parseHoldings(value: string): PortfolioHolding[] {
+  return value.split(',').flatMap((entry) => {
+    const [rawTicker, rawWeight] = entry.split(':')
+    const ticker = rawTicker?.trim().toUpperCase() ?? ''
+    const weight = parseFloat(rawWeight)
+    if (!TICKER_PATTERN.test(ticker) || !Number.isFinite(weight) || weight < 0 || weight > 100) {
+      return []
+    }
+    return [{ ticker, weight }]
+  }).slice(0, MAX_PORTFOLIO_HOLDINGS)
+}
+
+// Schedule anchors as "wd:<weekday>", "dom:<day>", "nth:<n>:<weekday>" or "lbd"
+function serializeScheduleAnchor(anchor: ScheduleAnchor): string {
+  switch (anchor.kind) {
+    case 'startDate':
+      return ''
+    case 'weekday':
+      return `wd:${anchor.weekday}`
+    case 'dayOfMonth':
+      return `dom:${anchor.day}`
+    case 'nthWeekday':
+      return `nth:${anchor.nth}:${anchor.weekday}`
+    case 'lastBusinessDay':
+      return 'lbd'
+  }
+}
+
+function parseScheduleAnchor(value: string): ScheduleAnchor | null {
+  const [kind, rawFirst, rawSecond] = value.split(':')
+  const first = parseInt(rawFirst, 10)
+  const second = parseInt(rawSecond, 10)
+  const isWeekday = (n: number) => Number.isInteger(n) && n >= 0 && n <= 6
+
+  if (kind === 'lbd') return { kind: 'lastBusinessDay' }
+  if (kind === 'wd' && isWeekday(first)) return { kind: 'weekday', weekday: first }
+  if (kind === 'dom' && first >= 1 && first <= 31) return { kind: 'dayOfMonth', day: first }
+  if (kind === 'nth' && (first === -1 || (first >= 1 && first <= 4)) && isWeekday(second)) {
+    return { kind: 'nthWeekday', nth: first, weekday: second }
+  }
+  return null
+}
+
+// Rebalancing as "none", "periodic:<interval>" or "threshold:<band>"
+function serializeRebalance(rebalance: RebalanceConfig): string {
+  switch (rebalance.strategy) {
+    case 'none':
+      return 'none'
+    case 'periodic':
+      return `periodic:${rebalance.interval}`
+    case 'threshold':
+      return `threshold:${rebalance.threshold}`
+  }
+}
+
+function parseRebalance(value: string): Partial<RebalanceConfig> | null {
+  const [strategy, option] = value.split(':')
+  if (strategy === 'none') return { strategy }
+  if (strategy === 'periodic' && VALID_REBALANCE_INTERVALS.includes(option as RebalanceInterval)) {
+    return { strategy, interval: option as RebalanceInterval }
+  }
+  const threshold = parseFloat(option)
+  if (strategy === 'threshold' && Number.isFinite(threshold) && threshold >= 1 && threshold <= 50) {
+    return { strategy, threshold }
+  }
+  return null
+}
+
+interface MonteCarloParams {
+  monteCarloHorizon: number
+  monteCarloPaths: number
+  monteCarloBlockMonths: number
+  monteCarloSeed: number
+}
+
+// Monte Carlo settings as "horizon,paths,blockMonths,seed"
+function serializeMonteCarlo(params: MonteCarloParams): string {
+  return [
+    params.monteCarloHorizon,
+    params.monteCarloPaths,
+    params.monteCarloBlockMonths,
+    params.monteCarloSeed,
+  ].join(',')
+}
+
+function parseMonteCarlo(value: string): MonteCarloParams | null {
+  const [horizon, paths, blockMonths, seed] = value.split(',').map((part) => Number(part))
+  const inRange = (n: number, min: number, max: number) =>
+    Number.isInteger(n) && n >= min && n <= max
+
+  if (
+    !inRange(horizon, 1, MAX_PROJECTION_YEARS) ||
+    !inRange(paths, MIN_PATH_COUNT, MAX_PATH_COUNT) ||
+    !inRange(blockMonths, 1, MAX_BLOCK_MONTHS) ||
+    !inRange(seed, 0, 0xffffffff)
+  ) {
+    return null
+  }
+
+  return {
+    monteCarloHorizon: horizon,
+    monteCarloPaths: paths,
+    monteCarloBlockMonths: blockMonths,
+    monteCarloSeed: seed,
+  }
+}
 
 /**
  * Syncs configuration state with URL parameters for shareable links.
@@ -16,15 +207,26 @@ const TICKER_PATTERN = /^[A-Z0-9]{1,10}(?:[.-][A-Z0-9]{1,6})?$/
  * URL params:
  * - t: ticker (e.g., AAPL)
  * - a: amount (e.g., 100)
- * - f: frequency (weekly, biweekly, monthly)
+ * - f: frequency (daily, weekly, biweekly, semimonthly, monthly, quarterly, annually)
+ * - n: schedule anchor (wd:5 Fridays, dom:15, nth:3:5 third Friday, nth:-1:1 last Monday, lbd)
  * - s: start date (YYYY-MM-DD)
  * - e: end date (YYYY-MM-DD)
  * - d: DRIP enabled (1 or 0)
+ * - i: show inflation-adjusted (real) dollars (1 or 0)
+ * - q: execution price (open, close, midpoint, typical, worst)
  * - c: comparison tickers (comma-separated, e.g., MSFT,GOOGL)
  * - b: benchmark tickers (comma-separated, e.g., SPY,QQQ)
- * - v: view mode (single, rolling)
- * - h: rolling horizon (5, 10, 15, 20)
+ * - v: view mode (single, rolling, portfolio, montecarlo)
+ * - h: rolling horizon in whole years (1 to 40)
  * - x: rolling X-axis mode (normalized, calendar)
+ * - y: rolling band mode (value, return)
+ * - k: rolling and Monte Carlo band percentiles (e.g., 5,25,50,75,95)
+ * - g: annual contribution increase (%)
+ * - o: amount overrides (e.g., 2020-01-01:250,2022-06-01:400)
+ * - p: contribution pauses (e.g., 2021-01-01~2021-06-30)
+ * - w: portfolio holdings with target weights (e.g., VTI:60,BND:40)
+ * - r: portfolio rebalancing (none, periodic:annually, threshold:5)
+ * - m: Monte Carlo horizon years, paths, block months and seed (e.g., 20,5000,12,1)
  */
 export function useURLSync() {
   console.log('useURLSync')
@@ -33,14 +235,28 @@ export function useURLSync() {
     ticker,
     amount,
     frequency,
+    scheduleAnchor,
     startDate,
     endDate,
     isDRIP,
+    realDollars,
+    executionPrice,
+    annualIncrease,
+    amountOverrides,
+    pauses,
     comparisonTickers,
     benchmarkTickers,
     viewMode,
     rollingHorizon,
     rollingXAxisMode,
+    rollingBandMode,
+    rollingPercentiles,
+    portfolioHoldings,
+    rebalance,
+    monteCarloHorizon,
+    monteCarloPaths,
+    monteCarloBlockMonths,
+    monteCarloSeed,
     setConfig,
     _hasHydrated,
   } = useConfigStore()
@@ -52,9 +268,12 @@ export function useURLSync() {
     const params = new URLSearchParams(window.location.search)
 
     // Only apply URL params if there are any config-related params
-    const hasConfigParams = params.has('t') || params.has('a') || params.has('f') ||
+    const hasConfigParams = params.has('t') || params.has('a') || params.has('f') || params.has('n') ||
                            params.has('s') || params.has('e') || params.has('d') || params.has('c') ||
-                           params.has('b') || params.has('v') || params.has('h') || params.has('x')
+                           params.has('b') || params.has('v') || params.has('h') || params.has('x') ||
+                           params.has('g') || params.has('o') || params.has('p') ||
+                           params.has('w') || params.has('r') || params.has('i') ||
+                           params.has('q') || params.has('m') || params.has('y') || params.has('k')
     console.log('hasConfigParams', hasConfigParams)
     if (!hasConfigParams) {
       hasInitialized.current = true
@@ -87,6 +306,15 @@ export function useURLSync() {
       config.frequency = urlFrequency
     }
 
+    // Parse schedule anchor
+    const urlAnchor = params.get('n')
+    if (urlAnchor) {
+      const anchor = parseScheduleAnchor(urlAnchor)
+      if (anchor) {
+        config.scheduleAnchor = anchor
+      }
+    }
+
     // Parse start date
     const urlStartDate = params.get('s')
     if (urlStartDate && /^\d{4}-\d{2}-\d{2}$/.test(urlStartDate)) {
@@ -111,6 +339,45 @@ export function useURLSync() {
       config.isDRIP = urlDRIP === '1'
     }
 
+    // Parse real dollars toggle
+    const urlRealDollars = params.get('i')
+    if (urlRealDollars === '0' || urlRealDollars === '1') {
+      config.realDollars = urlRealDollars === '1'
+    }
+
+    // Parse execution price
+    const urlExecutionPrice = params.get('q') as ExecutionPrice
+    if (urlExecutionPrice && VALID_EXECUTION_PRICES.includes(urlExecutionPrice)) {
+      config.executionPrice = urlExecutionPrice
+    }
+
+    // Parse annual contribution increase
+    const urlIncrease = params.get('g')
+    if (urlIncrease) {
+      const parsed = parseFloat(urlIncrease)
+      if (Number.isFinite(parsed) && parsed >= 0 && parsed <= 50) {
+        config.annualIncrease = parsed
+      }
+    }
+
+    // Parse amount overrides
+    const urlOverrides = params.get('o')
+    if (urlOverrides) {
+      const overrides = parseAmountOverrides(urlOverrides)
+      if (overrides.length > 0) {
+        config.amountOverrides = overrides
+      }
+    }
+
+    // Parse contribution pauses
+    const urlPauses = params.get('p')
+    if (urlPauses) {
+      const parsedPauses = parsePauses(urlPauses)
+      if (parsedPauses.length > 0) {
+        config.pauses = parsedPauses
+      }
+    }
+
     // Parse comparison tickers
     const urlComparisons = params.get('c')
     if (urlComparisons) {
@@ -146,8 +413,8 @@ export function useURLSync() {
     // Parse rolling horizon
     const urlHorizon = params.get('h')
     if (urlHorizon) {
-      const parsed = parseInt(urlHorizon, 10) as HorizonYears
-      if (VALID_HORIZONS.includes(parsed)) {
+      const parsed = parseInt(urlHorizon, 10)
+      if (parsed >= MIN_HORIZON_YEARS && parsed <= MAX_HORIZON_YEARS) {
         config.rollingHorizon = parsed
       }
     }
@@ -158,6 +425,48 @@ export function useURLSync() {
       config.rollingXAxisMode = urlXAxisMode
     }
 
+    // Parse rolling band mode
+    const urlBandMode = params.get('y') as RollingBandMode
+    if (urlBandMode && VALID_BAND_MODES.includes(urlBandMode)) {
+      config.rollingBandMode = urlBandMode
+    }
+
+    // Parse rolling band percentiles
+    const urlPercentiles = params.get('k')
+    if (urlPercentiles) {
+      const percentiles = parsePercentiles(urlPercentiles)
+      if (percentiles) {
+        config.rollingPercentiles = percentiles
+      }
+    }
+
+    // Parse portfolio holdings
+    const urlHoldings = params.get('w')
+    if (urlHoldings) {
+      const holdings = parseHoldings(urlHoldings)
+      if (holdings.length > 0) {
+        config.portfolioHoldings = holdings
+      }
+    }
+
+    // Parse portfolio rebalancing
+    const urlRebalance = params.get('r')
+    if (urlRebalance) {
+      const parsedRebalance = parseRebalance(urlRebalance)
+      if (parsedRebalance) {
+        config.rebalance = { ...useConfigStore.getState().rebalance, ...parsedRebalance }
+      }
+    }
+
+    // Parse Monte Carlo settings
+    const urlMonteCarlo = params.get('m')
+    if (urlMonteCarlo) {
+      const monteCarlo = parseMonteCarlo(urlMonteCarlo)
+      if (monteCarlo) {
+        Object.assign(config, monteCarlo)
+      }
+    }
+
     // Apply config if we parsed anything
     if (Object.keys(config).length > 0) {
       setConfig(config)
@@ -175,10 +484,33 @@ export function useURLSync() {
     params.set('t', ticker)
     params.set('a', amount.toString())
     params.set('f', frequency)
+    if (scheduleAnchor.kind !== 'startDate') {
+      params.set('n', serializeScheduleAnchor(scheduleAnchor))
+    }
     params.set('s', startDate)
     params.set('e', endDate)
     params.set('d', isDRIP ? '1' : '0')
 
+    if (realDollars) {
+      params.set('i', '1')
+    }
+
+    if (executionPrice !== 'close') {
+      params.set('q', executionPrice)
+    }
+
+    if (annualIncrease > 0) {
+      params.set('g', annualIncrease.toString())
+    }
+
+    if (amountOverrides.length > 0) {
+      params.set('o', serializeAmountOverrides(amountOverrides))
+    }
+
+    if (pauses.length > 0) {
+      params.set('p', serializePauses(pauses))
+    }
+
     if (comparisonTickers.length > 0) {
       params.set('c', comparisonTickers.join(','))
     }
@@ -192,11 +524,32 @@ export function useURLSync() {
     if (viewMode === 'rolling') {
       params.set('h', rollingHorizon.toString())
       params.set('x', rollingXAxisMode)
+      params.set('y', rollingBandMode)
+      if (!isDefaultPercentiles(rollingPercentiles)) {
+        params.set('k', rollingPercentiles.join(','))
+      }
+    }
+
+    // Portfolio params
+    if (viewMode === 'portfolio') {
+      params.set('w', serializeHoldings(portfolioHoldings))
+      params.set('r', serializeRebalance(rebalance))
+    }
+
+    // Monte Carlo params
+    if (viewMode === 'montecarlo') {
+      params.set(
+        'm',
+        serializeMonteCarlo({ monteCarloHorizon, monteCarloPaths, monteCarloBlockMonths, monteCarloSeed })
+      )
+      if (!isDefaultPercentiles(rollingPercentiles)) {
+        params.set('k', rollingPercentiles.join(','))
+      }
     }
 
     const newUrl = `${window.location.pathname}?${params.toString()}`
     window.history.replaceState({}, '', newUrl)
-  }, [ticker, amount, frequency, startDate, endDate, isDRIP, comparisonTickers, benchmarkTickers, viewMode, rollingHorizon, rollingXAxisMode, _hasHydrated])
+  }, [ticker, amount, frequency, scheduleAnchor, startDate, endDate, isDRIP, realDollars, executionPrice, annualIncrease, amountOverrides, pauses, comparisonTickers, benchmarkTickers, viewMode, rollingHorizon, rollingXAxisMode, rollingBandMode, rollingPercentiles, portfolioHoldings, rebalance, monteCarloHorizon, monteCarloPaths, monteCarloBlockMonths, monteCarloSeed, _hasHydrated])
 }
 
 /**
@@ -212,10 +565,33 @@ export function getShareableURL(): string {
   params.set('t', state.ticker)
   params.set('a', state.amount.toString())
   params.set('f', state.frequency)
+  if (state.scheduleAnchor.kind !== 'startDate') {
+    params.set('n', serializeScheduleAnchor(state.scheduleAnchor))
+  }
   params.set('s', state.startDate)
   params.set('e', state.endDate)
   params.set('d', state.isDRIP ? '1' : '0')
 
+  if (state.realDollars) {
+    params.set('i', '1')
+  }
+
+  if (state.executionPrice !== 'close') {
+    params.set('q', state.executionPrice)
+  }
+
+  if (state.annualIncrease > 0) {
+    params.set('g', state.annualIncrease.toString())
+  }
+
+  if (state.amountOverrides.length > 0) {
+    params.set('o', serializeAmountOverrides(state.amountOverrides))
+  }
+
+  if (state.pauses.length > 0) {
+    params.set('p', serializePauses(state.pauses))
+  }
+
   if (state.comparisonTickers.length > 0) {
     params.set('c', state.comparisonTickers.join(','))
   }
@@ -229,6 +605,24 @@ export function getShareableURL(): string {
   if (state.viewMode === 'rolling') {
     params.set('h', state.rollingHorizon.toString())
     params.set('x', state.rollingXAxisMode)
+    params.set('y', state.rollingBandMode)
+    if (!isDefaultPercentiles(state.rollingPercentiles)) {
+      params.set('k', state.rollingPercentiles.join(','))
+    }
+  }
+
+  // Portfolio params
+  if (state.viewMode === 'portfolio') {
+    params.set('w', serializeHoldings(state.portfolioHoldings))
+    params.set('r', serializeRebalance(state.rebalance))
+  }
+
+  // Monte Carlo params
+  if (state.viewMode === 'montecarlo') {
+    params.set('m', serializeMonteCarlo(state))
+    if (!isDefaultPercentiles(state.rollingPercentiles)) {
+      params.set('k', state.rollingPercentiles.join(','))
+    }
   }
 
   return `${window.location.origin}${window.location.pathname}?${params.toString()}`
@@ -23,23 +23,203 @@ export interface APIError {
 }
 
 // DCA-specific types
-export type InvestmentFrequency = 'weekly' | 'biweekly' | 'monthly'
+export type InvestmentFrequency =
+  | 'daily'                   // Every trading day
+  | 'weekly'
+  | 'biweekly'
+  | 'semimonthly'             // 1st and 15th of every month
+  | 'monthly'
+  | 'quarterly'
+  | 'annually'
+
+/**
+ * Pins scheduled dates to a calendar position instead of repeating from the
+ * start date. Dates that are not trading days roll forward to the next one.
+ * - startDate: repeat from the start date
+ * - weekday: a day of the week (weekly and bi-weekly)
+ * - dayOfMonth: a day of the month, clamped to short months (monthly and longer)
+ * - nthWeekday: e.g. the 3rd Friday; nth -1 is the last one (monthly and longer)
+ * - lastBusinessDay: the last weekday of the month (monthly and longer)
+ */
+export type ScheduleAnchor =
+  | { kind: 'startDate' }
+  | { kind: 'weekday'; weekday: number }            // 0 = Sunday ... 6 = Saturday
+  | { kind: 'dayOfMonth'; day: number }             // 1-31
+  | { kind: 'nthWeekday'; nth: number; weekday: number } // nth 1-4 or -1
+  | { kind: 'lastBusinessDay' }
+
+/**
+ * Price each trade fills at on its day:
+ * - open / close: the day's opening or closing price
+ * - midpoint: (high + low) / 2
+ * - typical: (high + low + close) / 3, a common VWAP proxy
+ * - worst: the day's high for purchases and low for sales (pessimistic bound)
+ */
+export type ExecutionPrice = 'open' | 'close' | 'midpoint' | 'typical' | 'worst'
+
+/**
+ * Brokerage friction applied to every purchase and to holdings over time
+ */
+export interface FeeModel {
+  flatPerTrade: number        // Fixed commission per trade ($)
+  percentPerTrade: number     // Commission as a percentage of trade value
+  spreadBps: number           // Bid/ask spread in basis points (half is paid on each buy)
+  expenseRatio: number        // Annual expense ratio (%), accrued daily on market value
+}
+
+/**
+ * When dividend cash arrives (and DRIP buys): on the ex-date, or on the payment
+ * date at that day's price. Entitlement always follows shares held at the ex-date.
+ */
+export type DividendTiming = 'exDate' | 'paymentDate'
+
+/**
+ * Taxes taken out of every dividend before it is paid out or reinvested.
+ * Foreign withholding is credited against the domestic tax, so the total
+ * is the larger of the two.
+ */
+export interface DividendTaxConfig {
+  qualifiedRate: number       // Tax rate (%) on qualified dividends
+  ordinaryRate: number        // Tax rate (%) on ordinary (non-qualified) dividends
+  qualifiedPercent: number    // Share of each dividend (%) taxed at the qualified rate
+  withholdingRate: number     // Foreign withholding (%) taken at source
+}
+
+/**
+ * Contribution amount change: from this date onward the base amount is `amount`
+ * (the annual increase compounds again from this date)
+ */
+export interface ContributionOverride {
+  date: string
+  amount: number
+}
+
+/**
+ * Inclusive date range with no scheduled contributions
+ */
+export interface ContributionPause {
+  start: string
+  end: string
+}
+
+/**
+ * How withdrawal amounts are sized:
+ * - fixedAmount: the same dollar amount every period
+ * - fixedPercent: an annual percentage of the current portfolio, split per period
+ * - inflationAdjusted: an annual percentage of the portfolio at the first withdrawal
+ *   (the 4% rule), raised by inflation each year after
+ */
+export type WithdrawalStrategy = 'fixedAmount' | 'fixedPercent' | 'inflationAdjusted'
+
+export interface WithdrawalConfig {
+  strategy: WithdrawalStrategy
+  frequency: InvestmentFrequency
+  amount: number              // Dollars per withdrawal (fixedAmount)
+  rate: number                // Annual withdrawal rate (%) for the percentage strategies
+  inflationRate: number       // Annual raise (%) for inflationAdjusted
+  startDate?: string          // First withdrawal (defaults to the simulation start)
+}
+
+/**
+ * How each scheduled contribution is sized:
+ * - dca: the scheduled amount every time
+ * - valueAveraging: whatever keeps the portfolio on a target path that grows by the
+ *   scheduled amount (plus a target return) each period; never sells
+ * - dipBuying: a multiple of the amount when price is X% below its lookback high
+ * - movingAverage: skip above, or double below, the lookback moving average
+ */
+export type ContributionStrategyKind = 'dca' | 'valueAveraging' | 'dipBuying' | 'movingAverage'
+export type MovingAverageAction = 'skipAbove' | 'doubleBelow'
+
+export interface ContributionStrategy {
+  kind: ContributionStrategyKind
+  targetReturn: number        // Annual growth (%) of the value averaging target path
+  maxMultiple: number         // Cap on a value averaging contribution (multiple of the amount)
+  lookbackDays: number        // Trading days for the dip high and the moving average
+  dipThreshold: number        // Drop (%) below the lookback high that counts as a dip
+  dipMultiplier: number       // Contribution multiple on dips
+  movingAverageAction: MovingAverageAction
+}
+
+/**
+ * Which open lots a sale draws from first:
+ * - fifo: oldest lots
+ * - lifo: newest lots
+ * - hifo: lots with the highest cost per share (smallest realized gain)
+ */
+export type LotSelectionMethod = 'fifo' | 'lifo' | 'hifo'
+
+export type LotSource = 'contribution' | 'dividend' | 'rebalance'
+
+// Long-term once held for more than one year
+export type HoldingTerm = 'short' | 'long'
+
+export interface TaxLot {
+  ticker?: string             // Holding the lot belongs to (portfolio mode)
+  acquired: string            // Purchase date
+  source: LotSource           // What bought the shares
+  shares: number              // Shares still held
+  costBasis: number           // Cost of the remaining shares, including purchase fees
+  marketValue: number         // Value of the remaining shares at the last price
+  term: HoldingTerm           // Holding period as of the last price
+}
+
+export interface RealizedLot {
+  ticker?: string             // Holding the lot belonged to (portfolio mode)
+  acquired: string            // Purchase date of the lot sold from
+  source: LotSource           // What bought the shares
+  sold: string                // Sale date
+  shares: number
+  proceeds: number            // Sale proceeds net of commission and spread
+  costBasis: number
+  gain: number                // proceeds - costBasis
+  term: HoldingTerm
+}
+
+export interface TaxLotReport {
+  method: LotSelectionMethod
+  lots: TaxLot[]              // Open lots at the end, oldest first
+  realized: RealizedLot[]     // Every sale, in date order
+  costBasis: number           // Total basis of the open lots
+  unrealizedShortTerm: number // Open-lot gains held a year or less
+  unrealizedLongTerm: number  // Open-lot gains held over a year
+  realizedShortTerm: number
+  realizedLongTerm: number
+}
 
 export interface DCAConfig {
   ticker: string
   amount: number              // Investment amount per period
   frequency: InvestmentFrequency
+  scheduleAnchor?: ScheduleAnchor // Calendar position of contributions (start date when omitted)
   startDate: string           // ISO date string
+  endDate?: string            // Last contribution date (defaults to last available price)
+  holdAfterEnd?: boolean      // Keep marking to market after contributions stop
   isDRIP: boolean             // Dividend reinvestment
+  fees?: FeeModel             // Transaction costs (frictionless when omitted)
+  wholeShares?: boolean       // Buy whole shares only, carrying leftover cash forward
+  annualIncrease?: number     // Contribution step-up per year (%)
+  amountOverrides?: ContributionOverride[]
+  pauses?: ContributionPause[]
+  initialInvestment?: number  // Lump sum invested on the first trading day
+  withdrawal?: WithdrawalConfig // Sell shares on a schedule (runs to the last price)
+  strategy?: ContributionStrategy // Contribution sizing rule (plain DCA when omitted)
+  lotSelection?: LotSelectionMethod // Lots sold first by withdrawals (FIFO when omitted)
+  dividendTax?: DividendTaxConfig // Taxes on dividends (tax-advantaged account when omitted)
+  dividendTiming?: DividendTiming // When dividends are paid (ex-date when omitted)
+  executionPrice?: ExecutionPrice // Fill price for trades (close when omitted)
 }
 
 export interface SimulationPoint {
   date: string
   principal: number           // Total invested
-  dividends: number           // Cumulative dividends (if !DRIP, else 0)
+  dividends: number           // Cumulative after-tax dividends (if !DRIP, else 0)
   marketValue: number         // Current value of all shares
   shares: number              // Total shares owned
-  totalValue: number          // marketValue + dividends (for non-DRIP)
+  totalValue: number          // marketValue + dividends (for non-DRIP) + cash
+  fees: number                // Cumulative fees paid
+  cash: number                // Uninvested cash awaiting a whole-share purchase
+  withdrawn: number           // Cumulative withdrawals paid out
 }
 
 export interface SimulationResult {
@@ -50,6 +230,111 @@ export interface SimulationResult {
   finalValue: number
   totalReturn: number         // Percentage
   cagr: number               // Compound annual growth rate
+  xirr: number                // Money-weighted annual return from dated cash flows
+  totalFees: number           // Commissions, spread and expense ratio paid
+  totalDividendTaxes: number  // Withholding and income tax taken from dividends
+  totalWithdrawn: number      // Withdrawals paid out
+  depletionDate: string | null // First date withdrawals could not be fully funded
+  remainingBalance: number    // Final market value plus uninvested cash
+  taxLots: TaxLotReport       // Cost basis and gains by lot
+}
+
+// ============================================
+// Portfolio Types
+// ============================================
+
+export interface PortfolioHolding {
+  ticker: string
+  weight: number              // Target weight (%); normalized against the sum of all weights
+}
+
+/**
+ * How holdings are brought back to their target weights:
+ * - none: only contributions follow the targets; holdings drift with the market
+ * - periodic: rebalance on the first trading day of every interval
+ * - threshold: rebalance whenever a holding drifts past the band
+ */
+export type RebalanceStrategy = 'none' | 'periodic' | 'threshold'
+export type RebalanceInterval = 'monthly' | 'quarterly' | 'annually'
+
+export interface RebalanceConfig {
+  strategy: RebalanceStrategy
+  interval: RebalanceInterval // Used by periodic
+  threshold: number           // Max drift from target in percentage points (threshold)
+}
+
+export interface PortfolioConfig extends Pick<
+  DCAConfig,
+  | 'amount'
+  | 'frequency'
+  | 'scheduleAnchor'
+  | 'startDate'
+  | 'endDate'
+  | 'holdAfterEnd'
+  | 'isDRIP'
+  | 'fees'
+  | 'annualIncrease'
+  | 'amountOverrides'
+  | 'pauses'
+  | 'initialInvestment'
+  | 'lotSelection'
+  | 'dividendTax'
+  | 'dividendTiming'
+  | 'executionPrice'
+  | 'wholeShares'
+> {
+  holdings: PortfolioHolding[]
+  rebalance: RebalanceConfig
+}
+
+/**
+ * Full price and dividend history for one portfolio holding
+ */
+export interface HoldingHistory {
+  prices: PricePoint[]
+  dividends: DividendHistory[]
+}
+
+export interface PortfolioPoint extends SimulationPoint {
+  holdingValues: Record<string, number> // Market value per ticker
+}
+
+export interface HoldingResult {
+  ticker: string
+  targetWeight: number        // Normalized target weight (%)
+  finalWeight: number         // Share of the final market value (%)
+  shares: number
+  contributed: number         // Contributions allocated to this holding
+  dividends: number           // Cash dividends received (if !DRIP)
+  marketValue: number
+  costBasis: number           // Basis of the shares still held
+}
+
+export interface PortfolioResult extends SimulationResult {
+  points: PortfolioPoint[]
+  holdings: HoldingResult[]
+  rebalanceCount: number
+}
+
+/**
+ * Dated cash flow from the investor's perspective (contributions negative)
+ */
+export interface CashFlow {
+  date: string
+  amount: number
+}
+
+/**
+ * Risk figures derived from a simulation's daily values (net of contributions)
+ */
+export interface RiskMetrics {
+  maxDrawdown: number                 // Largest peak-to-trough decline (percentage, <= 0)
+  drawdownPeakDate: string | null
+  drawdownTroughDate: string | null
+  drawdownRecoveryDate: string | null // null when the prior peak was never regained
+  volatility: number                  // Annualized standard deviation of daily returns (percentage)
+  sharpeRatio: number
+  sortinoRatio: number
 }
 
 // API response types
@@ -64,9 +349,12 @@ export interface StockDataResponse {
 // Rolling Window DCA Analysis Types
 // ============================================
 
-export type HorizonYears = 5 | 10 | 15 | 20
-export type ViewMode = 'single' | 'rolling'
+export type HorizonYears = number  // Whole years, 1 to 40
+export type ViewMode = 'single' | 'rolling' | 'portfolio' | 'montecarlo'
 export type RollingXAxisMode = 'normalized' | 'calendar'
+export type RollingBandMode = 'value' | 'return'
+export type WindowMetric = 'cagr' | 'totalReturn'  // Per-window figure charted by the heatmap and distributions
+export type RollingComparisonBands = 'median' | 'full'  // How much of each comparison ticker's bands to overlay
 
 export interface RollingWindowConfig {
   ticker: string
@@ -74,6 +362,13 @@ export interface RollingWindowConfig {
   frequency: InvestmentFrequency
   horizonYears: HorizonYears
   isDRIP: boolean
+  annualIncrease?: number     // Step-up relative to each window's start
+  amountOverrides?: ContributionOverride[]  // Calendar-dated, shared by all windows
+  pauses?: ContributionPause[]              // Calendar-dated, shared by all windows
+  initialInvestment?: number
+  withdrawal?: Omit<WithdrawalConfig, 'startDate'> // Starts at each window's start
+  realDollars?: boolean       // Deflate each window into its start-date dollars
+  percentiles?: number[]      // Band percentiles, symmetric around 50 (default 10/25/50/75/90)
 }
 
 /**
@@ -84,20 +379,40 @@ export interface WindowResult {
   endDate: string
   totalReturn: number      // Percentage gain/loss
   cagr: number             // Compound annual growth rate
+  xirr: number             // Money-weighted annual return
+  totalWithdrawn: number   // Withdrawals paid out
+  depletionDate: string | null // When the window ran out of money (withdrawal mode)
   finalValue: number       // Final portfolio value
   totalInvested: number    // Total amount invested
   monthlyValues: number[]  // Portfolio value at each month offset (0, 1, 2, ...)
+  monthlyInvested: number[] // Principal contributed by each month offset
+  monthlyWithdrawn: number[] // Cumulative withdrawals by each month offset
+  realCagr?: number        // Inflation-adjusted CAGR (real dollars mode only)
+  lumpSumFinalValue: number       // Final value with totalInvested put in on day one
+  lumpSumReturn: number           // Lump sum total return (%)
+  lumpSumMonthlyValues: number[]  // Lump sum value at each month offset
+  lumpSumMonthlyInvested: number[] // Lump sum principal at each month offset
+  lumpSumMonthlyWithdrawn: number[] // Lump sum cumulative withdrawals at each month offset
 }
 
+export type PercentileKey = `p${number}`  // e.g. p10 for the 10th percentile
+
 /**
- * Percentile bands for visualization
+ * Percentile bands for visualization, one series per requested percentile
+ * (p10, p25, p50, p75 and p90 by default)
  */
 export interface PercentileBands {
-  p10: number[]   // 10th percentile (worst 10%)
-  p25: number[]   // 25th percentile
-  p50: number[]   // 50th percentile (median)
-  p75: number[]   // 75th percentile
-  p90: number[]   // 90th percentile (best 10%)
+  [percentile: PercentileKey]: number[]
+}
+
+/**
+ * How a day-one lump sum of the same total fared against DCA across windows.
+ * Margins are lump sum minus DCA total return, in percentage points.
+ */
+export interface LumpSumComparison {
+  winRate: number               // % of windows where lump sum ended ahead
+  averageMargin: number         // Mean margin
+  marginDistribution: { [percentile: PercentileKey]: number } // Margin at each band percentile
 }
 
 /**
@@ -107,7 +422,10 @@ export interface RollingWindowStats {
   windowCount: number           // Total number of windows analyzed
   medianReturn: number          // Median total return across all windows
   medianCAGR: number            // Median CAGR
+  medianXIRR: number            // Median money-weighted return
   successRate: number           // % of windows with positive return
+  withdrawalSuccessRate: number | null // % of windows never depleted (withdrawal mode only)
+  medianRealCAGR: number | null // Median inflation-adjusted CAGR (real dollars mode only)
   bestWindow: WindowResult | null
   worstWindow: WindowResult | null
   returnDistribution: {
@@ -116,6 +434,7 @@ export interface RollingWindowStats {
     medium: number              // 50-100% return
     high: number                // 100%+ return
   }
+  lumpSum: LumpSumComparison | null // Null when there are no windows
 }
 
 /**
@@ -127,6 +446,8 @@ export interface RollingWindowResult {
     monthOffsets: number[]      // [0, 1, 2, ..., horizonMonths]
     valueBands: PercentileBands // Portfolio value at each offset
     returnBands: PercentileBands // Return % at each offset
+    lumpSumValueBands: PercentileBands // Lump sum value at each offset
+    lumpSumReturnBands: PercentileBands // Lump sum return % at each offset
   }
   stats: RollingWindowStats
   windows: WindowResult[]       // All individual window results
@@ -137,6 +458,36 @@ export interface RollingWindowResult {
   }
 }
 
+/**
+ * Every window start month against every available horizon. Windows carry
+ * headline figures only (their monthly series are empty).
+ */
+export interface HorizonHeatmap {
+  startDates: string[]          // Window start months, oldest first (columns)
+  horizons: HorizonYears[]      // Shortest first (rows)
+  windows: (WindowResult | null)[][] // [row][column]; null where the horizon runs past the data
+  stats: RollingWindowStats[]   // Per row, across that horizon's windows
+}
+
+/**
+ * Head-to-head of two rolling analyses, matching windows by start month
+ */
+export interface RollingMatchup {
+  windowCount: number           // Start months present in both analyses
+  winRate: number               // % of matched windows where the first had the higher CAGR
+  medianCAGRDifference: number  // Median of first CAGR minus second, in percentage points
+}
+
+/**
+ * Another ticker's rolling analysis, run over the same date range and
+ * settings as the primary ticker's
+ */
+export interface RollingComparison {
+  ticker: string
+  result: RollingWindowResult
+  matchup: RollingMatchup       // Primary ticker against this one
+}
+
 /**
  * Data point for rolling analysis chart
  */
@@ -144,9 +495,61 @@ export interface RollingChartDataPoint {
   // For normalized mode: month index (0, 1, 2, ...)
   // For calendar mode: UTC timestamp
   time: number
-  p10: number
-  p25: number
-  p50: number
-  p75: number
-  p90: number
+  [percentile: PercentileKey]: number  // Band value at each percentile
+}
+
+/**
+ * A comparison ticker's bands on the rolling chart's time axis
+ */
+export interface RollingComparisonChartSeries {
+  ticker: string
+  data: RollingChartDataPoint[]
+}
+
+// ============================================
+// Monte Carlo Projection Types
+// ============================================
+
+export interface MonteCarloConfig {
+  ticker: string
+  amount: number
+  frequency: InvestmentFrequency
+  horizonYears: number
+  isDRIP: boolean             // Reinvest dividends; otherwise they accumulate as cash
+  annualIncrease?: number     // Contribution step-up every 12 months, in percent
+  initialInvestment?: number  // Invested at the start
+  pathCount: number           // Simulated paths
+  blockMonths: number         // Consecutive historical months per resampled block
+  seed: number                // Same seed and inputs give the same paths
+  percentiles?: number[]      // Band percentiles, symmetric around 50 (default 10/25/50/75/90)
+}
+
+/**
+ * A historical month's return, split so dividends can be reinvested or held
+ */
+export interface MonthlyReturn {
+  month: string               // YYYY-MM
+  priceReturn: number         // Fractional change in month-end close
+  dividendYield: number       // Dividends that went ex in the month over the prior close
+}
+
+export interface MonteCarloStats {
+  totalInvested: number       // Contributed by the end (the same on every path)
+  medianFinalValue: number
+  lossProbability: number     // % of paths ending below the total invested
+  medianCAGR: number          // Of the median final value against the total invested, as if invested on day one
+}
+
+export interface MonteCarloResult {
+  config: MonteCarloConfig
+  startDate: string           // First projected month (YYYY-MM-01)
+  monthOffsets: number[]      // [0, 1, 2, ..., horizonMonths]
+  valueBands: PercentileBands // Portfolio value at each offset across paths
+  invested: number[]          // Total contributed by each offset
+  stats: MonteCarloStats
+  history: {
+    firstMonth: string        // Earliest resampled month (YYYY-MM)
+    lastMonth: string
+    monthCount: number        // Historical returns available to resample
+  }
 }
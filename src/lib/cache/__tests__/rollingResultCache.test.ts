@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getRollingCacheKey,
+  estimateResultSize,
+  selectEvictions,
+  readCachedResult,
+  writeCachedResult,
+  type CacheEntry,
+} from '../rollingResultCache'
+import { summarizeRollingWindows } from '../../calculation/rollingWindowEngine'
+import { CPI_VERSION } from '../../calculation/inflation'
+import type { RollingWindowConfig, WindowResult } from '../../api/types'
+
+const config: RollingWindowConfig = {
+  ticker: 'TEST',
+  amount: 100,
+  frequency: 'monthly',
+  horizonYears: 5,
+  isDRIP: true,
+}
+
+describe('getRollingCacheKey', () => {
+  const range = { firstDate: '2000-01-03', lastDate: '2024-01-31' }
+
+  it('is the same for equal inputs regardless of key order', () => {
+    const reordered: RollingWindowConfig = {
+      isDRIP: true,
+      horizonYears: 5,
+      frequency: 'monthly',
+      amount: 100,
+      ticker: 'TEST',
+      withdrawal: undefined,
+    }
+
+    expect(getRollingCacheKey('TEST', range, reordered)).toBe(
+      getRollingCacheKey('test', range, config)
+    )
+  })
+
+  it('treats default and normalized percentiles as the same input', () => {
+    expect(getRollingCacheKey('TEST', range, config)).toBe(
+      getRollingCacheKey('TEST', range, { ...config, percentiles: [90, 75, 10, 25] })
+    )
+  })
+
+  it('changes with the ticker, price range or config', () => {
+    const key = getRollingCacheKey('TEST', range, config)
+
+    expect(getRollingCacheKey('SPY', range, { ...config, ticker: 'SPY' })).not.toBe(key)
+    expect(getRollingCacheKey('TEST', { ...range, lastDate: '2024-02-01' }, config)).not.toBe(key)
+    expect(getRollingCacheKey('TEST', { ...range, firstDate: '2010-01-04' }, config)).not.toBe(key)
+    expect(getRollingCacheKey('TEST', range, { ...config, horizonYears: 10 })).not.toBe(key)
+    expect(
+      getRollingCacheKey('TEST', range, {
+        ...config,
+        pauses: [{ start: '2020-01-01', end: '2020-06-30' }],
+      })
+    ).not.toBe(key)
+  })
+
+  it('includes the CPI series version only for real-dollar results', () => {
+    expect(getRollingCacheKey('TEST', range, config)).not.toContain(CPI_VERSION)
+    expect(getRollingCacheKey('TEST', range, { ...config, realDollars: true })).toContain(
+      CPI_VERSION
+    )
+  })
+})
+
+describe('estimateResultSize', () => {
+  const window = (months: number): WindowResult => {
+    const series = Array.from({ length: months + 1 }, () => 0)
+    return {
+      startDate: '2020-01-01',
+      endDate: '2021-01-01',
+      totalReturn: 0,
+      cagr: 0,
+      xirr: 0,
+      totalWithdrawn: 0,
+      depletionDate: null,
+      finalValue: 0,
+      totalInvested: 0,
+      monthlyValues: series,
+      monthlyInvested: series,
+      monthlyWithdrawn: series,
+      lumpSumFinalValue: 0,
+      lumpSumReturn: 0,
+      lumpSumMonthlyValues: series,
+      lumpSumMonthlyInvested: series,
+      lumpSumMonthlyWithdrawn: series,
+    }
+  }
+
+  it('grows with the number and length of windows', () => {
+    const prices = [
+      { date: '2000-01-01', open: 100, high: 100, low: 100, close: 100, volume: 0 },
+      { date: '2024-01-01', open: 200, high: 200, low: 200, close: 200, volume: 0 },
+    ]
+    const empty = summarizeRollingWindows(prices, config, [])
+    const short = summarizeRollingWindows(prices, config, [window(12), window(12)])
+    const long = summarizeRollingWindows(prices, config, [window(60), window(60)])
+    const more = summarizeRollingWindows(prices, config, [window(12), window(12), window(12)])
+
+    expect(estimateResultSize(short)).toBeGreaterThan(estimateResultSize(empty))
+    expect(estimateResultSize(long)).toBeGreaterThan(estimateResultSize(short))
+    expect(estimateResultSize(more)).toBeGreaterThan(estimateResultSize(short))
+  })
+})
+
+describe('selectEvictions', () => {
+  const entries: CacheEntry[] = [
+    { key: 'b', size: 40, lastAccessed: 2 },
+    { key: 'a', size: 30, lastAccessed: 1 },
+    { key: 'c', size: 50, lastAccessed: 3 },
+  ]
+
+  it('evicts nothing within the budget', () => {
+    expect(selectEvictions(entries, 120)).toEqual([])
+    expect(selectEvictions([], 0)).toEqual([])
+  })
+
+  it('evicts the least recently used entries until the rest fit', () => {
+    expect(selectEvictions(entries, 119)).toEqual(['a'])
+    expect(selectEvictions(entries, 50)).toEqual(['a', 'b'])
+  })
+
+  it('evicts everything when even the newest entry is too large', () => {
+    expect(selectEvictions(entries, 10)).toEqual(['a', 'b', 'c'])
+  })
+})
+
+describe('without IndexedDB', () => {
+  it('misses on read and ignores writes', async () => {
+    const result = summarizeRollingWindows([], config, [])
+    const key = getRollingCacheKey('TEST', result.dataRange, config)
+
+    await expect(writeCachedResult(key, result)).resolves.toBeUndefined()
+    await expect(readCachedResult(key)).resolves.toBeNull()
+  })
+})
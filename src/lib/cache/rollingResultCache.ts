@@ -0,0 +1,251 @@
+/**
+ * Rolling Analysis Result Cache
+ *
+ * Keeps finished rolling analyses in IndexedDB so returning to the same
+ * ticker and settings shows the result without recomputing every window.
+ * Results are keyed by a fingerprint of the inputs: ticker, first and last
+ * price dates, the full RollingWindowConfig and ROLLING_ENGINE_VERSION, plus
+ * CPI_VERSION for real-dollar results. New price data, a history clipped for
+ * comparison, an engine change or an updated CPI series produces a new key, so
+ * stale results are never read back.
+ *
+ * The cache is best-effort: when IndexedDB is unavailable or fails, reads
+ * miss and writes are dropped. Once the stored results exceed MAX_CACHE_BYTES
+ * the least recently used ones are evicted.
+ */
+
+import { ROLLING_ENGINE_VERSION } from '../calculation/rollingWindowEngine'
+import { normalizePercentiles, DEFAULT_PERCENTILES } from '../calculation/percentileUtils'
+import { CPI_VERSION } from '../calculation/inflation'
+import type { PercentileBands, RollingWindowConfig, RollingWindowResult } from '../api/types'
+
+const DB_NAME = 'stock-history-rolling-cache'
+const DB_VERSION = 1
+const RESULTS_STORE = 'results'     // key -> RollingWindowResult
+const ENTRIES_STORE = 'entries'     // key -> CacheEntry
+
+// Approximate storage budget for all cached results
+export const MAX_CACHE_BYTES = 100 * 1024 * 1024
+
+export interface CacheEntry {
+  key: string
+  size: number            // Approximate bytes (see estimateResultSize)
+  lastAccessed: number    // Epoch ms of the last read or write
+}
+
+// Plain JSON with object keys sorted, so equal values give equal strings
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort()
+        .map((key) => [key, sortKeys(record[key])])
+    )
+  }
+  return value
+}
+
+/**
+ * Fingerprint of the inputs that determine a rolling analysis result
+ */
+export function getRollingCacheKey(
+  ticker: string,
+  priceRange: { firstDate: string; lastDate: string },
+  config: RollingWindowConfig
+): string {
+  const normalizedConfig = {
+    ...config,
+    ticker: ticker.toUpperCase(),
+    percentiles: normalizePercentiles(config.percentiles ?? DEFAULT_PERCENTILES),
+  }
+
+  return JSON.stringify(
+    sortKeys([
+      ROLLING_ENGINE_VERSION,
+      ticker.toUpperCase(),
+      priceRange.firstDate,
+      priceRange.lastDate,
+      normalizedConfig,
+      config.realDollars ? CPI_VERSION : null,
+    ])
+  )
+}
+
+function countBandValues(bands: PercentileBands): number {
+  return Object.values(bands).reduce((sum, values) => sum + values.length, 0)
+}
+
+/**
+ * Approximate stored size of a result: 8 bytes per number in the per-window
+ * monthly series and the bands, plus a flat allowance for everything else.
+ * Cheaper than serializing the result just to measure it.
+ */
+export function estimateResultSize(result: RollingWindowResult): number {
+  const { normalizedBands, windows } = result
+
+  let numbers =
+    normalizedBands.monthOffsets.length +
+    countBandValues(normalizedBands.valueBands) +
+    countBandValues(normalizedBands.returnBands) +
+    countBandValues(normalizedBands.lumpSumValueBands) +
+    countBandValues(normalizedBands.lumpSumReturnBands)
+
+  for (const window of windows) {
+    numbers +=
+      window.monthlyValues.length +
+      window.monthlyInvested.length +
+      window.monthlyWithdrawn.length +
+      window.lumpSumMonthlyValues.length +
+      window.lumpSumMonthlyInvested.length +
+      window.lumpSumMonthlyWithdrawn.length
+  }
+
+  return numbers * 8 + (windows.length + 1) * 512
+}
+
+/**
+ * Keys to evict, least recently used first, so the remaining entries fit
+ * within maxBytes
+ */
+export function selectEvictions(entries: CacheEntry[], maxBytes: number): string[] {
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+  const evictions: string[] = []
+
+  const oldestFirst = [...entries].sort((a, b) => a.lastAccessed - b.lastAccessed)
+  for (const entry of oldestFirst) {
+    if (total <= maxBytes) break
+    evictions.push(entry.key)
+    total -= entry.size
+  }
+
+  return evictions
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Resolves whether the transaction committed (never rejects, so it can be
+// left unawaited when a request inside it throws)
+function transactionDone(transaction: IDBTransaction): Promise<boolean> {
+  return new Promise((resolve) => {
+    transaction.oncomplete = () => resolve(true)
+    transaction.onerror = () => resolve(false)
+    transaction.onabort = () => resolve(false)
+  })
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null
+
+// Open (and create on first use) the cache database; null if unavailable
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+          db.createObjectStore(RESULTS_STORE)
+        }
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => resolve(null)
+      request.onblocked = () => resolve(null)
+    })
+  }
+
+  return databasePromise
+}
+
+/**
+ * Read a cached result, marking it as recently used. Resolves null on a miss
+ * or if the cache is unavailable.
+ */
+export async function readCachedResult(key: string): Promise<RollingWindowResult | null> {
+  try {
+    const db = await openDatabase()
+    if (!db) return null
+
+    const transaction = db.transaction([RESULTS_STORE, ENTRIES_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+    const result = await requestToPromise<RollingWindowResult | undefined>(
+      transaction.objectStore(RESULTS_STORE).get(key)
+    )
+
+    const entries = transaction.objectStore(ENTRIES_STORE)
+    const entry = await requestToPromise<CacheEntry | undefined>(entries.get(key))
+    if (result && entry) {
+      entries.put({ ...entry, lastAccessed: Date.now() } satisfies CacheEntry)
+    }
+
+    await done
+    return result ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Store a result, then evict least recently used results beyond maxBytes.
+ * Failures are ignored.
+ */
+export async function writeCachedResult(
+  key: string,
+  result: RollingWindowResult,
+  maxBytes: number = MAX_CACHE_BYTES
+): Promise<void> {
+  try {
+    const db = await openDatabase()
+    if (!db) return
+
+    const transaction = db.transaction([RESULTS_STORE, ENTRIES_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+    const results = transaction.objectStore(RESULTS_STORE)
+    const entries = transaction.objectStore(ENTRIES_STORE)
+
+    results.put(result, key)
+    entries.put({
+      key,
+      size: estimateResultSize(result),
+      lastAccessed: Date.now(),
+    } satisfies CacheEntry)
+
+    const allEntries = await requestToPromise<CacheEntry[]>(entries.getAll())
+    for (const evictedKey of selectEvictions(allEntries, maxBytes)) {
+      results.delete(evictedKey)
+      entries.delete(evictedKey)
+    }
+
+    await done
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Remove every cached result
+ */
+export async function clearCachedResults(): Promise<void> {
+  try {
+    const db = await openDatabase()
+    if (!db) return
+
+    const transaction = db.transaction([RESULTS_STORE, ENTRIES_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+    transaction.objectStore(RESULTS_STORE).clear()
+    transaction.objectStore(ENTRIES_STORE).clear()
+    await done
+  } catch {
+    // ignore
+  }
+}
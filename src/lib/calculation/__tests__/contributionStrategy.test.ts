@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { createContributionRule } from '../contributionStrategy'
+import type { ContributionStrategy, PricePoint } from '../../api/types'
+
+const baseStrategy: ContributionStrategy = {
+  kind: 'dca',
+  targetReturn: 0,
+  maxMultiple: 3,
+  lookbackDays: 5,
+  dipThreshold: 10,
+  dipMultiplier: 2,
+  movingAverageAction: 'skipAbove',
+}
+
+// Build a price history from a list of closes on consecutive days
+function makeHistory(closes: number[]): PricePoint[] {
+  return closes.map((close, i) => {
+    const date = new Date('2023-01-02')
+    date.setDate(date.getDate() + i)
+    return {
+      date: date.toISOString().split('T')[0],
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1000,
+    }
+  })
+}
+
+describe('createContributionRule', () => {
+  it('invests the scheduled amount for plain DCA', () => {
+    const rule = createContributionRule(baseStrategy, 12)
+    const priceHistory = makeHistory([10])
+    expect(rule({ scheduledAmount: 100, portfolioValue: 500, priceHistory, index: 0 })).toBe(100)
+  })
+
+  describe('value averaging', () => {
+    const strategy: ContributionStrategy = { ...baseStrategy, kind: 'valueAveraging' }
+    const priceHistory = makeHistory([10])
+
+    it('tops the portfolio up to the target path', () => {
+      const rule = createContributionRule(strategy, 12)
+      expect(rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 0 })).toBe(100)
+      // Target is now 200; the portfolio fell to 80
+      expect(rule({ scheduledAmount: 100, portfolioValue: 80, priceHistory, index: 0 })).toBe(120)
+    })
+
+    it('invests nothing when ahead of the path', () => {
+      const rule = createContributionRule(strategy, 12)
+      rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 0 })
+      expect(rule({ scheduledAmount: 100, portfolioValue: 250, priceHistory, index: 0 })).toBe(0)
+    })
+
+    it('caps contributions at the max multiple', () => {
+      const rule = createContributionRule(strategy, 12)
+      rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 0 })
+      expect(rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 0 })).toBe(200)
+      expect(rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 0 })).toBe(300)
+    })
+
+    it('grows the target path by the target return', () => {
+      const rule = createContributionRule({ ...strategy, targetReturn: 12 }, 1)
+      rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 0 })
+      // 100 grown by 12% plus the next 100
+      expect(rule({ scheduledAmount: 100, portfolioValue: 100, priceHistory, index: 0 })).toBeCloseTo(112)
+    })
+  })
+
+  describe('dip buying', () => {
+    const rule = createContributionRule({ ...baseStrategy, kind: 'dipBuying' }, 12)
+
+    it('multiplies the amount when price is far enough below the lookback high', () => {
+      const priceHistory = makeHistory([100, 100, 95, 89])
+      expect(rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 2 })).toBe(100)
+      expect(rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 3 })).toBe(200)
+    })
+
+    it('only looks back over the configured window', () => {
+      // The 100 high is 6 days back, outside the 5-day window
+      const priceHistory = makeHistory([100, 90, 90, 90, 90, 90, 89])
+      expect(rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 6 })).toBe(100)
+    })
+  })
+
+  describe('moving average filter', () => {
+    const priceHistory = makeHistory([10, 10, 10, 10, 12, 8])
+
+    it('skips contributions above the average', () => {
+      const rule = createContributionRule({ ...baseStrategy, kind: 'movingAverage' }, 12)
+      expect(rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 4 })).toBe(0)
+      expect(rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 5 })).toBe(100)
+    })
+
+    it('doubles contributions below the average', () => {
+      const rule = createContributionRule(
+        { ...baseStrategy, kind: 'movingAverage', movingAverageAction: 'doubleBelow' },
+        12
+      )
+      expect(rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 4 })).toBe(100)
+      expect(rule({ scheduledAmount: 100, portfolioValue: 0, priceHistory, index: 5 })).toBe(200)
+    })
+  })
+})
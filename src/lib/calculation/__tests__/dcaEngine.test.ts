@@ -1,6 +1,19 @@
 import { describe, it, expect } from 'vitest'
-import { runDCASimulation, formatCurrency, formatPercent, formatShares } from '../dcaEngine'
-import type { PricePoint, DividendHistory } from '../../api/types'
+import {
+  runDCASimulation,
+  runLumpSumSimulation,
+  runPortfolioSimulation,
+  formatCurrency,
+  formatPercent,
+  formatShares,
+} from '../dcaEngine'
+import type {
+  PricePoint,
+  DividendHistory,
+  PortfolioConfig,
+  ContributionStrategy,
+  DCAConfig,
+} from '../../api/types'
 
 // Helper to generate price data for every calendar day (simulates all trading days)
 function generatePriceData(
@@ -28,6 +41,11 @@ function generatePriceData(
   return points
 }
 
+// Reprice every point on or after a date
+function repriceFrom(prices: PricePoint[], fromDate: string, close: number): PricePoint[] {
+  return prices.map((p) => (p.date >= fromDate ? { ...p, close } : p))
+}
+
 describe('runDCASimulation', () => {
   describe('basic investment calculation', () => {
     it('calculates correct shares for constant price', () => {
@@ -86,6 +104,112 @@ describe('runDCASimulation', () => {
     })
   })
 
+  describe('schedules', () => {
+    // Dates on which a contribution was made
+    const contributionDates = (config: Omit<DCAConfig, 'ticker'>, prices: PricePoint[]) => {
+      const { points } = runDCASimulation(prices, [], config)
+      return points
+        .filter((p, i) => p.principal > (i > 0 ? points[i - 1].principal : 0))
+        .map((p) => p.date)
+    }
+    const base = { amount: 100, isDRIP: true }
+
+    it('invests daily on trading days only', () => {
+      const weekdays = generatePriceData('2023-01-01', 1, 10).filter(
+        (p) => ![0, 6].includes(new Date(p.date).getUTCDay())
+      )
+      const dates = contributionDates(
+        { ...base, frequency: 'daily', startDate: '2023-01-01', endDate: '2023-01-10' },
+        weekdays
+      )
+
+      expect(dates).toEqual([
+        '2023-01-02', '2023-01-03', '2023-01-04', '2023-01-05', '2023-01-06',
+        '2023-01-09', '2023-01-10',
+      ])
+    })
+
+    it('invests semi-monthly on the 1st and 15th', () => {
+      const dates = contributionDates(
+        { ...base, frequency: 'semimonthly', startDate: '2023-01-05', endDate: '2023-03-20' },
+        generatePriceData('2023-01-01', 3, 10)
+      )
+
+      expect(dates).toEqual(['2023-01-15', '2023-02-01', '2023-02-15', '2023-03-01', '2023-03-15'])
+    })
+
+    it('invests quarterly and annually from the start date', () => {
+      const prices = generatePriceData('2020-01-01', 40, 10)
+      const config = { ...base, startDate: '2020-01-10', endDate: '2022-12-31' }
+
+      expect(contributionDates({ ...config, frequency: 'quarterly' }, prices)).toHaveLength(12)
+      expect(contributionDates({ ...config, frequency: 'annually' }, prices)).toEqual([
+        '2020-01-10', '2021-01-10', '2022-01-10',
+      ])
+    })
+
+    it('anchors weekly schedules to a weekday', () => {
+      const dates = contributionDates(
+        {
+          ...base,
+          frequency: 'weekly',
+          scheduleAnchor: { kind: 'weekday', weekday: 5 },
+          startDate: '2023-01-01',
+          endDate: '2023-01-20',
+        },
+        generatePriceData('2023-01-01', 1, 10)
+      )
+
+      expect(dates).toEqual(['2023-01-06', '2023-01-13', '2023-01-20'])
+    })
+
+    it.each([
+      [{ kind: 'nthWeekday', nth: 3, weekday: 5 } as const, ['2023-01-20', '2023-02-17', '2023-03-17', '2023-04-21']],
+      [{ kind: 'nthWeekday', nth: -1, weekday: 1 } as const, ['2023-01-30', '2023-02-27', '2023-03-27', '2023-04-24']],
+      [{ kind: 'lastBusinessDay' } as const, ['2023-01-31', '2023-02-28', '2023-03-31', '2023-04-28']],
+      [{ kind: 'dayOfMonth', day: 31 } as const, ['2023-01-31', '2023-02-28', '2023-03-31', '2023-04-30']],
+    ])('anchors monthly schedules to %o', (scheduleAnchor, expected) => {
+      const dates = contributionDates(
+        { ...base, frequency: 'monthly', scheduleAnchor, startDate: '2023-01-01', endDate: '2023-04-30' },
+        generatePriceData('2023-01-01', 5, 10)
+      )
+
+      expect(dates).toEqual(expected)
+    })
+
+    it('moves a last-business-day date back before a month-end holiday', () => {
+      // Good Friday 2024-03-29 has no price
+      const prices = generatePriceData('2024-01-01', 5, 10).filter((p) => p.date !== '2024-03-29')
+      const dates = contributionDates(
+        {
+          ...base,
+          frequency: 'monthly',
+          scheduleAnchor: { kind: 'lastBusinessDay' },
+          startDate: '2024-01-01',
+          endDate: '2024-04-30',
+        },
+        prices
+      )
+
+      expect(dates).toEqual(['2024-01-31', '2024-02-29', '2024-03-28', '2024-04-30'])
+    })
+
+    it('skips an anchored date that falls before the start date', () => {
+      const dates = contributionDates(
+        {
+          ...base,
+          frequency: 'quarterly',
+          scheduleAnchor: { kind: 'dayOfMonth', day: 1 },
+          startDate: '2023-01-15',
+          endDate: '2023-12-31',
+        },
+        generatePriceData('2023-01-01', 13, 10)
+      )
+
+      expect(dates).toEqual(['2023-04-01', '2023-07-01', '2023-10-01'])
+    })
+  })
+
   describe('dividend handling with DRIP enabled', () => {
     it('reinvests dividends into additional shares', () => {
       const prices = generatePriceData('2023-01-01', 3, 10)
@@ -304,6 +428,938 @@ describe('runDCASimulation', () => {
       expect(result.finalValue).toBeLessThan(result.totalInvested)
     })
   })
+
+  describe('end date handling', () => {
+    it('stops contributions and points at the configured end date', () => {
+      const prices = generatePriceData('2023-01-01', 12, 10)
+      const result = runDCASimulation(prices, [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        endDate: '2023-03-15',
+        isDRIP: true,
+      })
+
+      // Jan 1, Feb 1, Mar 1
+      expect(result.totalInvested).toBe(300)
+      expect(result.points[result.points.length - 1].date).toBe('2023-03-15')
+    })
+
+    it('keeps marking to market after contributions stop when holding', () => {
+      const prices = generatePriceData('2023-01-01', 12, 10)
+      const result = runDCASimulation(prices, [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        endDate: '2023-03-15',
+        holdAfterEnd: true,
+        isDRIP: true,
+      })
+
+      expect(result.totalInvested).toBe(300)
+      expect(result.points[result.points.length - 1].date).toBe(
+        prices[prices.length - 1].date
+      )
+      expect(result.finalShares).toBe(30)
+    })
+
+    it('collects dividends during the hold phase', () => {
+      const prices = generatePriceData('2023-01-01', 12, 10)
+      const dividends: DividendHistory[] = [
+        { exDate: '2023-06-01', paymentDate: '2023-06-15', amount: 1, yield: 10 },
+      ]
+      const result = runDCASimulation(prices, dividends, {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        endDate: '2023-03-15',
+        holdAfterEnd: true,
+        isDRIP: false,
+      })
+
+      expect(result.totalDividends).toBe(30)
+    })
+
+    it('ignores an end date after the last available price', () => {
+      const prices = generatePriceData('2023-01-01', 2, 10)
+      const result = runDCASimulation(prices, [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        endDate: '2030-01-01',
+        isDRIP: true,
+      })
+
+      expect(result.points[result.points.length - 1].date).toBe(
+        prices[prices.length - 1].date
+      )
+    })
+
+    it('sizes the lump sum to contributions before the end date', () => {
+      const prices = generatePriceData('2023-01-01', 12, 10)
+      const config = {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        endDate: '2023-03-15',
+        isDRIP: true,
+      }
+
+      const result = runLumpSumSimulation(prices, [], config)
+
+      expect(result.totalInvested).toBe(300)
+      expect(result.points[result.points.length - 1].date).toBe('2023-03-15')
+    })
+  })
+
+  describe('transaction costs', () => {
+    it('reports zero fees when no fee model is configured', () => {
+      const prices = generatePriceData('2023-01-01', 3, 10)
+      const result = runDCASimulation(prices, [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        isDRIP: true,
+      })
+
+      expect(result.totalFees).toBe(0)
+      expect(result.points.every((p) => p.fees === 0)).toBe(true)
+    })
+
+    it('charges commission on every contribution', () => {
+      const prices = generatePriceData('2023-01-01', 3, 10)
+      const result = runDCASimulation(prices, [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        endDate: '2023-03-15',
+        isDRIP: true,
+        fees: { flatPerTrade: 5, percentPerTrade: 0, spreadBps: 0, expenseRatio: 0 },
+      })
+
+      // 3 contributions at $5 each, $95 buys 9.5 shares each
+      expect(result.totalFees).toBeCloseTo(15)
+      expect(result.finalShares).toBeCloseTo(28.5)
+      expect(result.totalInvested).toBe(300)
+    })
+
+    it('reduces holdings by the expense ratio over time', () => {
+      const prices = generatePriceData('2023-01-01', 12, 10)
+      const base = {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        isDRIP: true,
+      }
+
+      const frictionless = runDCASimulation(prices, [], base)
+      const withExpenses = runDCASimulation(prices, [], {
+        ...base,
+        fees: { flatPerTrade: 0, percentPerTrade: 0, spreadBps: 0, expenseRatio: 1 },
+      })
+
+      expect(withExpenses.totalFees).toBeGreaterThan(0)
+      expect(withExpenses.finalValue).toBeCloseTo(
+        frictionless.finalValue - withExpenses.totalFees,
+        6
+      )
+      // Fees are cumulative per point
+      const fees = withExpenses.points.map((p) => p.fees)
+      for (let i = 1; i < fees.length; i++) {
+        expect(fees[i]).toBeGreaterThanOrEqual(fees[i - 1])
+      }
+    })
+  })
+
+  describe('execution price', () => {
+    // Every day opens at 9.5 and trades between 9 and 11, closing at 10
+    const prices = generatePriceData('2023-01-01', 3, 10).map((p) => ({
+      ...p,
+      open: 9.5,
+      high: 11,
+      low: 9,
+    }))
+    const base = {
+      amount: 110,
+      frequency: 'monthly' as const,
+      startDate: '2023-01-01',
+      endDate: '2023-03-15',
+      isDRIP: true,
+    }
+
+    it('fills contributions at the configured price and marks at the close', () => {
+      const open = runDCASimulation(prices, [], { ...base, executionPrice: 'open' })
+      const worst = runDCASimulation(prices, [], { ...base, executionPrice: 'worst' })
+
+      expect(open.finalShares).toBeCloseTo((3 * 110) / 9.5)
+      // Worst of day buys at the high: 10 shares per contribution
+      expect(worst.finalShares).toBeCloseTo(30)
+      expect(worst.finalValue).toBeCloseTo(300)
+    })
+
+    it('reinvests dividends at the execution price', () => {
+      const dividends: DividendHistory[] = [
+        { exDate: '2023-02-01', paymentDate: '2023-02-15', amount: 1.1, yield: 5 },
+      ]
+      const result = runDCASimulation(prices, dividends, { ...base, executionPrice: 'worst' })
+
+      // $11 on 10 shares buys 1 share at the $11 high
+      expect(result.finalShares).toBeCloseTo(31)
+    })
+
+    it('sells withdrawals at the low in worst-of-day mode', () => {
+      const result = runDCASimulation(prices, [], {
+        ...base,
+        amount: 100,
+        endDate: '2023-01-15',
+        executionPrice: 'worst',
+        withdrawal: {
+          strategy: 'fixedAmount',
+          amount: 9,
+          rate: 0,
+          inflationRate: 0,
+          frequency: 'monthly',
+          startDate: '2023-02-01',
+        },
+      })
+
+      const firstSale = result.taxLots.realized[0]
+      expect(firstSale.shares).toBeCloseTo(1)
+      expect(firstSale.proceeds).toBeCloseTo(9)
+    })
+  })
+
+  describe('dividend timing', () => {
+    const base = {
+      amount: 100,
+      frequency: 'monthly' as const,
+      startDate: '2023-01-01',
+      endDate: '2023-01-31',
+      holdAfterEnd: true,
+      isDRIP: true,
+    }
+    const dividends: DividendHistory[] = [
+      { exDate: '2023-02-01', paymentDate: '2023-02-15', amount: 0.5, yield: 5 },
+    ]
+
+    it('reinvests on the payment date at that day\'s price', () => {
+      const prices = repriceFrom(generatePriceData('2023-01-01', 3, 10), '2023-02-10', 20)
+
+      const exDate = runDCASimulation(prices, dividends, base)
+      const paymentDate = runDCASimulation(prices, dividends, { ...base, dividendTiming: 'paymentDate' })
+
+      // $5 on 10 shares: 0.5 shares at $10 on the ex-date, 0.25 at $20 on payment
+      expect(exDate.finalShares).toBeCloseTo(10.5)
+      expect(paymentDate.finalShares).toBeCloseTo(10.25)
+      expect(paymentDate.points.find((p) => p.date === '2023-02-14')?.shares).toBeCloseTo(10)
+      expect(paymentDate.taxLots.lots[1]).toMatchObject({ acquired: '2023-02-15', source: 'dividend' })
+    })
+
+    it('pays entitlement from shares held on the ex-date', () => {
+      const prices = generatePriceData('2023-01-01', 3, 10)
+      const result = runDCASimulation(prices, dividends, {
+        ...base,
+        endDate: '2023-03-15',
+        holdAfterEnd: false,
+        isDRIP: false,
+        dividendTiming: 'paymentDate',
+      })
+
+      // The 2023-02-01 contribution lands after the ex-date and earns nothing
+      expect(result.totalDividends).toBeCloseTo(5)
+      expect(result.points.find((p) => p.date === '2023-02-14')?.dividends).toBe(0)
+      expect(result.points.find((p) => p.date === '2023-02-15')?.dividends).toBeCloseTo(5)
+    })
+
+    it('falls back to the ex-date without a payment date', () => {
+      const prices = repriceFrom(generatePriceData('2023-01-01', 3, 10), '2023-02-10', 20)
+      const result = runDCASimulation(
+        prices,
+        [{ ...dividends[0], paymentDate: '' }],
+        { ...base, dividendTiming: 'paymentDate' }
+      )
+
+      expect(result.finalShares).toBeCloseTo(10.5)
+    })
+  })
+
+  describe('dividend taxes', () => {
+    const dividends: DividendHistory[] = [
+      { exDate: '2023-02-01', paymentDate: '2023-02-15', amount: 0.5, yield: 5 },
+    ]
+    const base = {
+      amount: 100,
+      frequency: 'monthly' as const,
+      startDate: '2023-01-01',
+      endDate: '2023-03-15',
+    }
+
+    it('reinvests only the after-tax dividend', () => {
+      const prices = generatePriceData('2023-01-01', 3, 10)
+      const result = runDCASimulation(prices, dividends, {
+        ...base,
+        isDRIP: true,
+        dividendTax: { qualifiedRate: 15, ordinaryRate: 15, qualifiedPercent: 100, withholdingRate: 0 },
+      })
+
+      // $5 dividend on 10 shares, $0.75 tax, $4.25 buys 0.425 shares
+      expect(result.totalDividendTaxes).toBeCloseTo(0.75)
+      expect(result.finalShares).toBeCloseTo(30.425)
+      expect(result.taxLots.lots.find((lot) => lot.source === 'dividend')?.costBasis).toBeCloseTo(4.25)
+    })
+
+    it('pays out the after-tax cash dividend', () => {
+      const prices = generatePriceData('2023-01-01', 3, 10)
+      const untaxed = runDCASimulation(prices, dividends, { ...base, isDRIP: false })
+      const taxed = runDCASimulation(prices, dividends, {
+        ...base,
+        isDRIP: false,
+        dividendTax: { qualifiedRate: 15, ordinaryRate: 35, qualifiedPercent: 60, withholdingRate: 10 },
+      })
+
+      // Blended 23% exceeds the 10% withholding, which is credited
+      expect(untaxed.totalDividendTaxes).toBe(0)
+      expect(taxed.totalDividendTaxes).toBeCloseTo(1.15)
+      expect(taxed.totalDividends).toBeCloseTo(3.85)
+      expect(taxed.finalValue).toBeCloseTo(untaxed.finalValue - 1.15)
+    })
+
+    it('taxes portfolio dividends per holding', () => {
+      const prices = generatePriceData('2023-01-01', 3, 10)
+      const config: PortfolioConfig = {
+        ...base,
+        isDRIP: false,
+        holdings: [
+          { ticker: 'AAA', weight: 50 },
+          { ticker: 'BBB', weight: 50 },
+        ],
+        rebalance: { strategy: 'none', interval: 'annually', threshold: 5 },
+        dividendTax: { qualifiedRate: 0, ordinaryRate: 0, qualifiedPercent: 100, withholdingRate: 30 },
+      }
+
+      const result = runPortfolioSimulation(
+        { AAA: { prices, dividends }, BBB: { prices, dividends: [] } },
+        config
+      )
+
+      // AAA holds 5 shares on the ex-date: $2.50 dividend, 30% withheld
+      expect(result.totalDividendTaxes).toBeCloseTo(0.75)
+      expect(result.holdings[0].dividends).toBeCloseTo(1.75)
+    })
+  })
+
+  describe('whole-share purchases', () => {
+    it('buys whole shares and carries leftover cash forward', () => {
+      const prices = generatePriceData('2023-01-01', 3, 30)
+      const result = runDCASimulation(prices, [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        endDate: '2023-02-15',
+        isDRIP: true,
+        wholeShares: true,
+      })
+
+      // Jan: $100 buys 3 shares, $10 left; Feb: $110 buys 3 shares, $20 left
+      expect(result.finalShares).toBe(6)
+      const lastPoint = result.points[result.points.length - 1]
+      expect(lastPoint.cash).toBeCloseTo(20)
+      expect(result.finalValue).toBeCloseTo(6 * 30 + 20)
+    })
+
+    it('spends carried cash once it covers another share', () => {
+      const prices = generatePriceData('2023-01-01', 3, 30)
+      const result = runDCASimulation(prices, [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        endDate: '2023-03-15',
+        isDRIP: true,
+        wholeShares: true,
+      })
+
+      // Mar: $120 buys 4 shares, leaving nothing
+      expect(result.finalShares).toBe(10)
+      expect(result.points[result.points.length - 1].cash).toBeCloseTo(0)
+    })
+
+    it('holds reinvested dividends as cash until a share is affordable', () => {
+      const prices = generatePriceData('2023-01-01', 3, 10)
+      const dividends: DividendHistory[] = [
+        { exDate: '2023-01-15', paymentDate: '2023-01-20', amount: 0.5, yield: 5 },
+      ]
+      const result = runDCASimulation(prices, dividends, {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        endDate: '2023-01-31',
+        isDRIP: true,
+        wholeShares: true,
+      })
+
+      // 10 shares * $0.50 = $5 dividend, not enough for a $10 share
+      expect(result.finalShares).toBe(10)
+      expect(result.points[result.points.length - 1].cash).toBeCloseTo(5)
+      expect(result.points.every((p) => Number.isInteger(p.shares))).toBe(true)
+    })
+
+    it('keeps cash at zero in fractional mode', () => {
+      const prices = generatePriceData('2023-01-01', 3, 30)
+      const result = runDCASimulation(prices, [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        isDRIP: true,
+      })
+
+      expect(result.points.every((p) => p.cash === 0)).toBe(true)
+    })
+  })
+
+  describe('money-weighted return', () => {
+    it('reports a higher XIRR than CAGR for steadily rising prices', () => {
+      const prices = generatePriceData('2020-01-01', 36, 10).map((p, i) => ({
+        ...p,
+        close: 10 * Math.pow(1.0003, i),
+      }))
+      const result = runDCASimulation(prices, [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2020-01-01',
+        isDRIP: true,
+      })
+
+      // CAGR spreads the gain over the whole period as if all money went in on day one
+      expect(result.xirr).toBeGreaterThan(result.cagr)
+      expect(result.xirr).toBeCloseTo((Math.pow(1.0003, 365.25) - 1) * 100, 0)
+    })
+
+    it('counts cash dividends as interim inflows', () => {
+      const prices = generatePriceData('2023-01-01', 12, 10)
+      const dividends: DividendHistory[] = [
+        { exDate: '2023-06-15', paymentDate: '2023-06-20', amount: 0.5, yield: 5 },
+      ]
+      const result = runDCASimulation(prices, dividends, {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        isDRIP: false,
+      })
+
+      // Flat prices: the only gain is the dividend
+      expect(result.totalDividends).toBeGreaterThan(0)
+      expect(result.xirr).toBeGreaterThan(0)
+    })
+
+    it('is zero for an empty simulation', () => {
+      expect(runDCASimulation([], [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        isDRIP: true,
+      }).xirr).toBe(0)
+    })
+  })
+
+  describe('contribution schedule', () => {
+    const base = {
+      amount: 100,
+      frequency: 'monthly' as const,
+      startDate: '2020-01-01',
+      endDate: '2022-01-15',
+      isDRIP: true,
+    }
+
+    it('steps up contributions on each anniversary', () => {
+      const prices = generatePriceData('2020-01-01', 25, 10)
+      const result = runDCASimulation(prices, [], { ...base, annualIncrease: 10 })
+
+      // 12 x $100, 12 x $110, 1 x $121
+      expect(result.totalInvested).toBeCloseTo(1200 + 1320 + 121)
+    })
+
+    it('applies dated amount overrides from their date onward', () => {
+      const prices = generatePriceData('2020-01-01', 25, 10)
+      const result = runDCASimulation(prices, [], {
+        ...base,
+        endDate: '2020-12-15',
+        amountOverrides: [{ date: '2020-07-01', amount: 300 }],
+      })
+
+      // Jan-Jun at $100, Jul-Dec at $300
+      expect(result.totalInvested).toBe(600 + 1800)
+    })
+
+    it('restarts the step-up from an override date', () => {
+      const prices = generatePriceData('2020-01-01', 25, 10)
+      const result = runDCASimulation(prices, [], {
+        ...base,
+        annualIncrease: 10,
+        amountOverrides: [{ date: '2021-07-01', amount: 200 }],
+      })
+
+      // 12 x $100, Jan-Jun 2021 at $110, Jul 2021-Jan 2022 at $200
+      expect(result.totalInvested).toBeCloseTo(1200 + 660 + 7 * 200)
+    })
+
+    it('skips contributions inside pauses', () => {
+      const prices = generatePriceData('2020-01-01', 25, 10)
+      const result = runDCASimulation(prices, [], {
+        ...base,
+        endDate: '2020-12-15',
+        pauses: [{ start: '2020-03-01', end: '2020-05-31' }],
+      })
+
+      expect(result.totalInvested).toBe(900)
+      const marchPoint = result.points.find((p) => p.date === '2020-03-02')
+      expect(marchPoint?.principal).toBe(200)
+    })
+  })
+
+  describe('withdrawals', () => {
+    const decumulation = {
+      amount: 0,
+      frequency: 'monthly' as const,
+      startDate: '2023-01-01',
+      isDRIP: true,
+      initialInvestment: 10000,
+    }
+
+    it('withdraws a fixed amount until the portfolio is depleted', () => {
+      const prices = generatePriceData('2023-01-01', 12, 10)
+      const result = runDCASimulation(prices, [], {
+        ...decumulation,
+        withdrawal: {
+          strategy: 'fixedAmount',
+          frequency: 'monthly',
+          amount: 1000,
+          rate: 0,
+          inflationRate: 0,
+        },
+      })
+
+      expect(result.totalInvested).toBe(10000)
+      expect(result.totalWithdrawn).toBeCloseTo(10000)
+      expect(result.depletionDate).toBe('2023-10-01')
+      expect(result.remainingBalance).toBeCloseTo(0)
+      // Flat prices: everything invested came back out
+      expect(result.totalReturn).toBeCloseTo(0)
+    })
+
+    it('withdraws a fixed percentage of the current balance', () => {
+      const prices = generatePriceData('2023-01-01', 12, 10)
+      const result = runDCASimulation(prices, [], {
+        ...decumulation,
+        withdrawal: {
+          strategy: 'fixedPercent',
+          frequency: 'monthly',
+          amount: 0,
+          rate: 12,
+          inflationRate: 0,
+        },
+      })
+
+      // 1% per month from Jan 2023 through Jan 2024
+      expect(result.depletionDate).toBeNull()
+      expect(result.remainingBalance).toBeCloseTo(10000 * Math.pow(0.99, 13))
+      expect(result.totalWithdrawn + result.remainingBalance).toBeCloseTo(10000)
+    })
+
+    it('raises inflation-adjusted withdrawals once a year', () => {
+      const prices = generatePriceData('2023-01-01', 12, 10)
+      const result = runDCASimulation(prices, [], {
+        ...decumulation,
+        withdrawal: {
+          strategy: 'inflationAdjusted',
+          frequency: 'monthly',
+          amount: 0,
+          rate: 12,
+          inflationRate: 10,
+        },
+      })
+
+      // $100/month in the first year, $110 from January 2024
+      expect(result.totalWithdrawn).toBeCloseTo(12 * 100 + 110)
+    })
+
+    it('starts withdrawals after accumulation and runs to the latest price', () => {
+      const prices = generatePriceData('2023-01-01', 12, 10)
+      const result = runDCASimulation(prices, [], {
+        amount: 100,
+        frequency: 'monthly' as const,
+        startDate: '2023-01-01',
+        endDate: '2023-06-15',
+        isDRIP: true,
+        withdrawal: {
+          strategy: 'fixedAmount',
+          frequency: 'monthly',
+          amount: 50,
+          rate: 0,
+          inflationRate: 0,
+          startDate: '2023-07-01',
+        },
+      })
+
+      expect(result.totalInvested).toBe(600)
+      // July 2023 through January 2024
+      expect(result.totalWithdrawn).toBeCloseTo(7 * 50)
+      expect(result.points[result.points.length - 1].date).toBe(prices[prices.length - 1].date)
+      expect(result.points[result.points.length - 1].withdrawn).toBeCloseTo(350)
+    })
+  })
+
+  describe('tax lots', () => {
+    // $100 on the first of Jan ($10), Feb ($20) and Mar ($15), then $25 from April
+    const prices = repriceFrom(
+      repriceFrom(repriceFrom(generatePriceData('2023-01-01', 5, 10), '2023-02-01', 20), '2023-03-01', 15),
+      '2023-04-01',
+      25
+    )
+    const accumulateThenWithdraw = {
+      amount: 100,
+      frequency: 'monthly' as const,
+      startDate: '2023-01-01',
+      endDate: '2023-03-15',
+      isDRIP: true,
+      withdrawal: {
+        strategy: 'fixedAmount' as const,
+        frequency: 'monthly' as const,
+        amount: 125,
+        rate: 0,
+        inflationRate: 0,
+        startDate: '2023-04-01',
+      },
+    }
+
+    it('opens a lot for every contribution', () => {
+      const result = runDCASimulation(prices, [], { ...accumulateThenWithdraw, withdrawal: undefined })
+      const { lots } = result.taxLots
+
+      expect(lots.map((lot) => lot.acquired)).toEqual(['2023-01-01', '2023-02-01', '2023-03-01'])
+      expect(lots.every((lot) => lot.source === 'contribution')).toBe(true)
+      expect(result.taxLots.costBasis).toBeCloseTo(300)
+      expect(result.taxLots.unrealizedShortTerm).toBeCloseTo(result.finalValue - 300)
+      expect(result.taxLots.realized).toHaveLength(0)
+    })
+
+    it('opens a lot for every DRIP reinvestment', () => {
+      const dividends: DividendHistory[] = [
+        { exDate: '2023-02-15', paymentDate: '2023-02-20', amount: 1, yield: 0 },
+      ]
+      const result = runDCASimulation(prices, dividends, { ...accumulateThenWithdraw, withdrawal: undefined })
+      const dividendLot = result.taxLots.lots.find((lot) => lot.source === 'dividend')
+
+      // 15 shares held on the ex-date reinvest $15 at $20
+      expect(dividendLot?.acquired).toBe('2023-02-15')
+      expect(dividendLot?.shares).toBeCloseTo(0.75)
+      expect(result.taxLots.costBasis).toBeCloseTo(315)
+    })
+
+    it.each([
+      ['fifo' as const, '2023-01-01', 75],
+      ['lifo' as const, '2023-03-01', 50],
+      ['hifo' as const, '2023-02-01', 25],
+    ])('realizes withdrawal gains against %s lots', (lotSelection, acquired, gain) => {
+      const result = runDCASimulation(prices, [], { ...accumulateThenWithdraw, lotSelection })
+      const [firstSale] = result.taxLots.realized
+
+      // $125 at $25 sells five shares
+      expect(firstSale.sold).toBe('2023-04-01')
+      expect(firstSale.acquired).toBe(acquired)
+      expect(firstSale.shares).toBeCloseTo(5)
+      expect(firstSale.gain).toBeCloseTo(gain)
+      expect(firstSale.term).toBe('short')
+      expect(result.taxLots.method).toBe(lotSelection)
+    })
+
+    it('keeps cost basis through expense ratio redemptions', () => {
+      const result = runDCASimulation(prices, [], {
+        ...accumulateThenWithdraw,
+        withdrawal: undefined,
+        fees: { flatPerTrade: 0, percentPerTrade: 0, spreadBps: 0, expenseRatio: 1 },
+      })
+      const lotShares = result.taxLots.lots.reduce((sum, lot) => sum + lot.shares, 0)
+
+      expect(result.taxLots.costBasis).toBeCloseTo(300)
+      expect(lotShares).toBeCloseTo(result.finalShares)
+    })
+  })
+
+  describe('contribution strategies', () => {
+    const base = {
+      amount: 100,
+      frequency: 'monthly' as const,
+      startDate: '2023-01-01',
+      endDate: '2023-03-15',
+      isDRIP: true,
+    }
+    const strategy: ContributionStrategy = {
+      kind: 'dca',
+      targetReturn: 0,
+      maxMultiple: 3,
+      lookbackDays: 20,
+      dipThreshold: 10,
+      dipMultiplier: 2,
+      movingAverageAction: 'skipAbove',
+    }
+
+    it('matches plain DCA with the dca strategy', () => {
+      const prices = generatePriceData('2023-01-01', 3, 10)
+      const plain = runDCASimulation(prices, [], base)
+      const withRule = runDCASimulation(prices, [], { ...base, strategy })
+
+      expect(withRule.totalInvested).toBe(plain.totalInvested)
+      expect(withRule.finalShares).toBe(plain.finalShares)
+    })
+
+    it('value averaging invests more after a drop', () => {
+      // Halves on Feb 15
+      const prices = generatePriceData('2023-01-01', 3, 10).map((p) =>
+        p.date >= '2023-02-15' ? { ...p, close: 5 } : p
+      )
+      const result = runDCASimulation(prices, [], {
+        ...base,
+        strategy: { ...strategy, kind: 'valueAveraging' },
+      })
+
+      // Jan $100, Feb $100 (on target), Mar $200 to restore the $300 path
+      expect(result.totalInvested).toBe(400)
+      expect(result.finalShares).toBeCloseTo(60)
+    })
+
+    it('moving average filter skips contributions in an uptrend', () => {
+      const prices = generatePriceData('2023-01-01', 3, 10).map((p, i) => ({
+        ...p,
+        close: 10 + i * 0.1,
+      }))
+      const result = runDCASimulation(prices, [], {
+        ...base,
+        strategy: { ...strategy, kind: 'movingAverage' },
+      })
+
+      // Only the first day, with no history above the price, is bought
+      expect(result.totalInvested).toBe(100)
+    })
+
+    it('does not apply the strategy to the lump sum baseline', () => {
+      const prices = generatePriceData('2023-01-01', 3, 10)
+      const config = { ...base, strategy: { ...strategy, kind: 'movingAverage' as const } }
+
+      const lumpSum = runLumpSumSimulation(prices, [], config, 300)
+      expect(lumpSum.totalInvested).toBe(300)
+    })
+  })
+})
+
+describe('runPortfolioSimulation', () => {
+  const baseConfig: PortfolioConfig = {
+    holdings: [
+      { ticker: 'AAA', weight: 60 },
+      { ticker: 'BBB', weight: 40 },
+    ],
+    rebalance: { strategy: 'none', interval: 'monthly', threshold: 5 },
+    amount: 1000,
+    frequency: 'monthly',
+    startDate: '2023-01-01',
+    isDRIP: true,
+  }
+
+  // One contribution on the first day, then held while AAA doubles on Jan 20
+  const driftConfig: PortfolioConfig = {
+    ...baseConfig,
+    holdings: [
+      { ticker: 'AAA', weight: 50 },
+      { ticker: 'BBB', weight: 50 },
+    ],
+    endDate: '2023-01-01',
+    holdAfterEnd: true,
+  }
+  const driftHistories = {
+    AAA: { prices: repriceFrom(generatePriceData('2023-01-01', 3, 10), '2023-01-20', 20), dividends: [] },
+    BBB: { prices: generatePriceData('2023-01-01', 3, 10), dividends: [] },
+  }
+
+  it('splits each contribution by target weight', () => {
+    const result = runPortfolioSimulation(
+      {
+        AAA: { prices: generatePriceData('2023-01-01', 3, 10), dividends: [] },
+        BBB: { prices: generatePriceData('2023-01-01', 3, 20), dividends: [] },
+      },
+      baseConfig
+    )
+
+    const [aaa, bbb] = result.holdings
+    expect(aaa.contributed).toBeCloseTo(result.totalInvested * 0.6)
+    expect(bbb.contributed).toBeCloseTo(result.totalInvested * 0.4)
+    expect(aaa.shares).toBeCloseTo(aaa.contributed / 10)
+    expect(bbb.shares).toBeCloseTo(bbb.contributed / 20)
+    expect(aaa.finalWeight).toBeCloseTo(60)
+    expect(result.finalValue).toBeCloseTo(result.totalInvested)
+  })
+
+  it('normalizes weights that do not sum to 100', () => {
+    const prices = generatePriceData('2023-01-01', 2, 10)
+    const result = runPortfolioSimulation(
+      { AAA: { prices, dividends: [] }, BBB: { prices, dividends: [] } },
+      { ...baseConfig, holdings: [{ ticker: 'AAA', weight: 3 }, { ticker: 'BBB', weight: 1 }] }
+    )
+
+    expect(result.holdings[0].targetWeight).toBeCloseTo(75)
+    expect(result.holdings[0].contributed).toBeCloseTo(result.totalInvested * 0.75)
+  })
+
+  it('fills trades at the configured execution price', () => {
+    const withOpen = (prices: PricePoint[], open: number) => prices.map((p) => ({ ...p, open }))
+    const result = runPortfolioSimulation(
+      {
+        AAA: { prices: withOpen(generatePriceData('2023-01-01', 2, 10), 8), dividends: [] },
+        BBB: { prices: withOpen(generatePriceData('2023-01-01', 2, 20), 16), dividends: [] },
+      },
+      { ...baseConfig, executionPrice: 'open' }
+    )
+
+    const [aaa, bbb] = result.holdings
+    expect(aaa.shares).toBeCloseTo(aaa.contributed / 8)
+    expect(bbb.shares).toBeCloseTo(bbb.contributed / 16)
+    // Holdings are still valued at the close
+    expect(aaa.marketValue).toBeCloseTo(aaa.shares * 10)
+  })
+
+  it('buys whole shares per holding and carries leftover cash', () => {
+    const result = runPortfolioSimulation(
+      {
+        AAA: { prices: generatePriceData('2023-01-01', 2, 70), dividends: [] },
+        BBB: { prices: generatePriceData('2023-01-01', 2, 150), dividends: [] },
+      },
+      { ...baseConfig, wholeShares: true }
+    )
+
+    const [aaa, bbb] = result.holdings
+    expect(Number.isInteger(aaa.shares)).toBe(true)
+    expect(Number.isInteger(bbb.shares)).toBe(true)
+    // First month: $600 buys 8 AAA ($40 left), $400 buys 2 BBB ($100 left)
+    expect(result.points[0].cash).toBeCloseTo(140)
+    const last = result.points[result.points.length - 1]
+    expect(last.totalValue).toBeCloseTo(last.marketValue + last.cash)
+    expect(last.cash).toBeCloseTo(result.totalInvested - aaa.shares * 70 - bbb.shares * 150)
+  })
+
+  it('aligns price calendars and carries prices over missing days', () => {
+    // BBB starts later and skips every fifth day
+    const bbbPrices = generatePriceData('2023-01-05', 2, 20).filter((_, i) => i % 5 !== 1)
+    const result = runPortfolioSimulation(
+      {
+        AAA: { prices: generatePriceData('2023-01-01', 2, 10), dividends: [] },
+        BBB: { prices: bbbPrices, dividends: [] },
+      },
+      baseConfig
+    )
+
+    expect(result.points[0].date).toBe('2023-01-05')
+    // AAA trades every day, so no dates are dropped
+    const dates = result.points.map((p) => p.date)
+    expect(dates).toContain(generatePriceData('2023-01-05', 1, 0)[1].date)
+    // BBB keeps its last close on the days it did not trade
+    for (const point of result.points) {
+      expect(point.holdingValues.BBB).toBeCloseTo(point.principal * 0.4)
+    }
+  })
+
+  it('lets holdings drift when rebalancing is off', () => {
+    const result = runPortfolioSimulation(driftHistories, driftConfig)
+
+    expect(result.rebalanceCount).toBe(0)
+    expect(result.holdings[0].finalWeight).toBeCloseTo(200 / 3)
+    expect(result.finalValue).toBeCloseTo(1500)
+  })
+
+  it('rebalances on the first trading day of each period', () => {
+    const result = runPortfolioSimulation(driftHistories, {
+      ...driftConfig,
+      rebalance: { strategy: 'periodic', interval: 'monthly', threshold: 5 },
+    })
+
+    // Feb 1 resets the weights; Mar 1 finds nothing to do
+    expect(result.rebalanceCount).toBe(1)
+    expect(result.holdings[0].finalWeight).toBeCloseTo(50)
+    expect(result.holdings[1].finalWeight).toBeCloseTo(50)
+    const february = result.points.find((p) => p.date === '2023-02-01')!
+    expect(february.holdingValues.AAA).toBeCloseTo(750)
+    // Rebalancing itself is free without fees
+    expect(result.finalValue).toBeCloseTo(1500)
+  })
+
+  it('rebalances only when drift exceeds the threshold', () => {
+    // AAA drifts to 66.7%, i.e. 16.7 points past its target
+    const tight = runPortfolioSimulation(driftHistories, {
+      ...driftConfig,
+      rebalance: { strategy: 'threshold', interval: 'monthly', threshold: 10 },
+    })
+    const loose = runPortfolioSimulation(driftHistories, {
+      ...driftConfig,
+      rebalance: { strategy: 'threshold', interval: 'monthly', threshold: 20 },
+    })
+
+    expect(tight.rebalanceCount).toBe(1)
+    expect(tight.points.find((p) => p.date === '2023-01-20')!.holdingValues.AAA).toBeCloseTo(750)
+    expect(loose.rebalanceCount).toBe(0)
+  })
+
+  it('realizes gains on rebalancing sales', () => {
+    const result = runPortfolioSimulation(driftHistories, {
+      ...driftConfig,
+      rebalance: { strategy: 'threshold', interval: 'monthly', threshold: 10 },
+    })
+    const { realized, lots } = result.taxLots
+
+    // 12.5 AAA shares bought at $10 are sold at $20
+    expect(realized).toHaveLength(1)
+    expect(realized[0]).toMatchObject({ ticker: 'AAA', sold: '2023-01-20', term: 'short' })
+    expect(realized[0].gain).toBeCloseTo(125)
+    expect(result.taxLots.realizedShortTerm).toBeCloseTo(125)
+    expect(lots.find((lot) => lot.source === 'rebalance')).toMatchObject({ ticker: 'BBB', acquired: '2023-01-20' })
+    expect(result.holdings[0].costBasis).toBeCloseTo(375)
+    expect(result.holdings[1].costBasis).toBeCloseTo(750)
+    expect(result.taxLots.costBasis).toBeCloseTo(1125)
+  })
+
+  it('charges trading costs on rebalancing trades', () => {
+    const result = runPortfolioSimulation(driftHistories, {
+      ...driftConfig,
+      fees: { flatPerTrade: 1, percentPerTrade: 0, spreadBps: 0, expenseRatio: 0 },
+      rebalance: { strategy: 'threshold', interval: 'monthly', threshold: 10 },
+    })
+
+    // Two buys on day one, then one sell and one buy when rebalancing
+    expect(result.rebalanceCount).toBe(1)
+    expect(result.totalFees).toBeCloseTo(4)
+    expect(result.finalValue).toBeCloseTo(1495)
+  })
+
+  it('reinvests dividends into the holding that paid them', () => {
+    const prices = generatePriceData('2023-01-01', 2, 10)
+    const dividends: DividendHistory[] = [
+      { exDate: '2023-01-15', paymentDate: '2023-01-20', amount: 1, yield: 10 },
+    ]
+    const result = runPortfolioSimulation(
+      { AAA: { prices, dividends }, BBB: { prices, dividends: [] } },
+      { ...driftConfig, holdAfterEnd: false, endDate: '2023-01-31' }
+    )
+
+    // 50 AAA shares earn $50, buying 5 more
+    expect(result.holdings[0].shares).toBeCloseTo(55)
+    expect(result.holdings[1].shares).toBeCloseTo(50)
+  })
+
+  it('returns an empty result when a holding has no prices', () => {
+    const result = runPortfolioSimulation(
+      { AAA: { prices: generatePriceData('2023-01-01', 2, 10), dividends: [] } },
+      baseConfig
+    )
+
+    expect(result.points).toHaveLength(0)
+    expect(result.holdings).toHaveLength(0)
+  })
 })
 
 describe('formatters', () => {
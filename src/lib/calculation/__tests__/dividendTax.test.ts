@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { applyDividendTax, NO_DIVIDEND_TAX } from '../dividendTax'
+
+describe('applyDividendTax', () => {
+  it('passes dividends through untaxed by default', () => {
+    expect(applyDividendTax(100)).toEqual({ net: 100, taxes: 0 })
+    expect(applyDividendTax(100, NO_DIVIDEND_TAX)).toEqual({ net: 100, taxes: 0 })
+  })
+
+  it('blends the qualified and ordinary rates', () => {
+    const taxed = applyDividendTax(100, {
+      qualifiedRate: 15,
+      ordinaryRate: 35,
+      qualifiedPercent: 60,
+      withholdingRate: 0,
+    })
+    // 60% at 15% + 40% at 35% = 23%
+    expect(taxed.taxes).toBeCloseTo(23)
+    expect(taxed.net).toBeCloseTo(77)
+  })
+
+  it('credits withholding against the domestic tax', () => {
+    const tax = { qualifiedRate: 15, ordinaryRate: 15, qualifiedPercent: 100, withholdingRate: 10 }
+    expect(applyDividendTax(100, tax).taxes).toBeCloseTo(15)
+    expect(applyDividendTax(100, { ...tax, withholdingRate: 30 }).taxes).toBeCloseTo(30)
+  })
+
+  it('charges withholding alone in a tax-advantaged account', () => {
+    const taxed = applyDividendTax(100, { ...NO_DIVIDEND_TAX, withholdingRate: 15 })
+    expect(taxed).toEqual({ net: 85, taxes: 15 })
+  })
+
+  it('ignores zero and negative dividends', () => {
+    expect(applyDividendTax(0, { ...NO_DIVIDEND_TAX, qualifiedRate: 20 })).toEqual({ net: 0, taxes: 0 })
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyPurchaseCosts,
+  applyWholeSharePurchase,
+  applyShareSale,
+  sharesToRaise,
+  calculateExpenseRatioFee,
+  getExecutionPrice,
+  NO_FEES,
+} from '../feeModel'
+
+describe('getExecutionPrice', () => {
+  const day = { date: '2023-01-03', open: 10, high: 14, low: 8, close: 12, volume: 1000 }
+
+  it.each([
+    ['close' as const, 12, 12],
+    ['open' as const, 10, 10],
+    ['midpoint' as const, 11, 11],
+    ['typical' as const, 34 / 3, 34 / 3],
+    ['worst' as const, 14, 8],
+  ])('fills %s orders', (method, buy, sell) => {
+    expect(getExecutionPrice(day, method, 'buy')).toBeCloseTo(buy)
+    expect(getExecutionPrice(day, method, 'sell')).toBeCloseTo(sell)
+  })
+
+  it('falls back to the close when intraday prices are missing', () => {
+    const closeOnly = { ...day, open: 0, high: 0, low: 0 }
+    expect(getExecutionPrice(closeOnly, 'open', 'buy')).toBe(12)
+    expect(getExecutionPrice(closeOnly, 'worst', 'sell')).toBe(12)
+  })
+})
+
+describe('applyPurchaseCosts', () => {
+  it('buys at the mid price with no fees', () => {
+    const fill = applyPurchaseCosts(100, 10)
+    expect(fill.shares).toBe(10)
+    expect(fill.fees).toBe(0)
+  })
+
+  it('deducts flat and percentage commission before buying', () => {
+    const fill = applyPurchaseCosts(100, 10, {
+      ...NO_FEES,
+      flatPerTrade: 1,
+      percentPerTrade: 1,
+    })
+    // $1 flat + $1 (1%) = $2 commission, $98 buys 9.8 shares
+    expect(fill.shares).toBeCloseTo(9.8)
+    expect(fill.fees).toBeCloseTo(2)
+  })
+
+  it('fills at the ask when a spread is configured', () => {
+    const fill = applyPurchaseCosts(100, 10, { ...NO_FEES, spreadBps: 20 })
+    // Half of 20 bps = 0.1% above mid
+    expect(fill.shares).toBeCloseTo(100 / 10.01)
+    expect(fill.fees).toBeCloseTo(100 - fill.shares * 10)
+  })
+
+  it('buys nothing when commission exceeds the trade', () => {
+    const fill = applyPurchaseCosts(5, 10, { ...NO_FEES, flatPerTrade: 10 })
+    expect(fill.shares).toBe(0)
+    expect(fill.fees).toBe(5)
+  })
+})
+
+describe('applyWholeSharePurchase', () => {
+  it('buys only whole shares and reports the cash spent', () => {
+    const fill = applyWholeSharePurchase(100, 30)
+    expect(fill.shares).toBe(3)
+    expect(fill.cost).toBe(90)
+    expect(fill.fees).toBe(0)
+  })
+
+  it('reserves cash for commission before sizing the order', () => {
+    const fill = applyWholeSharePurchase(100, 10, { ...NO_FEES, flatPerTrade: 5 })
+    // $95 left after commission buys 9 shares
+    expect(fill.shares).toBe(9)
+    expect(fill.cost).toBe(95)
+    expect(fill.fees).toBe(5)
+  })
+
+  it('skips the trade when no whole share is affordable', () => {
+    const fill = applyWholeSharePurchase(8, 10, { ...NO_FEES, flatPerTrade: 1 })
+    expect(fill).toEqual({ shares: 0, fees: 0, cost: 0 })
+  })
+})
+
+describe('withdrawal sales', () => {
+  it('sells at the mid price with no fees', () => {
+    expect(sharesToRaise(100, 10)).toBe(10)
+    expect(applyShareSale(10, 10)).toEqual({ shares: 10, fees: 0, cost: 100 })
+  })
+
+  it('sells enough extra to cover commission and spread', () => {
+    const fees = { ...NO_FEES, flatPerTrade: 5, percentPerTrade: 1, spreadBps: 20 }
+    const shares = sharesToRaise(1000, 50, fees)
+    const sale = applyShareSale(shares, 50, fees)
+
+    // Net proceeds land on the requested amount
+    expect(sale.cost).toBeCloseTo(1000)
+    expect(sale.fees).toBeGreaterThan(5)
+  })
+
+  it('leaves no proceeds when commission exceeds the sale', () => {
+    const sale = applyShareSale(0.1, 10, { ...NO_FEES, flatPerTrade: 5 })
+    expect(sale.cost).toBe(0)
+    expect(sale.fees).toBe(1)
+  })
+})
+
+describe('calculateExpenseRatioFee', () => {
+  it('accrues the annual ratio over a full year', () => {
+    expect(calculateExpenseRatioFee(10000, 1, 365.25)).toBeCloseTo(100)
+  })
+
+  it('returns zero without a ratio or holdings', () => {
+    expect(calculateExpenseRatioFee(10000, 0, 30)).toBe(0)
+    expect(calculateExpenseRatioFee(0, 1, 30)).toBe(0)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { getCPI, deflatePoints, calculateRealCAGR } from '../inflation'
+import type { SimulationPoint } from '../../api/types'
+import cpiData from '../../data/cpi.json'
+
+function makePoint(date: string, fields: Partial<SimulationPoint>): SimulationPoint {
+  const point = {
+    date,
+    principal: 0,
+    dividends: 0,
+    marketValue: 0,
+    shares: 0,
+    totalValue: 0,
+    fees: 0,
+    cash: 0,
+    withdrawn: 0,
+    ...fields,
+  }
+  return { ...point, totalValue: point.marketValue + point.dividends + point.cash }
+}
+
+describe('getCPI', () => {
+  it('looks up the month containing the date', () => {
+    expect(getCPI('2010-01-15')).toBe(cpiData.values['2010-01'])
+    expect(getCPI('2010-01-31')).toBe(getCPI('2010-01-01'))
+  })
+
+  it('clamps dates outside the series', () => {
+    const months = Object.keys(cpiData.values).sort()
+    const first = cpiData.values[months[0] as keyof typeof cpiData.values]
+    const last = cpiData.values[months[months.length - 1] as keyof typeof cpiData.values]
+
+    expect(getCPI('1900-01-01')).toBe(first)
+    expect(getCPI('2999-12-31')).toBe(last)
+  })
+})
+
+describe('deflatePoints', () => {
+  it('leaves values at the reference date unchanged', () => {
+    const points = [makePoint('2020-01-15', { principal: 100, marketValue: 110 })]
+    const real = deflatePoints(points, '2020-01-31')
+
+    expect(real[0].principal).toBeCloseTo(100)
+    expect(real[0].totalValue).toBeCloseTo(110)
+  })
+
+  it('deflates each contribution at the CPI of its own date', () => {
+    const points = [
+      makePoint('2010-01-04', { principal: 100, marketValue: 100 }),
+      makePoint('2020-01-02', { principal: 200, marketValue: 250 }),
+    ]
+    const real = deflatePoints(points, '2020-01-02')
+    const factor2010 = getCPI('2020-01-02') / getCPI('2010-01-04')
+
+    // The 2010 dollar is worth more 2020 dollars; the 2020 contribution is unchanged
+    expect(real[0].principal).toBeCloseTo(100 * factor2010)
+    expect(real[1].principal).toBeCloseTo(100 * factor2010 + 100)
+    expect(real[1].marketValue).toBeCloseTo(250)
+    expect(real[0].marketValue).toBeCloseTo(100 * factor2010)
+  })
+
+  it('rebuilds total value from the deflated parts', () => {
+    const points = [
+      makePoint('2010-01-04', { principal: 100, marketValue: 90, dividends: 5, cash: 3 }),
+      makePoint('2015-01-02', { principal: 100, marketValue: 120, dividends: 10, cash: 3 }),
+    ]
+    const real = deflatePoints(points, '2010-01-04')
+
+    for (const point of real) {
+      expect(point.totalValue).toBeCloseTo(point.marketValue + point.dividends + point.cash)
+    }
+    expect(real[1].marketValue).toBeCloseTo(120 * getCPI('2010-01-04') / getCPI('2015-01-02'))
+  })
+})
+
+describe('calculateRealCAGR', () => {
+  it('returns 0 without enough points', () => {
+    expect(calculateRealCAGR([])).toBe(0)
+    expect(calculateRealCAGR([makePoint('2020-01-02', { principal: 100, marketValue: 100 })])).toBe(0)
+  })
+
+  it('is lower than nominal CAGR when prices rise', () => {
+    const points = [
+      makePoint('2010-01-04', { principal: 1000, marketValue: 1000 }),
+      makePoint('2020-01-02', { principal: 1000, marketValue: 2000 }),
+    ]
+    const years = (new Date('2020-01-02').getTime() - new Date('2010-01-04').getTime()) /
+      (1000 * 60 * 60 * 24 * 365.25)
+    const nominal = (Math.pow(2, 1 / years) - 1) * 100
+    const inflation = (Math.pow(getCPI('2020-01-02') / getCPI('2010-01-04'), 1 / years) - 1) * 100
+
+    const real = calculateRealCAGR(deflatePoints(points, '2020-01-02'))
+
+    expect(real).toBeLessThan(nominal)
+    // (1 + nominal) / (1 + inflation) - 1
+    expect(real).toBeCloseTo(((1 + nominal / 100) / (1 + inflation / 100) - 1) * 100, 6)
+  })
+})
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createSeededRandom,
+  getMonthlyReturns,
+  sampleBlockBootstrap,
+  runMonteCarloProjection,
+  MIN_HISTORY_MONTHS,
+} from '../monteCarloEngine'
+import type { PricePoint, DividendHistory, MonteCarloConfig } from '../../api/types'
+
+// One point on the 15th and one at month end, with the close growing by
+// monthlyGrowth each month
+function generateMonthlyPrices(
+  startYear: number,
+  months: number,
+  monthlyGrowth: number = 0.01
+): PricePoint[] {
+  const points: PricePoint[] = []
+
+  for (let i = 0; i < months; i++) {
+    const year = startYear + Math.floor(i / 12)
+    const month = String((i % 12) + 1).padStart(2, '0')
+    const close = 100 * Math.pow(1 + monthlyGrowth, i)
+    for (const day of ['15', '28']) {
+      points.push({
+        date: `${year}-${month}-${day}`,
+        open: close,
+        high: close,
+        low: close,
+        close,
+        volume: 1000,
+      })
+    }
+  }
+
+  return points
+}
+
+const config: MonteCarloConfig = {
+  ticker: 'TEST',
+  amount: 100,
+  frequency: 'monthly',
+  horizonYears: 5,
+  isDRIP: true,
+  pathCount: 500,
+  blockMonths: 12,
+  seed: 42,
+}
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(7)
+    const b = createSeededRandom(7)
+    const c = createSeededRandom(8)
+
+    const first = Array.from({ length: 5 }, a)
+    expect(Array.from({ length: 5 }, b)).toEqual(first)
+    expect(Array.from({ length: 5 }, c)).not.toEqual(first)
+  })
+
+  it('stays within [0, 1)', () => {
+    const random = createSeededRandom(123)
+    for (let i = 0; i < 1000; i++) {
+      const value = random()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+})
+
+describe('getMonthlyReturns', () => {
+  it('uses month-end closes and skips the first month', () => {
+    const returns = getMonthlyReturns(generateMonthlyPrices(2020, 4, 0.02), [])
+
+    expect(returns.map((r) => r.month)).toEqual(['2020-02', '2020-03', '2020-04'])
+    for (const r of returns) {
+      expect(r.priceReturn).toBeCloseTo(0.02)
+      expect(r.dividendYield).toBe(0)
+    }
+  })
+
+  it('credits dividends to their ex-date month against the prior close', () => {
+    const dividends: DividendHistory[] = [
+      { exDate: '2020-03-10', paymentDate: '2020-03-20', amount: 1, yield: 0 },
+      { exDate: '2020-03-20', paymentDate: '2020-03-30', amount: 1, yield: 0 },
+    ]
+    const returns = getMonthlyReturns(generateMonthlyPrices(2020, 4, 0), dividends)
+
+    expect(returns.find((r) => r.month === '2020-03')?.dividendYield).toBeCloseTo(0.02)
+    expect(returns.find((r) => r.month === '2020-04')?.dividendYield).toBe(0)
+  })
+})
+
+describe('sampleBlockBootstrap', () => {
+  it('draws runs of consecutive months, wrapping at the end', () => {
+    const indices = sampleBlockBootstrap(10, 25, 4, createSeededRandom(1))
+
+    expect(indices).toHaveLength(25)
+    for (let i = 0; i < indices.length; i++) {
+      if (i % 4 !== 0) {
+        expect(indices[i]).toBe((indices[i - 1] + 1) % 10)
+      }
+    }
+  })
+
+  it('caps blocks at the history length', () => {
+    const indices = sampleBlockBootstrap(3, 6, 12, () => 0)
+    expect(indices).toEqual([0, 1, 2, 0, 1, 2])
+  })
+})
+
+describe('runMonteCarloProjection', () => {
+  const prices = generateMonthlyPrices(2000, 120)
+
+  it('is reproducible for a seed', () => {
+    const a = runMonteCarloProjection(prices, [], config, '2025-01-01')
+    const b = runMonteCarloProjection(prices, [], config, '2025-01-01')
+    const c = runMonteCarloProjection(prices, [], { ...config, seed: 43 }, '2025-01-01')
+
+    expect(b.valueBands).toEqual(a.valueBands)
+    expect(c.valueBands).not.toEqual(a.valueBands)
+  })
+
+  it('compounds contributions exactly when every month has the same return', () => {
+    const result = runMonteCarloProjection(prices, [], { ...config, horizonYears: 1 }, '2025-01-01')
+
+    // 100 at the start of each month, each growing 1% a month
+    let expected = 0
+    for (let month = 0; month < 12; month++) {
+      expected = (expected + 100) * 1.01
+    }
+
+    expect(result.monthOffsets).toHaveLength(13)
+    expect(result.valueBands.p10[12]).toBeCloseTo(expected)
+    expect(result.valueBands.p90[12]).toBeCloseTo(expected)
+    expect(result.stats.totalInvested).toBe(1200)
+    expect(result.stats.lossProbability).toBe(0)
+  })
+
+  it('orders the bands and spreads them when returns vary', () => {
+    const choppy = prices.map((point, i) => ({
+      ...point,
+      close: point.close * (Math.floor(i / 2) % 3 === 0 ? 0.9 : 1.05),
+    }))
+    const result = runMonteCarloProjection(choppy, [], config, '2025-01-01')
+    const last = result.monthOffsets.length - 1
+
+    expect(result.valueBands.p10[last]).toBeLessThan(result.valueBands.p50[last])
+    expect(result.valueBands.p50[last]).toBeLessThan(result.valueBands.p90[last])
+    expect(result.stats.medianFinalValue).toBe(result.valueBands.p50[last])
+  })
+
+  it('holds dividends as cash without DRIP', () => {
+    const flat = generateMonthlyPrices(2000, 120, 0)
+    const dividends: DividendHistory[] = flat
+      .filter((point) => point.date.endsWith('-15'))
+      .map((point) => ({ exDate: point.date, paymentDate: point.date, amount: 1, yield: 0 }))
+    const oneYear = { ...config, horizonYears: 1, amount: 0, initialInvestment: 1000 }
+
+    const reinvested = runMonteCarloProjection(flat, dividends, oneYear, '2025-01-01')
+    const cash = runMonteCarloProjection(flat, dividends, { ...oneYear, isDRIP: false }, '2025-01-01')
+
+    expect(reinvested.stats.medianFinalValue).toBeCloseTo(1000 * Math.pow(1.01, 12))
+    expect(cash.stats.medianFinalValue).toBeCloseTo(1120)
+  })
+
+  it('steps contributions up every 12 months', () => {
+    const result = runMonteCarloProjection(
+      prices,
+      [],
+      { ...config, horizonYears: 2, annualIncrease: 10, initialInvestment: 500 },
+      '2025-01-01'
+    )
+
+    expect(result.invested[0]).toBe(500)
+    expect(result.invested[12]).toBeCloseTo(500 + 1200)
+    expect(result.invested[24]).toBeCloseTo(500 + 1200 + 1320)
+  })
+
+  it('reports the resampled history', () => {
+    const result = runMonteCarloProjection(prices, [], config, '2025-01-01')
+
+    expect(result.startDate).toBe('2025-01-01')
+    expect(result.history).toEqual({ firstMonth: '2000-02', lastMonth: '2009-12', monthCount: 119 })
+  })
+
+  it('rejects histories too short to resample', () => {
+    expect(() =>
+      runMonteCarloProjection(generateMonthlyPrices(2020, MIN_HISTORY_MONTHS), [], config, '2025-01-01')
+    ).toThrow(/at least 12 months/)
+  })
+})
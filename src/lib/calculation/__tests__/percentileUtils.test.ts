@@ -4,8 +4,11 @@ import {
   calculatePercentiles,
   calculatePercentileBands,
   calculateMedian,
+  normalizePercentiles,
   calculateStats,
   categorizeReturns,
+  buildHistogram,
+  calculateEmpiricalCDF,
 } from '../percentileUtils'
 
 describe('calculatePercentile', () => {
@@ -142,6 +145,27 @@ describe('calculatePercentileBands', () => {
     expect(result.p50).toEqual([100, 200, 300])
     expect(result.p90).toEqual([100, 200, 300])
   })
+
+  it('bands a custom percentile set', () => {
+    const valueArrays = [Array.from({ length: 101 }, (_, i) => i)]
+    const result = calculatePercentileBands(valueArrays, [5, 50, 95])
+
+    expect(Object.keys(result)).toEqual(['p5', 'p50', 'p95'])
+    expect(result.p5).toEqual([5])
+    expect(result.p50).toEqual([50])
+    expect(result.p95).toEqual([95])
+  })
+})
+
+describe('normalizePercentiles', () => {
+  it('mirrors each percentile and always includes the median', () => {
+    expect(normalizePercentiles([5])).toEqual([5, 50, 95])
+    expect(normalizePercentiles([90, 25])).toEqual([10, 25, 50, 75, 90])
+  })
+
+  it('drops duplicates and values outside 1-99', () => {
+    expect(normalizePercentiles([10, 90, 0, 100, 12.5, 10])).toEqual([10, 50, 90])
+  })
 })
 
 describe('calculateMedian', () => {
@@ -276,3 +300,49 @@ describe('categorizeReturns', () => {
     expect(sum).toBeCloseTo(100)
   })
 })
+
+describe('buildHistogram', () => {
+  it('returns no bins for empty input or a non-positive width', () => {
+    expect(buildHistogram([], 10)).toEqual([])
+    expect(buildHistogram([1, 2], 0)).toEqual([])
+  })
+
+  it('counts values into bins aligned to multiples of the width', () => {
+    const bins = buildHistogram([-12, -3, 4, 9, 10, 27], 10)
+
+    expect(bins).toEqual([
+      { start: -20, end: -10, count: 1 },
+      { start: -10, end: 0, count: 1 },
+      { start: 0, end: 10, count: 2 },
+      { start: 10, end: 20, count: 1 },
+      { start: 20, end: 30, count: 1 },
+    ])
+  })
+
+  it('puts identical values in one bin', () => {
+    expect(buildHistogram([5, 5, 5], 2)).toEqual([{ start: 4, end: 6, count: 3 }])
+  })
+
+  it('widens the bins to stay within maxBins', () => {
+    const values = Array.from({ length: 1001 }, (_, i) => i)
+    const bins = buildHistogram(values, 1, 100)
+
+    expect(bins).toHaveLength(100)
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(1001)
+  })
+})
+
+describe('calculateEmpiricalCDF', () => {
+  it('returns the share of values at or below each value', () => {
+    expect(calculateEmpiricalCDF([30, -10, 20, 10])).toEqual([
+      { value: -10, fraction: 0.25 },
+      { value: 10, fraction: 0.5 },
+      { value: 20, fraction: 0.75 },
+      { value: 30, fraction: 1 },
+    ])
+  })
+
+  it('returns no points for empty input', () => {
+    expect(calculateEmpiricalCDF([])).toEqual([])
+  })
+})
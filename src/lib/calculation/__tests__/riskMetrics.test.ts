@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { calculateDailyReturns, calculateRiskMetrics } from '../riskMetrics'
+import type { SimulationPoint } from '../../api/types'
+
+// Build points from a list of [principal, totalValue] pairs on consecutive days
+function makePoints(values: [number, number][]): SimulationPoint[] {
+  return values.map(([principal, totalValue], i) => {
+    const date = new Date('2023-01-02')
+    date.setDate(date.getDate() + i)
+    return {
+      date: date.toISOString().split('T')[0],
+      principal,
+      dividends: 0,
+      marketValue: totalValue,
+      shares: 0,
+      totalValue,
+      fees: 0,
+      cash: 0,
+      withdrawn: 0,
+    }
+  })
+}
+
+describe('calculateDailyReturns', () => {
+  it('removes contributions from the daily return', () => {
+    const points = makePoints([
+      [100, 100],
+      [200, 200], // +$100 contribution, no market move
+      [200, 220],
+    ])
+
+    const returns = calculateDailyReturns(points)
+    expect(returns[0]).toBeCloseTo(0)
+    expect(returns[1]).toBeCloseTo(0.1)
+  })
+
+  it('removes withdrawals from the daily return', () => {
+    const points = makePoints([
+      [100, 100],
+      [100, 50],
+    ])
+    points[1].withdrawn = 50
+
+    expect(calculateDailyReturns(points)[0]).toBeCloseTo(0)
+  })
+
+  it('skips days with nothing invested', () => {
+    const points = makePoints([
+      [0, 0],
+      [100, 100],
+      [100, 110],
+    ])
+    expect(calculateDailyReturns(points)).toHaveLength(1)
+  })
+})
+
+describe('calculateRiskMetrics', () => {
+  it('finds the max drawdown with peak, trough and recovery dates', () => {
+    const points = makePoints([
+      [100, 100],
+      [100, 120], // peak
+      [100, 90],  // trough (-25%)
+      [100, 110],
+      [100, 125], // recovered
+    ])
+
+    const risk = calculateRiskMetrics(points, 0)
+    expect(risk.maxDrawdown).toBeCloseTo(-25)
+    expect(risk.drawdownPeakDate).toBe(points[1].date)
+    expect(risk.drawdownTroughDate).toBe(points[2].date)
+    expect(risk.drawdownRecoveryDate).toBe(points[4].date)
+  })
+
+  it('reports no recovery when the peak is never regained', () => {
+    const points = makePoints([
+      [100, 100],
+      [100, 80],
+      [100, 90],
+    ])
+
+    const risk = calculateRiskMetrics(points, 0)
+    expect(risk.maxDrawdown).toBeCloseTo(-20)
+    expect(risk.drawdownRecoveryDate).toBeNull()
+  })
+
+  it('ignores contributions when measuring drawdown', () => {
+    // Value only rises because of new money; the market is flat
+    const points = makePoints([
+      [100, 100],
+      [200, 200],
+      [300, 300],
+    ])
+
+    const risk = calculateRiskMetrics(points, 0)
+    expect(risk.maxDrawdown).toBe(0)
+    expect(risk.volatility).toBeCloseTo(0)
+  })
+
+  it('annualizes volatility and lowers Sharpe as the risk-free rate rises', () => {
+    const values: [number, number][] = []
+    let value = 100
+    for (let i = 0; i < 100; i++) {
+      value *= i % 2 === 0 ? 1.02 : 0.99
+      values.push([100, value])
+    }
+    const points = makePoints(values)
+
+    const low = calculateRiskMetrics(points, 0)
+    const high = calculateRiskMetrics(points, 5)
+
+    expect(low.volatility).toBeGreaterThan(20)
+    expect(low.sharpeRatio).toBeGreaterThan(high.sharpeRatio)
+    expect(low.sortinoRatio).toBeGreaterThan(low.sharpeRatio)
+    expect(high.volatility).toBe(low.volatility)
+  })
+
+  it('returns zeros for too few points', () => {
+    const risk = calculateRiskMetrics(makePoints([[100, 100]]), 2)
+    expect(risk.volatility).toBe(0)
+    expect(risk.sharpeRatio).toBe(0)
+    expect(risk.maxDrawdown).toBe(0)
+  })
+})
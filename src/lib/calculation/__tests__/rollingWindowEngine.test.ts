@@ -2,8 +2,16 @@ import { describe, it, expect } from 'vitest'
 import {
   runRollingWindowAnalysis,
   getAvailableHorizons,
+  getWindowStartDates,
+  createWindowRunner,
+  summarizeRollingWindows,
+  runHorizonSweep,
+  getWindowMetric,
+  getCommonPriceRange,
+  clipPriceHistory,
+  compareRollingWindows,
 } from '../rollingWindowEngine'
-import type { PricePoint, DividendHistory } from '../../api/types'
+import type { PricePoint, DividendHistory, WindowResult } from '../../api/types'
 
 // Helper to generate price data starting from a specific date
 function generatePriceData(
@@ -43,29 +51,21 @@ describe('getAvailableHorizons', () => {
     expect(getAvailableHorizons([])).toEqual([])
   })
 
-  it('returns empty array for insufficient data (less than 6 years)', () => {
-    const prices = generatePriceData('2020-01-01', 5)
+  it('returns empty array for less than 2 years of data', () => {
+    const prices = generatePriceData('2020-01-01', 1)
     expect(getAvailableHorizons(prices)).toEqual([])
   })
 
-  it('returns [5] for 6+ years of data', () => {
+  it('returns every whole year up to one year short of the data', () => {
     const prices = generatePriceData('2018-01-01', 7)
-    expect(getAvailableHorizons(prices)).toEqual([5])
+    expect(getAvailableHorizons(prices)).toEqual([1, 2, 3, 4, 5])
   })
 
-  it('returns [5, 10] for 11+ years of data', () => {
-    const prices = generatePriceData('2012-01-01', 12)
-    expect(getAvailableHorizons(prices)).toEqual([5, 10])
-  })
-
-  it('returns [5, 10, 15] for 16+ years of data', () => {
-    const prices = generatePriceData('2007-01-01', 17)
-    expect(getAvailableHorizons(prices)).toEqual([5, 10, 15])
-  })
-
-  it('returns [5, 10, 15, 20] for 21+ years of data', () => {
-    const prices = generatePriceData('2000-01-01', 25)
-    expect(getAvailableHorizons(prices)).toEqual([5, 10, 15, 20])
+  it('caps horizons at 40 years', () => {
+    const prices = generatePriceData('1970-01-01', 45)
+    const horizons = getAvailableHorizons(prices)
+    expect(horizons[0]).toBe(1)
+    expect(horizons[horizons.length - 1]).toBe(40)
   })
 })
 
@@ -299,6 +299,100 @@ describe('runRollingWindowAnalysis', () => {
         result.normalizedBands.valueBands.p50.length
       )
     })
+
+    it('records the principal contributed by each month', () => {
+      const prices = generatePriceData('2010-01-01', 7)
+      const result = runRollingWindowAnalysis(prices, [], {
+        ticker: 'TEST',
+        horizonYears: 5,
+        amount: 100,
+        frequency: 'monthly',
+        isDRIP: true,
+      })
+
+      const window = result.windows[0]
+      expect(window.monthlyInvested.slice(0, 3)).toEqual([100, 200, 300])
+      expect(window.monthlyInvested[window.monthlyInvested.length - 1]).toBe(window.totalInvested)
+      expect(window.monthlyWithdrawn.every((withdrawn) => withdrawn === 0)).toBe(true)
+    })
+
+    it('computes return bands from the actual principal', () => {
+      // Flat prices: every window breaks even at every month, whatever the schedule
+      const prices = generatePriceData('2010-01-01', 7).map((point) => ({
+        ...point,
+        open: 100,
+        high: 100,
+        low: 100,
+        close: 100,
+      }))
+      const result = runRollingWindowAnalysis(prices, [], {
+        ticker: 'TEST',
+        horizonYears: 5,
+        amount: 100,
+        frequency: 'weekly',
+        isDRIP: true,
+        annualIncrease: 10,
+      })
+
+      const { p10, p90 } = result.normalizedBands.returnBands
+      for (let i = 0; i < p10.length; i++) {
+        expect(p10[i]).toBeCloseTo(0)
+        expect(p90[i]).toBeCloseTo(0)
+      }
+    })
+  })
+
+  describe('custom horizons and percentiles', () => {
+    it('supports horizons outside the old 5/10/15/20 set', () => {
+      const prices = generatePriceData('2010-01-01', 5)
+      const result = runRollingWindowAnalysis(prices, [], {
+        ticker: 'TEST',
+        horizonYears: 3,
+        amount: 100,
+        frequency: 'monthly',
+        isDRIP: true,
+      })
+
+      expect(result.windows.length).toBeGreaterThan(0)
+      expect(result.normalizedBands.monthOffsets).toHaveLength(3 * 12 + 1)
+    })
+
+    it('bands the requested percentiles', () => {
+      const prices = generatePriceData('2010-01-01', 7)
+      const result = runRollingWindowAnalysis(prices, [], {
+        ticker: 'TEST',
+        horizonYears: 5,
+        amount: 100,
+        frequency: 'monthly',
+        isDRIP: true,
+        percentiles: [5, 25, 50, 75, 95],
+      })
+
+      const { valueBands, returnBands } = result.normalizedBands
+      expect(Object.keys(valueBands)).toEqual(['p5', 'p25', 'p50', 'p75', 'p95'])
+      expect(Object.keys(returnBands)).toEqual(['p5', 'p25', 'p50', 'p75', 'p95'])
+      for (let i = 0; i < valueBands.p50.length; i++) {
+        expect(valueBands.p5[i]).toBeLessThanOrEqual(valueBands.p25[i])
+        expect(valueBands.p75[i]).toBeLessThanOrEqual(valueBands.p95[i])
+      }
+      expect(Object.keys(result.stats.lumpSum!.marginDistribution)).toEqual([
+        'p5', 'p25', 'p50', 'p75', 'p95',
+      ])
+    })
+
+    it('echoes the normalized percentile set in the result config', () => {
+      const prices = generatePriceData('2010-01-01', 7)
+      const result = runRollingWindowAnalysis(prices, [], {
+        ticker: 'TEST',
+        horizonYears: 5,
+        amount: 100,
+        frequency: 'monthly',
+        isDRIP: true,
+        percentiles: [95, 10],
+      })
+
+      expect(result.config.percentiles).toEqual([5, 10, 50, 90, 95])
+    })
   })
 
   describe('data range tracking', () => {
@@ -403,5 +497,456 @@ describe('runRollingWindowAnalysis', () => {
         monthlyResult.windows[0].totalInvested
       )
     })
+
+    it('applies the annual step-up relative to each window start', () => {
+      const prices = generatePriceData('2010-01-01', 7)
+      const base = {
+        ticker: 'TEST',
+        horizonYears: 5 as const,
+        amount: 100,
+        frequency: 'monthly' as const,
+        isDRIP: true,
+      }
+
+      const flat = runRollingWindowAnalysis(prices, [], base)
+      const stepped = runRollingWindowAnalysis(prices, [], { ...base, annualIncrease: 10 })
+
+      expect(stepped.windows).toHaveLength(flat.windows.length)
+      // Every window starts at $100 and steps up on its own anniversaries:
+      // 12 x (1 + 1.1 + 1.21 + 1.331 + 1.4641) / 60 contributions ≈ 1.221
+      stepped.windows.forEach((w, i) => {
+        const ratio = w.totalInvested / flat.windows[i].totalInvested
+        expect(ratio).toBeGreaterThan(1.22)
+        expect(ratio).toBeLessThan(1.23)
+      })
+    })
+
+    it('skips contributions inside calendar-dated pauses', () => {
+      const prices = generatePriceData('2010-01-01', 7)
+      const base = {
+        ticker: 'TEST',
+        horizonYears: 5 as const,
+        amount: 100,
+        frequency: 'monthly' as const,
+        isDRIP: true,
+      }
+
+      const flat = runRollingWindowAnalysis(prices, [], base)
+      const paused = runRollingWindowAnalysis(prices, [], {
+        ...base,
+        pauses: [{ start: '2012-01-01', end: '2012-12-31' }],
+      })
+
+      // Windows spanning 2012 miss all twelve contributions from that year
+      expect(paused.windows[0].totalInvested).toBe(flat.windows[0].totalInvested - 1200)
+    })
+
+    it('reports the share of windows that survive withdrawals', () => {
+      const prices = generatePriceData('2010-01-01', 7)
+      const base = {
+        ticker: 'TEST',
+        horizonYears: 5 as const,
+        amount: 0,
+        frequency: 'monthly' as const,
+        isDRIP: true,
+        initialInvestment: 100000,
+      }
+      const withdrawalAt = (rate: number) => ({
+        strategy: 'inflationAdjusted' as const,
+        frequency: 'monthly' as const,
+        amount: 0,
+        rate,
+        inflationRate: 3,
+      })
+
+      const safe = runRollingWindowAnalysis(prices, [], { ...base, withdrawal: withdrawalAt(4) })
+      const reckless = runRollingWindowAnalysis(prices, [], { ...base, withdrawal: withdrawalAt(40) })
+      const none = runRollingWindowAnalysis(prices, [], base)
+
+      expect(safe.stats.withdrawalSuccessRate).toBe(100)
+      expect(reckless.stats.withdrawalSuccessRate).toBe(0)
+      expect(reckless.windows.every((w) => w.depletionDate !== null)).toBe(true)
+      expect(none.stats.withdrawalSuccessRate).toBeNull()
+    })
+
+    it('deflates window values into start-date dollars in real mode', () => {
+      const prices = generatePriceData('2010-01-01', 7)
+      const base = {
+        ticker: 'TEST',
+        horizonYears: 5 as const,
+        amount: 100,
+        frequency: 'monthly' as const,
+        isDRIP: true,
+      }
+
+      const nominal = runRollingWindowAnalysis(prices, [], base)
+      const real = runRollingWindowAnalysis(prices, [], { ...base, realDollars: true })
+      const lastMonth = nominal.normalizedBands.monthOffsets.length - 1
+
+      // CPI rose over 2010-2016, so later dollars are worth less
+      expect(real.normalizedBands.valueBands.p50[0]).toBeCloseTo(nominal.normalizedBands.valueBands.p50[0], 0)
+      expect(real.normalizedBands.valueBands.p50[lastMonth])
+        .toBeLessThan(nominal.normalizedBands.valueBands.p50[lastMonth])
+      expect(real.stats.medianRealCAGR).not.toBeNull()
+      expect(real.stats.medianRealCAGR!).toBeLessThan(real.stats.medianCAGR)
+      expect(nominal.stats.medianRealCAGR).toBeNull()
+    })
+  })
+
+  describe('lump sum comparison', () => {
+    // Price moving steadily by dailyChange per calendar day
+    const trendingPrices = (dailyChange: number): PricePoint[] =>
+      generatePriceData('2010-01-01', 7).map((point, i) => {
+        const price = 100 + dailyChange * i
+        return { ...point, open: price, high: price, low: price, close: price }
+      })
+    const config = {
+      ticker: 'TEST',
+      horizonYears: 5 as const,
+      amount: 100,
+      frequency: 'monthly' as const,
+      isDRIP: true,
+    }
+
+    it('invests the same total as DCA on day one', () => {
+      const result = runRollingWindowAnalysis(trendingPrices(0.05), [], config)
+
+      for (const window of result.windows) {
+        // Month 0 is marked at the end of the first month
+        expect(window.lumpSumMonthlyValues[0] / window.totalInvested).toBeGreaterThan(0.99)
+        expect(window.lumpSumMonthlyValues[0] / window.totalInvested).toBeLessThan(1.05)
+        expect(window.lumpSumMonthlyValues).toHaveLength(window.monthlyValues.length)
+      }
+      expect(result.normalizedBands.lumpSumValueBands.p50).toHaveLength(
+        result.normalizedBands.monthOffsets.length
+      )
+    })
+
+    it('favours lump sum in a rising market', () => {
+      const { stats, windows } = runRollingWindowAnalysis(trendingPrices(0.05), [], config)
+
+      expect(stats.lumpSum!.winRate).toBe(100)
+      expect(stats.lumpSum!.averageMargin).toBeGreaterThan(0)
+      const margins = windows.map((w) => w.lumpSumReturn - w.totalReturn)
+      expect(stats.lumpSum!.averageMargin).toBeCloseTo(
+        margins.reduce((sum, m) => sum + m, 0) / margins.length
+      )
+      expect(stats.lumpSum!.marginDistribution.p10)
+        .toBeLessThanOrEqual(stats.lumpSum!.marginDistribution.p90)
+    })
+
+    it('favours DCA in a falling market', () => {
+      const { stats } = runRollingWindowAnalysis(trendingPrices(-0.02), [], config)
+
+      expect(stats.lumpSum!.winRate).toBe(0)
+      expect(stats.lumpSum!.marginDistribution.p90).toBeLessThan(0)
+    })
+
+    it('has no comparison without windows', () => {
+      const result = runRollingWindowAnalysis(generatePriceData('2010-01-01', 2), [], config)
+      expect(result.stats.lumpSum).toBeNull()
+    })
+  })
+})
+
+describe('incremental engine', () => {
+  // Numbers match to 9 significant digits; everything else exactly
+  function expectParity(actual: unknown, expected: unknown, path = 'result') {
+    if (typeof expected === 'number' && typeof actual === 'number') {
+      const tolerance = 1e-9 * Math.max(1, Math.abs(expected))
+      if (Math.abs(actual - expected) > tolerance) {
+        expect.fail(`${path}: ${actual} !== ${expected}`)
+      }
+    } else if (expected !== null && typeof expected === 'object') {
+      expect(actual, path).toBeTypeOf('object')
+      const keys = Object.keys(expected as object)
+      expect(Object.keys(actual as object), path).toEqual(keys)
+      for (const key of keys) {
+        expectParity(
+          (actual as Record<string, unknown>)[key],
+          (expected as Record<string, unknown>)[key],
+          `${path}.${key}`
+        )
+      }
+    } else {
+      expect(actual, path).toEqual(expected)
+    }
+  }
+
+  const prices = generatePriceData('2010-01-01', 7)
+  const dividends: DividendHistory[] = Array.from({ length: 28 }, (_, i) => {
+    const exDate = new Date(Date.UTC(2010, 1 + i * 3, 10)).toISOString().split('T')[0]
+    return { exDate, paymentDate: exDate, amount: 0.5, yield: 2 }
+  })
+  const base = {
+    ticker: 'TEST',
+    horizonYears: 5,
+    amount: 100,
+    frequency: 'monthly' as const,
+    isDRIP: true,
+  }
+
+  it.each([
+    ['monthly DRIP', base],
+    ['cash dividends', { ...base, isDRIP: false }],
+    ['weekly', { ...base, frequency: 'weekly' as const }],
+    ['daily', { ...base, frequency: 'daily' as const, horizonYears: 3 }],
+    ['quarterly', { ...base, frequency: 'quarterly' as const }],
+    ['semi-monthly', { ...base, frequency: 'semimonthly' as const, isDRIP: false }],
+    ['annual step-up', { ...base, annualIncrease: 10 }],
+    ['pauses and overrides', {
+      ...base,
+      pauses: [{ start: '2012-01-01', end: '2012-12-31' }],
+      amountOverrides: [{ date: '2014-06-01', amount: 250 }],
+    }],
+    ['initial investment', { ...base, amount: 0, initialInvestment: 10000 }],
+    ['real dollars', { ...base, realDollars: true }],
+    ['real dollars with cash dividends', { ...base, isDRIP: false, realDollars: true }],
+    ['one-year horizon', { ...base, horizonYears: 1 }],
+  ])('matches the simulation engine: %s', (_, config) => {
+    expectParity(
+      runRollingWindowAnalysis(prices, dividends, config, 'incremental'),
+      runRollingWindowAnalysis(prices, dividends, config, 'simulation')
+    )
+  })
+
+  it('matches the simulation engine on the lump sum fixtures', () => {
+    const trending = prices.map((point, i) => {
+      const price = 100 + 0.05 * i
+      return { ...point, open: price, high: price, low: price, close: price }
+    })
+
+    expectParity(
+      runRollingWindowAnalysis(trending, dividends, base, 'incremental'),
+      runRollingWindowAnalysis(trending, dividends, base, 'simulation')
+    )
+  })
+
+  it('computes the same windows when the start dates are split up', () => {
+    const startDates = getWindowStartDates(prices, base.horizonYears)
+    const windows = [startDates.slice(0, 10), startDates.slice(10)].flatMap((chunk) => {
+      const runWindow = createWindowRunner(prices, dividends, base)
+      return chunk.map(runWindow).filter((window): window is WindowResult => window !== null)
+    })
+
+    expect(summarizeRollingWindows(prices, base, windows))
+      .toEqual(runRollingWindowAnalysis(prices, dividends, base))
+  })
+
+  it('simulates windows with withdrawals', () => {
+    const config = {
+      ...base,
+      amount: 0,
+      initialInvestment: 100000,
+      withdrawal: {
+        strategy: 'fixedPercent' as const,
+        frequency: 'monthly' as const,
+        amount: 0,
+        rate: 4,
+        inflationRate: 0,
+      },
+    }
+
+    expect(runRollingWindowAnalysis(prices, dividends, config, 'incremental'))
+      .toEqual(runRollingWindowAnalysis(prices, dividends, config, 'simulation'))
+  })
+
+  it('outpaces re-simulating every window over long histories', () => {
+    const longPrices = generatePriceData('1985-01-01', 33)
+    const longDividends: DividendHistory[] = Array.from({ length: 132 }, (_, i) => {
+      const exDate = new Date(Date.UTC(1985, 1 + i * 3, 10)).toISOString().split('T')[0]
+      return { exDate, paymentDate: exDate, amount: 0.5, yield: 2 }
+    })
+    const config = { ...base, horizonYears: 30 }
+
+    const time = (engine: 'incremental' | 'simulation') => {
+      const started = performance.now()
+      const result = runRollingWindowAnalysis(longPrices, longDividends, config, engine)
+      return { result, elapsed: performance.now() - started }
+    }
+
+    const simulation = time('simulation')
+    const incremental = time('incremental')
+
+    expect(incremental.result.windows.length).toBeGreaterThan(30)
+    expectParity(incremental.result, simulation.result)
+    expect(incremental.elapsed).toBeLessThan(simulation.elapsed)
+  }, 30000)
+})
+
+describe('runHorizonSweep', () => {
+  const prices = generatePriceData('2015-01-01', 6)
+  const dividends: DividendHistory[] = Array.from({ length: 24 }, (_, i) => {
+    const exDate = new Date(Date.UTC(2015, 1 + i * 3, 10)).toISOString().split('T')[0]
+    return { exDate, paymentDate: exDate, amount: 0.5, yield: 2 }
+  })
+  const config = {
+    ticker: 'TEST',
+    horizonYears: 1,
+    amount: 100,
+    frequency: 'monthly' as const,
+    isDRIP: false,
+  }
+
+  const headline = (window: WindowResult | null) =>
+    window && {
+      ...window,
+      monthlyValues: [],
+      monthlyInvested: [],
+      monthlyWithdrawn: [],
+      lumpSumMonthlyValues: [],
+      lumpSumMonthlyInvested: [],
+      lumpSumMonthlyWithdrawn: [],
+    }
+
+  it('lays out every start month against every available horizon', () => {
+    const heatmap = runHorizonSweep(prices, dividends, config)
+
+    expect(heatmap.horizons).toEqual(getAvailableHorizons(prices))
+    expect(heatmap.startDates).toEqual(getWindowStartDates(prices, 1))
+    expect(heatmap.windows).toHaveLength(heatmap.horizons.length)
+    expect(heatmap.stats).toHaveLength(heatmap.horizons.length)
+
+    heatmap.horizons.forEach((horizonYears, row) => {
+      const validStarts = getWindowStartDates(prices, horizonYears)
+      const cells = heatmap.windows[row]
+
+      expect(cells).toHaveLength(heatmap.startDates.length)
+      expect(cells.filter((w) => w !== null).map((w) => w!.startDate)).toEqual(validStarts)
+      expect(heatmap.stats[row].windowCount).toBe(validStarts.length)
+    })
+  })
+
+  it('matches the rolling analysis of each horizon', () => {
+    const heatmap = runHorizonSweep(prices, dividends, config)
+
+    heatmap.horizons.forEach((horizonYears, row) => {
+      const analysis = runRollingWindowAnalysis(prices, dividends, { ...config, horizonYears })
+      const swept = heatmap.windows[row].filter((w) => w !== null)
+
+      expect(swept).toEqual(analysis.windows.map(headline))
+      expect(heatmap.stats[row].medianCAGR).toBe(analysis.stats.medianCAGR)
+    })
+  })
+
+  it('simulates every cell when withdrawing', () => {
+    const withdrawing = {
+      ...config,
+      initialInvestment: 10000,
+      withdrawal: {
+        strategy: 'fixedAmount' as const,
+        frequency: 'monthly' as const,
+        amount: 50,
+        rate: 0,
+        inflationRate: 0,
+      },
+    }
+    const heatmap = runHorizonSweep(prices, dividends, withdrawing)
+    const analysis = runRollingWindowAnalysis(prices, dividends, { ...withdrawing, horizonYears: 2 })
+
+    expect(heatmap.windows[1].filter((w) => w !== null)).toEqual(analysis.windows.map(headline))
+  })
+
+  it('is empty without enough data for any horizon', () => {
+    const heatmap = runHorizonSweep(generatePriceData('2020-01-01', 1), [], config)
+
+    expect(heatmap).toEqual({ startDates: [], horizons: [], windows: [], stats: [] })
+  })
+})
+
+describe('getWindowMetric', () => {
+  it('reads the selected metric', () => {
+    const [window] = runRollingWindowAnalysis(generatePriceData('2018-01-01', 3), [], {
+      ticker: 'TEST',
+      horizonYears: 1,
+      amount: 100,
+      frequency: 'monthly',
+      isDRIP: true,
+    }).windows
+
+    expect(getWindowMetric(window, 'cagr')).toBe(window.cagr)
+    expect(getWindowMetric(window, 'totalReturn')).toBe(window.totalReturn)
+  })
+})
+
+describe('multi-ticker comparison', () => {
+  const config = {
+    ticker: 'TEST',
+    horizonYears: 1,
+    amount: 100,
+    frequency: 'monthly' as const,
+    isDRIP: true,
+  }
+
+  it('finds the range every history covers', () => {
+    const older = generatePriceData('2010-01-01', 10)
+    const newer = generatePriceData('2014-06-01', 10)
+
+    expect(getCommonPriceRange([older, newer])).toEqual({
+      firstDate: newer[0].date,
+      lastDate: older[older.length - 1].date,
+    })
+    expect(getCommonPriceRange([older, generatePriceData('2025-01-01', 1)])).toBeNull()
+    expect(getCommonPriceRange([older, []])).toBeNull()
+  })
+
+  it('gives clipped histories the same window start months', () => {
+    const older = generatePriceData('2010-01-01', 10)
+    const newer = generatePriceData('2014-06-01', 10, 50)
+    const range = getCommonPriceRange([older, newer])!
+
+    const a = runRollingWindowAnalysis(clipPriceHistory(older, range), [], config)
+    const b = runRollingWindowAnalysis(clipPriceHistory(newer, range), [], config)
+
+    expect(a.windows.length).toBeGreaterThan(0)
+    expect(a.windows.map((w) => w.startDate)).toEqual(b.windows.map((w) => w.startDate))
+    expect(a.dataRange.firstDate >= range.firstDate).toBe(true)
+    expect(a.dataRange.lastDate <= range.lastDate).toBe(true)
+  })
+
+  const window = (startDate: string, totalReturn: number, cagr: number): WindowResult => {
+    const [template] = runRollingWindowAnalysis(generatePriceData('2018-01-01', 3), [], config)
+      .windows
+    return { ...template, startDate, totalReturn, cagr }
+  }
+
+  it('compares windows starting in the same month', () => {
+
+    const matchup = compareRollingWindows(
+      [
+        window('2018-01-01', 10, 10),
+        window('2018-02-01', 5, 5),
+        window('2018-03-01', 20, 20),
+        window('2018-04-01', 50, 50), // No opponent window
+      ],
+      [
+        window('2018-01-01', 4, 4),
+        window('2018-02-01', 8, 8),
+        window('2018-03-01', 12, 12),
+      ]
+    )
+
+    expect(matchup.windowCount).toBe(3)
+    expect(matchup.winRate).toBeCloseTo(200 / 3)
+    expect(matchup.medianCAGRDifference).toBe(6)
+  })
+
+  it('decides wins by CAGR, like the median difference', () => {
+    // Higher total returns, but lower CAGRs
+    const matchup = compareRollingWindows(
+      [window('2018-01-01', 30, 4), window('2018-02-01', 30, 5), window('2018-03-01', 30, 9)],
+      [window('2018-01-01', 20, 6), window('2018-02-01', 20, 7), window('2018-03-01', 20, 8)]
+    )
+
+    expect(matchup.winRate).toBeCloseTo(100 / 3)
+    expect(matchup.medianCAGRDifference).toBe(-2)
+  })
+
+  it('reports no matched windows without overlap', () => {
+    expect(compareRollingWindows([], [])).toEqual({
+      windowCount: 0,
+      winRate: 0,
+      medianCAGRDifference: 0,
+    })
   })
 })
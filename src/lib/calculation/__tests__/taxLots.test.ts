@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createLotLedger,
+  getHoldingTerm,
+  mergeTaxLotReports,
+} from '../taxLots'
+
+describe('getHoldingTerm', () => {
+  it('is short-term through the one-year anniversary', () => {
+    expect(getHoldingTerm('2022-03-15', '2023-03-15')).toBe('short')
+    expect(getHoldingTerm('2022-03-15', '2023-03-16')).toBe('long')
+  })
+})
+
+describe('createLotLedger', () => {
+  // Three lots: 10 shares at $10, 10 at $30, 10 at $20
+  const seed = (method: 'fifo' | 'lifo' | 'hifo') => {
+    const ledger = createLotLedger(method)
+    ledger.buy('2023-01-02', 10, 100, 'contribution')
+    ledger.buy('2023-02-01', 10, 300, 'contribution')
+    ledger.buy('2023-03-01', 10, 200, 'dividend')
+    return ledger
+  }
+
+  it.each([
+    ['fifo' as const, '2023-01-02', 100],
+    ['lifo' as const, '2023-03-01', 200],
+    ['hifo' as const, '2023-02-01', 300],
+  ])('sells %s lots first', (method, acquired, basis) => {
+    const ledger = seed(method)
+    ledger.sell('2023-04-03', 10, 250)
+
+    const report = ledger.report('2023-04-03', 25)
+    expect(report.realized).toHaveLength(1)
+    expect(report.realized[0]).toMatchObject({ acquired, shares: 10, proceeds: 250 })
+    expect(report.realized[0].costBasis).toBeCloseTo(basis)
+    expect(report.realizedShortTerm).toBeCloseTo(250 - basis)
+    expect(report.lots).toHaveLength(2)
+    expect(report.costBasis).toBeCloseTo(600 - basis)
+  })
+
+  it('splits a sale across lots and prorates proceeds', () => {
+    const ledger = seed('fifo')
+    ledger.sell('2023-04-03', 15, 300)
+
+    const report = ledger.report('2023-04-03', 20)
+    expect(report.realized.map((sale) => sale.shares)).toEqual([10, 5])
+    expect(report.realized[0].proceeds).toBeCloseTo(200)
+    expect(report.realized[1].proceeds).toBeCloseTo(100)
+    expect(report.realized[1].costBasis).toBeCloseTo(150)
+    // Half of the second lot is still open
+    expect(report.lots[0]).toMatchObject({ acquired: '2023-02-01', shares: 5 })
+    expect(report.lots[0].costBasis).toBeCloseTo(150)
+  })
+
+  it('splits unrealized gains by holding period', () => {
+    const ledger = createLotLedger()
+    ledger.buy('2022-01-03', 10, 100, 'contribution')
+    ledger.buy('2023-01-03', 10, 200, 'contribution')
+
+    const report = ledger.report('2023-06-01', 30)
+    expect(report.unrealizedLongTerm).toBeCloseTo(200)
+    expect(report.unrealizedShortTerm).toBeCloseTo(100)
+    expect(report.lots.map((lot) => lot.term)).toEqual(['long', 'short'])
+  })
+
+  it('shrinks shares without touching cost basis', () => {
+    const ledger = createLotLedger()
+    ledger.buy('2023-01-02', 10, 100, 'contribution')
+    ledger.shrink(0.9)
+    ledger.buy('2023-02-01', 10, 100, 'contribution')
+
+    const report = ledger.report('2023-03-01', 10)
+    expect(report.lots.map((lot) => lot.shares)).toEqual([9, 10])
+    expect(report.costBasis).toBeCloseTo(200)
+  })
+})
+
+describe('mergeTaxLotReports', () => {
+  it('tags lots with their ticker and sums the totals', () => {
+    const aaa = createLotLedger()
+    aaa.buy('2023-02-01', 10, 100, 'contribution')
+    aaa.sell('2023-03-01', 5, 75)
+    const bbb = createLotLedger()
+    bbb.buy('2023-01-02', 10, 200, 'contribution')
+
+    const merged = mergeTaxLotReports(
+      [
+        { ticker: 'AAA', report: aaa.report('2023-03-01', 15) },
+        { ticker: 'BBB', report: bbb.report('2023-03-01', 25) },
+      ],
+      'fifo'
+    )
+
+    expect(merged.lots.map((lot) => lot.ticker)).toEqual(['BBB', 'AAA'])
+    expect(merged.realized[0].ticker).toBe('AAA')
+    expect(merged.costBasis).toBeCloseTo(250)
+    expect(merged.unrealizedShortTerm).toBeCloseTo(25 + 50)
+    expect(merged.realizedShortTerm).toBeCloseTo(25)
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { calculateXIRR } from '../xirr'
+
+describe('calculateXIRR', () => {
+  it('matches simple annual growth for a single deposit', () => {
+    const xirr = calculateXIRR([
+      { date: '2020-01-01', amount: -1000 },
+      { date: '2021-01-01', amount: 1100 },
+    ])
+    // 366 days in 2020 against a 365.25-day year
+    expect(xirr).toBeCloseTo((Math.pow(1.1, 365.25 / 366) - 1) * 100, 4)
+  })
+
+  it('credits late contributions for less time than early ones', () => {
+    // $1000 at start and $1000 halfway, ending at $2100
+    const xirr = calculateXIRR([
+      { date: '2020-01-01', amount: -1000 },
+      { date: '2020-07-01', amount: -1000 },
+      { date: '2021-01-01', amount: 2100 },
+    ])
+    // CAGR on total invested would report 5%
+    expect(xirr).toBeGreaterThan(6)
+    expect(xirr).toBeLessThan(7)
+  })
+
+  it('treats interim inflows as returned cash', () => {
+    const withDividend = calculateXIRR([
+      { date: '2020-01-01', amount: -1000 },
+      { date: '2020-07-01', amount: 50 },
+      { date: '2021-01-01', amount: 1000 },
+    ])
+    expect(withDividend).toBeGreaterThan(4.9)
+    expect(withDividend).toBeLessThan(5.2)
+  })
+
+  it('handles losses', () => {
+    const xirr = calculateXIRR([
+      { date: '2020-01-01', amount: -1000 },
+      { date: '2022-01-01', amount: 250 },
+    ])
+    expect(xirr).toBeCloseTo(-50, 0)
+  })
+
+  it('returns 0 when no rate exists', () => {
+    expect(calculateXIRR([])).toBe(0)
+    expect(calculateXIRR([{ date: '2020-01-01', amount: -1000 }])).toBe(0)
+    expect(
+      calculateXIRR([
+        { date: '2020-01-01', amount: -1000 },
+        { date: '2021-01-01', amount: -1000 },
+      ])
+    ).toBe(0)
+    expect(
+      calculateXIRR([
+        { date: '2020-01-01', amount: -1000 },
+        { date: '2020-01-01', amount: 1000 },
+      ])
+    ).toBe(0)
+  })
+})
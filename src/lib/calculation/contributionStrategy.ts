@@ -0,0 +1,92 @@
+/**
+ * Contribution Strategies
+ *
+ * Rules that size each scheduled contribution. The engine asks the rule how much
+ * to invest on every scheduled trading day; plain DCA simply invests the
+ * scheduled amount.
+ */
+
+import type { ContributionStrategy, PricePoint } from '../api/types'
+
+export interface ContributionContext {
+  scheduledAmount: number     // What plain DCA would invest on this date
+  portfolioValue: number      // Market value (plus uninvested cash) before investing
+  priceHistory: PricePoint[]  // Full price history, including days before the simulation
+  index: number               // Position of the current trading day in priceHistory
+}
+
+/**
+ * Returns the amount to invest on a scheduled date (never negative)
+ */
+export type ContributionRule = (context: ContributionContext) => number
+
+/**
+ * Highest close over the lookback window ending at index
+ */
+function lookbackHigh(priceHistory: PricePoint[], index: number, lookbackDays: number): number {
+  let high = 0
+  for (let i = Math.max(0, index - lookbackDays + 1); i <= index; i++) {
+    high = Math.max(high, priceHistory[i].close)
+  }
+  return high
+}
+
+/**
+ * Simple moving average of closes over the lookback window ending at index
+ */
+function movingAverage(priceHistory: PricePoint[], index: number, lookbackDays: number): number {
+  const start = Math.max(0, index - lookbackDays + 1)
+  let sum = 0
+  for (let i = start; i <= index; i++) {
+    sum += priceHistory[i].close
+  }
+  return sum / (index - start + 1)
+}
+
+/**
+ * Build the contribution rule for a strategy.
+ * Value averaging keeps its target path between calls, so create a fresh rule per simulation.
+ * @param periodsPerYear - Scheduled contributions per year (for the target path's growth)
+ */
+export function createContributionRule(
+  strategy: ContributionStrategy,
+  periodsPerYear: number
+): ContributionRule {
+  switch (strategy.kind) {
+    case 'dca':
+      return ({ scheduledAmount }) => scheduledAmount
+
+    case 'valueAveraging': {
+      // The target grows by each scheduled amount plus the target return
+      const growthPerPeriod = Math.pow(1 + strategy.targetReturn / 100, 1 / periodsPerYear)
+      let targetValue = 0
+
+      return ({ scheduledAmount, portfolioValue }) => {
+        targetValue = targetValue * growthPerPeriod + scheduledAmount
+        const shortfall = targetValue - portfolioValue
+        // Ahead of the path: invest nothing rather than sell
+        return Math.min(Math.max(0, shortfall), scheduledAmount * strategy.maxMultiple)
+      }
+    }
+
+    case 'dipBuying':
+      return ({ scheduledAmount, priceHistory, index }) => {
+        const high = lookbackHigh(priceHistory, index, strategy.lookbackDays)
+        const drop = high > 0 ? (1 - priceHistory[index].close / high) * 100 : 0
+        return drop >= strategy.dipThreshold
+          ? scheduledAmount * strategy.dipMultiplier
+          : scheduledAmount
+      }
+
+    case 'movingAverage':
+      return ({ scheduledAmount, priceHistory, index }) => {
+        const price = priceHistory[index].close
+        const average = movingAverage(priceHistory, index, strategy.lookbackDays)
+
+        if (strategy.movingAverageAction === 'skipAbove') {
+          return price > average ? 0 : scheduledAmount
+        }
+        return price < average ? scheduledAmount * 2 : scheduledAmount
+      }
+  }
+}
@@ -12,38 +12,172 @@ import type {
   SimulationPoint,
   SimulationResult,
   InvestmentFrequency,
+  FeeModel,
+  CashFlow,
+  WithdrawalConfig,
+  HoldingHistory,
+  HoldingResult,
+  PortfolioConfig,
+  PortfolioPoint,
+  PortfolioResult,
+  RebalanceInterval,
+  LotSelectionMethod,
+  LotSource,
+  DividendTaxConfig,
+  DividendTiming,
+  ExecutionPrice,
+  ScheduleAnchor,
 } from '../api/types'
+import {
+  applyPurchaseCosts,
+  applyWholeSharePurchase,
+  applyShareSale,
+  sharesToRaise,
+  calculateExpenseRatioFee,
+  daysBetween,
+  getExecutionPrice,
+  NO_FEES,
+} from './feeModel'
+import { calculateXIRR } from './xirr'
+import { createContributionRule, type ContributionRule } from './contributionStrategy'
+import {
+  createLotLedger,
+  createEmptyTaxLotReport,
+  mergeTaxLotReports,
+} from './taxLots'
+import { applyDividendTax, NO_DIVIDEND_TAX } from './dividendTax'
+
+export const PERIODS_PER_YEAR: Record<InvestmentFrequency, number> = {
+  daily: 252,
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+  quarterly: 4,
+  annually: 1,
+}
+
+// Months between scheduled dates for the month-based frequencies
+const MONTH_STEPS: Partial<Record<InvestmentFrequency, number>> = {
+  monthly: 1,
+  quarterly: 3,
+  annually: 12,
+}
+
+const START_DATE_ANCHOR: ScheduleAnchor = { kind: 'startDate' }
+
+// Balances below a cent count as fully depleted
+const DEPLETION_THRESHOLD = 0.01
+
+// Drift (percentage points) small enough to count as already on target
+const REBALANCE_TOLERANCE = 0.01
+
+function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day))
+}
 
 /**
- * Get investment dates based on frequency
+ * Resolve a calendar anchor to a date within a month (month may overflow the year)
+ */
+function resolveMonthlyAnchor(
+  year: number,
+  month: number,
+  anchor: ScheduleAnchor,
+  defaultDay: number
+): Date {
+  const daysInMonth = utcDate(year, month + 1, 0).getUTCDate()
+
+  switch (anchor.kind) {
+    case 'dayOfMonth':
+      return utcDate(year, month, Math.min(anchor.day, daysInMonth))
+    case 'nthWeekday': {
+      if (anchor.nth < 0) {
+        const lastWeekday = utcDate(year, month, daysInMonth).getUTCDay()
+        return utcDate(year, month, daysInMonth - ((lastWeekday - anchor.weekday + 7) % 7))
+      }
+      const firstWeekday = utcDate(year, month, 1).getUTCDay()
+      const firstMatch = 1 + ((anchor.weekday - firstWeekday + 7) % 7)
+      return utcDate(year, month, firstMatch + (anchor.nth - 1) * 7)
+    }
+    case 'lastBusinessDay': {
+      const lastWeekday = utcDate(year, month, daysInMonth).getUTCDay()
+      const back = lastWeekday === 6 ? 1 : lastWeekday === 0 ? 2 : 0
+      return utcDate(year, month, daysInMonth - back)
+    }
+    default:
+      return utcDate(year, month, Math.min(defaultDay, daysInMonth))
+  }
+}
+
+/**
+ * Get investment dates based on frequency.
+ *
+ * Schedules repeat from the start date unless an anchor pins them to a weekday
+ * (weekly and bi-weekly) or a position in the month (monthly and longer).
+ * Semi-monthly always lands on the 1st and 15th, and daily lists every calendar
+ * day for the caller to match against trading days.
  */
 function getInvestmentDates(
   startDate: string,
   endDate: string,
-  frequency: InvestmentFrequency
+  frequency: InvestmentFrequency,
+  anchor: ScheduleAnchor = START_DATE_ANCHOR
 ): Set<string> {
   const dates = new Set<string>()
   const start = new Date(startDate)
   const end = new Date(endDate)
 
-  const current = new Date(start)
-
-  while (current <= end) {
-    dates.add(current.toISOString().split('T')[0])
-
-    switch (frequency) {
-      case 'weekly':
-        current.setDate(current.getDate() + 7)
-        break
-      case 'biweekly':
-        current.setDate(current.getDate() + 14)
-        break
-      case 'monthly':
-        current.setMonth(current.getMonth() + 1)
-        break
+  const addDaily = (first: Date, stepDays: number) => {
+    for (const current = new Date(first); current <= end; current.setUTCDate(current.getUTCDate() + stepDays)) {
+      dates.add(toISODate(current))
     }
   }
 
+  switch (frequency) {
+    case 'daily':
+      addDaily(start, 1)
+      return dates
+    case 'weekly':
+    case 'biweekly': {
+      const first = new Date(start)
+      if (anchor.kind === 'weekday') {
+        first.setUTCDate(first.getUTCDate() + ((anchor.weekday - start.getUTCDay() + 7) % 7))
+      }
+      addDaily(first, frequency === 'weekly' ? 7 : 14)
+      return dates
+    }
+    case 'semimonthly':
+      for (let month = start.getUTCMonth(); ; month++) {
+        const first = utcDate(start.getUTCFullYear(), month, 1)
+        if (first > end) break
+        for (const date of [first, utcDate(start.getUTCFullYear(), month, 15)]) {
+          if (date >= start && date <= end) dates.add(toISODate(date))
+        }
+      }
+      return dates
+  }
+
+  const monthStep = MONTH_STEPS[frequency] ?? 1
+
+  if (anchor.kind === 'startDate' || anchor.kind === 'weekday') {
+    const current = new Date(start)
+    while (current <= end) {
+      dates.add(toISODate(current))
+      current.setMonth(current.getMonth() + monthStep)
+    }
+    return dates
+  }
+
+  for (let month = start.getUTCMonth(); ; month += monthStep) {
+    const date = resolveMonthlyAnchor(start.getUTCFullYear(), month, anchor, start.getUTCDate())
+    if (date > end) break
+    if (date >= start) dates.add(toISODate(date))
+  }
+
   return dates
 }
 
@@ -52,7 +186,7 @@ function getInvestmentDates(
  */
 function findNearestTradingDay(
   targetDate: string,
-  priceMap: Map<string, PricePoint>,
+  priceMap: ReadonlyMap<string, unknown>,
   maxDaysForward: number = 7
 ): string | null {
   const target = new Date(targetDate)
@@ -70,21 +204,126 @@ function findNearestTradingDay(
   return null
 }
 
+/**
+ * Find the latest trading day on or before a date within the same month,
+ * not earlier than notBefore
+ */
+function findPreviousTradingDayInMonth(
+  targetDate: string,
+  priceMap: ReadonlyMap<string, unknown>,
+  notBefore: string = ''
+): string | null {
+  const checkDate = new Date(targetDate)
+  const month = checkDate.getUTCMonth()
+
+  while (checkDate.getUTCMonth() === month) {
+    const dateStr = toISODate(checkDate)
+    if (dateStr < notBefore) break
+    if (priceMap.has(dateStr)) return dateStr
+    checkDate.setUTCDate(checkDate.getUTCDate() - 1)
+  }
+
+  return null
+}
+
+/**
+ * Trading day a scheduled date executes on. Daily schedules only trade on days
+ * with a price. Month-based schedules anchored to the last business day fall
+ * back to the latest earlier trading day in that month (e.g. before a month-end
+ * holiday); other schedules roll forward to the next trading day.
+ */
+function resolveScheduledDay(
+  scheduledDate: string,
+  frequency: InvestmentFrequency,
+  priceMap: ReadonlyMap<string, unknown>,
+  anchor: ScheduleAnchor = START_DATE_ANCHOR,
+  notBefore?: string
+): string | null {
+  if (frequency === 'daily') return priceMap.has(scheduledDate) ? scheduledDate : null
+  if (anchor.kind === 'lastBusinessDay' && MONTH_STEPS[frequency] !== undefined) {
+    const previous = findPreviousTradingDayInMonth(scheduledDate, priceMap, notBefore)
+    if (previous) return previous
+  }
+  return findNearestTradingDay(scheduledDate, priceMap)
+}
+
+type ContributionPlan = Pick<
+  DCAConfig,
+  'amount' | 'annualIncrease' | 'amountOverrides' | 'pauses' | 'initialInvestment' | 'scheduleAnchor'
+>
+
+/**
+ * Whole years elapsed between two ISO dates (anniversary-based)
+ */
+function wholeYearsBetween(startDate: string, endDate: string): number {
+  const start = new Date(startDate)
+  const end = new Date(endDate)
+  let years = end.getUTCFullYear() - start.getUTCFullYear()
+  const beforeAnniversary =
+    end.getUTCMonth() < start.getUTCMonth() ||
+    (end.getUTCMonth() === start.getUTCMonth() && end.getUTCDate() < start.getUTCDate())
+  if (beforeAnniversary) years--
+  return Math.max(0, years)
+}
+
+/**
+ * Contribution amount for a scheduled date: the latest override (or the base amount)
+ * stepped up by the annual increase for each full year since it took effect.
+ * Returns 0 inside a pause.
+ */
+function getContributionAmount(
+  scheduledDate: string,
+  startDate: string,
+  plan: ContributionPlan
+): number {
+  const { annualIncrease = 0, amountOverrides = [], pauses = [] } = plan
+
+  if (pauses.some((pause) => scheduledDate >= pause.start && scheduledDate <= pause.end)) {
+    return 0
+  }
+
+  let baseAmount = plan.amount
+  let baseDate = startDate
+  for (const override of amountOverrides) {
+    if (override.date <= scheduledDate && override.date >= baseDate) {
+      baseAmount = override.amount
+      baseDate = override.date
+    }
+  }
+
+  return baseAmount * Math.pow(1 + annualIncrease / 100, wholeYearsBetween(baseDate, scheduledDate))
+}
+
 /**
  * Map scheduled investment dates to actual trading days
  */
-function buildInvestmentSchedule(
+export function buildInvestmentSchedule(
   startDate: string,
   endDate: string,
   frequency: InvestmentFrequency,
-  priceMap: Map<string, PricePoint>,
-  amount: number
+  priceMap: ReadonlyMap<string, unknown>,
+  plan: ContributionPlan
 ): Map<string, number> {
-  const investmentDates = getInvestmentDates(startDate, endDate, frequency)
+  const investmentDates = getInvestmentDates(startDate, endDate, frequency, plan.scheduleAnchor)
   const schedule = new Map<string, number>()
 
+  // Optional starting lump sum on the first trading day
+  if (plan.initialInvestment && plan.initialInvestment > 0) {
+    const tradingDate = findNearestTradingDay(startDate, priceMap)
+    if (tradingDate) schedule.set(tradingDate, plan.initialInvestment)
+  }
+
   for (const scheduledDate of investmentDates) {
-    const tradingDate = findNearestTradingDay(scheduledDate, priceMap)
+    const amount = getContributionAmount(scheduledDate, startDate, plan)
+    if (amount <= 0) continue
+
+    const tradingDate = resolveScheduledDay(
+      scheduledDate,
+      frequency,
+      priceMap,
+      plan.scheduleAnchor,
+      startDate
+    )
     if (!tradingDate) continue
 
     const existing = schedule.get(tradingDate) || 0
@@ -94,6 +333,27 @@ function buildInvestmentSchedule(
   return schedule
 }
 
+/**
+ * Map scheduled withdrawal dates to actual trading days
+ */
+function buildWithdrawalDates(
+  withdrawal: WithdrawalConfig,
+  range: SimulationRange,
+  priceMap: Map<string, PricePoint>
+): Set<string> {
+  const startDate = withdrawal.startDate && withdrawal.startDate > range.effectiveStart
+    ? withdrawal.startDate
+    : range.effectiveStart
+  const dates = new Set<string>()
+
+  for (const scheduledDate of getInvestmentDates(startDate, range.evaluationEnd, withdrawal.frequency)) {
+    const tradingDate = resolveScheduledDay(scheduledDate, withdrawal.frequency, priceMap)
+    if (tradingDate) dates.add(tradingDate)
+  }
+
+  return dates
+}
+
 /**
  * Build a map of ex-dividend dates to dividend amounts
  */
@@ -111,6 +371,60 @@ function buildDividendMap(dividends: DividendHistory[]): Map<string, number> {
   return map
 }
 
+/**
+ * Map each ex-date to the date its dividend is paid. Missing or out-of-order
+ * payment dates fall back to the ex-date.
+ */
+function buildPaymentDateMap(dividends: DividendHistory[]): Map<string, string> {
+  const map = new Map<string, string>()
+
+  for (const div of dividends) {
+    if (!div.exDate || div.amount <= 0) continue
+    const paymentDate = div.paymentDate && div.paymentDate > div.exDate ? div.paymentDate : div.exDate
+    const existing = map.get(div.exDate)
+    map.set(div.exDate, existing && existing > paymentDate ? existing : paymentDate)
+  }
+
+  return map
+}
+
+/**
+ * Returns the dividend cash received on a trading day.
+ * Called once per trading day in order, with the shares held before that day's trades.
+ */
+type DividendCollector = (date: string, shares: number) => number
+
+/**
+ * Track dividends from entitlement to payout. Entitlement is fixed by the shares
+ * held on the ex-date; the cash arrives on the ex-date itself or, with paymentDate
+ * timing, on the first trading day on or after the payment date.
+ */
+function createDividendCollector(
+  dividends: DividendHistory[],
+  timing: DividendTiming
+): DividendCollector {
+  const amounts = buildDividendMap(dividends)
+  const paymentDates = timing === 'paymentDate' ? buildPaymentDateMap(dividends) : null
+  // Entitled dividends awaiting payout, by payment date
+  const pending = new Map<string, number>()
+
+  return (date, shares) => {
+    const amount = amounts.get(date)
+    if (amount && shares > 0) {
+      const paymentDate = paymentDates?.get(date) ?? date
+      pending.set(paymentDate, (pending.get(paymentDate) ?? 0) + amount * shares)
+    }
+
+    let received = 0
+    pending.forEach((owed, paymentDate) => {
+      if (paymentDate > date) return
+      received += owed
+      pending.delete(paymentDate)
+    })
+    return received
+  }
+}
+
 /**
  * Calculate CAGR (Compound Annual Growth Rate)
  */
@@ -124,85 +438,331 @@ function calculateCAGR(
 }
 
 /**
- * Main DCA simulation function
+ * Years elapsed between two ISO dates
  */
-export function runDCASimulation(
-  priceHistory: PricePoint[],
-  dividendHistory: DividendHistory[],
-  config: Omit<DCAConfig, 'ticker'>
-): SimulationResult {
-  const { amount, frequency, startDate, isDRIP } = config
+function yearsBetween(startDate: string, endDate: string): number {
+  const startMs = new Date(startDate).getTime()
+  const endMs = new Date(endDate).getTime()
+  return (endMs - startMs) / (1000 * 60 * 60 * 24 * 365.25)
+}
 
-  if (priceHistory.length === 0) {
-    return {
-      points: [],
-      finalShares: 0,
-      totalInvested: 0,
-      totalDividends: 0,
-      finalValue: 0,
-      totalReturn: 0,
-      cagr: 0,
-    }
+function createEmptyResult(): SimulationResult {
+  return {
+    points: [],
+    finalShares: 0,
+    totalInvested: 0,
+    totalDividends: 0,
+    finalValue: 0,
+    totalReturn: 0,
+    cagr: 0,
+    xirr: 0,
+    totalFees: 0,
+    totalDividendTaxes: 0,
+    totalWithdrawn: 0,
+    depletionDate: null,
+    remainingBalance: 0,
+    taxLots: createEmptyTaxLotReport(),
   }
+}
 
-  // Build lookup maps
+function buildPriceMap(priceHistory: PricePoint[]): Map<string, PricePoint> {
   const priceMap = new Map<string, PricePoint>()
   for (const point of priceHistory) {
     priceMap.set(point.date, point)
   }
+  return priceMap
+}
 
-  const dividendMap = buildDividendMap(dividendHistory)
+interface SimulationRange {
+  effectiveStart: string      // First date considered (clamped to available data)
+  contributionEnd: string     // Last date a scheduled contribution may land on
+  evaluationEnd: string       // Last date a simulation point is recorded for
+}
 
-  // Get first and last available dates
+/**
+ * Resolve the simulated date range against the available price history.
+ *
+ * Contributions stop at the configured end date (or the last price if none is set).
+ * With holdAfterEnd the position keeps being marked to market through the last price,
+ * so a single full-history fetch can serve any date range.
+ */
+function resolveSimulationRange(
+  priceHistory: Pick<PricePoint, 'date'>[],
+  config: Pick<DCAConfig, 'startDate' | 'endDate' | 'holdAfterEnd' | 'withdrawal'>
+): SimulationRange {
   const firstDate = priceHistory[0].date
   const lastDate = priceHistory[priceHistory.length - 1].date
 
   // Adjust start date if before available data
-  const effectiveStart = startDate < firstDate ? firstDate : startDate
+  const effectiveStart = config.startDate < firstDate ? firstDate : config.startDate
+  const contributionEnd = config.endDate && config.endDate < lastDate
+    ? config.endDate
+    : lastDate
+  // Withdrawals keep the simulation running to the latest price
+  const evaluationEnd = config.holdAfterEnd || config.withdrawal ? lastDate : contributionEnd
+
+  return { effectiveStart, contributionEnd, evaluationEnd }
+}
 
-  // Map scheduled investments to trading days
-  const investmentsByDate = buildInvestmentSchedule(
-    effectiveStart,
-    lastDate,
-    frequency,
-    priceMap,
-    amount
-  )
+type SimulationTotals = Pick<
+  SimulationResult,
+  | 'finalShares'
+  | 'totalInvested'
+  | 'totalDividends'
+  | 'totalFees'
+  | 'totalDividendTaxes'
+  | 'totalWithdrawn'
+  | 'depletionDate'
+  | 'taxLots'
+>
+
+/**
+ * Derive the headline return figures from the recorded points and cash flows.
+ * Only the last point is read.
+ */
+export function summarizeSimulation(
+  points: SimulationPoint[],
+  cashFlows: CashFlow[],
+  effectiveStart: string,
+  totals: SimulationTotals
+): SimulationResult {
+  const { totalInvested, totalWithdrawn } = totals
+
+  // Calculate final metrics
+  const finalValue = points.length > 0
+    ? points[points.length - 1].totalValue
+    : 0
+
+  // Withdrawals already paid out still count toward the outcome
+  const endingWealth = finalValue + totalWithdrawn
+
+  const totalReturn = totalInvested > 0
+    ? ((endingWealth - totalInvested) / totalInvested) * 100
+    : 0
+
+  // Calculate years for CAGR (through the last recorded point)
+  const years = points.length > 0
+    ? yearsBetween(effectiveStart, points[points.length - 1].date)
+    : 0
+
+  const cagr = calculateCAGR(totalInvested, endingWealth, years)
+
+  const lastPoint = points.length > 0 ? points[points.length - 1] : null
+  const remainingBalance = lastPoint ? lastPoint.marketValue + lastPoint.cash : 0
+
+  // Money-weighted return: cash dividends and withdrawals were already paid out as
+  // flows, so the terminal flow is only what is still held
+  if (lastPoint) {
+    cashFlows.push({ date: lastPoint.date, amount: remainingBalance })
+  }
+  const xirr = calculateXIRR(cashFlows)
+
+  return {
+    ...totals,
+    points,
+    finalValue,
+    totalReturn,
+    cagr,
+    xirr,
+    remainingBalance,
+  }
+}
+
+interface ScheduleSimulationOptions {
+  isDRIP: boolean
+  fees: FeeModel
+  dividendTax: DividendTaxConfig
+  dividendTiming: DividendTiming
+  executionPrice: ExecutionPrice
+  wholeShares: boolean
+  withdrawal?: WithdrawalConfig
+  withdrawalDates: Set<string>
+  contributionRule?: ContributionRule
+  lotSelection: LotSelectionMethod
+}
+
+/**
+ * Core daily loop shared by the DCA and lump sum simulations.
+ *
+ * Walks every trading day in the range, applying expense ratio accrual, after-tax
+ * dividends (on the ex-date or payment date) and the scheduled contributions, sized
+ * by the contribution rule when one is given. Trades fill at the configured
+ * execution price while holdings are marked at the close. In whole-share mode
+ * contributions and DRIP dividends land in a cash balance that buys
+ * floor(cash / price) shares, with the remainder carried to the next purchase.
+ * Withdrawals are paid from cash first, then by selling shares, until the portfolio
+ * is depleted. Every purchase opens a tax lot, and withdrawal sales draw from the
+ * lots in lotSelection order.
+ */
+function simulateSchedule(
+  priceHistory: PricePoint[],
+  dividendHistory: DividendHistory[],
+  investmentsByDate: Map<string, number>,
+  range: SimulationRange,
+  options: ScheduleSimulationOptions
+): SimulationResult {
+  const { effectiveStart, evaluationEnd } = range
+  const {
+    isDRIP,
+    fees,
+    dividendTax,
+    dividendTiming,
+    executionPrice,
+    wholeShares,
+    withdrawal,
+    withdrawalDates,
+    contributionRule,
+    lotSelection,
+  } = options
 
   // Simulation state
   let totalShares = 0
   let totalInvested = 0
   let cumulativeDividends = 0
+  let cumulativeFees = 0
+  let cumulativeDividendTaxes = 0
+  let cash = 0
+  let totalWithdrawn = 0
+  let depletionDate: string | null = null
+  let firstWithdrawalDate: string | null = null
+  let baseAnnualWithdrawal = 0
+  let previousDate: string | null = null
+  let lastPrice = 0
 
   const points: SimulationPoint[] = []
+  const cashFlows: CashFlow[] = []
+  const ledger = createLotLedger(lotSelection)
+  const collectDividends = createDividendCollector(dividendHistory, dividendTiming)
+
+  // Buy shares with new money, either fractionally or in whole shares from cash
+  const buy = (amount: number, price: number, date: string, source: LotSource) => {
+    if (wholeShares) {
+      cash += amount
+      const fill = applyWholeSharePurchase(cash, price, fees)
+      totalShares += fill.shares
+      cash -= fill.cost
+      cumulativeFees += fill.fees
+      ledger.buy(date, fill.shares, fill.cost, source)
+      return
+    }
+
+    const fill = applyPurchaseCosts(amount, price, fees)
+    totalShares += fill.shares
+    cumulativeFees += fill.fees
+    ledger.buy(date, fill.shares, fill.cost, source)
+  }
+
+  // Size a withdrawal according to the configured strategy
+  const getWithdrawalAmount = (config: WithdrawalConfig, date: string, portfolioValue: number) => {
+    const periodsPerYear = PERIODS_PER_YEAR[config.frequency]
+
+    switch (config.strategy) {
+      case 'fixedAmount':
+        return config.amount
+      case 'fixedPercent':
+        return (portfolioValue * config.rate) / 100 / periodsPerYear
+      case 'inflationAdjusted':
+        // The first withdrawal fixes the dollar amount; later years only add inflation
+        if (!firstWithdrawalDate) {
+          firstWithdrawalDate = date
+          baseAnnualWithdrawal = (portfolioValue * config.rate) / 100
+        }
+        return (baseAnnualWithdrawal / periodsPerYear) *
+          Math.pow(1 + config.inflationRate / 100, wholeYearsBetween(firstWithdrawalDate, date))
+    }
+  }
+
+  // Pay a withdrawal from cash, then by selling shares; returns the amount paid
+  const withdraw = (amount: number, price: number, date: string): number => {
+    const sharesNeeded = sharesToRaise(Math.max(0, amount - cash), price, fees)
+    const sharesToSell = Math.min(
+      wholeShares ? Math.ceil(sharesNeeded - 1e-9) : sharesNeeded,
+      totalShares
+    )
+
+    const sale = applyShareSale(sharesToSell, price, fees)
+    totalShares -= sale.shares
+    cumulativeFees += sale.fees
+    ledger.sell(date, sale.shares, sale.cost)
+
+    const available = cash + sale.cost
+    const paid = Math.min(amount, available)
+    cash = available - paid
+    return paid
+  }
 
   // Iterate through each trading day
-  for (const pricePoint of priceHistory) {
-    const { date, close: price } = pricePoint
+  for (let index = 0; index < priceHistory.length; index++) {
+    const { date, close: price } = priceHistory[index]
 
     if (date < effectiveStart) continue
+    if (date > evaluationEnd) break
+
+    // Accrue the expense ratio since the previous trading day by redeeming shares
+    if (previousDate && totalShares > 0) {
+      const expenseFee = calculateExpenseRatioFee(
+        totalShares * price,
+        fees.expenseRatio,
+        daysBetween(previousDate, date)
+      )
+      const redeemed = expenseFee / price
+      ledger.shrink((totalShares - redeemed) / totalShares)
+      totalShares -= redeemed
+      cumulativeFees += expenseFee
+    }
+    previousDate = date
+    lastPrice = price
 
-    // Check for dividend on this day (based on ex-date)
-    const dividendAmount = dividendMap.get(date)
-    if (dividendAmount && totalShares > 0) {
-      const dividendReceived = dividendAmount * totalShares
+    // Trades fill at the configured execution price; holdings are valued at the close
+    const buyPrice = getExecutionPrice(priceHistory[index], executionPrice, 'buy')
+
+    // Dividends are paid at this day's price; taxes come out first and only the
+    // net amount is reinvested or paid out
+    const grossDividend = collectDividends(date, totalShares)
+    if (grossDividend > 0) {
+      const { net: dividendReceived, taxes } = applyDividendTax(grossDividend, dividendTax)
+      cumulativeDividendTaxes += taxes
 
       if (isDRIP) {
         // Reinvest dividends - buy more shares
-        const newShares = dividendReceived / price
-        totalShares += newShares
+        buy(dividendReceived, buyPrice, date, 'dividend')
       } else {
         // Accumulate cash dividends
         cumulativeDividends += dividendReceived
+        cashFlows.push({ date, amount: dividendReceived })
       }
     }
 
     // Apply scheduled investment if one maps to this trading day
-    const investmentAmount = investmentsByDate.get(date)
+    const scheduledAmount = investmentsByDate.get(date)
+    const investmentAmount = scheduledAmount && contributionRule
+      ? contributionRule({
+          scheduledAmount,
+          portfolioValue: totalShares * price + cash,
+          priceHistory,
+          index,
+        })
+      : scheduledAmount
     if (investmentAmount) {
-      const sharesBought = investmentAmount / price
-      totalShares += sharesBought
+      buy(investmentAmount, buyPrice, date, 'contribution')
       totalInvested += investmentAmount
+      cashFlows.push({ date, amount: -investmentAmount })
+    }
+
+    // Apply scheduled withdrawal until the portfolio runs out
+    if (withdrawal && !depletionDate && withdrawalDates.has(date)) {
+      const portfolioValue = totalShares * price + cash
+      if (portfolioValue > 0) {
+        const requested = getWithdrawalAmount(withdrawal, date, portfolioValue)
+        const salePrice = getExecutionPrice(priceHistory[index], executionPrice, 'sell')
+        const paid = withdraw(requested, salePrice, date)
+        totalWithdrawn += paid
+        if (paid > 0) cashFlows.push({ date, amount: paid })
+
+        if (paid < requested - DEPLETION_THRESHOLD || totalShares * price + cash < DEPLETION_THRESHOLD) {
+          depletionDate = date
+        }
+      }
     }
 
     // Calculate current market value
@@ -215,35 +775,81 @@ export function runDCASimulation(
       dividends: cumulativeDividends,
       marketValue,
       shares: totalShares,
-      totalValue: marketValue + cumulativeDividends,
+      totalValue: marketValue + cumulativeDividends + cash,
+      fees: cumulativeFees,
+      cash,
+      withdrawn: totalWithdrawn,
     })
   }
 
-  // Calculate final metrics
-  const finalValue = points.length > 0
-    ? points[points.length - 1].totalValue
-    : 0
-
-  const totalReturn = totalInvested > 0
-    ? ((finalValue - totalInvested) / totalInvested) * 100
-    : 0
-
-  // Calculate years for CAGR
-  const startMs = new Date(effectiveStart).getTime()
-  const endMs = new Date(lastDate).getTime()
-  const years = (endMs - startMs) / (1000 * 60 * 60 * 24 * 365.25)
+  const lastPoint = points.length > 0 ? points[points.length - 1] : null
 
-  const cagr = calculateCAGR(totalInvested, finalValue, years)
-
-  return {
-    points,
+  return summarizeSimulation(points, cashFlows, effectiveStart, {
     finalShares: totalShares,
     totalInvested,
     totalDividends: cumulativeDividends,
-    finalValue,
-    totalReturn,
-    cagr,
+    totalFees: cumulativeFees,
+    totalDividendTaxes: cumulativeDividendTaxes,
+    totalWithdrawn,
+    depletionDate,
+    taxLots: lastPoint
+      ? ledger.report(lastPoint.date, lastPrice)
+      : createEmptyTaxLotReport(lotSelection),
+  })
+}
+
+/**
+ * Main DCA simulation function
+ */
+export function runDCASimulation(
+  priceHistory: PricePoint[],
+  dividendHistory: DividendHistory[],
+  config: Omit<DCAConfig, 'ticker'>
+): SimulationResult {
+  const {
+    frequency,
+    isDRIP,
+    fees = NO_FEES,
+    dividendTax = NO_DIVIDEND_TAX,
+    dividendTiming = 'exDate',
+    executionPrice = 'close',
+    wholeShares = false,
+  } = config
+
+  if (priceHistory.length === 0) {
+    return createEmptyResult()
   }
+
+  // Build lookup maps
+  const priceMap = buildPriceMap(priceHistory)
+
+  const range = resolveSimulationRange(priceHistory, config)
+
+  // Map scheduled investments to trading days
+  const investmentsByDate = buildInvestmentSchedule(
+    range.effectiveStart,
+    range.contributionEnd,
+    frequency,
+    priceMap,
+    config
+  )
+
+  return simulateSchedule(priceHistory, dividendHistory, investmentsByDate, range, {
+    isDRIP,
+    fees,
+    dividendTax,
+    dividendTiming,
+    executionPrice,
+    wholeShares,
+    withdrawal: config.withdrawal,
+    withdrawalDates: config.withdrawal
+      ? buildWithdrawalDates(config.withdrawal, range, priceMap)
+      : new Set(),
+    contributionRule: config.strategy
+      ? createContributionRule(config.strategy, PERIODS_PER_YEAR[frequency])
+      : undefined,
+    lotSelection: config.lotSelection ?? 'fifo',
+  })
 }
 
 /**
@@ -255,49 +861,34 @@ export function runLumpSumSimulation(
   config: Omit<DCAConfig, 'ticker'>,
   totalInvestmentOverride?: number
 ): SimulationResult {
-  const { amount, frequency, startDate, isDRIP } = config
+  const {
+    frequency,
+    isDRIP,
+    fees = NO_FEES,
+    dividendTax = NO_DIVIDEND_TAX,
+    dividendTiming = 'exDate',
+    executionPrice = 'close',
+    wholeShares = false,
+  } = config
 
   if (priceHistory.length === 0) {
-    return {
-      points: [],
-      finalShares: 0,
-      totalInvested: 0,
-      totalDividends: 0,
-      finalValue: 0,
-      totalReturn: 0,
-      cagr: 0,
-    }
-  }
-
-  const priceMap = new Map<string, PricePoint>()
-  for (const point of priceHistory) {
-    priceMap.set(point.date, point)
+    return createEmptyResult()
   }
 
-  const dividendMap = buildDividendMap(dividendHistory)
+  const priceMap = buildPriceMap(priceHistory)
 
-  const firstDate = priceHistory[0].date
-  const lastDate = priceHistory[priceHistory.length - 1].date
-  const effectiveStart = startDate < firstDate ? firstDate : startDate
+  const range = resolveSimulationRange(priceHistory, config)
 
   const investmentsByDate = buildInvestmentSchedule(
-    effectiveStart,
-    lastDate,
+    range.effectiveStart,
+    range.contributionEnd,
     frequency,
     priceMap,
-    amount
+    config
   )
 
   if (investmentsByDate.size === 0) {
-    return {
-      points: [],
-      finalShares: 0,
-      totalInvested: 0,
-      totalDividends: 0,
-      finalValue: 0,
-      totalReturn: 0,
-      cagr: 0,
-    }
+    return createEmptyResult()
   }
 
   const scheduledTotal = Array.from(investmentsByDate.values())
@@ -306,7 +897,7 @@ export function runLumpSumSimulation(
 
   let firstInvestmentDate: string | null = null
   for (const pricePoint of priceHistory) {
-    if (pricePoint.date < effectiveStart) continue
+    if (pricePoint.date < range.effectiveStart) continue
     if (investmentsByDate.has(pricePoint.date)) {
       firstInvestmentDate = pricePoint.date
       break
@@ -314,82 +905,368 @@ export function runLumpSumSimulation(
   }
 
   if (!firstInvestmentDate || totalInvestment <= 0) {
-    return {
-      points: [],
-      finalShares: 0,
-      totalInvested: 0,
-      totalDividends: 0,
-      finalValue: 0,
-      totalReturn: 0,
-      cagr: 0,
-    }
+    return createEmptyResult()
   }
 
-  let totalShares = 0
+  // The whole amount goes in on the first scheduled trading day
+  const lumpSumSchedule = new Map([[firstInvestmentDate, totalInvestment]])
+
+  return simulateSchedule(priceHistory, dividendHistory, lumpSumSchedule, range, {
+    isDRIP,
+    fees,
+    dividendTax,
+    dividendTiming,
+    executionPrice,
+    wholeShares,
+    withdrawal: config.withdrawal,
+    withdrawalDates: config.withdrawal
+      ? buildWithdrawalDates(config.withdrawal, range, priceMap)
+      : new Set(),
+    lotSelection: config.lotSelection ?? 'fifo',
+  })
+}
+
+interface AlignedCalendar {
+  dates: string[]                   // Union of trading days every holding has started on
+  closes: Map<string, number[]>     // Close per holding by date, carried forward on days it did not trade
+  bars: Map<string, PricePoint[]>   // Price point per holding by date; a flat bar at the carried close on days it did not trade
+}
+
+/**
+ * Merge the holdings' trading calendars over the span they all cover.
+ * Exchanges close on different holidays, so a holding with no price on a given day
+ * keeps its previous close.
+ */
+function alignPriceCalendars(priceHistories: PricePoint[][]): AlignedCalendar {
+  const firstCommon = priceHistories
+    .map((history) => history[0].date)
+    .reduce((latest, date) => (date > latest ? date : latest))
+  const lastCommon = priceHistories
+    .map((history) => history[history.length - 1].date)
+    .reduce((earliest, date) => (date < earliest ? date : earliest))
+
+  const dates = Array.from(
+    new Set(priceHistories.flatMap((history) => history.map((point) => point.date)))
+  )
+    .filter((date) => date >= firstCommon && date <= lastCommon)
+    .sort()
+
+  const closes = new Map<string, number[]>()
+  const bars = new Map<string, PricePoint[]>()
+  const cursors = priceHistories.map(() => 0)
+  const lastClose = priceHistories.map(() => 0)
+
+  for (const date of dates) {
+    const dayBars = priceHistories.map((history, i) => {
+      let traded: PricePoint | null = null
+      while (cursors[i] < history.length && history[cursors[i]].date <= date) {
+        traded = history[cursors[i]]
+        lastClose[i] = traded.close
+        cursors[i]++
+      }
+      if (traded?.date === date) return traded
+      const close = lastClose[i]
+      return { date, open: close, high: close, low: close, close, volume: 0 }
+    })
+    closes.set(date, [...lastClose])
+    bars.set(date, dayBars)
+  }
+
+  return { dates, closes, bars }
+}
+
+/**
+ * Key identifying the rebalancing period a date falls in
+ */
+function getRebalancePeriod(date: string, interval: RebalanceInterval): string {
+  const [year, month] = date.split('-')
+
+  switch (interval) {
+    case 'monthly':
+      return `${year}-${month}`
+    case 'quarterly':
+      return `${year}-Q${Math.ceil(Number(month) / 3)}`
+    case 'annually':
+      return year
+  }
+}
+
+function createEmptyPortfolioResult(): PortfolioResult {
+  return {
+    ...createEmptyResult(),
+    points: [],
+    holdings: [],
+    rebalanceCount: 0,
+  }
+}
+
+/**
+ * Multi-asset portfolio DCA simulation.
+ *
+ * Each contribution is split across the holdings by target weight. Periodic
+ * rebalancing resets the weights on the first trading day of every interval;
+ * threshold rebalancing does so whenever a holding drifts past the band. A
+ * rebalance sells the overweight holdings and spreads the net proceeds over the
+ * underweight ones in proportion to their shortfall. Each holding keeps its own
+ * tax lots, so rebalancing sales realize gains. Trades fill at the configured
+ * execution price, and in whole-share mode each holding keeps its own cash
+ * balance the way simulateSchedule does, with rebalancing selling whole shares.
+ */
+export function runPortfolioSimulation(
+  histories: Record<string, HoldingHistory>,
+  config: PortfolioConfig
+): PortfolioResult {
+  const {
+    frequency,
+    isDRIP,
+    fees = NO_FEES,
+    dividendTax = NO_DIVIDEND_TAX,
+    dividendTiming = 'exDate',
+    rebalance,
+    lotSelection = 'fifo',
+    executionPrice = 'close',
+    wholeShares = false,
+  } = config
+
+  const holdings = config.holdings.filter((holding) => holding.weight > 0)
+  if (
+    holdings.length === 0 ||
+    holdings.some((holding) => !histories[holding.ticker]?.prices.length)
+  ) {
+    return createEmptyPortfolioResult()
+  }
+
+  const tickers = holdings.map((holding) => holding.ticker)
+  const totalWeight = holdings.reduce((sum, holding) => sum + holding.weight, 0)
+  const targetWeights = holdings.map((holding) => holding.weight / totalWeight)
+
+  const calendar = alignPriceCalendars(tickers.map((ticker) => histories[ticker].prices))
+  if (calendar.dates.length === 0) {
+    return createEmptyPortfolioResult()
+  }
+
+  const dividendCollectors = tickers.map((ticker) =>
+    createDividendCollector(histories[ticker].dividends, dividendTiming)
+  )
+  const range = resolveSimulationRange(
+    calendar.dates.map((date) => ({ date })),
+    config
+  )
+  const { effectiveStart, evaluationEnd } = range
+
+  const investmentsByDate = buildInvestmentSchedule(
+    effectiveStart,
+    range.contributionEnd,
+    frequency,
+    calendar.closes,
+    config
+  )
+
+  // Simulation state, per holding where it differs
+  const shares = tickers.map(() => 0)
+  const contributed = tickers.map(() => 0)
+  const holdingDividends = tickers.map(() => 0)
+  const cash = tickers.map(() => 0)             // Whole-share mode leftovers, per holding
+  const ledgers = tickers.map(() => createLotLedger(lotSelection))
   let totalInvested = 0
   let cumulativeDividends = 0
-  let hasInvested = false
-  const points: SimulationPoint[] = []
+  let cumulativeFees = 0
+  let cumulativeDividendTaxes = 0
+  let rebalanceCount = 0
+  let currentPeriod: string | null = null
+  let previousDate: string | null = null
+
+  const points: PortfolioPoint[] = []
+  const cashFlows: CashFlow[] = []
+
+  // Buy shares with new money, either fractionally or in whole shares from cash
+  const buy = (index: number, amount: number, price: number, date: string, source: LotSource) => {
+    if (wholeShares) {
+      cash[index] += amount
+      const fill = applyWholeSharePurchase(cash[index], price, fees)
+      shares[index] += fill.shares
+      cash[index] -= fill.cost
+      cumulativeFees += fill.fees
+      ledgers[index].buy(date, fill.shares, fill.cost, source)
+      return
+    }
 
-  for (const pricePoint of priceHistory) {
-    const { date, close: price } = pricePoint
+    const fill = applyPurchaseCosts(amount, price, fees)
+    shares[index] += fill.shares
+    cumulativeFees += fill.fees
+    ledgers[index].buy(date, fill.shares, fill.cost, source)
+  }
+
+  // Each holding's value, including its uninvested cash
+  const getHoldingValues = (closes: number[]) =>
+    shares.map((held, i) => held * closes[i] + cash[i])
 
+  // Largest distance from target weight, in percentage points
+  const getMaxDrift = (closes: number[]) => {
+    const values = getHoldingValues(closes)
+    const total = values.reduce((sum, value) => sum + value, 0)
+    if (total <= 0) return 0
+    return Math.max(...values.map((value, i) => Math.abs(value / total - targetWeights[i]))) * 100
+  }
+
+  const rebalanceHoldings = (closes: number[], bars: PricePoint[], date: string) => {
+    const values = getHoldingValues(closes)
+    const total = values.reduce((sum, value) => sum + value, 0)
+    const shortfalls = values.map((value, i) => targetWeights[i] * total - value)
+
+    let proceeds = 0
+    shortfalls.forEach((shortfall, i) => {
+      if (shortfall >= 0) return
+      const excessShares = -shortfall / closes[i]
+      const sharesToSell = Math.min(
+        wholeShares ? Math.floor(excessShares + 1e-9) : excessShares,
+        shares[i]
+      )
+      const salePrice = getExecutionPrice(bars[i], executionPrice, 'sell')
+      const sale = applyShareSale(sharesToSell, salePrice, fees)
+      shares[i] -= sale.shares
+      cumulativeFees += sale.fees
+      proceeds += sale.cost
+      ledgers[i].sell(date, sale.shares, sale.cost)
+    })
+
+    const totalShortfall = shortfalls.reduce((sum, shortfall) => sum + Math.max(0, shortfall), 0)
+    if (totalShortfall > 0) {
+      shortfalls.forEach((shortfall, i) => {
+        if (shortfall > 0) {
+          const buyPrice = getExecutionPrice(bars[i], executionPrice, 'buy')
+          buy(i, (proceeds * shortfall) / totalShortfall, buyPrice, date, 'rebalance')
+        }
+      })
+    }
+
+    rebalanceCount++
+  }
+
+  for (const date of calendar.dates) {
     if (date < effectiveStart) continue
+    if (date > evaluationEnd) break
+
+    const closes = calendar.closes.get(date)!
+    const bars = calendar.bars.get(date)!
+    // Trades fill at the configured execution price; holdings are valued at the close
+    const buyPrices = bars.map((bar) => getExecutionPrice(bar, executionPrice, 'buy'))
+
+    // Accrue the expense ratio since the previous trading day by redeeming shares
+    if (previousDate) {
+      const days = daysBetween(previousDate, date)
+      shares.forEach((held, i) => {
+        if (held <= 0) return
+        const expenseFee = calculateExpenseRatioFee(held * closes[i], fees.expenseRatio, days)
+        const redeemed = expenseFee / closes[i]
+        ledgers[i].shrink((held - redeemed) / held)
+        shares[i] -= redeemed
+        cumulativeFees += expenseFee
+      })
+    }
+    previousDate = date
 
-    // Apply dividends before the investment on the same date
-    const dividendAmount = dividendMap.get(date)
-    if (dividendAmount && totalShares > 0) {
-      const dividendReceived = dividendAmount * totalShares
+    // After-tax dividends are reinvested into the holding that paid them
+    dividendCollectors.forEach((collectDividends, i) => {
+      const grossDividend = collectDividends(date, shares[i])
+      if (grossDividend <= 0) return
 
+      const { net: dividendReceived, taxes } = applyDividendTax(grossDividend, dividendTax)
+      cumulativeDividendTaxes += taxes
       if (isDRIP) {
-        const newShares = dividendReceived / price
-        totalShares += newShares
+        buy(i, dividendReceived, buyPrices[i], date, 'dividend')
       } else {
         cumulativeDividends += dividendReceived
+        holdingDividends[i] += dividendReceived
+        cashFlows.push({ date, amount: dividendReceived })
       }
+    })
+
+    // Split the scheduled contribution by target weight
+    const investmentAmount = investmentsByDate.get(date)
+    if (investmentAmount) {
+      targetWeights.forEach((weight, i) => {
+        buy(i, investmentAmount * weight, buyPrices[i], date, 'contribution')
+        contributed[i] += investmentAmount * weight
+      })
+      totalInvested += investmentAmount
+      cashFlows.push({ date, amount: -investmentAmount })
     }
 
-    if (!hasInvested && date === firstInvestmentDate) {
-      const sharesBought = totalInvestment / price
-      totalShares += sharesBought
-      totalInvested = totalInvestment
-      hasInvested = true
+    if (rebalance.strategy === 'periodic') {
+      const period = getRebalancePeriod(date, rebalance.interval)
+      if (currentPeriod !== null && period !== currentPeriod && getMaxDrift(closes) > REBALANCE_TOLERANCE) {
+        rebalanceHoldings(closes, bars, date)
+      }
+      currentPeriod = period
+    } else if (rebalance.strategy === 'threshold' && getMaxDrift(closes) > rebalance.threshold) {
+      rebalanceHoldings(closes, bars, date)
     }
 
-    const marketValue = totalShares * price
+    const holdingValues: Record<string, number> = {}
+    let marketValue = 0
+    tickers.forEach((ticker, i) => {
+      holdingValues[ticker] = shares[i] * closes[i]
+      marketValue += holdingValues[ticker]
+    })
+
+    const uninvested = cash.reduce((sum, held) => sum + held, 0)
 
     points.push({
       date,
       principal: totalInvested,
       dividends: cumulativeDividends,
       marketValue,
-      shares: totalShares,
-      totalValue: marketValue + cumulativeDividends,
+      shares: shares.reduce((sum, held) => sum + held, 0),
+      totalValue: marketValue + cumulativeDividends + uninvested,
+      fees: cumulativeFees,
+      cash: uninvested,
+      withdrawn: 0,
+      holdingValues,
     })
   }
 
-  const finalValue = points.length > 0
-    ? points[points.length - 1].totalValue
-    : 0
-
-  const totalReturn = totalInvested > 0
-    ? ((finalValue - totalInvested) / totalInvested) * 100
-    : 0
-
-  const startMs = new Date(effectiveStart).getTime()
-  const endMs = new Date(lastDate).getTime()
-  const years = (endMs - startMs) / (1000 * 60 * 60 * 24 * 365.25)
-
-  const cagr = calculateCAGR(totalInvested, finalValue, years)
+  const lastPoint = points.length > 0 ? points[points.length - 1] : null
+  const lastCloses = lastPoint ? calendar.closes.get(lastPoint.date)! : []
+  const lotReports = tickers.map((ticker, i) => ({
+    ticker,
+    report: lastPoint
+      ? ledgers[i].report(lastPoint.date, lastCloses[i])
+      : createEmptyTaxLotReport(lotSelection),
+  }))
+
+  const summary = summarizeSimulation(points, cashFlows, effectiveStart, {
+    finalShares: shares.reduce((sum, held) => sum + held, 0),
+    totalInvested,
+    totalDividends: cumulativeDividends,
+    totalFees: cumulativeFees,
+    totalDividendTaxes: cumulativeDividendTaxes,
+    totalWithdrawn: 0,
+    depletionDate: null,
+    taxLots: mergeTaxLotReports(lotReports, lotSelection),
+  })
+
+  const holdingResults: HoldingResult[] = tickers.map((ticker, i) => {
+    const marketValue = lastPoint ? lastPoint.holdingValues[ticker] : 0
+    return {
+      ticker,
+      targetWeight: targetWeights[i] * 100,
+      finalWeight: lastPoint && lastPoint.marketValue > 0
+        ? (marketValue / lastPoint.marketValue) * 100
+        : 0,
+      shares: shares[i],
+      contributed: contributed[i],
+      dividends: holdingDividends[i],
+      marketValue,
+      costBasis: lotReports[i].report.costBasis,
+    }
+  })
 
   return {
+    ...summary,
     points,
-    finalShares: totalShares,
-    totalInvested,
-    totalDividends: cumulativeDividends,
-    finalValue,
-    totalReturn,
-    cagr,
+    holdings: holdingResults,
+    rebalanceCount,
   }
 }
 
@@ -0,0 +1,45 @@
+/**
+ * Dividend Taxation
+ *
+ * Splits each dividend into the part kept by the investor and the taxes taken
+ * out first: foreign withholding at source and domestic income tax at a blend
+ * of the qualified and ordinary rates.
+ */
+
+import type { DividendTaxConfig } from '../api/types'
+
+// Tax-advantaged account: dividends arrive in full
+export const NO_DIVIDEND_TAX: DividendTaxConfig = {
+  qualifiedRate: 0,
+  ordinaryRate: 0,
+  qualifiedPercent: 100,
+  withholdingRate: 0,
+}
+
+export interface TaxedDividend {
+  net: number      // Amount paid out or reinvested
+  taxes: number    // Withholding plus domestic tax
+}
+
+/**
+ * Apply dividend taxes to a gross dividend.
+ *
+ * Withholding is credited against the domestic tax, so only the larger of the
+ * two is paid: with no domestic tax (an IRA holding foreign shares) withholding
+ * is a pure cost, while in a taxable account it only matters when it exceeds
+ * the domestic rate.
+ */
+export function applyDividendTax(
+  gross: number,
+  tax: DividendTaxConfig = NO_DIVIDEND_TAX
+): TaxedDividend {
+  if (gross <= 0) return { net: 0, taxes: 0 }
+
+  const qualifiedShare = Math.min(100, Math.max(0, tax.qualifiedPercent)) / 100
+  const domesticRate =
+    qualifiedShare * tax.qualifiedRate + (1 - qualifiedShare) * tax.ordinaryRate
+  const rate = Math.min(100, Math.max(domesticRate, tax.withholdingRate, 0))
+  const taxes = gross * (rate / 100)
+
+  return { net: gross - taxes, taxes }
+}
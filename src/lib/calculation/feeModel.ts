@@ -0,0 +1,154 @@
+/**
+ * Fee Model
+ *
+ * Pure helpers for applying brokerage friction to DCA purchases and withdrawal
+ * sales: the intraday price a trade fills at, commissions and bid/ask spread on
+ * each trade, plus a fund expense ratio accrued daily against market value.
+ */
+
+import type { ExecutionPrice, FeeModel, PricePoint } from '../api/types'
+
+export const NO_FEES: FeeModel = {
+  flatPerTrade: 0,
+  percentPerTrade: 0,
+  spreadBps: 0,
+  expenseRatio: 0,
+}
+
+/**
+ * Price a trade fills at on a given day, before spread. Days missing the
+ * open/high/low fields (zero in some data sources) fill at the close.
+ */
+export function getExecutionPrice(
+  point: PricePoint,
+  method: ExecutionPrice,
+  side: 'buy' | 'sell'
+): number {
+  const { open, high, low, close } = point
+  const hasRange = high > 0 && low > 0
+
+  switch (method) {
+    case 'close':
+      return close
+    case 'open':
+      return open > 0 ? open : close
+    case 'midpoint':
+      return hasRange ? (high + low) / 2 : close
+    case 'typical':
+      return hasRange ? (high + low + close) / 3 : close
+    case 'worst':
+      if (!hasRange) return close
+      return side === 'buy' ? high : low
+  }
+}
+
+export interface TradeFill {
+  shares: number   // Shares received (bought) or delivered (sold)
+  fees: number     // Commission plus spread cost paid on the trade
+  cost: number     // Cash spent including commission, or net proceeds for a sale
+}
+
+/**
+ * Buy shares with a cash amount, paying commission first and filling at the ask
+ * (mid price plus half the spread). Commissions larger than the trade buy nothing.
+ */
+export function applyPurchaseCosts(
+  cashAmount: number,
+  midPrice: number,
+  fees: FeeModel = NO_FEES
+): TradeFill {
+  if (cashAmount <= 0 || midPrice <= 0) return { shares: 0, fees: 0, cost: 0 }
+
+  const commission = Math.min(
+    cashAmount,
+    fees.flatPerTrade + cashAmount * (fees.percentPerTrade / 100)
+  )
+  const netCash = cashAmount - commission
+  const fillPrice = midPrice * (1 + fees.spreadBps / 2 / 10000)
+  const shares = netCash / fillPrice
+  const spreadCost = shares * (fillPrice - midPrice)
+
+  return { shares, fees: commission + spreadCost, cost: cashAmount }
+}
+
+/**
+ * Buy as many whole shares as the available cash covers, including commission
+ * on the trade value and the spread. Leftover cash is left for the caller to carry.
+ * No trade (and no commission) happens when not even one share is affordable.
+ */
+export function applyWholeSharePurchase(
+  availableCash: number,
+  midPrice: number,
+  fees: FeeModel = NO_FEES
+): TradeFill {
+  if (availableCash <= 0 || midPrice <= 0) return { shares: 0, fees: 0, cost: 0 }
+
+  const fillPrice = midPrice * (1 + fees.spreadBps / 2 / 10000)
+  const costPerShare = fillPrice * (1 + fees.percentPerTrade / 100)
+  const shares = Math.max(0, Math.floor((availableCash - fees.flatPerTrade) / costPerShare))
+
+  if (shares === 0) return { shares: 0, fees: 0, cost: 0 }
+
+  const tradeValue = shares * fillPrice
+  const commission = fees.flatPerTrade + tradeValue * (fees.percentPerTrade / 100)
+  const spreadCost = shares * (fillPrice - midPrice)
+
+  return { shares, fees: commission + spreadCost, cost: tradeValue + commission }
+}
+
+/**
+ * Shares that must be sold at the bid (mid price minus half the spread) for the
+ * sale to net a cash amount after commission.
+ */
+export function sharesToRaise(
+  netAmount: number,
+  midPrice: number,
+  fees: FeeModel = NO_FEES
+): number {
+  if (netAmount <= 0 || midPrice <= 0) return 0
+
+  const bidPrice = midPrice * (1 - fees.spreadBps / 2 / 10000)
+  const grossProceeds = (netAmount + fees.flatPerTrade) / (1 - fees.percentPerTrade / 100)
+  return grossProceeds / bidPrice
+}
+
+/**
+ * Sell a number of shares at the bid, paying commission out of the proceeds.
+ * Commissions larger than the sale leave no proceeds.
+ */
+export function applyShareSale(
+  shares: number,
+  midPrice: number,
+  fees: FeeModel = NO_FEES
+): TradeFill {
+  if (shares <= 0 || midPrice <= 0) return { shares: 0, fees: 0, cost: 0 }
+
+  const bidPrice = midPrice * (1 - fees.spreadBps / 2 / 10000)
+  const grossProceeds = shares * bidPrice
+  const commission = Math.min(
+    grossProceeds,
+    fees.flatPerTrade + grossProceeds * (fees.percentPerTrade / 100)
+  )
+  const spreadCost = shares * (midPrice - bidPrice)
+
+  return { shares, fees: commission + spreadCost, cost: grossProceeds - commission }
+}
+
+/**
+ * Expense ratio accrued on a holding over a number of calendar days.
+ */
+export function calculateExpenseRatioFee(
+  marketValue: number,
+  expenseRatio: number,
+  days: number
+): number {
+  if (marketValue <= 0 || expenseRatio <= 0 || days <= 0) return 0
+  return marketValue * (expenseRatio / 100) * (days / 365.25)
+}
+
+/**
+ * Calendar days between two ISO dates
+ */
+export function daysBetween(startDate: string, endDate: string): number {
+  return (new Date(endDate).getTime() - new Date(startDate).getTime()) / (1000 * 60 * 60 * 24)
+}
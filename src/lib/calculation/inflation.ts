@@ -0,0 +1,100 @@
+/**
+ * Inflation Adjustment
+ *
+ * Converts nominal simulation values into real (constant) dollars using the
+ * bundled CPI series in src/lib/data/cpi.json. Its monthly values are
+ * interpolated from CPI-U annual averages, so they approximate the published
+ * monthly index. Replace that file's values with the official series
+ * (CPIAUCNS) to update it; no code changes are needed.
+ */
+
+import type { SimulationPoint } from '../api/types'
+import cpiData from '../data/cpi.json'
+
+const CPI_VALUES: Record<string, number> = cpiData.values
+const CPI_MONTHS = Object.keys(CPI_VALUES).sort()
+const FIRST_MONTH = CPI_MONTHS[0]
+const LAST_MONTH = CPI_MONTHS[CPI_MONTHS.length - 1]
+
+/**
+ * Identifies the bundled CPI series: its last month and the sum of every
+ * value, so both new months and revised ones change it
+ */
+export const CPI_VERSION = `${LAST_MONTH}:${Object.values(CPI_VALUES)
+  .reduce((sum, value) => sum + value, 0)
+  .toFixed(3)}`
+
+/**
+ * CPI level for the month containing date.
+ * Dates outside the series use its first or last month.
+ */
+export function getCPI(date: string): number {
+  const month = date.substring(0, 7) // YYYY-MM
+  if (month <= FIRST_MONTH) return CPI_VALUES[FIRST_MONTH]
+  if (month >= LAST_MONTH) return CPI_VALUES[LAST_MONTH]
+
+  // Fall back to the closest earlier month if one is missing from the file
+  if (CPI_VALUES[month] !== undefined) return CPI_VALUES[month]
+  const earlier = CPI_MONTHS.filter((m) => m < month)
+  return CPI_VALUES[earlier[earlier.length - 1]]
+}
+
+/**
+ * Deflate simulation points into referenceDate dollars.
+ *
+ * Running totals (principal, dividends, fees, withdrawn) are deflated one
+ * increment at a time, each at the CPI of the day it happened, so a dollar
+ * invested in 2000 keeps its 2000 purchasing power. Balances (market value,
+ * cash) are deflated at the point's own date, and total value is rebuilt from
+ * the deflated parts.
+ */
+export function deflatePoints<T extends SimulationPoint>(points: T[], referenceDate: string): T[] {
+  const referenceCPI = getCPI(referenceDate)
+  let previous: SimulationPoint | null = null
+  let principal = 0
+  let dividends = 0
+  let fees = 0
+  let withdrawn = 0
+
+  return points.map((point) => {
+    const factor = referenceCPI / getCPI(point.date)
+
+    principal += (point.principal - (previous?.principal ?? 0)) * factor
+    dividends += (point.dividends - (previous?.dividends ?? 0)) * factor
+    fees += (point.fees - (previous?.fees ?? 0)) * factor
+    withdrawn += (point.withdrawn - (previous?.withdrawn ?? 0)) * factor
+    previous = point
+
+    const marketValue = point.marketValue * factor
+    const cash = point.cash * factor
+
+    return {
+      ...point,
+      principal,
+      dividends,
+      fees,
+      withdrawn,
+      marketValue,
+      cash,
+      totalValue: marketValue + dividends + cash,
+    }
+  })
+}
+
+/**
+ * Real compound annual growth rate of deflated points: ending wealth (balance
+ * plus withdrawals) against real principal over the simulated period
+ */
+export function calculateRealCAGR(realPoints: SimulationPoint[]): number {
+  if (realPoints.length < 2) return 0
+
+  const first = realPoints[0]
+  const last = realPoints[realPoints.length - 1]
+  const years =
+    (new Date(last.date).getTime() - new Date(first.date).getTime()) /
+    (1000 * 60 * 60 * 24 * 365.25)
+
+  if (last.principal <= 0 || years <= 0) return 0
+  const endingWealth = last.totalValue + last.withdrawn
+  return (Math.pow(endingWealth / last.principal, 1 / years) - 1) * 100
+}
@@ -0,0 +1,211 @@
+/**
+ * Monte Carlo DCA Projection Engine
+ *
+ * Projects DCA outcomes forward from today by resampling a ticker's historical
+ * monthly returns. Months are drawn in blocks of consecutive history (a
+ * circular block bootstrap) rather than one at a time, so momentum, volatility
+ * clustering and drawdowns that span several months carry over into the
+ * simulated paths. Paths come from a seeded generator, so the same seed and
+ * inputs always give the same projection.
+ *
+ * Each month's contribution goes in at the start of the month, then the month's
+ * return applies. With DRIP the month's dividend yield compounds with the price
+ * return; without it, dividends accumulate as cash alongside the holdings.
+ */
+
+import type {
+  PricePoint,
+  DividendHistory,
+  MonteCarloConfig,
+  MonteCarloResult,
+  MonthlyReturn,
+} from '../api/types'
+import { PERIODS_PER_YEAR } from './dcaEngine'
+import { calculatePercentileBands, normalizePercentiles, DEFAULT_PERCENTILES } from './percentileUtils'
+
+// Fewest historical months worth resampling
+export const MIN_HISTORY_MONTHS = 12
+
+// Ranges accepted for the projection settings
+export const MIN_PATH_COUNT = 100
+export const MAX_PATH_COUNT = 10000
+export const MAX_PROJECTION_YEARS = 40
+export const MAX_BLOCK_MONTHS = 60
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Month-over-month returns from month-end closes. Dividends are credited to
+ * the month they went ex. The first month has no prior close and is skipped.
+ */
+export function getMonthlyReturns(
+  priceHistory: PricePoint[],
+  dividendHistory: DividendHistory[]
+): MonthlyReturn[] {
+  // Last close of each month, in date order
+  const monthEnds: { month: string; close: number }[] = []
+  for (const point of priceHistory) {
+    const month = point.date.substring(0, 7)
+    const last = monthEnds[monthEnds.length - 1]
+    if (last && last.month === month) {
+      last.close = point.close
+    } else {
+      monthEnds.push({ month, close: point.close })
+    }
+  }
+
+  const dividendsByMonth = new Map<string, number>()
+  for (const dividend of dividendHistory) {
+    const month = dividend.exDate.substring(0, 7)
+    dividendsByMonth.set(month, (dividendsByMonth.get(month) ?? 0) + dividend.amount)
+  }
+
+  const returns: MonthlyReturn[] = []
+  for (let i = 1; i < monthEnds.length; i++) {
+    const previousClose = monthEnds[i - 1].close
+    const { month, close } = monthEnds[i]
+    returns.push({
+      month,
+      priceReturn: close / previousClose - 1,
+      dividendYield: (dividendsByMonth.get(month) ?? 0) / previousClose,
+    })
+  }
+
+  return returns
+}
+
+/**
+ * Indices of count historical months for one path: runs of blockMonths
+ * consecutive months from random starts, wrapping from the last month back
+ * to the first so every month is equally likely to be drawn.
+ */
+export function sampleBlockBootstrap(
+  historyLength: number,
+  count: number,
+  blockMonths: number,
+  random: () => number
+): number[] {
+  const indices: number[] = []
+  const blockLength = Math.max(1, Math.min(blockMonths, historyLength))
+
+  while (indices.length < count) {
+    const start = Math.floor(random() * historyLength)
+    for (let i = 0; i < blockLength && indices.length < count; i++) {
+      indices.push((start + i) % historyLength)
+    }
+  }
+
+  return indices
+}
+
+/**
+ * Total contributed by each month offset: the initial investment, then the
+ * scheduled amount converted to a monthly figure and stepped up every 12 months
+ */
+function buildInvestedSchedule(config: MonteCarloConfig, horizonMonths: number): number[] {
+  const monthlyAmount = (config.amount * PERIODS_PER_YEAR[config.frequency]) / 12
+  const increase = (config.annualIncrease ?? 0) / 100
+  const invested = [config.initialInvestment ?? 0]
+
+  for (let month = 0; month < horizonMonths; month++) {
+    const contribution = monthlyAmount * Math.pow(1 + increase, Math.floor(month / 12))
+    invested.push(invested[month] + contribution)
+  }
+
+  return invested
+}
+
+/**
+ * Main entry point: project DCA outcomes over config.horizonYears.
+ *
+ * @param priceHistory - Price history to draw monthly returns from
+ * @param dividendHistory - Dividend history for the same ticker
+ * @param config - Projection configuration
+ * @param startDate - First projected month (YYYY-MM-01)
+ * @returns Percentile bands of portfolio value across paths, with summary stats
+ */
+export function runMonteCarloProjection(
+  priceHistory: PricePoint[],
+  dividendHistory: DividendHistory[],
+  config: MonteCarloConfig,
+  startDate: string
+): MonteCarloResult {
+  const returns = getMonthlyReturns(priceHistory, dividendHistory)
+  if (returns.length < MIN_HISTORY_MONTHS) {
+    throw new Error(
+      `Need at least ${MIN_HISTORY_MONTHS} months of price history to resample (have ${returns.length})`
+    )
+  }
+
+  const horizonMonths = config.horizonYears * 12
+  const percentiles = normalizePercentiles(config.percentiles ?? DEFAULT_PERCENTILES)
+  const invested = buildInvestedSchedule(config, horizonMonths)
+  const random = createSeededRandom(config.seed)
+
+  // Value of every path at each month offset
+  const valuesByMonth: number[][] = Array.from({ length: horizonMonths + 1 }, () =>
+    new Array<number>(config.pathCount)
+  )
+
+  for (let path = 0; path < config.pathCount; path++) {
+    const months = sampleBlockBootstrap(returns.length, horizonMonths, config.blockMonths, random)
+    let holdings = invested[0]
+    let cash = 0
+    valuesByMonth[0][path] = holdings
+
+    for (let month = 0; month < horizonMonths; month++) {
+      const { priceReturn, dividendYield } = returns[months[month]]
+      holdings += invested[month + 1] - invested[month]
+
+      if (config.isDRIP) {
+        holdings *= 1 + priceReturn + dividendYield
+      } else {
+        cash += holdings * dividendYield
+        holdings *= 1 + priceReturn
+      }
+
+      valuesByMonth[month + 1][path] = holdings + cash
+    }
+  }
+
+  const finalValues = valuesByMonth[horizonMonths]
+  const totalInvested = invested[horizonMonths]
+  const valueBands = calculatePercentileBands(valuesByMonth, percentiles)
+  const medianFinalValue = valueBands.p50[horizonMonths]
+  const losses = finalValues.filter((value) => value < totalInvested).length
+
+  return {
+    config: { ...config, percentiles },
+    startDate,
+    monthOffsets: Array.from({ length: horizonMonths + 1 }, (_, i) => i),
+    valueBands,
+    invested,
+    stats: {
+      totalInvested,
+      medianFinalValue,
+      lossProbability: config.pathCount > 0 ? (losses / config.pathCount) * 100 : 0,
+      medianCAGR:
+        totalInvested > 0 && medianFinalValue > 0 && config.horizonYears > 0
+          ? (Math.pow(medianFinalValue / totalInvested, 1 / config.horizonYears) - 1) * 100
+          : 0,
+    },
+    history: {
+      firstMonth: returns[0].month,
+      lastMonth: returns[returns.length - 1].month,
+      monthCount: returns.length,
+    },
+  }
+}
@@ -5,7 +5,37 @@
  * Uses linear interpolation for percentile estimation (same method as NumPy's default).
  */
 
-import type { PercentileBands } from '../api/types'
+import type { PercentileBands, PercentileKey } from '../api/types'
+
+/**
+ * Default band percentiles: p10-p90 outer band, p25-p75 inner band, median
+ */
+export const DEFAULT_PERCENTILES = [10, 25, 50, 75, 90]
+
+/**
+ * Key for a percentile in PercentileBands and chart data (10 -> 'p10').
+ */
+export function percentileKey(percentile: number): PercentileKey {
+  return `p${percentile}`
+}
+
+/**
+ * Turn a requested percentile list into a band set: whole percentiles
+ * between 1 and 49 are mirrored above the median, and the median is always
+ * included.
+ *
+ * @param percentiles - Requested percentiles (either half may be given)
+ * @returns Sorted, symmetric percentiles, e.g. [5, 25, 50, 75, 95]
+ */
+export function normalizePercentiles(percentiles: number[]): number[] {
+  const lower = percentiles
+    .filter((p) => Number.isInteger(p) && p >= 1 && p <= 99 && p !== 50)
+    .map((p) => (p < 50 ? p : 100 - p))
+
+  return Array.from(new Set([...lower, 50, ...lower.map((p) => 100 - p)])).sort(
+    (a, b) => a - b
+  )
+}
 
 /**
  * Calculate a single percentile from a sorted array of numbers.
@@ -72,27 +102,25 @@ export function calculatePercentiles(
  * Each inner array represents values at a specific time point (month offset).
  *
  * @param valueArrays - Array where each element contains all values at that time offset
- * @returns PercentileBands with p10, p25, p50, p75, p90 arrays
+ * @param percentiles - Percentiles to band (defaults to 10, 25, 50, 75, 90)
+ * @returns PercentileBands with one array per percentile (p10, p25, ...)
  */
 export function calculatePercentileBands(
-  valueArrays: number[][]
+  valueArrays: number[][],
+  percentiles: number[] = DEFAULT_PERCENTILES
 ): PercentileBands {
-  const p10: number[] = []
-  const p25: number[] = []
-  const p50: number[] = []
-  const p75: number[] = []
-  const p90: number[] = []
+  const bands: PercentileBands = Object.fromEntries(
+    percentiles.map((p) => [percentileKey(p), [] as number[]])
+  )
 
   for (const values of valueArrays) {
-    const percentiles = calculatePercentiles(values, [10, 25, 50, 75, 90])
-    p10.push(percentiles[10])
-    p25.push(percentiles[25])
-    p50.push(percentiles[50])
-    p75.push(percentiles[75])
-    p90.push(percentiles[90])
+    const atOffset = calculatePercentiles(values, percentiles)
+    for (const p of percentiles) {
+      bands[percentileKey(p)].push(atOffset[p])
+    }
   }
 
-  return { p10, p25, p50, p75, p90 }
+  return bands
 }
 
 /**
@@ -176,3 +204,59 @@ export function categorizeReturns(returns: number[]): {
     high: (high / total) * 100,
   }
 }
+
+export interface HistogramBin {
+  start: number // Inclusive
+  end: number   // Exclusive, except for the last bin
+  count: number
+}
+
+/**
+ * Count values into equal-width bins aligned to multiples of binWidth.
+ * The width is widened if it would take more than maxBins bins.
+ *
+ * @param values - Array of numbers
+ * @param binWidth - Requested bin width (> 0)
+ * @param maxBins - Most bins to return
+ * @returns Contiguous bins from the lowest to the highest value
+ */
+export function buildHistogram(
+  values: number[],
+  binWidth: number,
+  maxBins: number = 200
+): HistogramBin[] {
+  if (values.length === 0 || !(binWidth > 0)) return []
+
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const width = Math.max(binWidth, (max - min) / maxBins)
+  const start = Math.floor(min / width) * width
+  const binCount = Math.min(maxBins, Math.floor((max - start) / width) + 1)
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    start: start + i * width,
+    end: start + (i + 1) * width,
+    count: 0,
+  }))
+
+  for (const value of values) {
+    const index = Math.min(binCount - 1, Math.floor((value - start) / width))
+    bins[index].count++
+  }
+
+  return bins
+}
+
+/**
+ * Empirical cumulative distribution: each value in ascending order with the
+ * share of values (0-1) at or below it.
+ *
+ * @param values - Array of numbers
+ * @returns One point per value
+ */
+export function calculateEmpiricalCDF(
+  values: number[]
+): { value: number; fraction: number }[] {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted.map((value, i) => ({ value, fraction: (i + 1) / sorted.length }))
+}
@@ -0,0 +1,146 @@
+/**
+ * Risk Metrics
+ *
+ * Drawdown, volatility and risk-adjusted return ratios derived from a
+ * simulation's daily points. Daily returns are measured net of contributions
+ * and withdrawals so that money moving in or out is not mistaken for performance.
+ */
+
+import type { SimulationPoint, RiskMetrics } from '../api/types'
+
+const TRADING_DAYS_PER_YEAR = 252
+
+export const DEFAULT_RISK_FREE_RATE = 2
+
+export const EMPTY_RISK_METRICS: RiskMetrics = {
+  maxDrawdown: 0,
+  drawdownPeakDate: null,
+  drawdownTroughDate: null,
+  drawdownRecoveryDate: null,
+  volatility: 0,
+  sharpeRatio: 0,
+  sortinoRatio: 0,
+}
+
+/**
+ * Net external cash flow into the portfolio between two consecutive points
+ */
+function netFlow(previous: SimulationPoint, current: SimulationPoint): number {
+  return (current.principal - previous.principal) - (current.withdrawn - previous.withdrawn)
+}
+
+/**
+ * Daily portfolio returns with that day's contribution or withdrawal removed:
+ * (value_t - netFlow_t) / value_{t-1} - 1
+ */
+export function calculateDailyReturns(points: SimulationPoint[]): number[] {
+  const returns: number[] = []
+
+  for (let i = 1; i < points.length; i++) {
+    const previousValue = points[i - 1].totalValue
+    if (previousValue <= 0) continue
+
+    returns.push((points[i].totalValue - netFlow(points[i - 1], points[i])) / previousValue - 1)
+  }
+
+  return returns
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const avg = mean(values)
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1)
+  return Math.sqrt(variance)
+}
+
+/**
+ * Largest peak-to-trough decline of the contribution-neutral growth index,
+ * with the date the index first regained its prior peak (null if it never did)
+ */
+function calculateMaxDrawdown(
+  points: SimulationPoint[]
+): Pick<RiskMetrics, 'maxDrawdown' | 'drawdownPeakDate' | 'drawdownTroughDate' | 'drawdownRecoveryDate'> {
+  let index = 1
+  let peakIndex = 1
+  let peakDate: string | null = null
+
+  let maxDrawdown = 0
+  let worstPeakDate: string | null = null
+  let worstTroughDate: string | null = null
+  let worstPeakIndex = 1
+  let recoveryDate: string | null = null
+
+  for (let i = 0; i < points.length; i++) {
+    if (i > 0) {
+      const previousValue = points[i - 1].totalValue
+      if (previousValue > 0) {
+        index *= (points[i].totalValue - netFlow(points[i - 1], points[i])) / previousValue
+      }
+    }
+
+    // Nothing is invested until the first contribution lands
+    if (points[i].totalValue <= 0) continue
+
+    if (peakDate === null || index >= peakIndex) {
+      peakIndex = index
+      peakDate = points[i].date
+    }
+
+    // Track the first recovery of the current worst drawdown
+    if (worstTroughDate && recoveryDate === null && index >= worstPeakIndex) {
+      recoveryDate = points[i].date
+    }
+
+    const drawdown = (index / peakIndex - 1) * 100
+    if (drawdown < maxDrawdown) {
+      maxDrawdown = drawdown
+      worstPeakDate = peakDate
+      worstTroughDate = points[i].date
+      worstPeakIndex = peakIndex
+      recoveryDate = null
+    }
+  }
+
+  return {
+    maxDrawdown,
+    drawdownPeakDate: worstPeakDate,
+    drawdownTroughDate: worstTroughDate,
+    drawdownRecoveryDate: recoveryDate,
+  }
+}
+
+/**
+ * Compute drawdown, annualized volatility, Sharpe and Sortino ratios.
+ * @param riskFreeRate - Annual risk-free rate as a percentage (e.g. 2 for 2%)
+ */
+export function calculateRiskMetrics(
+  points: SimulationPoint[],
+  riskFreeRate: number = DEFAULT_RISK_FREE_RATE
+): RiskMetrics {
+  const returns = calculateDailyReturns(points)
+  if (returns.length < 2) {
+    return { ...EMPTY_RISK_METRICS, ...calculateMaxDrawdown(points) }
+  }
+
+  const dailyRiskFree = riskFreeRate / 100 / TRADING_DAYS_PER_YEAR
+  const annualizedExcess = (mean(returns) - dailyRiskFree) * TRADING_DAYS_PER_YEAR
+
+  const dailyVolatility = standardDeviation(returns)
+  const volatility = dailyVolatility * Math.sqrt(TRADING_DAYS_PER_YEAR)
+
+  // Downside deviation only penalizes returns below the risk-free rate
+  const downsideVariance =
+    returns.reduce((sum, r) => sum + Math.min(0, r - dailyRiskFree) ** 2, 0) / returns.length
+  const downsideDeviation = Math.sqrt(downsideVariance) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+
+  return {
+    ...calculateMaxDrawdown(points),
+    volatility: volatility * 100,
+    sharpeRatio: volatility > 0 ? annualizedExcess / volatility : 0,
+    sortinoRatio: downsideDeviation > 0 ? annualizedExcess / downsideDeviation : 0,
+  }
+}
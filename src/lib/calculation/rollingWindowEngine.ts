@@ -2,8 +2,17 @@
  * Rolling Window DCA Analysis Engine
  *
  * Core algorithm for computing DCA outcomes across all possible historical
- * rolling windows of a given horizon. Reuses the existing runDCASimulation()
- * for each window rather than reimplementing DCA logic.
+ * rolling windows of a given horizon, each compared against investing the
+ * same total on day one.
+ *
+ * Rolling windows have no fees, taxes or whole-share rounding, so a window's
+ * holdings are linear in its contributions. The incremental engine builds
+ * cumulative dividend and reinvested-share arrays over the full history once,
+ * then derives each window from its contributions and month ends rather than
+ * re-simulating every trading day. Windows with withdrawals depend on their
+ * running balance and still go through runDCASimulation() and
+ * runLumpSumSimulation(), as does the whole analysis with the 'simulation'
+ * engine, which is kept as the reference implementation.
  */
 
 import type {
@@ -14,22 +23,52 @@ import type {
   WindowResult,
   PercentileBands,
   RollingWindowStats,
+  LumpSumComparison,
   HorizonYears,
+  HorizonHeatmap,
+  WindowMetric,
+  RollingMatchup,
   SimulationPoint,
+  SimulationResult,
+  CashFlow,
 } from '../api/types'
 
-import { runDCASimulation } from './dcaEngine'
+import {
+  runDCASimulation,
+  runLumpSumSimulation,
+  buildInvestmentSchedule,
+  summarizeSimulation,
+} from './dcaEngine'
+import { applyPurchaseCosts } from './feeModel'
+import { deflatePoints, calculateRealCAGR, getCPI } from './inflation'
+import { createEmptyTaxLotReport } from './taxLots'
 import {
   calculatePercentileBands,
+  calculatePercentiles,
   calculateMedian,
   categorizeReturns,
+  normalizePercentiles,
+  percentileKey,
+  DEFAULT_PERCENTILES,
 } from './percentileUtils'
 
+// Supported rolling horizons, in whole years
+export const MIN_HORIZON_YEARS = 1
+export const MAX_HORIZON_YEARS = 40
+
+// 'incremental' derives windows from full-history arrays; 'simulation'
+// re-simulates every window day by day
+export type RollingEngine = 'incremental' | 'simulation'
+
+// Bump whenever a change here alters window results, so cached analyses
+// (see rollingResultCache.ts) are recomputed instead of reused
+export const ROLLING_ENGINE_VERSION = 1
+
 /**
  * Generate all valid window start dates (first of each month).
  * A window is valid if there's sufficient forward data for the horizon.
  */
-function generateWindowStartDates(
+export function getWindowStartDates(
   priceHistory: PricePoint[],
   horizonYears: HorizonYears
 ): string[] {
@@ -69,14 +108,47 @@ function getWindowEndDate(startDate: string, horizonYears: HorizonYears): string
   return end.toISOString().split('T')[0]
 }
 
+/**
+ * YYYY-MM key of each month offset from the window start (0 through horizonMonths)
+ */
+function getMonthKeys(startDate: string, horizonMonths: number): string[] {
+  const start = new Date(startDate)
+
+  return Array.from({ length: horizonMonths + 1 }, (_, i) => {
+    const monthDate = new Date(start)
+    monthDate.setMonth(monthDate.getMonth() + i)
+    return monthDate.toISOString().split('T')[0].substring(0, 7)
+  })
+}
+
+/**
+ * Fill months without a value from the last known one (0 before the first)
+ */
+function carryForward(values: (number | undefined)[]): number[] {
+  const filled: number[] = []
+
+  for (const value of values) {
+    if (value !== undefined) {
+      filled.push(value)
+    } else {
+      // Carry forward last known value if month is missing (e.g., no trading data)
+      filled.push(filled.length > 0 ? filled[filled.length - 1] : 0)
+    }
+  }
+
+  return filled
+}
+
 /**
  * Extract monthly portfolio values from simulation points.
  * Returns an array where index = month offset from start.
+ * Reads totalValue unless another field is picked.
  */
 function extractMonthlyValues(
   points: SimulationPoint[],
   startDate: string,
-  horizonMonths: number
+  horizonMonths: number,
+  pick: (point: SimulationPoint) => number = (point) => point.totalValue
 ): number[] {
   if (points.length === 0) return []
 
@@ -85,34 +157,16 @@ function extractMonthlyValues(
 
   for (const point of points) {
     const monthKey = point.date.substring(0, 7) // YYYY-MM
-    monthlyMap.set(monthKey, point.totalValue)
-  }
-
-  // Generate expected month keys
-  const start = new Date(startDate)
-  const values: number[] = []
-
-  for (let i = 0; i <= horizonMonths; i++) {
-    const monthDate = new Date(start)
-    monthDate.setMonth(monthDate.getMonth() + i)
-    const monthKey = monthDate.toISOString().split('T')[0].substring(0, 7)
-
-    // Use the value if available, otherwise use the last known value
-    if (monthlyMap.has(monthKey)) {
-      values.push(monthlyMap.get(monthKey)!)
-    } else if (values.length > 0) {
-      // Carry forward last known value if month is missing (e.g., no trading data)
-      values.push(values[values.length - 1])
-    } else {
-      values.push(0)
-    }
+    monthlyMap.set(monthKey, pick(point))
   }
 
-  return values
+  return carryForward(
+    getMonthKeys(startDate, horizonMonths).map((monthKey) => monthlyMap.get(monthKey))
+  )
 }
 
 /**
- * Run DCA simulation for a single rolling window.
+ * Run DCA and lump sum simulations for a single rolling window.
  */
 function runWindowSimulation(
   priceHistory: PricePoint[],
@@ -133,49 +187,469 @@ function runWindowSimulation(
     (d) => d.exDate >= startDate && d.exDate <= endDate
   )
 
-  // Run the DCA simulation
-  const result = runDCASimulation(windowPrices, windowDividends, {
+  const simulationConfig = {
     amount: config.amount,
     frequency: config.frequency,
     startDate,
     isDRIP: config.isDRIP,
-  })
+    annualIncrease: config.annualIncrease,
+    amountOverrides: config.amountOverrides,
+    pauses: config.pauses,
+    initialInvestment: config.initialInvestment,
+    withdrawal: config.withdrawal && { ...config.withdrawal, startDate },
+  }
+
+  // Run the DCA simulation
+  const result = runDCASimulation(windowPrices, windowDividends, simulationConfig)
 
   if (result.points.length === 0) return null
 
+  // Same total invested on the first trading day of the window
+  const lumpSum = runLumpSumSimulation(
+    windowPrices,
+    windowDividends,
+    simulationConfig,
+    result.totalInvested
+  )
+
+  // Real mode measures every window in its own start-date dollars so windows
+  // from different decades share a common base
+  const points = config.realDollars
+    ? deflatePoints(result.points, startDate)
+    : result.points
+  const lumpSumPoints = config.realDollars
+    ? deflatePoints(lumpSum.points, startDate)
+    : lumpSum.points
+
   // Extract monthly values for percentile band computation
   const horizonMonths = config.horizonYears * 12
-  const monthlyValues = extractMonthlyValues(result.points, startDate, horizonMonths)
+  const monthly = (source: SimulationPoint[], pick?: (point: SimulationPoint) => number) =>
+    extractMonthlyValues(source, startDate, horizonMonths, pick)
 
   return {
     startDate,
     endDate,
     totalReturn: result.totalReturn,
     cagr: result.cagr,
+    xirr: result.xirr,
+    totalWithdrawn: result.totalWithdrawn,
+    depletionDate: result.depletionDate,
     finalValue: result.finalValue,
     totalInvested: result.totalInvested,
-    monthlyValues,
+    monthlyValues: monthly(points),
+    monthlyInvested: monthly(points, (point) => point.principal),
+    monthlyWithdrawn: monthly(points, (point) => point.withdrawn),
+    realCagr: config.realDollars ? calculateRealCAGR(points) : undefined,
+    lumpSumFinalValue: lumpSum.finalValue,
+    lumpSumReturn: lumpSum.totalReturn,
+    lumpSumMonthlyValues: monthly(lumpSumPoints),
+    lumpSumMonthlyInvested: monthly(lumpSumPoints, (point) => point.principal),
+    lumpSumMonthlyWithdrawn: monthly(lumpSumPoints, (point) => point.withdrawn),
+  }
+}
+
+/**
+ * Full-history arrays shared by every window, indexed by trading day
+ */
+interface PriceSeries {
+  dates: string[]
+  closes: number[]
+  indexByDate: Map<string, number>
+  cpi: number[]
+  dividends: number[]               // Dividend per share paid on each day
+  cumulativeDividends: number[]     // Cash dividends per share paid through each day
+  cumulativeRealDividends: number[] // Same, each payment divided by its month's CPI
+  reinvestedShares: number[]        // Shares one share held from the start grows to with DRIP
+  dividendDays: number[]            // Indices of ex-dates that fall on a trading day
+  monthEnds: Map<string, number>    // Last trading day of each YYYY-MM
+}
+
+/**
+ * Build the shared arrays in one pass over the price history. Dividends follow
+ * the simulation: paid on the ex-date to the shares held before that day's
+ * purchase, and only if the ex-date is a trading day.
+ */
+function buildPriceSeries(
+  priceHistory: PricePoint[],
+  dividendHistory: DividendHistory[]
+): PriceSeries {
+  const dividendsByDate = new Map<string, number>()
+  for (const div of dividendHistory) {
+    if (div.exDate && div.amount > 0) {
+      dividendsByDate.set(div.exDate, (dividendsByDate.get(div.exDate) ?? 0) + div.amount)
+    }
+  }
+
+  const series: PriceSeries = {
+    dates: [],
+    closes: [],
+    indexByDate: new Map(),
+    cpi: [],
+    dividends: [],
+    cumulativeDividends: [],
+    cumulativeRealDividends: [],
+    reinvestedShares: [],
+    dividendDays: [],
+    monthEnds: new Map(),
+  }
+  const cpiByMonth = new Map<string, number>()
+  let dividends = 0
+  let realDividends = 0
+  let reinvested = 1
+
+  priceHistory.forEach(({ date, close }, index) => {
+    const monthKey = date.substring(0, 7)
+    if (!cpiByMonth.has(monthKey)) cpiByMonth.set(monthKey, getCPI(date))
+    const cpi = cpiByMonth.get(monthKey)!
+
+    const dividend = dividendsByDate.get(date) ?? 0
+    if (dividend > 0) {
+      dividends += dividend
+      realDividends += dividend / cpi
+      reinvested += reinvested * applyPurchaseCosts(dividend, close).shares
+      series.dividendDays.push(index)
+    }
+
+    series.dates.push(date)
+    series.closes.push(close)
+    series.indexByDate.set(date, index)
+    series.cpi.push(cpi)
+    series.dividends.push(dividend)
+    series.cumulativeDividends.push(dividends)
+    series.cumulativeRealDividends.push(realDividends)
+    series.reinvestedShares.push(reinvested)
+    series.monthEnds.set(monthKey, index)
+  })
+
+  return series
+}
+
+/**
+ * Index of the first date not before date (inclusive) or after it (exclusive)
+ */
+function searchDates(dates: string[], date: string, inclusive: boolean): number {
+  let low = 0
+  let high = dates.length
+
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (dates[mid] < date || (!inclusive && dates[mid] === date)) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+
+  return low
+}
+
+interface Contribution {
+  index: number   // Trading day
+  amount: number
+}
+
+/**
+ * Running holdings for one window's contributions. Points must be requested in
+ * day order; each request folds in the contributions up to that day, so a
+ * window costs one step per contribution and per requested point.
+ */
+function createHoldings(
+  series: PriceSeries,
+  contributions: Contribution[],
+  isDRIP: boolean,
+  referenceCPI: number
+) {
+  let next = 0
+  let units = 0            // Shares, or with DRIP shares per unit of reinvestedShares
+  let dividendBasis = 0    // Dividends per share already paid when each share was bought
+  let realDividendBasis = 0
+  let principal = 0
+  let realPrincipal = 0
+
+  const advance = (index: number) => {
+    for (; next < contributions.length && contributions[next].index <= index; next++) {
+      const { index: day, amount } = contributions[next]
+      const shares = applyPurchaseCosts(amount, series.closes[day]).shares
+
+      units += isDRIP ? shares / series.reinvestedShares[day] : shares
+      dividendBasis += shares * series.cumulativeDividends[day]
+      realDividendBasis += shares * series.cumulativeRealDividends[day]
+      principal += amount
+      realPrincipal += (amount * referenceCPI) / series.cpi[day]
+    }
+  }
+
+  const at = (index: number): SimulationPoint => {
+    advance(index)
+    const shares = isDRIP ? units * series.reinvestedShares[index] : units
+    const marketValue = shares * series.closes[index]
+    const dividends = isDRIP ? 0 : units * series.cumulativeDividends[index] - dividendBasis
+
+    return {
+      date: series.dates[index],
+      principal,
+      dividends,
+      marketValue,
+      shares,
+      totalValue: marketValue + dividends,
+      fees: 0,
+      cash: 0,
+      withdrawn: 0,
+    }
+  }
+
+  // Same point in referenceCPI dollars, as deflatePoints would produce
+  const realAt = (index: number): SimulationPoint => {
+    const point = at(index)
+    const marketValue = (point.marketValue * referenceCPI) / series.cpi[index]
+    const dividends = isDRIP
+      ? 0
+      : referenceCPI * (units * series.cumulativeRealDividends[index] - realDividendBasis)
+
+    return {
+      ...point,
+      principal: realPrincipal,
+      dividends,
+      marketValue,
+      totalValue: marketValue + dividends,
+    }
+  }
+
+  return { at, realAt }
+}
+
+/**
+ * Contributions and cash dividends in the order the simulation records them.
+ * Reinvested dividends never leave the portfolio, so with DRIP only the
+ * contributions are flows.
+ */
+function collectCashFlows(
+  series: PriceSeries,
+  contributions: Contribution[],
+  isDRIP: boolean,
+  startIndex: number,
+  endIndex: number
+): CashFlow[] {
+  const flows: CashFlow[] = []
+  const dividendDays = isDRIP ? [] : series.dividendDays
+  let nextDividend = 0
+  while (nextDividend < dividendDays.length && dividendDays[nextDividend] < startIndex) {
+    nextDividend++
+  }
+  let shares = 0
+
+  // Dividends through day are paid on the shares bought before it
+  const payDividendsThrough = (day: number) => {
+    for (; nextDividend < dividendDays.length && dividendDays[nextDividend] <= day; nextDividend++) {
+      const index = dividendDays[nextDividend]
+      if (shares > 0) {
+        flows.push({ date: series.dates[index], amount: series.dividends[index] * shares })
+      }
+    }
+  }
+
+  for (const { index, amount } of contributions) {
+    payDividendsThrough(index)
+    shares += applyPurchaseCosts(amount, series.closes[index]).shares
+    flows.push({ date: series.dates[index], amount: -amount })
+  }
+  payDividendsThrough(endIndex)
+
+  return flows
+}
+
+interface DerivedHoldings {
+  result: SimulationResult
+  monthlyValues: number[]
+  monthlyInvested: number[]
+  monthlyWithdrawn: number[]
+  realCagr?: number
+}
+
+/**
+ * Headline figures and month-end values for one set of contributions in a window.
+ * monthIndices holds the trading day read for each month offset, or null for
+ * months with no trading day in the window.
+ */
+function deriveHoldings(
+  series: PriceSeries,
+  contributions: Contribution[],
+  config: RollingWindowConfig,
+  startIndex: number,
+  endIndex: number,
+  monthIndices: (number | null)[]
+): DerivedHoldings {
+  const holdings = createHoldings(
+    series,
+    contributions,
+    config.isDRIP,
+    series.cpi[startIndex]
+  )
+  const pointAt = config.realDollars ? holdings.realAt : holdings.at
+
+  const firstPoint = pointAt(startIndex)
+  const monthPoints = monthIndices.map((index) => (index === null ? undefined : pointAt(index)))
+  const lastPoint = holdings.at(endIndex)
+
+  const result = summarizeSimulation(
+    [lastPoint],
+    collectCashFlows(series, contributions, config.isDRIP, startIndex, endIndex),
+    series.dates[startIndex],
+    {
+      finalShares: lastPoint.shares,
+      totalInvested: lastPoint.principal,
+      totalDividends: lastPoint.dividends,
+      totalFees: 0,
+      totalDividendTaxes: 0,
+      totalWithdrawn: 0,
+      depletionDate: null,
+      taxLots: createEmptyTaxLotReport(),
+    }
+  )
+
+  const monthly = (pick: (point: SimulationPoint) => number) =>
+    carryForward(monthPoints.map((point) => point && pick(point)))
+
+  return {
+    result,
+    monthlyValues: monthly((point) => point.totalValue),
+    monthlyInvested: monthly((point) => point.principal),
+    monthlyWithdrawn: monthly((point) => point.withdrawn),
+    realCagr: config.realDollars
+      ? calculateRealCAGR(
+          endIndex > startIndex ? [firstPoint, holdings.realAt(endIndex)] : [firstPoint]
+        )
+      : undefined,
+  }
+}
+
+/**
+ * Derive a single rolling window from the shared arrays. Matches
+ * runWindowSimulation() for configs without withdrawals. Without
+ * includeMonthly the monthly series are left empty.
+ */
+function deriveWindow(
+  series: PriceSeries,
+  config: RollingWindowConfig,
+  startDate: string,
+  endDate: string,
+  includeMonthly: boolean = true
+): WindowResult | null {
+  const startIndex = searchDates(series.dates, startDate, true)
+  const endIndex = searchDates(series.dates, endDate, false) - 1
+
+  if (startIndex > endIndex) return null
+
+  // The simulation starts on the window's first trading day
+  const schedule = buildInvestmentSchedule(
+    series.dates[startIndex],
+    series.dates[endIndex],
+    config.frequency,
+    series.indexByDate,
+    config
+  )
+  const contributions = Array.from(schedule, ([date, amount]) => ({
+    index: series.indexByDate.get(date)!,
+    amount,
+  })).sort((a, b) => a.index - b.index)
+
+  // Last trading day of each month within the window
+  const monthKeys = includeMonthly ? getMonthKeys(startDate, config.horizonYears * 12) : []
+  const monthIndices = monthKeys.map((monthKey) => {
+    const monthEnd = series.monthEnds.get(monthKey)
+    if (monthEnd === undefined || monthEnd < startIndex) return null
+    if (monthEnd <= endIndex) return monthEnd
+    return series.dates[endIndex].startsWith(monthKey) ? endIndex : null
+  })
+
+  const dca = deriveHoldings(series, contributions, config, startIndex, endIndex, monthIndices)
+  const totalInvested = dca.result.totalInvested
+
+  // Same total invested on the first scheduled trading day
+  const lumpSum = contributions.length > 0 && totalInvested > 0
+    ? deriveHoldings(
+        series,
+        [{ index: contributions[0].index, amount: totalInvested }],
+        config,
+        startIndex,
+        endIndex,
+        monthIndices
+      )
+    : null
+
+  return {
+    startDate,
+    endDate,
+    totalReturn: dca.result.totalReturn,
+    cagr: dca.result.cagr,
+    xirr: dca.result.xirr,
+    totalWithdrawn: 0,
+    depletionDate: null,
+    finalValue: dca.result.finalValue,
+    totalInvested,
+    monthlyValues: dca.monthlyValues,
+    monthlyInvested: dca.monthlyInvested,
+    monthlyWithdrawn: dca.monthlyWithdrawn,
+    realCagr: dca.realCagr,
+    lumpSumFinalValue: lumpSum?.result.finalValue ?? 0,
+    lumpSumReturn: lumpSum?.result.totalReturn ?? 0,
+    lumpSumMonthlyValues: lumpSum?.monthlyValues ?? [],
+    lumpSumMonthlyInvested: lumpSum?.monthlyInvested ?? [],
+    lumpSumMonthlyWithdrawn: lumpSum?.monthlyWithdrawn ?? [],
+  }
+}
+
+/**
+ * Compare lump sum against DCA by the gap in total return per window.
+ * Both invest the same total, so the gap is also the difference in ending
+ * wealth as a share of the amount invested.
+ */
+function computeLumpSumComparison(
+  windows: WindowResult[],
+  percentiles: number[]
+): LumpSumComparison | null {
+  if (windows.length === 0) return null
+
+  const margins = windows.map((w) => w.lumpSumReturn - w.totalReturn)
+  const wins = margins.filter((margin) => margin > 0).length
+  const marginPercentiles = calculatePercentiles(margins, percentiles)
+
+  return {
+    winRate: (wins / windows.length) * 100,
+    averageMargin: margins.reduce((sum, margin) => sum + margin, 0) / margins.length,
+    marginDistribution: Object.fromEntries(
+      percentiles.map((p) => [percentileKey(p), marginPercentiles[p]])
+    ),
   }
 }
 
 /**
  * Compute statistics from all window results.
  */
-function computeStats(windows: WindowResult[]): RollingWindowStats {
+function computeStats(
+  windows: WindowResult[],
+  hasWithdrawals: boolean = false,
+  percentiles: number[] = DEFAULT_PERCENTILES
+): RollingWindowStats {
   if (windows.length === 0) {
     return {
       windowCount: 0,
       medianReturn: 0,
       medianCAGR: 0,
+      medianXIRR: 0,
       successRate: 0,
+      withdrawalSuccessRate: null,
+      medianRealCAGR: null,
       bestWindow: null,
       worstWindow: null,
       returnDistribution: { negative: 0, low: 0, medium: 0, high: 0 },
+      lumpSum: null,
     }
   }
 
   const returns = windows.map((w) => w.totalReturn)
   const cagrs = windows.map((w) => w.cagr)
+  const xirrs = windows.map((w) => w.xirr)
 
   // Find best and worst windows by total return
   let bestWindow = windows[0]
@@ -194,75 +668,195 @@ function computeStats(windows: WindowResult[]): RollingWindowStats {
   const successCount = returns.filter((r) => r > 0).length
   const successRate = (successCount / returns.length) * 100
 
+  // Safe-withdrawal success: share of windows that never ran out of money
+  const withdrawalSuccessRate = hasWithdrawals
+    ? (windows.filter((w) => w.depletionDate === null).length / windows.length) * 100
+    : null
+
+  const realCagrs = windows
+    .map((w) => w.realCagr)
+    .filter((cagr): cagr is number => cagr !== undefined)
+
   return {
     windowCount: windows.length,
     medianReturn: calculateMedian(returns),
     medianCAGR: calculateMedian(cagrs),
+    medianXIRR: calculateMedian(xirrs),
     successRate,
+    withdrawalSuccessRate,
+    medianRealCAGR: realCagrs.length > 0 ? calculateMedian(realCagrs) : null,
     bestWindow,
     worstWindow,
     returnDistribution: categorizeReturns(returns),
+    lumpSum: computeLumpSumComparison(windows, percentiles),
   }
 }
 
+/**
+ * Total return at a month offset from that month's principal. Withdrawals
+ * already paid out count toward the outcome, as in the simulation's totalReturn.
+ */
+function returnAtMonth(value: number, withdrawn: number, invested: number): number {
+  return invested > 0 ? ((value + withdrawn - invested) / invested) * 100 : 0
+}
+
 /**
  * Compute percentile bands from all window monthly values.
  */
 function computePercentileBands(
   windows: WindowResult[],
-  horizonMonths: number
-): { valueBands: PercentileBands; returnBands: PercentileBands } {
+  horizonMonths: number,
+  percentiles: number[]
+): {
+  valueBands: PercentileBands
+  returnBands: PercentileBands
+  lumpSumValueBands: PercentileBands
+  lumpSumReturnBands: PercentileBands
+} {
   if (windows.length === 0) {
-    const empty: PercentileBands = {
-      p10: [],
-      p25: [],
-      p50: [],
-      p75: [],
-      p90: [],
+    const empty = calculatePercentileBands([], percentiles)
+    return {
+      valueBands: empty,
+      returnBands: empty,
+      lumpSumValueBands: empty,
+      lumpSumReturnBands: empty,
     }
-    return { valueBands: empty, returnBands: empty }
   }
 
   // Collect values at each month offset
   const valueArrays: number[][] = []
   const returnArrays: number[][] = []
+  const lumpSumValueArrays: number[][] = []
+  const lumpSumReturnArrays: number[][] = []
 
   for (let month = 0; month <= horizonMonths; month++) {
     const valuesAtMonth: number[] = []
     const returnsAtMonth: number[] = []
+    const lumpSumValuesAtMonth: number[] = []
+    const lumpSumReturnsAtMonth: number[] = []
 
     for (const window of windows) {
       if (month < window.monthlyValues.length) {
-        const value = window.monthlyValues[month]
-        valuesAtMonth.push(value)
-
-        // Calculate return at this month
-        // We need to know the invested amount up to this month
-        // For simplicity, we'll use (value - invested) / invested * 100
-        // The invested amount grows monthly, so we approximate
-        const monthsInvested = month + 1
-
-        // Estimate invested amount proportionally
-        const investedByMonth = window.totalInvested * (monthsInvested / (window.monthlyValues.length || 1))
-        const returnAtMonth = investedByMonth > 0
-          ? ((value - investedByMonth) / investedByMonth) * 100
-          : 0
-        returnsAtMonth.push(returnAtMonth)
+        valuesAtMonth.push(window.monthlyValues[month])
+        returnsAtMonth.push(
+          returnAtMonth(
+            window.monthlyValues[month],
+            window.monthlyWithdrawn[month],
+            window.monthlyInvested[month]
+          )
+        )
+      }
+
+      if (month < window.lumpSumMonthlyValues.length) {
+        lumpSumValuesAtMonth.push(window.lumpSumMonthlyValues[month])
+        lumpSumReturnsAtMonth.push(
+          returnAtMonth(
+            window.lumpSumMonthlyValues[month],
+            window.lumpSumMonthlyWithdrawn[month],
+            window.lumpSumMonthlyInvested[month]
+          )
+        )
       }
     }
 
     valueArrays.push(valuesAtMonth)
     returnArrays.push(returnsAtMonth)
+    lumpSumValueArrays.push(lumpSumValuesAtMonth)
+    lumpSumReturnArrays.push(lumpSumReturnsAtMonth)
   }
 
   return {
-    valueBands: calculatePercentileBands(valueArrays),
-    returnBands: calculatePercentileBands(returnArrays),
+    valueBands: calculatePercentileBands(valueArrays, percentiles),
+    returnBands: calculatePercentileBands(returnArrays, percentiles),
+    lumpSumValueBands: calculatePercentileBands(lumpSumValueArrays, percentiles),
+    lumpSumReturnBands: calculatePercentileBands(lumpSumReturnArrays, percentiles),
+  }
+}
+
+/**
+ * A window's CAGR or total return
+ */
+export function getWindowMetric(window: WindowResult, metric: WindowMetric): number {
+  return metric === 'cagr' ? window.cagr : window.totalReturn
+}
+
+/**
+ * Date range covered by every price history, or null if they don't all
+ * overlap. Tickers analyzed side by side are clipped to it so their windows
+ * start in the same months.
+ */
+export function getCommonPriceRange(
+  histories: PricePoint[][]
+): { firstDate: string; lastDate: string } | null {
+  if (histories.length === 0 || histories.some((history) => history.length === 0)) {
+    return null
+  }
+
+  let firstDate = histories[0][0].date
+  let lastDate = histories[0][histories[0].length - 1].date
+  for (const history of histories) {
+    if (history[0].date > firstDate) firstDate = history[0].date
+    if (history[history.length - 1].date < lastDate) lastDate = history[history.length - 1].date
   }
+
+  return firstDate <= lastDate ? { firstDate, lastDate } : null
 }
 
 /**
- * Determine which horizons are available given the data length.
+ * Prices within [firstDate, lastDate]
+ */
+export function clipPriceHistory(
+  priceHistory: PricePoint[],
+  range: { firstDate: string; lastDate: string }
+): PricePoint[] {
+  return priceHistory.filter(
+    (point) => point.date >= range.firstDate && point.date <= range.lastDate
+  )
+}
+
+/**
+ * How often each window beat the other analysis's window starting the same
+ * month, and by how much, both by CAGR. Start months missing from either side
+ * are left out.
+ */
+export function compareRollingWindows(
+  windows: WindowResult[],
+  opponentWindows: WindowResult[]
+): RollingMatchup {
+  const opponentByStart = new Map(opponentWindows.map((window) => [window.startDate, window]))
+  const differences: number[] = []
+  let wins = 0
+
+  for (const window of windows) {
+    const opponent = opponentByStart.get(window.startDate)
+    if (!opponent) continue
+
+    const difference = window.cagr - opponent.cagr
+    if (difference > 0) wins++
+    differences.push(difference)
+  }
+
+  return {
+    windowCount: differences.length,
+    winRate: differences.length > 0 ? (wins / differences.length) * 100 : 0,
+    medianCAGRDifference: calculateMedian(differences),
+  }
+}
+
+/**
+ * Whole-year horizons from MIN_HORIZON_YEARS through longest.
+ */
+export function getHorizonRange(longest: number): HorizonYears[] {
+  return Array.from(
+    { length: Math.max(0, longest - MIN_HORIZON_YEARS + 1) },
+    (_, i) => MIN_HORIZON_YEARS + i
+  )
+}
+
+/**
+ * Determine which horizons are available given the data length: every whole
+ * year from MIN_HORIZON_YEARS up to one year short of the data, capped at
+ * MAX_HORIZON_YEARS.
  */
 export function getAvailableHorizons(
   priceHistory: PricePoint[]
@@ -274,32 +868,129 @@ export function getAvailableHorizons(
   const yearsOfData =
     (lastDate.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24 * 365.25)
 
-  const horizons: HorizonYears[] = []
-
   // Need at least horizon + 1 year to have meaningful rolling windows
-  if (yearsOfData >= 6) horizons.push(5)
-  if (yearsOfData >= 11) horizons.push(10)
-  if (yearsOfData >= 16) horizons.push(15)
-  if (yearsOfData >= 21) horizons.push(20)
+  return getHorizonRange(Math.min(MAX_HORIZON_YEARS, Math.floor(yearsOfData - 1)))
+}
 
-  return horizons
+/**
+ * Create a function that computes the window starting on a given date, so
+ * callers can split the start dates up (e.g. across workers). The incremental
+ * engine's shared arrays are built once, here.
+ */
+export function createWindowRunner(
+  priceHistory: PricePoint[],
+  dividendHistory: DividendHistory[],
+  config: RollingWindowConfig,
+  engine: RollingEngine = 'incremental'
+): (startDate: string) => WindowResult | null {
+  // Withdrawals depend on each window's running balance, so those windows
+  // are always simulated
+  const series = engine === 'incremental' && !config.withdrawal
+    ? buildPriceSeries(priceHistory, dividendHistory)
+    : null
+
+  return (startDate) => {
+    const endDate = getWindowEndDate(startDate, config.horizonYears)
+    return series
+      ? deriveWindow(series, config, startDate, endDate)
+      : runWindowSimulation(priceHistory, dividendHistory, config, startDate, endDate)
+  }
 }
 
 /**
- * Main entry point: Run rolling window analysis.
- *
- * @param priceHistory - Complete price history for the ticker
- * @param dividendHistory - Complete dividend history for the ticker
- * @param config - Rolling window configuration
- * @returns Complete rolling window analysis result
+ * Create a function that computes, for one start date, the window of every
+ * horizon that fits in the data (shortest first). Sweeping all horizons from
+ * each start date in one pass shares the arrays the incremental engine builds
+ * and skips the monthly series, which the heatmap does not plot.
  */
-export function runRollingWindowAnalysis(
+export function createSweepRunner(
   priceHistory: PricePoint[],
   dividendHistory: DividendHistory[],
-  config: RollingWindowConfig
+  config: RollingWindowConfig,
+  horizons: HorizonYears[],
+  engine: RollingEngine = 'incremental'
+): (startDate: string) => WindowResult[] {
+  const series = engine === 'incremental' && !config.withdrawal
+    ? buildPriceSeries(priceHistory, dividendHistory)
+    : null
+  const horizonConfigs = horizons.map((horizonYears) => ({ ...config, horizonYears }))
+  const validStarts = horizons.map(
+    (horizonYears) => new Set(getWindowStartDates(priceHistory, horizonYears))
+  )
+
+  return (startDate) => {
+    const windows: WindowResult[] = []
+
+    horizonConfigs.forEach((horizonConfig, i) => {
+      if (!validStarts[i].has(startDate)) return
+
+      const endDate = getWindowEndDate(startDate, horizonConfig.horizonYears)
+      const window = series
+        ? deriveWindow(series, horizonConfig, startDate, endDate, false)
+        : runWindowSimulation(priceHistory, dividendHistory, horizonConfig, startDate, endDate)
+
+      if (window) {
+        windows.push({
+          ...window,
+          monthlyValues: [],
+          monthlyInvested: [],
+          monthlyWithdrawn: [],
+          lumpSumMonthlyValues: [],
+          lumpSumMonthlyInvested: [],
+          lumpSumMonthlyWithdrawn: [],
+        })
+      }
+    })
+
+    return windows
+  }
+}
+
+/**
+ * Arrange swept windows (from any start dates, in any order) into the
+ * start date × horizon grid, with statistics per horizon.
+ */
+export function summarizeHorizonSweep(
+  startDates: string[],
+  horizons: HorizonYears[],
+  config: RollingWindowConfig,
+  windows: WindowResult[]
+): HorizonHeatmap {
+  const percentiles = normalizePercentiles(config.percentiles ?? DEFAULT_PERCENTILES)
+  const byStartAndEnd = new Map(windows.map((w) => [`${w.startDate}|${w.endDate}`, w]))
+
+  const grid = horizons.map((horizonYears) =>
+    startDates.map(
+      (startDate) =>
+        byStartAndEnd.get(`${startDate}|${getWindowEndDate(startDate, horizonYears)}`) ?? null
+    )
+  )
+
+  return {
+    startDates,
+    horizons,
+    windows: grid,
+    stats: grid.map((row) =>
+      computeStats(
+        row.filter((w): w is WindowResult => w !== null),
+        !!config.withdrawal,
+        percentiles
+      )
+    ),
+  }
+}
+
+/**
+ * Combine computed windows (in start date order) into the full analysis
+ * result: percentile bands, statistics and the data range.
+ */
+export function summarizeRollingWindows(
+  priceHistory: PricePoint[],
+  config: RollingWindowConfig,
+  windows: WindowResult[]
 ): RollingWindowResult {
-  const { horizonYears } = config
-  const horizonMonths = horizonYears * 12
+  const horizonMonths = config.horizonYears * 12
+  const percentiles = normalizePercentiles(config.percentiles ?? DEFAULT_PERCENTILES)
 
   // Calculate data range
   const firstDate = priceHistory.length > 0 ? priceHistory[0].date : ''
@@ -311,68 +1002,109 @@ export function runRollingWindowAnalysis(
         (1000 * 60 * 60 * 24 * 365.25)
       : 0
 
-  // Generate all valid window start dates
-  const startDates = generateWindowStartDates(priceHistory, horizonYears)
-
-  if (startDates.length === 0) {
+  if (windows.length === 0) {
     // Not enough data for any windows
+    const empty = calculatePercentileBands([], percentiles)
     return {
-      config,
+      config: { ...config, percentiles },
       normalizedBands: {
         monthOffsets: [],
-        valueBands: { p10: [], p25: [], p50: [], p75: [], p90: [] },
-        returnBands: { p10: [], p25: [], p50: [], p75: [], p90: [] },
-      },
-      stats: {
-        windowCount: 0,
-        medianReturn: 0,
-        medianCAGR: 0,
-        successRate: 0,
-        bestWindow: null,
-        worstWindow: null,
-        returnDistribution: { negative: 0, low: 0, medium: 0, high: 0 },
+        valueBands: empty,
+        returnBands: empty,
+        lumpSumValueBands: empty,
+        lumpSumReturnBands: empty,
       },
+      stats: computeStats([]),
       windows: [],
       dataRange: { firstDate, lastDate, yearsOfData },
     }
   }
 
-  // Run simulation for each window
-  const windows: WindowResult[] = []
-
-  for (const startDate of startDates) {
-    const endDate = getWindowEndDate(startDate, horizonYears)
-    const result = runWindowSimulation(
-      priceHistory,
-      dividendHistory,
-      config,
-      startDate,
-      endDate
-    )
-
-    if (result) {
-      windows.push(result)
-    }
-  }
-
   // Compute percentile bands
-  const { valueBands, returnBands } = computePercentileBands(windows, horizonMonths)
+  const { valueBands, returnBands, lumpSumValueBands, lumpSumReturnBands } =
+    computePercentileBands(windows, horizonMonths, percentiles)
 
   // Generate month offsets array [0, 1, 2, ..., horizonMonths]
   const monthOffsets = Array.from({ length: horizonMonths + 1 }, (_, i) => i)
 
   // Compute statistics
-  const stats = computeStats(windows)
+  const stats = computeStats(windows, !!config.withdrawal, percentiles)
 
   return {
-    config,
+    config: { ...config, percentiles },
     normalizedBands: {
       monthOffsets,
       valueBands,
       returnBands,
+      lumpSumValueBands,
+      lumpSumReturnBands,
     },
     stats,
     windows,
     dataRange: { firstDate, lastDate, yearsOfData },
   }
 }
+
+/**
+ * Main entry point: Run rolling window analysis.
+ *
+ * @param priceHistory - Complete price history for the ticker
+ * @param dividendHistory - Complete dividend history for the ticker
+ * @param config - Rolling window configuration
+ * @param engine - How windows are computed (see RollingEngine)
+ * @returns Complete rolling window analysis result
+ */
+export function runRollingWindowAnalysis(
+  priceHistory: PricePoint[],
+  dividendHistory: DividendHistory[],
+  config: RollingWindowConfig,
+  engine: RollingEngine = 'incremental'
+): RollingWindowResult {
+  const startDates = getWindowStartDates(priceHistory, config.horizonYears)
+  const windows: WindowResult[] = []
+
+  if (startDates.length > 0) {
+    const runWindow = createWindowRunner(priceHistory, dividendHistory, config, engine)
+
+    for (const startDate of startDates) {
+      const result = runWindow(startDate)
+      if (result) {
+        windows.push(result)
+      }
+    }
+  }
+
+  return summarizeRollingWindows(priceHistory, config, windows)
+}
+
+/**
+ * Sweep every available horizon from every window start month, for the
+ * start date × horizon heatmap. config.horizonYears is ignored.
+ *
+ * @param priceHistory - Complete price history for the ticker
+ * @param dividendHistory - Complete dividend history for the ticker
+ * @param config - Rolling window configuration
+ * @param engine - How windows are computed (see RollingEngine)
+ * @returns Grid of windows by horizon and start date
+ */
+export function runHorizonSweep(
+  priceHistory: PricePoint[],
+  dividendHistory: DividendHistory[],
+  config: RollingWindowConfig,
+  engine: RollingEngine = 'incremental'
+): HorizonHeatmap {
+  const horizons = getAvailableHorizons(priceHistory)
+  // The shortest horizon has the most start dates; longer ones use a prefix
+  const startDates = horizons.length > 0 ? getWindowStartDates(priceHistory, horizons[0]) : []
+  const windows: WindowResult[] = []
+
+  if (startDates.length > 0) {
+    const runStart = createSweepRunner(priceHistory, dividendHistory, config, horizons, engine)
+
+    for (const startDate of startDates) {
+      windows.push(...runStart(startDate))
+    }
+  }
+
+  return summarizeHorizonSweep(startDates, horizons, config, windows)
+}
@@ -0,0 +1,192 @@
+/**
+ * Tax Lot Tracking
+ *
+ * Records every purchase as its own lot (date, shares, cost basis) and matches
+ * sales against the open lots using FIFO, LIFO or HIFO, splitting realized and
+ * unrealized gains into short-term and long-term.
+ */
+
+import type {
+  HoldingTerm,
+  LotSelectionMethod,
+  LotSource,
+  RealizedLot,
+  TaxLot,
+  TaxLotReport,
+} from '../api/types'
+
+// Lots smaller than this are treated as fully sold
+const EMPTY_LOT_SHARES = 1e-9
+
+interface OpenLot {
+  acquired: string
+  source: LotSource
+  units: number     // Shares before expense redemptions (see shrink)
+  costBasis: number
+}
+
+export interface LotLedger {
+  /** Open a lot for shares bought on date (cost includes purchase fees) */
+  buy: (date: string, shares: number, cost: number, source: LotSource) => void
+  /** Sell shares on date, realizing gains against the selected lots */
+  sell: (date: string, shares: number, proceeds: number) => void
+  /**
+   * Scale every lot's shares by factor without changing its basis. Used for
+   * expense ratio redemptions, which are fund costs rather than taxable sales.
+   */
+  shrink: (factor: number) => void
+  /** Basis, gains and open lots marked to price on date */
+  report: (date: string, price: number) => TaxLotReport
+}
+
+/**
+ * Short-term unless sold after the one-year anniversary of the purchase
+ */
+export function getHoldingTerm(acquired: string, date: string): HoldingTerm {
+  const anniversary = new Date(acquired)
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1)
+  return date > anniversary.toISOString().split('T')[0] ? 'long' : 'short'
+}
+
+export function createEmptyTaxLotReport(method: LotSelectionMethod = 'fifo'): TaxLotReport {
+  return {
+    method,
+    lots: [],
+    realized: [],
+    costBasis: 0,
+    unrealizedShortTerm: 0,
+    unrealizedLongTerm: 0,
+    realizedShortTerm: 0,
+    realizedLongTerm: 0,
+  }
+}
+
+/**
+ * Create a ledger that tracks lots for a single security.
+ */
+export function createLotLedger(method: LotSelectionMethod = 'fifo'): LotLedger {
+  // Lots in purchase order
+  let lots: OpenLot[] = []
+  const realized: RealizedLot[] = []
+  // Shares per unit; expense redemptions scale every lot at once
+  let shareFactor = 1
+
+  const sharesOf = (lot: OpenLot) => lot.units * shareFactor
+
+  // Lots in the order a sale draws from them
+  const selectionOrder = (): OpenLot[] => {
+    switch (method) {
+      case 'fifo':
+        return lots
+      case 'lifo':
+        return [...lots].reverse()
+      case 'hifo':
+        return [...lots].sort((a, b) => b.costBasis / b.units - a.costBasis / a.units)
+    }
+  }
+
+  return {
+    buy: (date, shares, cost, source) => {
+      if (shares <= 0) return
+      lots.push({ acquired: date, source, units: shares / shareFactor, costBasis: cost })
+    },
+
+    sell: (date, shares, proceeds) => {
+      if (shares <= 0) return
+      let remaining = shares
+
+      for (const lot of selectionOrder()) {
+        if (remaining <= EMPTY_LOT_SHARES) break
+
+        const lotShares = sharesOf(lot)
+        const sold = Math.min(remaining, lotShares)
+        const fraction = sold / lotShares
+        const basis = lot.costBasis * fraction
+        const lotProceeds = proceeds * (sold / shares)
+
+        realized.push({
+          acquired: lot.acquired,
+          source: lot.source,
+          sold: date,
+          shares: sold,
+          proceeds: lotProceeds,
+          costBasis: basis,
+          gain: lotProceeds - basis,
+          term: getHoldingTerm(lot.acquired, date),
+        })
+
+        lot.units -= lot.units * fraction
+        lot.costBasis -= basis
+        remaining -= sold
+      }
+
+      lots = lots.filter((lot) => sharesOf(lot) > EMPTY_LOT_SHARES)
+    },
+
+    shrink: (factor) => {
+      shareFactor *= factor
+    },
+
+    report: (date, price) => {
+      const report = createEmptyTaxLotReport(method)
+
+      report.lots = lots.map((lot): TaxLot => {
+        const shares = sharesOf(lot)
+        const term = getHoldingTerm(lot.acquired, date)
+        const marketValue = shares * price
+        const gain = marketValue - lot.costBasis
+
+        report.costBasis += lot.costBasis
+        if (term === 'long') {
+          report.unrealizedLongTerm += gain
+        } else {
+          report.unrealizedShortTerm += gain
+        }
+
+        return {
+          acquired: lot.acquired,
+          source: lot.source,
+          shares,
+          costBasis: lot.costBasis,
+          marketValue,
+          term,
+        }
+      })
+
+      report.realized = [...realized]
+      for (const sale of realized) {
+        if (sale.term === 'long') {
+          report.realizedLongTerm += sale.gain
+        } else {
+          report.realizedShortTerm += sale.gain
+        }
+      }
+
+      return report
+    },
+  }
+}
+
+/**
+ * Combine per-holding reports into one, tagging each lot with its ticker
+ */
+export function mergeTaxLotReports(
+  reports: { ticker: string; report: TaxLotReport }[],
+  method: LotSelectionMethod
+): TaxLotReport {
+  const merged = createEmptyTaxLotReport(method)
+
+  for (const { ticker, report } of reports) {
+    merged.lots.push(...report.lots.map((lot) => ({ ...lot, ticker })))
+    merged.realized.push(...report.realized.map((sale) => ({ ...sale, ticker })))
+    merged.costBasis += report.costBasis
+    merged.unrealizedShortTerm += report.unrealizedShortTerm
+    merged.unrealizedLongTerm += report.unrealizedLongTerm
+    merged.realizedShortTerm += report.realizedShortTerm
+    merged.realizedLongTerm += report.realizedLongTerm
+  }
+
+  merged.lots.sort((a, b) => a.acquired.localeCompare(b.acquired))
+  merged.realized.sort((a, b) => a.sold.localeCompare(b.sold))
+  return merged
+}
@@ -0,0 +1,113 @@
+/**
+ * Money-weighted return (XIRR)
+ *
+ * Solves for the annualized rate that discounts a series of dated cash flows to
+ * zero. Unlike CAGR, each contribution only counts for the time it was actually
+ * invested, so late DCA contributions are not penalized as if deposited on day one.
+ */
+
+import type { CashFlow } from '../api/types'
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365.25
+const MAX_ITERATIONS = 100
+const TOLERANCE = 1e-9
+
+// Rates are bounded below by -100% (total loss)
+const MIN_RATE = -0.999999
+const MAX_RATE = 1e6
+
+/**
+ * Net present value of cash flows at a given annual rate, with time measured
+ * in years from the first flow
+ */
+function netPresentValue(flows: CashFlow[], years: number[], rate: number): number {
+  let npv = 0
+  for (let i = 0; i < flows.length; i++) {
+    npv += flows[i].amount / Math.pow(1 + rate, years[i])
+  }
+  return npv
+}
+
+/**
+ * Derivative of netPresentValue with respect to the rate (for Newton's method)
+ */
+function netPresentValueDerivative(flows: CashFlow[], years: number[], rate: number): number {
+  let derivative = 0
+  for (let i = 0; i < flows.length; i++) {
+    derivative -= (years[i] * flows[i].amount) / Math.pow(1 + rate, years[i] + 1)
+  }
+  return derivative
+}
+
+/**
+ * Bracketed bisection fallback for when Newton's method diverges
+ */
+function bisect(flows: CashFlow[], years: number[]): number | null {
+  let low = MIN_RATE
+  let high = 1
+  let npvLow = netPresentValue(flows, years, low)
+  let npvHigh = netPresentValue(flows, years, high)
+
+  // Widen the upper bound until the root is bracketed
+  while (npvLow * npvHigh > 0 && high < MAX_RATE) {
+    high *= 10
+    npvHigh = netPresentValue(flows, years, high)
+  }
+  if (npvLow * npvHigh > 0) return null
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const npvMid = netPresentValue(flows, years, mid)
+    if (Math.abs(npvMid) < TOLERANCE || high - low < TOLERANCE) return mid
+
+    if (npvLow * npvMid < 0) {
+      high = mid
+    } else {
+      low = mid
+      npvLow = npvMid
+    }
+  }
+
+  return (low + high) / 2
+}
+
+/**
+ * Annualized internal rate of return (as a percentage) for dated cash flows.
+ * Flows use the investor's perspective: contributions negative, withdrawals,
+ * cash dividends and the ending value positive. Returns 0 when no rate exists
+ * (no sign change, or all flows on one day).
+ */
+export function calculateXIRR(cashFlows: CashFlow[]): number {
+  const flows = cashFlows
+    .filter((flow) => flow.amount !== 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  if (flows.length < 2) return 0
+
+  const hasOutflow = flows.some((flow) => flow.amount < 0)
+  const hasInflow = flows.some((flow) => flow.amount > 0)
+  if (!hasOutflow || !hasInflow) return 0
+
+  const firstMs = new Date(flows[0].date).getTime()
+  const years = flows.map((flow) => (new Date(flow.date).getTime() - firstMs) / MS_PER_YEAR)
+  if (years[years.length - 1] <= 0) return 0
+
+  // Newton's method from a 10% guess
+  let rate = 0.1
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const npv = netPresentValue(flows, years, rate)
+    const derivative = netPresentValueDerivative(flows, years, rate)
+    if (!Number.isFinite(npv) || !Number.isFinite(derivative) || derivative === 0) break
+
+    const next = rate - npv / derivative
+    if (!Number.isFinite(next) || next <= MIN_RATE) break
+
+    if (Math.abs(next - rate) < TOLERANCE) {
+      return next * 100
+    }
+    rate = next
+  }
+
+  const bisected = bisect(flows, years)
+  return bisected === null ? 0 : bisected * 100
+}
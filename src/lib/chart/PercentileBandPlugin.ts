@@ -6,24 +6,84 @@
  *
  * Based on the Lightweight Charts plugin architecture (v4.1+):
  * - Implements ISeriesPrimitivePaneRenderer for custom canvas drawing
- * - Draws two filled bands: outer (p10-p90) and inner (p25-p75)
+ * - Draws a filled band per percentile pair, outermost first: p10-p90 and
+ *   p25-p75 by default, or any symmetric set such as p5/p10/p25/p75/p90/p95
  * - Draws a median line (p50) on top
+ * - Optionally draws more sets of bands over the first (e.g. lump sum, or
+ *   other tickers), each with a dashed median or as the median alone
  */
 
 import type { RollingChartDataPoint } from '../api/types'
+import { percentileKey } from '../calculation/percentileUtils'
 
 export interface PercentileBandColors {
-  outerBand: string // Color for p10-p90 band (lightest)
-  innerBand: string // Color for p25-p75 band (medium)
+  outerBand: string // Color for every band but the innermost (stacks darker inward)
+  innerBand: string // Color for the innermost band, e.g. p25-p75
   medianLine: string // Color for p50 line (darkest)
 }
 
-const DEFAULT_COLORS: PercentileBandColors = {
+export const DEFAULT_COLORS: PercentileBandColors = {
   outerBand: 'rgba(59, 130, 246, 0.15)', // Blue at 15% opacity
   innerBand: 'rgba(59, 130, 246, 0.3)', // Blue at 30% opacity
   medianLine: 'rgba(59, 130, 246, 1)', // Solid blue
 }
 
+/**
+ * Overlay colors for lump sum bands, matching the orange lump sum line
+ * on the single scenario chart.
+ */
+export const LUMP_SUM_COLORS: PercentileBandColors = {
+  outerBand: 'rgba(249, 115, 22, 0.1)', // Orange at 10% opacity
+  innerBand: 'rgba(249, 115, 22, 0.2)', // Orange at 20% opacity
+  medianLine: 'rgba(249, 115, 22, 1)', // Solid orange
+}
+
+/**
+ * Overlay colors for comparison tickers, assigned in order
+ */
+export const COMPARISON_COLORS: PercentileBandColors[] = [
+  {
+    outerBand: 'rgba(16, 185, 129, 0.1)', // Emerald
+    innerBand: 'rgba(16, 185, 129, 0.2)',
+    medianLine: 'rgba(16, 185, 129, 1)',
+  },
+  {
+    outerBand: 'rgba(168, 85, 247, 0.1)', // Purple
+    innerBand: 'rgba(168, 85, 247, 0.2)',
+    medianLine: 'rgba(168, 85, 247, 1)',
+  },
+  {
+    outerBand: 'rgba(236, 72, 153, 0.1)', // Pink
+    innerBand: 'rgba(236, 72, 153, 0.2)',
+    medianLine: 'rgba(236, 72, 153, 1)',
+  },
+  {
+    outerBand: 'rgba(234, 179, 8, 0.1)', // Yellow
+    innerBand: 'rgba(234, 179, 8, 0.2)',
+    medianLine: 'rgba(234, 179, 8, 1)',
+  },
+  {
+    outerBand: 'rgba(6, 182, 212, 0.1)', // Cyan
+    innerBand: 'rgba(6, 182, 212, 0.2)',
+    medianLine: 'rgba(6, 182, 212, 1)',
+  },
+  {
+    outerBand: 'rgba(244, 63, 94, 0.1)', // Rose
+    innerBand: 'rgba(244, 63, 94, 0.2)',
+    medianLine: 'rgba(244, 63, 94, 1)',
+  },
+]
+
+/**
+ * Colors for the comparison ticker at index, cycling through COMPARISON_COLORS
+ */
+export function getComparisonColors(index: number): PercentileBandColors {
+  return COMPARISON_COLORS[index % COMPARISON_COLORS.length]
+}
+
+// Dash pattern for the overlay's median line
+const OVERLAY_MEDIAN_DASH = [6, 4]
+
 /**
  * Draws a filled band between two value arrays.
  * Creates a polygon by tracing upper values forward, then lower values backward.
@@ -75,13 +135,15 @@ function drawMedianLine(
   timeCoords: number[],
   color: string,
   lineWidth: number,
-  priceToY: (price: number) => number
+  priceToY: (price: number) => number,
+  dash: number[] = []
 ): void {
   if (values.length === 0 || timeCoords.length === 0) return
 
   ctx.beginPath()
   ctx.strokeStyle = color
   ctx.lineWidth = lineWidth
+  ctx.setLineDash(dash)
 
   for (let i = 0; i < values.length && i < timeCoords.length; i++) {
     const x = timeCoords[i]
@@ -95,6 +157,71 @@ function drawMedianLine(
   }
 
   ctx.stroke()
+  ctx.setLineDash([])
+}
+
+/**
+ * Pair each percentile below the median with its mirror above it,
+ * outermost pair first: [10, 25, 50, 75, 90] -> [[10, 90], [25, 75]].
+ */
+export function getBandPairs(percentiles: number[]): [number, number][] {
+  return percentiles
+    .filter((p) => p < 50 && percentiles.includes(100 - p))
+    .sort((a, b) => a - b)
+    .map((p) => [p, 100 - p])
+}
+
+/**
+ * Fill color for the band at index in getBandPairs order.
+ */
+export function getBandColor(
+  colors: PercentileBandColors,
+  index: number,
+  pairCount: number
+): string {
+  return pairCount > 1 && index === pairCount - 1 ? colors.innerBand : colors.outerBand
+}
+
+/**
+ * Draws one set of bands, outermost first, then the median line.
+ */
+function drawBandSet(
+  ctx: CanvasRenderingContext2D,
+  data: RollingChartDataPoint[],
+  percentiles: number[],
+  colors: PercentileBandColors,
+  medianLineWidth: number,
+  timeToX: (time: number) => number,
+  priceToY: (price: number) => number,
+  medianDash: number[] = [],
+  medianOnly = false
+): void {
+  if (data.length === 0) return
+
+  // Pre-compute X coordinates for all time points
+  const timeCoords = data.map((d) => timeToX(d.time))
+  const valuesAt = (percentile: number) => data.map((d) => d[percentileKey(percentile)])
+
+  // Each band sits on top of the wider ones, so overlaps stack darker inward
+  const pairs = medianOnly ? [] : getBandPairs(percentiles)
+  pairs.forEach(([lower, upper], i) => {
+    const color = getBandColor(colors, i, pairs.length)
+    drawBand(ctx, valuesAt(upper), valuesAt(lower), timeCoords, color, priceToY)
+  })
+
+  // Draw median line (p50) on top
+  if (percentiles.includes(50)) {
+    drawMedianLine(ctx, valuesAt(50), timeCoords, colors.medianLine, medianLineWidth, priceToY, medianDash)
+  }
+}
+
+/**
+ * Another set of bands drawn over the primary ones.
+ */
+export interface PercentileBandOverlay {
+  data: RollingChartDataPoint[]
+  colors: PercentileBandColors
+  medianOnly?: boolean // Draw just the median line
 }
 
 /**
@@ -102,8 +229,10 @@ function drawMedianLine(
  */
 export interface PercentileBandRendererConfig {
   data: RollingChartDataPoint[]
+  percentiles: number[] // Percentiles present in data (and overlay data)
   colors: PercentileBandColors
   medianLineWidth: number
+  overlays: PercentileBandOverlay[] // Drawn in order, each over the last
 }
 
 /**
@@ -121,60 +250,68 @@ export function renderPercentileBands(
   timeToX: (time: number) => number,
   priceToY: (price: number) => number
 ): void {
-  const { data, colors, medianLineWidth } = config
+  const { data, percentiles, colors, medianLineWidth, overlays } = config
 
   if (data.length === 0) return
 
-  // Pre-compute X coordinates for all time points
-  const timeCoords = data.map((d) => timeToX(d.time))
+  drawBandSet(ctx, data, percentiles, colors, medianLineWidth, timeToX, priceToY)
 
-  // Extract value arrays
-  const p10 = data.map((d) => d.p10)
-  const p25 = data.map((d) => d.p25)
-  const p50 = data.map((d) => d.p50)
-  const p75 = data.map((d) => d.p75)
-  const p90 = data.map((d) => d.p90)
-
-  // Draw outer band (p10-p90) first (bottom layer)
-  drawBand(ctx, p90, p10, timeCoords, colors.outerBand, priceToY)
-
-  // Draw inner band (p25-p75) on top
-  drawBand(ctx, p75, p25, timeCoords, colors.innerBand, priceToY)
-
-  // Draw median line (p50) on top
-  drawMedianLine(ctx, p50, timeCoords, colors.medianLine, medianLineWidth, priceToY)
+  // Overlays go on top, with dashed medians so every median stays distinguishable
+  for (const overlay of overlays) {
+    drawBandSet(
+      ctx,
+      overlay.data,
+      percentiles,
+      overlay.colors,
+      medianLineWidth,
+      timeToX,
+      priceToY,
+      OVERLAY_MEDIAN_DASH,
+      overlay.medianOnly
+    )
+  }
 }
 
 /**
- * Create a default renderer configuration with optional color overrides.
+ * Create a default renderer configuration with optional color overrides
+ * and overlays.
  */
 export function createRendererConfig(
   data: RollingChartDataPoint[],
-  colorOverrides?: Partial<PercentileBandColors>
+  percentiles: number[],
+  colorOverrides?: Partial<PercentileBandColors>,
+  overlays: PercentileBandOverlay[] = []
 ): PercentileBandRendererConfig {
   return {
     data,
+    percentiles,
     colors: { ...DEFAULT_COLORS, ...colorOverrides },
     medianLineWidth: 2,
+    overlays,
   }
 }
 
 /**
  * Get the min and max values from the data for auto-scaling.
  */
-export function getDataRange(data: RollingChartDataPoint[]): {
+export function getDataRange(
+  data: RollingChartDataPoint[],
+  percentiles: number[]
+): {
   min: number
   max: number
 } {
-  if (data.length === 0) return { min: 0, max: 0 }
+  if (data.length === 0 || percentiles.length === 0) return { min: 0, max: 0 }
 
+  // The lowest percentile bounds the bottom, the highest bounds the top
+  const lowest = percentileKey(Math.min(...percentiles))
+  const highest = percentileKey(Math.max(...percentiles))
   let min = Infinity
   let max = -Infinity
 
   for (const point of data) {
-    // p10 is the lowest, p90 is the highest
-    if (point.p10 < min) min = point.p10
-    if (point.p90 > max) max = point.p90
+    if (point[lowest] < min) min = point[lowest]
+    if (point[highest] > max) max = point[highest]
   }
 
   // Add some padding
@@ -185,6 +322,18 @@ export function getDataRange(data: RollingChartDataPoint[]): {
   }
 }
 
+/**
+ * Ordinal label for a percentile: 1 -> '1st', 50 -> '50th', 95 -> '95th'.
+ */
+export function formatPercentileLabel(percentile: number): string {
+  const lastTwo = percentile % 100
+  const suffix =
+    lastTwo >= 11 && lastTwo <= 13
+      ? 'th'
+      : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[percentile % 10] ?? 'th'
+  return `${percentile}${suffix}`
+}
+
 /**
  * Format a value for display in tooltips.
  */
@@ -196,3 +345,10 @@ export function formatBandValue(value: number): string {
     maximumFractionDigits: 0,
   }).format(value)
 }
+
+/**
+ * Format a return band value (%) for display in tooltips.
+ */
+export function formatBandReturn(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`
+}
@@ -1,4 +1,10 @@
-import type { SimulationResult, InvestmentFrequency } from '@/lib/api/types'
+import type {
+  SimulationResult,
+  InvestmentFrequency,
+  FeeModel,
+  TaxLotReport,
+  ExecutionPrice,
+} from '@/lib/api/types'
 
 interface ExportConfig {
   ticker: string
@@ -7,6 +13,8 @@ interface ExportConfig {
   startDate: string
   endDate: string
   isDRIP: boolean
+  fees?: FeeModel
+  executionPrice?: ExecutionPrice
 }
 
 /**
@@ -25,6 +33,13 @@ export function simulationToCSV(
   lines.push(`# Start Date: ${config.startDate}`)
   lines.push(`# End Date: ${config.endDate}`)
   lines.push(`# DRIP Enabled: ${config.isDRIP ? 'Yes' : 'No'}`)
+  lines.push(`# Execution Price: ${config.executionPrice ?? 'close'}`)
+  if (config.fees) {
+    lines.push(
+      `# Fees: $${config.fees.flatPerTrade}/trade + ${config.fees.percentPerTrade}% commission, ` +
+      `${config.fees.spreadBps} bps spread, ${config.fees.expenseRatio}% expense ratio`
+    )
+  }
   lines.push(`# Generated: ${new Date().toISOString()}`)
   lines.push('')
 
@@ -34,12 +49,22 @@ export function simulationToCSV(
   lines.push(`# Final Value: $${result.finalValue.toFixed(2)}`)
   lines.push(`# Total Return: ${result.totalReturn.toFixed(2)}%`)
   lines.push(`# CAGR: ${result.cagr.toFixed(2)}%`)
+  lines.push(`# XIRR (money-weighted): ${result.xirr.toFixed(2)}%`)
   lines.push(`# Total Dividends: $${result.totalDividends.toFixed(2)}`)
   lines.push(`# Final Shares: ${result.finalShares.toFixed(4)}`)
+  lines.push(`# Total Fees: $${result.totalFees.toFixed(2)}`)
+  if (result.totalDividendTaxes > 0) {
+    lines.push(`# Dividend Taxes: $${result.totalDividendTaxes.toFixed(2)}`)
+  }
+  if (result.totalWithdrawn > 0) {
+    lines.push(`# Total Withdrawn: $${result.totalWithdrawn.toFixed(2)}`)
+    lines.push(`# Remaining Balance: $${result.remainingBalance.toFixed(2)}`)
+    lines.push(`# Depletion Date: ${result.depletionDate ?? 'Never'}`)
+  }
   lines.push('')
 
   // Column headers
-  lines.push('Date,Principal,Market Value,Total Value,Shares,Dividends')
+  lines.push('Date,Principal,Market Value,Total Value,Shares,Dividends,Fees')
 
   // Data rows
   for (const point of result.points) {
@@ -51,6 +76,67 @@ export function simulationToCSV(
         point.totalValue.toFixed(2),
         point.shares.toFixed(4),
         point.dividends.toFixed(2),
+        point.fees.toFixed(2),
+      ].join(',')
+    )
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Converts a tax lot report to CSV: one row per open lot and per realized sale
+ */
+export function taxLotsToCSV(report: TaxLotReport, ticker: string): string {
+  const lines: string[] = []
+
+  lines.push('# DCA Tax Lot Export')
+  lines.push(`# Ticker: ${ticker}`)
+  lines.push(`# Lot Selection: ${report.method.toUpperCase()}`)
+  lines.push(`# Generated: ${new Date().toISOString()}`)
+  lines.push('')
+
+  lines.push('# Summary')
+  lines.push(`# Cost Basis: $${report.costBasis.toFixed(2)}`)
+  lines.push(`# Unrealized Short-Term Gain: $${report.unrealizedShortTerm.toFixed(2)}`)
+  lines.push(`# Unrealized Long-Term Gain: $${report.unrealizedLongTerm.toFixed(2)}`)
+  lines.push(`# Realized Short-Term Gain: $${report.realizedShortTerm.toFixed(2)}`)
+  lines.push(`# Realized Long-Term Gain: $${report.realizedLongTerm.toFixed(2)}`)
+  lines.push('')
+
+  // Value is market value for open lots and net proceeds for sales
+  lines.push('Status,Ticker,Acquired,Sold,Source,Shares,Cost Basis,Value,Gain,Term')
+
+  for (const lot of report.lots) {
+    lines.push(
+      [
+        'Open',
+        lot.ticker ?? ticker,
+        lot.acquired,
+        '',
+        lot.source,
+        lot.shares.toFixed(4),
+        lot.costBasis.toFixed(2),
+        lot.marketValue.toFixed(2),
+        (lot.marketValue - lot.costBasis).toFixed(2),
+        lot.term,
+      ].join(',')
+    )
+  }
+
+  for (const sale of report.realized) {
+    lines.push(
+      [
+        'Sold',
+        sale.ticker ?? ticker,
+        sale.acquired,
+        sale.sold,
+        sale.source,
+        sale.shares.toFixed(4),
+        sale.costBasis.toFixed(2),
+        sale.proceeds.toFixed(2),
+        sale.gain.toFixed(2),
+        sale.term,
       ].join(',')
     )
   }
@@ -88,3 +174,12 @@ export function exportSimulationToCSV(
   const filename = `dca-simulation-${config.ticker}-${new Date().toISOString().split('T')[0]}.csv`
   downloadCSV(csv, filename)
 }
+
+/**
+ * Export a tax lot report as a CSV file
+ */
+export function exportTaxLotsToCSV(report: TaxLotReport, ticker: string): void {
+  const csv = taxLotsToCSV(report, ticker)
+  const filename = `dca-tax-lots-${ticker}-${new Date().toISOString().split('T')[0]}.csv`
+  downloadCSV(csv, filename)
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createRollingWorkerPool, splitIntoChunks } from '../rollingWorkerPool'
+import type { RollingWorkerRequest, RollingWorkerResponse } from '../rollingAnalysisWorker'
+import type { WindowResult } from '../../api/types'
+
+// Records requests; the test plays the worker's side by calling respond
+class FakeWorker {
+  requests: RollingWorkerRequest[] = []
+  onmessage: ((event: MessageEvent<RollingWorkerResponse>) => void) | null = null
+  onerror: (() => void) | null = null
+  terminated = false
+
+  postMessage(request: RollingWorkerRequest) {
+    this.requests.push(request)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  respond(response: RollingWorkerResponse) {
+    this.onmessage?.({ data: response } as MessageEvent<RollingWorkerResponse>)
+  }
+
+  get compute() {
+    return this.requests.find(
+      (request): request is Extract<RollingWorkerRequest, { type: 'COMPUTE' }> =>
+        request.type === 'COMPUTE'
+    )!
+  }
+}
+
+function setup(size: number) {
+  const workers: FakeWorker[] = []
+  const pool = createRollingWorkerPool(size, () => {
+    const worker = new FakeWorker()
+    workers.push(worker)
+    return worker as unknown as Worker
+  })
+  return { pool, workers }
+}
+
+const request = (startDates: string[]) => ({
+  prices: [],
+  dividends: [],
+  config: { ticker: 'TEST', horizonYears: 5, amount: 100, frequency: 'monthly' as const, isDRIP: true },
+  startDates,
+})
+
+const windowFor = (startDate: string) => ({ startDate }) as WindowResult
+
+describe('splitIntoChunks', () => {
+  it('splits into contiguous, near-equal chunks', () => {
+    expect(splitIntoChunks([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4, 5]])
+    expect(splitIntoChunks([1, 2], 4)).toEqual([[1], [2]])
+    expect(splitIntoChunks([], 4)).toEqual([[]])
+  })
+})
+
+describe('createRollingWorkerPool', () => {
+  const startDates = ['2000-01-01', '2000-02-01', '2000-03-01', '2000-04-01', '2000-05-01']
+
+  it('splits start dates across workers and merges windows in order', async () => {
+    const { pool, workers } = setup(2)
+    const onProgress = vi.fn()
+    const run = pool.run(request(startDates), onProgress)
+
+    expect(workers).toHaveLength(2)
+    const [first, second] = workers.map((worker) => worker.compute)
+    expect(first.payload.startDates).toEqual(startDates.slice(0, 2))
+    expect(second.payload.startDates).toEqual(startDates.slice(2))
+
+    workers[1].respond({ type: 'PROGRESS', id: second.id, completed: 2 })
+    expect(onProgress).toHaveBeenLastCalledWith(2)
+
+    workers[1].respond({
+      type: 'SUCCESS',
+      id: second.id,
+      completed: 3,
+      windows: startDates.slice(2).map(windowFor),
+    })
+    workers[0].respond({
+      type: 'SUCCESS',
+      id: first.id,
+      completed: 2,
+      windows: startDates.slice(0, 2).map(windowFor),
+    })
+
+    expect(onProgress).toHaveBeenLastCalledWith(5)
+    expect((await run)!.map((window) => window.startDate)).toEqual(startDates)
+  })
+
+  it('cancels the running request', async () => {
+    const { pool, workers } = setup(2)
+    const run = pool.run(request(startDates), () => {})
+    const { id } = workers[0].compute
+
+    workers[0].respond({ type: 'SUCCESS', id, completed: 2, windows: [] })
+    pool.cancel()
+
+    expect(await run).toBeNull()
+    // Only the worker still computing is told to stop
+    expect(workers[0].requests.some((r) => r.type === 'CANCEL')).toBe(false)
+    expect(workers[1].requests[1]).toEqual({ type: 'CANCEL', id })
+  })
+
+  it('cancels the previous request when a new one starts', async () => {
+    const { pool, workers } = setup(1)
+    const previous = pool.run(request(startDates), () => {})
+    const next = pool.run(request(startDates.slice(0, 1)), () => {})
+
+    expect(await previous).toBeNull()
+    const [, cancel, compute] = workers[0].requests
+    expect(cancel.type).toBe('CANCEL')
+
+    // Late responses for the cancelled request are ignored
+    workers[0].respond({ type: 'SUCCESS', id: cancel.id, completed: 5, windows: [] })
+    workers[0].respond({
+      type: 'SUCCESS',
+      id: compute.id,
+      completed: 1,
+      windows: [windowFor(startDates[0])],
+    })
+    expect(await next).toHaveLength(1)
+  })
+
+  it('rejects when a worker reports an error or fails', async () => {
+    const { pool, workers } = setup(2)
+    const errored = pool.run(request(startDates), () => {})
+    workers[0].respond({ type: 'ERROR', id: workers[0].compute.id, error: 'Bad data' })
+    await expect(errored).rejects.toThrow('Bad data')
+
+    const crashed = pool.run(request(startDates), () => {})
+    workers[1].onerror?.()
+    await expect(crashed).rejects.toThrow('worker failed')
+    expect(workers.every((worker) => worker.terminated)).toBe(true)
+  })
+
+  it('rejects the running request when terminated', async () => {
+    const { pool, workers } = setup(2)
+    const run = pool.run(request(startDates), () => {})
+    pool.terminate()
+
+    await expect(run).rejects.toThrow('terminated')
+    expect(workers.every((worker) => worker.terminated)).toBe(true)
+  })
+})
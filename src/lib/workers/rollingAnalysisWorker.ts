@@ -3,83 +3,125 @@
  *
  * Offloads the heavy computation of rolling window analysis to a separate thread,
  * preventing UI blocking when processing large datasets (e.g., 20+ years of data
- * with 180+ rolling windows).
+ * with 180+ rolling windows). Each worker in the pool (see rollingWorkerPool.ts)
+ * computes the windows for its share of the start dates; the pool merges them.
  *
  * Communication Protocol:
- * - Parent sends: RollingWorkerRequest
- * - Worker sends: RollingWorkerResponse
+ * - Parent sends: RollingWorkerRequest (COMPUTE, or CANCEL for a running COMPUTE)
+ * - Worker sends: RollingWorkerResponse (PROGRESS while computing, then SUCCESS,
+ *   ERROR or CANCELLED)
  */
 
-import { runRollingWindowAnalysis, getAvailableHorizons } from '../calculation/rollingWindowEngine'
+import {
+  createWindowRunner,
+  createSweepRunner,
+  getAvailableHorizons,
+} from '../calculation/rollingWindowEngine'
 import type {
   PricePoint,
   DividendHistory,
   RollingWindowConfig,
-  RollingWindowResult,
-  HorizonYears,
+  WindowResult,
 } from '../api/types'
 
 // Message types for type-safe worker communication
-export interface RollingWorkerRequest {
-  type: 'COMPUTE'
-  id: string
-  payload: {
-    prices: PricePoint[]
-    dividends: DividendHistory[]
-    config: RollingWindowConfig
-  }
-}
+export type RollingWorkerRequest =
+  | {
+      type: 'COMPUTE'
+      id: string
+      payload: {
+        prices: PricePoint[]
+        dividends: DividendHistory[]
+        config: RollingWindowConfig
+        startDates: string[]    // Windows for this worker to compute
+        sweep?: boolean         // Every available horizon from each start (see createSweepRunner)
+      }
+    }
+  | {
+      type: 'CANCEL'
+      id: string
+    }
 
 export interface RollingWorkerResponse {
-  type: 'SUCCESS' | 'ERROR' | 'HORIZONS'
+  type: 'SUCCESS' | 'ERROR' | 'PROGRESS' | 'CANCELLED'
   id: string
-  result?: RollingWindowResult
-  availableHorizons?: HorizonYears[]
+  windows?: WindowResult[]    // SUCCESS: computed windows in start date order
+  completed?: number          // PROGRESS, SUCCESS: start dates processed so far
   error?: string
 }
 
+// Windows computed between progress reports. The worker yields after each
+// batch so a CANCEL message can be received mid-run.
+const BATCH_SIZE = 4
+
 // Worker context - this is the worker's global scope
 const ctx: Worker = self as unknown as Worker
 
-ctx.onmessage = (event: MessageEvent<RollingWorkerRequest>) => {
-  const { type, id, payload } = event.data
+// Requests computing, and those of them cancelled
+const running = new Set<string>()
+const cancelled = new Set<string>()
 
-  if (type === 'COMPUTE') {
-    try {
-      const { prices, dividends, config } = payload
+const yieldToMessages = () => new Promise((resolve) => setTimeout(resolve, 0))
 
-      // First, compute available horizons
-      const availableHorizons = getAvailableHorizons(prices)
+async function computeWindows(
+  id: string,
+  { prices, dividends, config, startDates, sweep }: Extract<RollingWorkerRequest, { type: 'COMPUTE' }>['payload']
+) {
+  running.add(id)
+  try {
+    const runStart = sweep
+      ? createSweepRunner(prices, dividends, config, getAvailableHorizons(prices))
+      : createWindowRunner(prices, dividends, config)
+    const windows: WindowResult[] = []
 
-      // Check if requested horizon is available
-      if (!availableHorizons.includes(config.horizonYears)) {
-        ctx.postMessage({
-          type: 'ERROR',
-          id,
-          error: `Insufficient data for ${config.horizonYears}-year horizon. Available: ${
-            availableHorizons.length > 0 ? availableHorizons.join(', ') + ' years' : 'none'
-          }`,
-          availableHorizons,
-        } satisfies RollingWorkerResponse)
-        return
+    for (let i = 0; i < startDates.length; i++) {
+      const computed = runStart(startDates[i])
+      if (Array.isArray(computed)) {
+        windows.push(...computed)
+      } else if (computed) {
+        windows.push(computed)
       }
 
-      // Run the analysis
-      const result = runRollingWindowAnalysis(prices, dividends, config)
+      const completed = i + 1
+      if (completed % BATCH_SIZE === 0 && completed < startDates.length) {
+        ctx.postMessage({ type: 'PROGRESS', id, completed } satisfies RollingWorkerResponse)
+        await yieldToMessages()
+
+        if (cancelled.has(id)) {
+          ctx.postMessage({ type: 'CANCELLED', id } satisfies RollingWorkerResponse)
+          return
+        }
+      }
+    }
+
+    ctx.postMessage({
+      type: 'SUCCESS',
+      id,
+      windows,
+      completed: startDates.length,
+    } satisfies RollingWorkerResponse)
+  } catch (error) {
+    ctx.postMessage({
+      type: 'ERROR',
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error in worker',
+    } satisfies RollingWorkerResponse)
+  } finally {
+    running.delete(id)
+    cancelled.delete(id)
+  }
+}
+
+ctx.onmessage = (event: MessageEvent<RollingWorkerRequest>) => {
+  const request = event.data
 
-      ctx.postMessage({
-        type: 'SUCCESS',
-        id,
-        result,
-        availableHorizons,
-      } satisfies RollingWorkerResponse)
-    } catch (error) {
-      ctx.postMessage({
-        type: 'ERROR',
-        id,
-        error: error instanceof Error ? error.message : 'Unknown error in worker',
-      } satisfies RollingWorkerResponse)
+  if (request.type === 'CANCEL') {
+    // A CANCEL can arrive after its request finished; there is nothing to stop
+    if (running.has(request.id)) {
+      cancelled.add(request.id)
     }
+  } else if (request.type === 'COMPUTE') {
+    computeWindows(request.id, request.payload)
   }
 }
 
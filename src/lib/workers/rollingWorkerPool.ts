@@ -0,0 +1,198 @@
+/**
+ * Rolling Analysis Worker Pool
+ *
+ * Splits a rolling analysis across several rollingAnalysisWorker instances:
+ * each worker gets a contiguous run of window start dates, reports progress as
+ * it goes, and the windows come back merged in start date order. Only one
+ * request runs at a time; starting a new one cancels the previous one.
+ */
+
+import type {
+  PricePoint,
+  DividendHistory,
+  RollingWindowConfig,
+  WindowResult,
+} from '../api/types'
+import type { RollingWorkerRequest, RollingWorkerResponse } from './rollingAnalysisWorker'
+
+// Upper bound on workers, however many cores are reported
+export const MAX_POOL_SIZE = 8
+
+export interface RollingPoolRequest {
+  prices: PricePoint[]
+  dividends: DividendHistory[]
+  config: RollingWindowConfig
+  startDates: string[]
+  sweep?: boolean               // Sweep every available horizon (for the heatmap)
+}
+
+export interface RollingWorkerPool {
+  /**
+   * Compute the windows for every start date. onProgress receives the number
+   * of start dates processed so far. Resolves null if cancelled, and rejects
+   * if a worker fails or the pool is terminated mid-run.
+   */
+  run: (
+    request: RollingPoolRequest,
+    onProgress: (completed: number) => void
+  ) => Promise<WindowResult[] | null>
+  /** Cancel the running request, if any */
+  cancel: () => void
+  /** Shut down every worker, rejecting the running request */
+  terminate: () => void
+}
+
+interface ActiveRequest {
+  id: string
+  pending: Set<number>          // Workers still computing their share
+  completed: number[]           // Start dates processed per worker
+  windows: WindowResult[][]     // Results per worker
+  onProgress: (completed: number) => void
+  resolve: (windows: WindowResult[] | null) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Workers to use on this device: one per reported core, within 1..MAX_POOL_SIZE
+ */
+export function getPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0
+  return Math.min(MAX_POOL_SIZE, Math.max(1, cores || 1))
+}
+
+/**
+ * Split items into at most count contiguous, near-equal chunks
+ */
+export function splitIntoChunks<T>(items: T[], count: number): T[][] {
+  const chunkCount = Math.max(1, Math.min(count, items.length))
+  const chunks: T[][] = []
+
+  for (let i = 0; i < chunkCount; i++) {
+    const start = Math.floor((i * items.length) / chunkCount)
+    const end = Math.floor(((i + 1) * items.length) / chunkCount)
+    chunks.push(items.slice(start, end))
+  }
+
+  return chunks
+}
+
+function createRollingWorker(): Worker {
+  // Using dynamic import URL pattern for Next.js webpack bundling
+  return new Worker(new URL('./rollingAnalysisWorker.ts', import.meta.url), {
+    type: 'module',
+  })
+}
+
+/**
+ * Create a pool of up to size workers. Workers are started on first use and
+ * kept for later requests.
+ */
+export function createRollingWorkerPool(
+  size: number = getPoolSize(),
+  createWorker: () => Worker = createRollingWorker
+): RollingWorkerPool {
+  const workers: Worker[] = []
+  let active: ActiveRequest | null = null
+  let requestCount = 0
+
+  const post = (worker: Worker, request: RollingWorkerRequest) => worker.postMessage(request)
+
+  // Stop the workers still computing the active request and forget it
+  const stop = (): ActiveRequest | null => {
+    const request = active
+    if (!request) return null
+    request.pending.forEach((index) => post(workers[index], { type: 'CANCEL', id: request.id }))
+    active = null
+    return request
+  }
+
+  const cancel = () => stop()?.resolve(null)
+
+  const fail = (error: Error) => stop()?.reject(error)
+
+  const terminate = () => {
+    fail(new Error('Rolling analysis workers terminated'))
+    workers.forEach((worker) => worker.terminate())
+    workers.length = 0
+  }
+
+  const handleResponse = (index: number, response: RollingWorkerResponse) => {
+    const request = active
+    // Ignore responses for cancelled/outdated requests
+    if (!request || response.id !== request.id) return
+
+    switch (response.type) {
+      case 'PROGRESS':
+        request.completed[index] = response.completed ?? request.completed[index]
+        break
+      case 'SUCCESS':
+        request.completed[index] = response.completed ?? request.completed[index]
+        request.windows[index] = response.windows ?? []
+        request.pending.delete(index)
+        break
+      case 'ERROR':
+        fail(new Error(response.error ?? 'Unknown error'))
+        return
+      case 'CANCELLED':
+        return
+    }
+
+    request.onProgress(request.completed.reduce((sum, count) => sum + count, 0))
+
+    if (request.pending.size === 0) {
+      active = null
+      request.resolve(request.windows.flat())
+    }
+  }
+
+  const getWorker = (index: number): Worker => {
+    if (!workers[index]) {
+      const worker = createWorker()
+      worker.onmessage = (event: MessageEvent<RollingWorkerResponse>) =>
+        handleResponse(index, event.data)
+      worker.onerror = () => {
+        // A worker that fails to load or crashes takes the pool down with it
+        fail(new Error('Rolling analysis worker failed'))
+        terminate()
+      }
+      workers[index] = worker
+    }
+    return workers[index]
+  }
+
+  const run: RollingWorkerPool['run'] = (
+    { prices, dividends, config, startDates, sweep },
+    onProgress
+  ) => {
+    cancel()
+
+    if (startDates.length === 0) return Promise.resolve([])
+
+    const id = `${Date.now()}-${++requestCount}`
+    const chunks = splitIntoChunks(startDates, size)
+
+    return new Promise((resolve, reject) => {
+      const poolWorkers = chunks.map((_, index) => getWorker(index))
+
+      active = {
+        id,
+        pending: new Set(chunks.map((_, index) => index)),
+        completed: chunks.map(() => 0),
+        windows: chunks.map(() => []),
+        onProgress,
+        resolve,
+        reject,
+      }
+
+      chunks.forEach((chunk, index) => {
+        post(poolWorkers[index], {
+          type: 'COMPUTE',
+          id,
+          payload: { prices, dividends, config, startDates: chunk, sweep },
+        })
+      })
+    })
+  }
+
+  return { run, cancel, terminate }
+}
@@ -2,21 +2,126 @@
 
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
-import type { InvestmentFrequency, ViewMode, HorizonYears, RollingXAxisMode } from '@/lib/api/types'
+import type {
+  InvestmentFrequency,
+  ViewMode,
+  HorizonYears,
+  RollingXAxisMode,
+  RollingBandMode,
+  RollingComparisonBands,
+  FeeModel,
+  ContributionOverride,
+  ContributionPause,
+  WithdrawalConfig,
+  PortfolioHolding,
+  RebalanceConfig,
+  ContributionStrategy,
+  LotSelectionMethod,
+  DividendTaxConfig,
+  DividendTiming,
+  ExecutionPrice,
+  ScheduleAnchor,
+} from '@/lib/api/types'
+import { NO_FEES } from '@/lib/calculation/feeModel'
+import { NO_DIVIDEND_TAX } from '@/lib/calculation/dividendTax'
+import { DEFAULT_RISK_FREE_RATE } from '@/lib/calculation/riskMetrics'
+import { DEFAULT_PERCENTILES, normalizePercentiles } from '@/lib/calculation/percentileUtils'
+import {
+  MIN_PATH_COUNT,
+  MAX_PATH_COUNT,
+  MAX_PROJECTION_YEARS,
+  MAX_BLOCK_MONTHS,
+} from '@/lib/calculation/monteCarloEngine'
 
 // Preset benchmark ETFs
 export const BENCHMARK_PRESETS = ['SPY', 'QQQ', 'DIA'] as const
 export type BenchmarkPreset = typeof BENCHMARK_PRESETS[number]
 
+// Starting point when withdrawals are switched on (a classic 4% rule)
+export const DEFAULT_WITHDRAWAL: WithdrawalConfig = {
+  strategy: 'inflationAdjusted',
+  frequency: 'monthly',
+  amount: 1000,
+  rate: 4,
+  inflationRate: 3,
+}
+
+// Plain DCA, with sensible parameters ready for the other strategies
+export const DEFAULT_CONTRIBUTION_STRATEGY: ContributionStrategy = {
+  kind: 'dca',
+  targetReturn: 7,
+  maxMultiple: 3,
+  lookbackDays: 200,
+  dipThreshold: 10,
+  dipMultiplier: 2,
+  movingAverageAction: 'skipAbove',
+}
+
+// Portfolio mode starting point (a classic 60/40 split)
+export const DEFAULT_PORTFOLIO_HOLDINGS: PortfolioHolding[] = [
+  { ticker: 'VTI', weight: 60 },
+  { ticker: 'BND', weight: 40 },
+]
+
+export const DEFAULT_REBALANCE: RebalanceConfig = {
+  strategy: 'periodic',
+  interval: 'annually',
+  threshold: 5,
+}
+
+export const MAX_PORTFOLIO_HOLDINGS = 8
+
 interface ConfigState {
   ticker: string
   amount: number
   frequency: InvestmentFrequency
+  scheduleAnchor: ScheduleAnchor
   startDate: string
   endDate: string
+  holdAfterEnd: boolean
   isDRIP: boolean
   showLumpSum: boolean
 
+  // Buy whole shares only, carrying leftover cash forward
+  wholeShares: boolean
+
+  // Show values in inflation-adjusted (real) dollars
+  realDollars: boolean
+
+  // Contribution schedule adjustments (applied in both view modes)
+  annualIncrease: number
+  amountOverrides: ContributionOverride[]
+  pauses: ContributionPause[]
+
+  // Decumulation: starting lump sum and optional withdrawal schedule
+  initialInvestment: number
+  withdrawal: WithdrawalConfig | null
+
+  // How each scheduled contribution is sized
+  contributionStrategy: ContributionStrategy
+
+  // Transaction costs applied by the engine
+  fees: FeeModel
+
+  // Which tax lots sales draw from first
+  lotSelection: LotSelectionMethod
+
+  // Taxes taken from dividends (zero for a tax-advantaged account)
+  dividendTax: DividendTaxConfig
+
+  // Whether dividends land on the ex-date or the payment date
+  dividendTiming: DividendTiming
+
+  // Intraday price trades fill at
+  executionPrice: ExecutionPrice
+
+  // Annual risk-free rate (%) for Sharpe and Sortino ratios
+  riskFreeRate: number
+
+  // Portfolio mode: holdings with target weights and how they are rebalanced
+  portfolioHoldings: PortfolioHolding[]
+  rebalance: RebalanceConfig
+
   // Comparison tickers (up to 2 additional)
   comparisonTickers: string[]
 
@@ -27,6 +132,15 @@ interface ConfigState {
   viewMode: ViewMode
   rollingHorizon: HorizonYears
   rollingXAxisMode: RollingXAxisMode
+  rollingBandMode: RollingBandMode
+  rollingPercentiles: number[]
+  rollingComparisonBands: RollingComparisonBands  // Overlay for comparison and benchmark tickers
+
+  // Monte Carlo projection settings
+  monteCarloHorizon: number       // Years projected forward from today
+  monteCarloPaths: number
+  monteCarloBlockMonths: number   // Consecutive historical months per resampled block
+  monteCarloSeed: number
 
   // Hydration state
   _hasHydrated: boolean
@@ -36,10 +150,28 @@ interface ConfigState {
   setTicker: (ticker: string) => void
   setAmount: (amount: number) => void
   setFrequency: (frequency: InvestmentFrequency) => void
+  setScheduleAnchor: (scheduleAnchor: ScheduleAnchor) => void
   setStartDate: (startDate: string) => void
   setEndDate: (endDate: string) => void
+  setHoldAfterEnd: (holdAfterEnd: boolean) => void
   setIsDRIP: (isDRIP: boolean) => void
   setShowLumpSum: (showLumpSum: boolean) => void
+  setWholeShares: (wholeShares: boolean) => void
+  setRealDollars: (realDollars: boolean) => void
+  setAnnualIncrease: (annualIncrease: number) => void
+  setAmountOverrides: (amountOverrides: ContributionOverride[]) => void
+  setPauses: (pauses: ContributionPause[]) => void
+  setInitialInvestment: (initialInvestment: number) => void
+  setWithdrawal: (withdrawal: Partial<WithdrawalConfig> | null) => void
+  setContributionStrategy: (strategy: Partial<ContributionStrategy>) => void
+  setFees: (fees: Partial<FeeModel>) => void
+  setLotSelection: (lotSelection: LotSelectionMethod) => void
+  setDividendTax: (dividendTax: Partial<DividendTaxConfig>) => void
+  setDividendTiming: (dividendTiming: DividendTiming) => void
+  setExecutionPrice: (executionPrice: ExecutionPrice) => void
+  setRiskFreeRate: (riskFreeRate: number) => void
+  setPortfolioHoldings: (holdings: PortfolioHolding[]) => void
+  setRebalance: (rebalance: Partial<RebalanceConfig>) => void
   addComparisonTicker: (ticker: string) => void
   removeComparisonTicker: (ticker: string) => void
   clearComparisons: () => void
@@ -55,9 +187,18 @@ interface ConfigState {
   setViewMode: (mode: ViewMode) => void
   setRollingHorizon: (years: HorizonYears) => void
   setRollingXAxisMode: (mode: RollingXAxisMode) => void
+  setRollingBandMode: (mode: RollingBandMode) => void
+  setRollingPercentiles: (percentiles: number[]) => void
+  setRollingComparisonBands: (bands: RollingComparisonBands) => void
+
+  // Monte Carlo actions
+  setMonteCarloHorizon: (years: number) => void
+  setMonteCarloPaths: (paths: number) => void
+  setMonteCarloBlockMonths: (months: number) => void
+  setMonteCarloSeed: (seed: number) => void
 
   // Bulk update for URL sync
-  setConfig: (config: Partial<Pick<ConfigState, 'ticker' | 'amount' | 'frequency' | 'startDate' | 'endDate' | 'isDRIP' | 'showLumpSum' | 'comparisonTickers' | 'benchmarkTickers' | 'viewMode' | 'rollingHorizon' | 'rollingXAxisMode'>>) => void
+  setConfig: (config: Partial<Pick<ConfigState, 'ticker' | 'amount' | 'frequency' | 'scheduleAnchor' | 'startDate' | 'endDate' | 'holdAfterEnd' | 'isDRIP' | 'showLumpSum' | 'wholeShares' | 'realDollars' | 'annualIncrease' | 'amountOverrides' | 'pauses' | 'initialInvestment' | 'withdrawal' | 'contributionStrategy' | 'fees' | 'lotSelection' | 'dividendTax' | 'dividendTiming' | 'executionPrice' | 'riskFreeRate' | 'portfolioHoldings' | 'rebalance' | 'comparisonTickers' | 'benchmarkTickers' | 'viewMode' | 'rollingHorizon' | 'rollingXAxisMode' | 'rollingBandMode' | 'rollingPercentiles' | 'monteCarloHorizon' | 'monteCarloPaths' | 'monteCarloBlockMonths' | 'monteCarloSeed'>>) => void
 }
 
 // Default to 10 years ago
@@ -73,16 +214,42 @@ const defaultConfig = {
   ticker: 'AAPL',
   amount: 100,
   frequency: 'monthly' as InvestmentFrequency,
+  scheduleAnchor: { kind: 'startDate' } as ScheduleAnchor,
   startDate: getDefaultStartDate(),
   endDate: getDefaultEndDate(),
+  holdAfterEnd: false,
   isDRIP: true,
   showLumpSum: false,
+  wholeShares: false,
+  realDollars: false,
+  annualIncrease: 0,
+  amountOverrides: [] as ContributionOverride[],
+  pauses: [] as ContributionPause[],
+  initialInvestment: 0,
+  withdrawal: null as WithdrawalConfig | null,
+  contributionStrategy: DEFAULT_CONTRIBUTION_STRATEGY,
+  fees: NO_FEES,
+  lotSelection: 'fifo' as LotSelectionMethod,
+  dividendTax: NO_DIVIDEND_TAX,
+  dividendTiming: 'exDate' as DividendTiming,
+  executionPrice: 'close' as ExecutionPrice,
+  riskFreeRate: DEFAULT_RISK_FREE_RATE,
+  portfolioHoldings: DEFAULT_PORTFOLIO_HOLDINGS,
+  rebalance: DEFAULT_REBALANCE,
   comparisonTickers: [],
   benchmarkTickers: [],
   // Rolling analysis defaults
   viewMode: 'single' as ViewMode,
   rollingHorizon: 10 as HorizonYears,
   rollingXAxisMode: 'normalized' as RollingXAxisMode,
+  rollingBandMode: 'value' as RollingBandMode,
+  rollingPercentiles: DEFAULT_PERCENTILES,
+  rollingComparisonBands: 'median' as RollingComparisonBands,
+  // Monte Carlo defaults
+  monteCarloHorizon: 20,
+  monteCarloPaths: 5000,
+  monteCarloBlockMonths: 12,
+  monteCarloSeed: 1,
 }
 
 export const useConfigStore = create<ConfigState>()(
@@ -96,6 +263,7 @@ export const useConfigStore = create<ConfigState>()(
       setTicker: (ticker) => set({ ticker: ticker.toUpperCase() }),
       setAmount: (amount) => set({ amount: Math.max(1, Math.min(10000, amount)) }),
       setFrequency: (frequency) => set({ frequency }),
+      setScheduleAnchor: (scheduleAnchor) => set({ scheduleAnchor }),
       setStartDate: (startDate) =>
         set((state) => ({
           startDate,
@@ -106,8 +274,53 @@ export const useConfigStore = create<ConfigState>()(
           endDate,
           startDate: endDate < state.startDate ? endDate : state.startDate,
         })),
+      setHoldAfterEnd: (holdAfterEnd) => set({ holdAfterEnd }),
       setIsDRIP: (isDRIP) => set({ isDRIP }),
       setShowLumpSum: (showLumpSum) => set({ showLumpSum }),
+      setWholeShares: (wholeShares) => set({ wholeShares }),
+      setRealDollars: (realDollars) => set({ realDollars }),
+      setAnnualIncrease: (annualIncrease) =>
+        set({ annualIncrease: Math.max(0, Math.min(50, annualIncrease)) }),
+      setAmountOverrides: (amountOverrides) =>
+        set({
+          amountOverrides: [...amountOverrides].sort((a, b) => a.date.localeCompare(b.date)),
+        }),
+      setPauses: (pauses) =>
+        set({ pauses: [...pauses].sort((a, b) => a.start.localeCompare(b.start)) }),
+      setInitialInvestment: (initialInvestment) =>
+        set({ initialInvestment: Math.max(0, initialInvestment) }),
+      setWithdrawal: (withdrawal) =>
+        set((state) => ({
+          withdrawal: withdrawal
+            ? { ...(state.withdrawal ?? DEFAULT_WITHDRAWAL), ...withdrawal }
+            : null,
+        })),
+      setContributionStrategy: (strategy) =>
+        set((state) => ({
+          contributionStrategy: { ...state.contributionStrategy, ...strategy },
+        })),
+      setFees: (fees) => set((state) => ({ fees: { ...state.fees, ...fees } })),
+      setLotSelection: (lotSelection) => set({ lotSelection }),
+      setDividendTax: (dividendTax) =>
+        set((state) => ({ dividendTax: { ...state.dividendTax, ...dividendTax } })),
+      setDividendTiming: (dividendTiming) => set({ dividendTiming }),
+      setExecutionPrice: (executionPrice) => set({ executionPrice }),
+      setRiskFreeRate: (riskFreeRate) => set({ riskFreeRate: Math.max(0, Math.min(20, riskFreeRate)) }),
+      setPortfolioHoldings: (holdings) =>
+        set({
+          portfolioHoldings: holdings.slice(0, MAX_PORTFOLIO_HOLDINGS).map((holding) => ({
+            ticker: holding.ticker.toUpperCase(),
+            weight: Math.max(0, Math.min(100, holding.weight)),
+          })),
+        }),
+      setRebalance: (rebalance) =>
+        set((state) => ({
+          rebalance: {
+            ...state.rebalance,
+            ...rebalance,
+            threshold: Math.max(1, Math.min(50, rebalance.threshold ?? state.rebalance.threshold)),
+          },
+        })),
 
       addComparisonTicker: (ticker) =>
         set((state) => {
@@ -174,6 +387,19 @@ export const useConfigStore = create<ConfigState>()(
       setViewMode: (mode) => set({ viewMode: mode }),
       setRollingHorizon: (years) => set({ rollingHorizon: years }),
       setRollingXAxisMode: (mode) => set({ rollingXAxisMode: mode }),
+      setRollingBandMode: (mode) => set({ rollingBandMode: mode }),
+      setRollingPercentiles: (percentiles) =>
+        set({ rollingPercentiles: normalizePercentiles(percentiles) }),
+      setRollingComparisonBands: (bands) => set({ rollingComparisonBands: bands }),
+
+      // Monte Carlo actions
+      setMonteCarloHorizon: (years) =>
+        set({ monteCarloHorizon: Math.max(1, Math.min(MAX_PROJECTION_YEARS, Math.round(years))) }),
+      setMonteCarloPaths: (paths) =>
+        set({ monteCarloPaths: Math.max(MIN_PATH_COUNT, Math.min(MAX_PATH_COUNT, Math.round(paths))) }),
+      setMonteCarloBlockMonths: (months) =>
+        set({ monteCarloBlockMonths: Math.max(1, Math.min(MAX_BLOCK_MONTHS, Math.round(months))) }),
+      setMonteCarloSeed: (seed) => set({ monteCarloSeed: Math.abs(Math.round(seed)) >>> 0 }),
 
       resetConfig: () => set(defaultConfig),
 
@@ -213,15 +439,40 @@ export const useConfigStore = create<ConfigState>()(
         ticker: state.ticker,
         amount: state.amount,
         frequency: state.frequency,
+        scheduleAnchor: state.scheduleAnchor,
         startDate: state.startDate,
         endDate: state.endDate,
+        holdAfterEnd: state.holdAfterEnd,
         isDRIP: state.isDRIP,
         showLumpSum: state.showLumpSum,
+        wholeShares: state.wholeShares,
+        realDollars: state.realDollars,
+        annualIncrease: state.annualIncrease,
+        amountOverrides: state.amountOverrides,
+        pauses: state.pauses,
+        initialInvestment: state.initialInvestment,
+        withdrawal: state.withdrawal,
+        contributionStrategy: state.contributionStrategy,
+        fees: state.fees,
+        lotSelection: state.lotSelection,
+        dividendTax: state.dividendTax,
+        dividendTiming: state.dividendTiming,
+        executionPrice: state.executionPrice,
+        riskFreeRate: state.riskFreeRate,
+        portfolioHoldings: state.portfolioHoldings,
+        rebalance: state.rebalance,
         comparisonTickers: state.comparisonTickers,
         benchmarkTickers: state.benchmarkTickers,
         viewMode: state.viewMode,
         rollingHorizon: state.rollingHorizon,
         rollingXAxisMode: state.rollingXAxisMode,
+        rollingBandMode: state.rollingBandMode,
+        rollingPercentiles: state.rollingPercentiles,
+        rollingComparisonBands: state.rollingComparisonBands,
+        monteCarloHorizon: state.monteCarloHorizon,
+        monteCarloPaths: state.monteCarloPaths,
+        monteCarloBlockMonths: state.monteCarloBlockMonths,
+        monteCarloSeed: state.monteCarloSeed,
       }),
       onRehydrateStorage: () => (state) => {
         state?.setHasHydrated(true)
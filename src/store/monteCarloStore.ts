@@ -0,0 +1,51 @@
+'use client'
+
+import { create } from 'zustand'
+import type { MonteCarloResult } from '@/lib/api/types'
+
+interface MonteCarloState {
+  // Latest projection
+  result: MonteCarloResult | null
+
+  // Loading and error states
+  isComputing: boolean
+  error: string | null
+
+  // Actions
+  setResult: (result: MonteCarloResult) => void
+  setComputing: () => void
+  setError: (error: string) => void
+  clearResult: () => void
+}
+
+export const useMonteCarloStore = create<MonteCarloState>((set) => ({
+  result: null,
+  isComputing: false,
+  error: null,
+
+  setResult: (result) =>
+    set({
+      result,
+      isComputing: false,
+      error: null,
+    }),
+
+  setComputing: () =>
+    set({
+      isComputing: true,
+      error: null,
+    }),
+
+  setError: (error) =>
+    set({
+      error,
+      isComputing: false,
+    }),
+
+  clearResult: () =>
+    set({
+      result: null,
+      isComputing: false,
+      error: null,
+    }),
+}))
@@ -0,0 +1,65 @@
+'use client'
+
+import { create } from 'zustand'
+import type { PortfolioResult, RiskMetrics } from '@/lib/api/types'
+
+interface PortfolioState {
+  // Latest portfolio simulation result
+  result: PortfolioResult | null
+  risk: RiskMetrics | null
+
+  // Holdings whose dividend history could not be loaded
+  dividendsUnavailable: string[]
+
+  // Loading and error states
+  isLoading: boolean
+  error: string | null
+
+  // Actions
+  setResult: (
+    result: PortfolioResult,
+    risk: RiskMetrics,
+    dividendsUnavailable?: string[]
+  ) => void
+  setLoading: () => void
+  setError: (error: string) => void
+  clearResult: () => void
+}
+
+export const usePortfolioStore = create<PortfolioState>((set) => ({
+  result: null,
+  risk: null,
+  dividendsUnavailable: [],
+  isLoading: false,
+  error: null,
+
+  setResult: (result, risk, dividendsUnavailable = []) =>
+    set({
+      result,
+      risk,
+      dividendsUnavailable,
+      isLoading: false,
+      error: null,
+    }),
+
+  setLoading: () =>
+    set({
+      isLoading: true,
+      error: null,
+    }),
+
+  setError: (error) =>
+    set({
+      error,
+      isLoading: false,
+    }),
+
+  clearResult: () =>
+    set({
+      result: null,
+      risk: null,
+      dividendsUnavailable: [],
+      isLoading: false,
+      error: null,
+    }),
+}))
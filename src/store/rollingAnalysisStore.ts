@@ -7,7 +7,11 @@ import type {
   WindowResult,
   RollingWindowStats,
   HorizonYears,
+  HorizonHeatmap,
+  RollingComparison,
+  RollingComparisonChartSeries,
 } from '@/lib/api/types'
+import { getHorizonRange, MAX_HORIZON_YEARS } from '@/lib/calculation/rollingWindowEngine'
 
 interface RollingAnalysisState {
   // The complete rolling window analysis result
@@ -16,19 +20,40 @@ interface RollingAnalysisState {
   // Chart-ready data (computed from result based on X-axis mode)
   chartData: RollingChartDataPoint[]
 
+  // Lump sum bands on the same time axis as chartData
+  lumpSumChartData: RollingChartDataPoint[]
+
   // Loading and error states
   isComputing: boolean
+  progress: number  // Percent of windows computed while isComputing (0-100)
   error: string | null
 
   // Available horizons (based on data length)
   availableHorizons: HorizonYears[]
 
+  // Start date × horizon sweep for the heatmap, computed after the result
+  heatmap: HorizonHeatmap | null
+  isSweeping: boolean
+
+  // Comparison and benchmark tickers over the primary result's date range,
+  // with their bands on the chart's time axis
+  comparisons: RollingComparison[]
+  comparisonChartData: RollingComparisonChartSeries[]
+  isComparing: boolean
+
   // Actions
   setResult: (result: RollingWindowResult) => void
   setChartData: (data: RollingChartDataPoint[]) => void
+  setLumpSumChartData: (data: RollingChartDataPoint[]) => void
   setComputing: (isComputing: boolean) => void
+  setProgress: (progress: number) => void
   setError: (error: string | null) => void
   setAvailableHorizons: (horizons: HorizonYears[]) => void
+  setHeatmap: (heatmap: HorizonHeatmap | null) => void
+  setSweeping: (isSweeping: boolean) => void
+  setComparisons: (comparisons: RollingComparison[]) => void
+  setComparisonChartData: (data: RollingComparisonChartSeries[]) => void
+  setComparing: (isComparing: boolean) => void
   clearResults: () => void
 }
 
@@ -37,7 +62,10 @@ const emptyStats: RollingWindowStats = {
   windowCount: 0,
   medianReturn: 0,
   medianCAGR: 0,
+  medianXIRR: 0,
   successRate: 0,
+  withdrawalSuccessRate: null,
+  medianRealCAGR: null,
   bestWindow: null,
   worstWindow: null,
   returnDistribution: {
@@ -46,14 +74,22 @@ const emptyStats: RollingWindowStats = {
     medium: 0,
     high: 0,
   },
+  lumpSum: null,
 }
 
 export const useRollingAnalysisStore = create<RollingAnalysisState>((set) => ({
   result: null,
   chartData: [],
+  lumpSumChartData: [],
   isComputing: false,
+  progress: 0,
   error: null,
-  availableHorizons: [5, 10, 15, 20],
+  availableHorizons: getHorizonRange(MAX_HORIZON_YEARS),
+  heatmap: null,
+  isSweeping: false,
+  comparisons: [],
+  comparisonChartData: [],
+  isComparing: false,
 
   setResult: (result) =>
     set({
@@ -64,12 +100,16 @@ export const useRollingAnalysisStore = create<RollingAnalysisState>((set) => ({
 
   setChartData: (chartData) => set({ chartData }),
 
+  setLumpSumChartData: (lumpSumChartData) => set({ lumpSumChartData }),
+
   setComputing: (isComputing) =>
     set({
       isComputing,
       error: isComputing ? null : undefined,
     }),
 
+  setProgress: (progress) => set({ progress }),
+
   setError: (error) =>
     set({
       error,
@@ -78,12 +118,29 @@ export const useRollingAnalysisStore = create<RollingAnalysisState>((set) => ({
 
   setAvailableHorizons: (availableHorizons) => set({ availableHorizons }),
 
+  setHeatmap: (heatmap) => set({ heatmap }),
+
+  setSweeping: (isSweeping) => set({ isSweeping }),
+
+  setComparisons: (comparisons) => set({ comparisons }),
+
+  setComparisonChartData: (comparisonChartData) => set({ comparisonChartData }),
+
+  setComparing: (isComparing) => set({ isComparing }),
+
   clearResults: () =>
     set({
       result: null,
       chartData: [],
+      lumpSumChartData: [],
       isComputing: false,
+      progress: 0,
       error: null,
+      heatmap: null,
+      isSweeping: false,
+      comparisons: [],
+      comparisonChartData: [],
+      isComparing: false,
     }),
 }))
 
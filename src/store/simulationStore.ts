@@ -1,12 +1,16 @@
 'use client'
 
 import { create } from 'zustand'
-import type { SimulationResult } from '@/lib/api/types'
+import type { SimulationResult, RiskMetrics } from '@/lib/api/types'
+import { calculateRiskMetrics, DEFAULT_RISK_FREE_RATE } from '@/lib/calculation/riskMetrics'
+import { createEmptyTaxLotReport } from '@/lib/calculation/taxLots'
 
 interface TickerSimulation {
   ticker: string
   result: SimulationResult
   lumpSumResult: SimulationResult | null
+  dcaResult: SimulationResult | null  // Plain DCA on the same data when another strategy is active
+  risk: RiskMetrics | null
   isLoading: boolean
   error: string | null
   dividendsUnavailable: boolean
@@ -23,12 +27,16 @@ interface SimulationState {
   // Benchmark simulations
   benchmarks: TickerSimulation[]
 
+  // Annual risk-free rate (%) used for Sharpe and Sortino ratios
+  riskFreeRate: number
+
   // Actions
   setPrimaryResult: (
     ticker: string,
     result: SimulationResult,
     dividendsUnavailable?: boolean,
-    lumpSumResult?: SimulationResult | null
+    lumpSumResult?: SimulationResult | null,
+    dcaResult?: SimulationResult | null
   ) => void
   setPrimaryLoading: (ticker: string) => void
   setPrimaryError: (ticker: string, error: string, retryAt?: number | null) => void
@@ -58,6 +66,8 @@ interface SimulationState {
   setBenchmarkError: (ticker: string, error: string, retryAt?: number | null) => void
   removeBenchmark: (ticker: string) => void
 
+  setRiskFreeRate: (rate: number) => void
+
   clearAll: () => void
 }
 
@@ -71,31 +81,51 @@ const createEmptySimulation = (ticker: string): TickerSimulation => ({
     finalValue: 0,
     totalReturn: 0,
     cagr: 0,
+    xirr: 0,
+    totalFees: 0,
+    totalDividendTaxes: 0,
+    totalWithdrawn: 0,
+    depletionDate: null,
+    remainingBalance: 0,
+    taxLots: createEmptyTaxLotReport(),
   },
   lumpSumResult: null,
+  dcaResult: null,
+  risk: null,
   isLoading: false,
   error: null,
   dividendsUnavailable: false,
   retryAt: null,
 })
 
+// Attach risk metrics to a simulation using the current risk-free rate
+const withRisk = (sim: TickerSimulation, riskFreeRate: number): TickerSimulation => ({
+  ...sim,
+  risk: sim.result.points.length > 0
+    ? calculateRiskMetrics(sim.result.points, riskFreeRate)
+    : null,
+})
+
 export const useSimulationStore = create<SimulationState>((set) => ({
   primary: null,
   comparisons: [],
   benchmarks: [],
+  riskFreeRate: DEFAULT_RISK_FREE_RATE,
 
-  setPrimaryResult: (ticker, result, dividendsUnavailable = false, lumpSumResult = null) =>
-    set({
-      primary: {
+  setPrimaryResult: (ticker, result, dividendsUnavailable = false, lumpSumResult = null, dcaResult = null) =>
+    set((state) => ({
+      primary: withRisk({
         ticker,
         result,
         lumpSumResult,
+        dcaResult,
+        risk: null,
         isLoading: false,
         error: null,
         dividendsUnavailable,
         retryAt: null,
-      },
-    }),
+      }, state.riskFreeRate),
+    })),
 
   setPrimaryLoading: (ticker) =>
     set((state) => ({
@@ -103,6 +133,8 @@ export const useSimulationStore = create<SimulationState>((set) => ({
         ...(state.primary || createEmptySimulation(ticker)),
         ticker,
         lumpSumResult: null,
+        dcaResult: null,
+        risk: null,
         isLoading: true,
         error: null,
         dividendsUnavailable: false,
@@ -116,6 +148,8 @@ export const useSimulationStore = create<SimulationState>((set) => ({
         ...(state.primary || createEmptySimulation(ticker)),
         ticker,
         lumpSumResult: null,
+        dcaResult: null,
+        risk: null,
         isLoading: false,
         error,
         dividendsUnavailable: false,
@@ -126,15 +160,17 @@ export const useSimulationStore = create<SimulationState>((set) => ({
   addComparisonResult: (ticker, result, dividendsUnavailable = false, lumpSumResult = null) =>
     set((state) => {
       const existing = state.comparisons.findIndex((c) => c.ticker === ticker)
-      const newSim: TickerSimulation = {
+      const newSim = withRisk({
         ticker,
         result,
         lumpSumResult,
+        dcaResult: null,
+        risk: null,
         isLoading: false,
         error: null,
         dividendsUnavailable,
         retryAt: null,
-      }
+      }, state.riskFreeRate)
 
       if (existing >= 0) {
         const updated = [...state.comparisons]
@@ -154,6 +190,8 @@ export const useSimulationStore = create<SimulationState>((set) => ({
         updated[existing] = {
           ...updated[existing],
           lumpSumResult: null,
+          dcaResult: null,
+          risk: null,
           isLoading: true,
           error: null,
           dividendsUnavailable: false,
@@ -179,6 +217,8 @@ export const useSimulationStore = create<SimulationState>((set) => ({
         updated[existing] = {
           ...updated[existing],
           lumpSumResult: null,
+          dcaResult: null,
+          risk: null,
           isLoading: false,
           error,
           dividendsUnavailable: false,
@@ -199,15 +239,17 @@ export const useSimulationStore = create<SimulationState>((set) => ({
   addBenchmarkResult: (ticker, result, dividendsUnavailable = false, lumpSumResult = null) =>
     set((state) => {
       const existing = state.benchmarks.findIndex((b) => b.ticker === ticker)
-      const newSim: TickerSimulation = {
+      const newSim = withRisk({
         ticker,
         result,
         lumpSumResult,
+        dcaResult: null,
+        risk: null,
         isLoading: false,
         error: null,
         dividendsUnavailable,
         retryAt: null,
-      }
+      }, state.riskFreeRate)
 
       if (existing >= 0) {
         const updated = [...state.benchmarks]
@@ -227,6 +269,8 @@ export const useSimulationStore = create<SimulationState>((set) => ({
         updated[existing] = {
           ...updated[existing],
           lumpSumResult: null,
+          dcaResult: null,
+          risk: null,
           isLoading: true,
           error: null,
           dividendsUnavailable: false,
@@ -252,6 +296,8 @@ export const useSimulationStore = create<SimulationState>((set) => ({
         updated[existing] = {
           ...updated[existing],
           lumpSumResult: null,
+          dcaResult: null,
+          risk: null,
           isLoading: false,
           error,
           dividendsUnavailable: false,
@@ -268,5 +314,17 @@ export const useSimulationStore = create<SimulationState>((set) => ({
       benchmarks: state.benchmarks.filter((b) => b.ticker !== ticker),
     })),
 
+  // Recompute Sharpe/Sortino for every loaded result without re-running simulations
+  setRiskFreeRate: (rate) =>
+    set((state) => {
+      if (rate === state.riskFreeRate) return state
+      return {
+        riskFreeRate: rate,
+        primary: state.primary && withRisk(state.primary, rate),
+        comparisons: state.comparisons.map((c) => withRisk(c, rate)),
+        benchmarks: state.benchmarks.map((b) => withRisk(b, rate)),
+      }
+    }),
+
   clearAll: () => set({ primary: null, comparisons: [], benchmarks: [] }),
 }))